@@ -0,0 +1,502 @@
+'use client';
+
+/**
+ * Audit Logs Page
+ *
+ * Audit log explorer: filter by user, shop, action, resource, date range and
+ * suspicious flag, inspect an entry's changes side by side, and export the
+ * matching entries as CSV or JSONL for compliance reviews. "Verify integrity"
+ * checks the shop's audit hash chain (the filtered shop or the platform chain
+ * for super admins).
+ * Role-based: Super admins see all shops, shop admins see only their shop.
+ */
+
+import { useState } from 'react';
+import { trpc } from '@/lib/trpc';
+import { usePermission } from '@/hooks/usePermission';
+import PageHeader from '@/components/admin/ui/PageHeader';
+import LoadingSkeleton from '@/components/admin/ui/LoadingSkeleton';
+import EmptyState from '@/components/admin/ui/EmptyState';
+import ErrorAlert from '@/components/admin/ui/ErrorAlert';
+import AuditDiffViewer from '@/components/admin/audit/AuditDiffViewer';
+
+const PAGE_SIZE = 50;
+
+const SUSPICIOUS_FILTERS = [
+  { value: '', label: 'All entries' },
+  { value: 'true', label: 'Suspicious only' },
+  { value: 'false', label: 'Not suspicious' },
+] as const;
+
+interface Filters {
+  shopId: string;
+  userEmail: string;
+  action: string;
+  resource: string;
+  dateFrom: string; // YYYY-MM-DD
+  dateTo: string; // YYYY-MM-DD
+  isSuspicious: '' | 'true' | 'false';
+}
+
+const EMPTY_FILTERS: Filters = {
+  shopId: '',
+  userEmail: '',
+  action: '',
+  resource: '',
+  dateFrom: '',
+  dateTo: '',
+  isSuspicious: '',
+};
+
+const inputClassName =
+  'block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg shadow-sm placeholder-gray-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white sm:text-sm';
+
+/**
+ * API filters from the form (dates cover whole local days)
+ */
+function toQueryFilters(filters: Filters) {
+  return {
+    shopId: filters.shopId || undefined,
+    userEmail: filters.userEmail.trim() || undefined,
+    action: filters.action || undefined,
+    resource: filters.resource || undefined,
+    dateFrom: filters.dateFrom ? new Date(`${filters.dateFrom}T00:00:00`).toISOString() : undefined,
+    dateTo: filters.dateTo ? new Date(`${filters.dateTo}T23:59:59.999`).toISOString() : undefined,
+    isSuspicious: filters.isSuspicious ? filters.isSuspicious === 'true' : undefined,
+  };
+}
+
+export default function AuditLogsPage() {
+  const [draft, setDraft] = useState<Filters>(EMPTY_FILTERS);
+  const [filters, setFilters] = useState<Filters>(EMPTY_FILTERS);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [exportError, setExportError] = useState('');
+  const [verifyError, setVerifyError] = useState('');
+
+  const canExport = usePermission('audit', 'export');
+  const queryFilters = toQueryFilters(filters);
+
+  const { data: filterOptions } = trpc.auditLogs.getFilterOptions.useQuery();
+
+  const {
+    data,
+    isLoading,
+    error,
+    refetch,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = trpc.auditLogs.list.useInfiniteQuery(
+    { ...queryFilters, limit: PAGE_SIZE },
+    { getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined }
+  );
+
+  const { data: selected, isLoading: isSelectedLoading } = trpc.auditLogs.getById.useQuery(
+    { id: selectedId ?? '' },
+    { enabled: !!selectedId }
+  );
+
+  const exportMutation = trpc.auditLogs.export.useMutation({
+    onSuccess: (result) => {
+      const blob = new Blob([result.content], { type: result.mimeType });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = result.fileName;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+
+      if (result.truncated) {
+        setExportError(
+          `Only the newest ${result.rowCount} entries were exported. Narrow the filters to export the rest.`
+        );
+      }
+    },
+    onError: (error) => {
+      setExportError(error.message);
+    },
+  });
+
+  const verifyMutation = trpc.auditLogs.verifyChain.useMutation({
+    onError: (error) => {
+      setVerifyError(error.message);
+    },
+  });
+
+  const handleVerify = () => {
+    setVerifyError('');
+    verifyMutation.mutate({ shopId: filters.shopId || undefined });
+  };
+
+  const handleExport = (format: 'csv' | 'jsonl') => {
+    setExportError('');
+    exportMutation.mutate({ ...queryFilters, format });
+  };
+
+  const applyFilters = (e: React.FormEvent) => {
+    e.preventDefault();
+    setFilters(draft);
+  };
+
+  const resetFilters = () => {
+    setDraft(EMPTY_FILTERS);
+    setFilters(EMPTY_FILTERS);
+  };
+
+  const entries = data?.pages.flatMap((page) => page.items) ?? [];
+  const isFiltered = JSON.stringify(filters) !== JSON.stringify(EMPTY_FILTERS);
+
+  return (
+    <div>
+      {/* Entry Detail */}
+      {selectedId && (
+        <div className="fixed inset-0 z-50 overflow-y-auto">
+          <div
+            className="fixed inset-0 bg-black bg-opacity-50 transition-opacity"
+            onClick={() => setSelectedId(null)}
+          />
+          <div className="flex min-h-full items-center justify-center p-4">
+            <div className="relative bg-white dark:bg-gray-800 rounded-lg shadow-xl max-w-4xl w-full p-6">
+              <div className="flex items-start justify-between mb-4">
+                <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+                  Audit Entry
+                </h3>
+                <button
+                  onClick={() => setSelectedId(null)}
+                  className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+                  aria-label="Close"
+                >
+                  <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                  </svg>
+                </button>
+              </div>
+
+              {isSelectedLoading || !selected ? (
+                <LoadingSkeleton type="form" rows={4} />
+              ) : (
+                <div className="space-y-6">
+                  <dl className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-2 text-sm">
+                    {[
+                      ['When', new Date(selected.createdAt).toLocaleString()],
+                      ['Who', selected.user?.email ?? selected.userEmail ?? 'System'],
+                      ['Action', selected.action],
+                      ['Resource', `${selected.resource}${selected.resourceId ? ` · ${selected.resourceId}` : ''}`],
+                      ['Shop', selected.shop?.name ?? 'Platform'],
+                      ['IP address', selected.ipAddress],
+                      ['User agent', selected.userAgent],
+                      ['Chain', selected.chainSeq ? `#${selected.chainSeq} · ${selected.hash?.slice(0, 16)}…` : null],
+                      ['Flag', selected.isSuspicious ? selected.flagReason || 'Suspicious' : null],
+                    ].map(([label, value]) => (
+                      <div key={label} className="flex justify-between gap-4">
+                        <dt className="text-gray-500 dark:text-gray-400">{label}</dt>
+                        <dd className="text-gray-900 dark:text-white text-right truncate" title={value ?? undefined}>
+                          {value || '—'}
+                        </dd>
+                      </div>
+                    ))}
+                  </dl>
+
+                  <div>
+                    <h4 className="text-sm font-semibold text-gray-900 dark:text-white mb-3">
+                      Changes
+                    </h4>
+                    <AuditDiffViewer
+                      before={selected.changesBefore}
+                      after={selected.changesAfter}
+                      diff={selected.diff}
+                    />
+                  </div>
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+
+      <PageHeader
+        title="Audit Logs"
+        description="Who did what, when, and what changed"
+        actions={
+          <div className="flex gap-2">
+            <button
+              onClick={handleVerify}
+              disabled={verifyMutation.isPending}
+              className="px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-sm font-medium text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-800 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50 transition-colors"
+            >
+              {verifyMutation.isPending ? 'Verifying...' : 'Verify integrity'}
+            </button>
+            {canExport && (
+              <>
+                <button
+                  onClick={() => handleExport('csv')}
+                  disabled={exportMutation.isPending}
+                  className="px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-sm font-medium text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-800 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50 transition-colors"
+                >
+                  Export CSV
+                </button>
+                <button
+                  onClick={() => handleExport('jsonl')}
+                  disabled={exportMutation.isPending}
+                  className="px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-sm font-medium text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-800 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50 transition-colors"
+                >
+                  Export JSONL
+                </button>
+              </>
+            )}
+          </div>
+        }
+      />
+
+      {verifyError && (
+        <div className="mb-6">
+          <ErrorAlert message={verifyError} onRetry={handleVerify} />
+        </div>
+      )}
+
+      {verifyMutation.data && (
+        <div
+          className={`mb-6 p-3 border rounded-lg ${
+            verifyMutation.data.valid
+              ? 'bg-green-50 dark:bg-green-900/10 border-green-200 dark:border-green-900/50'
+              : 'bg-red-50 dark:bg-red-900/10 border-red-200 dark:border-red-900/50'
+          }`}
+        >
+          {verifyMutation.data.valid ? (
+            <p className="text-sm text-green-800 dark:text-green-200">
+              Audit chain intact: {verifyMutation.data.entriesChecked} entries verified
+              {verifyMutation.data.lastCheckpointAt
+                ? `, last signed checkpoint ${new Date(verifyMutation.data.lastCheckpointAt).toLocaleString()}`
+                : ', no signed checkpoints yet'}
+              .
+            </p>
+          ) : (
+            <p className="text-sm text-red-800 dark:text-red-200">
+              Audit chain broken at entry #{verifyMutation.data.brokenLink?.chainSeq}:{' '}
+              {verifyMutation.data.brokenLink?.message}
+            </p>
+          )}
+          {verifyMutation.data.untrustedCheckpoints > 0 && (
+            <p className="mt-1 text-sm text-yellow-800 dark:text-yellow-200">
+              {verifyMutation.data.untrustedCheckpoints} checkpoint(s) with an invalid or unverifiable
+              signature were ignored.
+            </p>
+          )}
+        </div>
+      )}
+
+      {exportError && (
+        <div className="mb-6 p-3 bg-yellow-50 dark:bg-yellow-900/10 border border-yellow-200 dark:border-yellow-900/50 rounded-lg">
+          <p className="text-sm text-yellow-800 dark:text-yellow-200">{exportError}</p>
+        </div>
+      )}
+
+      {/* Filters */}
+      <form
+        onSubmit={applyFilters}
+        className="mb-6 bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-4"
+      >
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+          <input
+            type="text"
+            value={draft.userEmail}
+            onChange={(e) => setDraft({ ...draft, userEmail: e.target.value })}
+            placeholder="User email"
+            className={inputClassName}
+          />
+          {filterOptions && filterOptions.shops.length > 0 && (
+            <select
+              value={draft.shopId}
+              onChange={(e) => setDraft({ ...draft, shopId: e.target.value })}
+              className={inputClassName}
+            >
+              <option value="">All shops</option>
+              {filterOptions.shops.map((shop) => (
+                <option key={shop.id} value={shop.id}>
+                  {shop.name}
+                </option>
+              ))}
+            </select>
+          )}
+          <select
+            value={draft.action}
+            onChange={(e) => setDraft({ ...draft, action: e.target.value })}
+            className={inputClassName}
+          >
+            <option value="">All actions</option>
+            {filterOptions?.actions.map((action) => (
+              <option key={action} value={action}>
+                {action}
+              </option>
+            ))}
+          </select>
+          <select
+            value={draft.resource}
+            onChange={(e) => setDraft({ ...draft, resource: e.target.value })}
+            className={inputClassName}
+          >
+            <option value="">All resources</option>
+            {filterOptions?.resources.map((resource) => (
+              <option key={resource} value={resource}>
+                {resource}
+              </option>
+            ))}
+          </select>
+          <input
+            type="date"
+            value={draft.dateFrom}
+            onChange={(e) => setDraft({ ...draft, dateFrom: e.target.value })}
+            aria-label="From date"
+            className={inputClassName}
+          />
+          <input
+            type="date"
+            value={draft.dateTo}
+            onChange={(e) => setDraft({ ...draft, dateTo: e.target.value })}
+            aria-label="To date"
+            className={inputClassName}
+          />
+          <select
+            value={draft.isSuspicious}
+            onChange={(e) =>
+              setDraft({ ...draft, isSuspicious: e.target.value as Filters['isSuspicious'] })
+            }
+            className={inputClassName}
+          >
+            {SUSPICIOUS_FILTERS.map((filter) => (
+              <option key={filter.value} value={filter.value}>
+                {filter.label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="mt-4 flex justify-end gap-2">
+          <button
+            type="button"
+            onClick={resetFilters}
+            className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+          >
+            Reset
+          </button>
+          <button
+            type="submit"
+            className="px-4 py-2 rounded-lg text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 transition-colors"
+          >
+            Apply filters
+          </button>
+        </div>
+      </form>
+
+      {/* Entries */}
+      {isLoading ? (
+        <LoadingSkeleton type="table" rows={10} />
+      ) : error ? (
+        <ErrorAlert message={error.message} onRetry={() => refetch()} />
+      ) : entries.length === 0 ? (
+        <EmptyState
+          icon={
+            <svg className="w-12 h-12" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+            </svg>
+          }
+          title="No audit entries found"
+          description={isFiltered ? 'Try other filters' : 'Recorded actions will appear here'}
+        />
+      ) : (
+        <div className="bg-white dark:bg-gray-800 shadow-sm rounded-lg border border-gray-200 dark:border-gray-700 overflow-hidden">
+          <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+            <thead className="bg-gray-50 dark:bg-gray-900">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                  When
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                  Who
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                  Action
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                  Resource
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                  IP address
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+              {entries.map((entry) => (
+                <tr key={entry.id} className="hover:bg-gray-50 dark:hover:bg-gray-700/50 transition-colors">
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                    {new Date(entry.createdAt).toLocaleString()}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <div className="text-sm font-medium text-gray-900 dark:text-white">
+                      {entry.user?.email ?? entry.userEmail ?? 'System'}
+                    </div>
+                    {entry.shop && (
+                      <div className="text-sm text-gray-500 dark:text-gray-400">{entry.shop.name}</div>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <span className="inline-flex px-2 py-1 text-xs font-semibold rounded-full bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300">
+                      {entry.action}
+                    </span>
+                    {entry.isSuspicious && (
+                      <span
+                        className="ml-2 inline-flex px-2 py-1 text-xs font-semibold rounded-full bg-red-100 dark:bg-red-900 text-red-800 dark:text-red-200"
+                        title={entry.flagReason ?? undefined}
+                      >
+                        Suspicious
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-white">
+                    {entry.resource}
+                    {entry.resourceId && (
+                      <span className="ml-1 text-gray-500 dark:text-gray-400 font-mono text-xs">
+                        {entry.resourceId}
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                    {entry.ipAddress}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                    <button
+                      onClick={() => setSelectedId(entry.id)}
+                      className="text-blue-600 dark:text-blue-400 hover:text-blue-900 dark:hover:text-blue-300 transition-colors"
+                    >
+                      View
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {/* Pagination */}
+          {hasNextPage && (
+            <div className="bg-gray-50 dark:bg-gray-900 px-6 py-4 flex items-center justify-between border-t border-gray-200 dark:border-gray-700">
+              <div className="text-sm text-gray-700 dark:text-gray-300">
+                Showing {entries.length} entries
+              </div>
+              <button
+                onClick={() => fetchNextPage()}
+                disabled={isFetchingNextPage}
+                className="px-3 py-1 border border-gray-300 dark:border-gray-600 rounded-lg text-sm font-medium text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-800 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                {isFetchingNextPage ? 'Loading...' : 'Load more'}
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -3,20 +3,43 @@
 /**
  * User Profile Page
  *
- * View and edit user profile, change password, manage MFA.
+ * View and edit user profile, change password, manage MFA (authenticator app and
+ * passkeys) and signed-in devices.
  */
 
 import { useAuth } from '@/contexts/AuthContext';
 import { useRouter } from 'next/navigation';
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
+import { trpc } from '@/lib/trpc';
 import DisableMFAModal from '@/components/security/DisableMFAModal';
 import RegenerateBackupCodesModal from '@/components/security/RegenerateBackupCodesModal';
+import ActiveSessionsPanel from '@/components/security/ActiveSessionsPanel';
+import ChangePasswordModal from '@/components/security/ChangePasswordModal';
+import PasskeysPanel from '@/components/security/PasskeysPanel';
 
 export default function ProfilePage() {
   const { user, refreshAuth } = useAuth();
   const router = useRouter();
   const [showDisableMFAModal, setShowDisableMFAModal] = useState(false);
   const [showRegenerateCodesModal, setShowRegenerateCodesModal] = useState(false);
+  const [showChangePasswordModal, setShowChangePasswordModal] = useState(false);
+  const [passwordChangeRequired, setPasswordChangeRequired] = useState(false);
+
+  const { data: mfaStatus, refetch: refetchMFAStatus } = trpc.auth.mfaStatus.useQuery();
+
+  // A factor was added or removed: MFA status in the token may have changed
+  const handleMFAChange = () => {
+    refetchMFAStatus();
+    refreshAuth();
+  };
+
+  // Login redirects here with ?required=password when the policy forces a change
+  useEffect(() => {
+    if (new URLSearchParams(window.location.search).get('required') === 'password') {
+      setPasswordChangeRequired(true);
+      setShowChangePasswordModal(true);
+    }
+  }, []);
 
   return (
     <div className="space-y-6">
@@ -83,14 +106,31 @@ export default function ProfilePage() {
             <div className="flex items-center justify-between py-3 border-b border-gray-200 dark:border-gray-700">
               <div className="flex-1">
                 <h4 className="text-sm font-medium text-gray-900 dark:text-white">
-                  Two-Factor Authentication
+                  Password
                 </h4>
                 <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
-                  Add an extra layer of security to your account
+                  Change the password used to sign in
+                </p>
+              </div>
+              <button
+                onClick={() => setShowChangePasswordModal(true)}
+                className="px-3 py-1.5 text-sm font-medium text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/10 rounded-lg transition-colors"
+              >
+                Change
+              </button>
+            </div>
+
+            <div className="flex items-center justify-between py-3 border-b border-gray-200 dark:border-gray-700">
+              <div className="flex-1">
+                <h4 className="text-sm font-medium text-gray-900 dark:text-white">
+                  Authenticator App
+                </h4>
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                  Add an extra layer of security to your account with one-time codes
                 </p>
               </div>
               <div className="flex items-center space-x-3">
-                {user?.mfaEnabled ? (
+                {mfaStatus?.totp ? (
                   <>
                     <span className="inline-flex items-center px-2.5 py-0.5 rounded text-xs font-medium bg-green-100 dark:bg-green-900 text-green-800 dark:text-green-200">
                       Enabled
@@ -127,6 +167,12 @@ export default function ProfilePage() {
         </div>
       </div>
 
+      {/* Passkeys */}
+      <PasskeysPanel onChange={handleMFAChange} />
+
+      {/* Active Devices */}
+      <ActiveSessionsPanel />
+
       {/* Placeholder for additional sections */}
       <div className="bg-white dark:bg-gray-800 shadow rounded-lg">
         <div className="px-4 py-5 sm:p-6">
@@ -156,7 +202,6 @@ export default function ProfilePage() {
               </p>
               <ul className="mt-2 text-xs text-gray-500 dark:text-gray-400 space-y-1">
                 <li>• Edit profile information</li>
-                <li>• Change password</li>
                 <li>• Activity history</li>
                 <li>• Notification preferences</li>
               </ul>
@@ -171,16 +216,22 @@ export default function ProfilePage() {
           <DisableMFAModal
             isOpen={showDisableMFAModal}
             onClose={() => setShowDisableMFAModal(false)}
-            userId={user.userId}
-            onSuccess={() => {
-              // Refresh user data to update MFA status
-              refreshAuth();
-            }}
+            onSuccess={handleMFAChange}
           />
           <RegenerateBackupCodesModal
             isOpen={showRegenerateCodesModal}
             onClose={() => setShowRegenerateCodesModal(false)}
-            userId={user.userId}
+          />
+          <ChangePasswordModal
+            isOpen={showChangePasswordModal}
+            onClose={() => setShowChangePasswordModal(false)}
+            required={passwordChangeRequired}
+            onSuccess={() => {
+              if (passwordChangeRequired) {
+                setPasswordChangeRequired(false);
+                router.push('/admin');
+              }
+            }}
           />
         </>
       )}
@@ -0,0 +1,434 @@
+'use client';
+
+/**
+ * Receipts Page
+ *
+ * Receipt review queue: OCR results, fraud score breakdown and
+ * verify/reject/flag actions.
+ * Role-based: Super admins see all shops, shop admins see only their shop.
+ */
+
+import { useState } from 'react';
+import { trpc } from '@/lib/trpc';
+import { usePermission } from '@/hooks/usePermission';
+import PageHeader from '@/components/admin/ui/PageHeader';
+import LoadingSkeleton from '@/components/admin/ui/LoadingSkeleton';
+import EmptyState from '@/components/admin/ui/EmptyState';
+import ErrorAlert from '@/components/admin/ui/ErrorAlert';
+import FraudBreakdown from '@/components/admin/receipts/FraudBreakdown';
+
+const PAGE_SIZE = 20;
+
+const STATUS_FILTERS = [
+  { value: 'MANUAL_REVIEW', label: 'Needs review' },
+  { value: 'OCR_COMPLETED', label: 'OCR completed' },
+  { value: 'OCR_FAILED', label: 'OCR failed' },
+  { value: 'PENDING_OCR', label: 'Pending OCR' },
+  { value: 'VERIFIED', label: 'Verified' },
+  { value: 'REJECTED', label: 'Rejected' },
+  { value: 'FRAUDULENT', label: 'Fraudulent' },
+] as const;
+
+type StatusFilter = (typeof STATUS_FILTERS)[number]['value'];
+
+const STATUS_STYLES: Record<string, string> = {
+  PENDING_OCR: 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300',
+  OCR_PROCESSING: 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300',
+  OCR_COMPLETED: 'bg-blue-100 dark:bg-blue-900 text-blue-800 dark:text-blue-200',
+  OCR_FAILED: 'bg-orange-100 dark:bg-orange-900 text-orange-800 dark:text-orange-200',
+  MANUAL_REVIEW: 'bg-yellow-100 dark:bg-yellow-900 text-yellow-800 dark:text-yellow-200',
+  VERIFIED: 'bg-green-100 dark:bg-green-900 text-green-800 dark:text-green-200',
+  REJECTED: 'bg-red-100 dark:bg-red-900 text-red-800 dark:text-red-200',
+  FRAUDULENT: 'bg-red-100 dark:bg-red-900 text-red-800 dark:text-red-200',
+};
+
+export default function ReceiptsPage() {
+  const [status, setStatus] = useState<StatusFilter | undefined>('MANUAL_REVIEW');
+  const [page, setPage] = useState(1);
+  const [reviewReceiptId, setReviewReceiptId] = useState<string | null>(null);
+  const [notes, setNotes] = useState('');
+  const [manualTotal, setManualTotal] = useState('');
+
+  const canVerify = usePermission('receipts', 'verify');
+  const canReject = usePermission('receipts', 'reject');
+
+  // Fetch receipts
+  const {
+    data: receiptsData,
+    isLoading,
+    error,
+    refetch,
+  } = trpc.receipts.list.useQuery({
+    status,
+    limit: PAGE_SIZE,
+    offset: (page - 1) * PAGE_SIZE,
+  });
+
+  // Fetch receipt under review
+  const { data: reviewReceipt, isLoading: isReviewLoading } = trpc.receipts.getById.useQuery(
+    { id: reviewReceiptId ?? '' },
+    { enabled: !!reviewReceiptId }
+  );
+
+  // Review mutation
+  const reviewMutation = trpc.receipts.review.useMutation({
+    onSuccess: () => {
+      closeReview();
+      refetch();
+    },
+    onError: (error) => {
+      alert(`Failed to review receipt: ${error.message}`);
+    },
+  });
+
+  const closeReview = () => {
+    setReviewReceiptId(null);
+    setNotes('');
+    setManualTotal('');
+  };
+
+  const submitReview = (outcome: 'VERIFIED' | 'REJECTED' | 'FRAUDULENT') => {
+    if (!reviewReceiptId) return;
+
+    const total = manualTotal.trim() ? Number(manualTotal) : undefined;
+    if (total !== undefined && !Number.isFinite(total)) {
+      alert('Manual total must be a number');
+      return;
+    }
+
+    reviewMutation.mutate({
+      receiptId: reviewReceiptId,
+      status: outcome,
+      notes: notes.trim() || undefined,
+      manualTotal: total,
+    });
+  };
+
+  if (isLoading) {
+    return (
+      <div>
+        <PageHeader
+          title="Receipts"
+          description="Review uploaded receipts"
+        />
+        <LoadingSkeleton type="table" rows={10} />
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div>
+        <PageHeader
+          title="Receipts"
+          description="Review uploaded receipts"
+        />
+        <ErrorAlert
+          message={error.message}
+          onRetry={() => refetch()}
+        />
+      </div>
+    );
+  }
+
+  const { receipts, total } = receiptsData || { receipts: [], total: 0 };
+  const totalPages = Math.ceil(total / PAGE_SIZE);
+  const isFinal =
+    reviewReceipt?.status === 'VERIFIED' || reviewReceipt?.status === 'FRAUDULENT';
+
+  return (
+    <div>
+      {/* Review Panel */}
+      {reviewReceiptId && (
+        <div className="fixed inset-0 z-50 overflow-y-auto">
+          <div
+            className="fixed inset-0 bg-black bg-opacity-50 transition-opacity"
+            onClick={closeReview}
+          />
+          <div className="flex min-h-full items-center justify-center p-4">
+            <div className="relative bg-white dark:bg-gray-800 rounded-lg shadow-xl max-w-2xl w-full p-6">
+              <div className="flex items-start justify-between mb-4">
+                <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+                  Review Receipt
+                </h3>
+                <button
+                  onClick={closeReview}
+                  className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+                  aria-label="Close"
+                >
+                  <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                  </svg>
+                </button>
+              </div>
+
+              {isReviewLoading || !reviewReceipt ? (
+                <LoadingSkeleton type="form" rows={4} />
+              ) : (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                  {/* OCR Data */}
+                  <div>
+                    <h4 className="text-sm font-semibold text-gray-900 dark:text-white mb-3">
+                      Extracted data
+                    </h4>
+                    <dl className="space-y-2 text-sm">
+                      {[
+                        ['Merchant', reviewReceipt.merchantName],
+                        ['Receipt #', reviewReceipt.receiptNumber],
+                        [
+                          'Date',
+                          reviewReceipt.receiptDate
+                            ? new Date(reviewReceipt.receiptDate).toLocaleDateString()
+                            : null,
+                        ],
+                        [
+                          'Total',
+                          reviewReceipt.totalAmount
+                            ? `${Number(reviewReceipt.totalAmount).toFixed(2)} ${reviewReceipt.currency}`
+                            : null,
+                        ],
+                        [
+                          'OCR confidence',
+                          reviewReceipt.ocrConfidence !== null
+                            ? `${Math.round(reviewReceipt.ocrConfidence)}%`
+                            : null,
+                        ],
+                        ['Uploaded by', reviewReceipt.user.email],
+                        ['Campaign', reviewReceipt.campaign?.name ?? null],
+                      ].map(([label, value]) => (
+                        <div key={label} className="flex justify-between gap-4">
+                          <dt className="text-gray-500 dark:text-gray-400">{label}</dt>
+                          <dd className="text-gray-900 dark:text-white text-right truncate">
+                            {value || '—'}
+                          </dd>
+                        </div>
+                      ))}
+                    </dl>
+                  </div>
+
+                  {/* Fraud Breakdown */}
+                  <div>
+                    <h4 className="text-sm font-semibold text-gray-900 dark:text-white mb-3">
+                      Fraud checks
+                    </h4>
+                    <FraudBreakdown
+                      score={reviewReceipt.fraudScore}
+                      details={reviewReceipt.fraudDetails}
+                    />
+                  </div>
+
+                  {/* Review Form */}
+                  {!isFinal && (canVerify || canReject) && (
+                    <div className="md:col-span-2 border-t border-gray-200 dark:border-gray-700 pt-4">
+                      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-4">
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                            Corrected total
+                          </label>
+                          <input
+                            type="number"
+                            step="0.01"
+                            value={manualTotal}
+                            onChange={(e) => setManualTotal(e.target.value)}
+                            placeholder="Optional"
+                            className="block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg shadow-sm placeholder-gray-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white sm:text-sm"
+                          />
+                        </div>
+                        <div className="sm:col-span-2">
+                          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                            Notes
+                          </label>
+                          <input
+                            type="text"
+                            value={notes}
+                            onChange={(e) => setNotes(e.target.value)}
+                            maxLength={500}
+                            placeholder="Optional"
+                            className="block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg shadow-sm placeholder-gray-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white sm:text-sm"
+                          />
+                        </div>
+                      </div>
+                      <div className="flex justify-end gap-3">
+                        {canReject && (
+                          <>
+                            <button
+                              onClick={() => submitReview('FRAUDULENT')}
+                              disabled={reviewMutation.isPending}
+                              className="px-4 py-2 rounded-lg text-sm font-medium text-white bg-red-600 hover:bg-red-700 disabled:opacity-50 transition-colors"
+                            >
+                              Flag as fraud
+                            </button>
+                            <button
+                              onClick={() => submitReview('REJECTED')}
+                              disabled={reviewMutation.isPending}
+                              className="px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-sm font-medium text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-800 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50 transition-colors"
+                            >
+                              Reject
+                            </button>
+                          </>
+                        )}
+                        {canVerify && (
+                          <button
+                            onClick={() => submitReview('VERIFIED')}
+                            disabled={reviewMutation.isPending}
+                            className="px-4 py-2 rounded-lg text-sm font-medium text-white bg-green-600 hover:bg-green-700 disabled:opacity-50 transition-colors"
+                          >
+                            Verify
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+
+      <PageHeader
+        title="Receipts"
+        description={`${total} receipt(s)`}
+      />
+
+      {/* Filters */}
+      <div className="mb-6 bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-4">
+        <div className="sm:w-64">
+          <select
+            value={status || ''}
+            onChange={(e) => {
+              setStatus((e.target.value || undefined) as StatusFilter | undefined);
+              setPage(1);
+            }}
+            className="block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white sm:text-sm"
+          >
+            <option value="">All statuses</option>
+            {STATUS_FILTERS.map((filter) => (
+              <option key={filter.value} value={filter.value}>
+                {filter.label}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {/* Receipts Table */}
+      {receipts.length === 0 ? (
+        <EmptyState
+          icon={
+            <svg className="w-12 h-12" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+            </svg>
+          }
+          title="No receipts found"
+          description={status ? 'Try another status filter' : 'Uploaded receipts will appear here'}
+        />
+      ) : (
+        <div className="bg-white dark:bg-gray-800 shadow-sm rounded-lg border border-gray-200 dark:border-gray-700 overflow-hidden">
+          <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+            <thead className="bg-gray-50 dark:bg-gray-900">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                  Receipt
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                  Uploaded by
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                  Total
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                  Status
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                  Fraud score
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+              {receipts.map((receipt) => (
+                <tr key={receipt.id} className="hover:bg-gray-50 dark:hover:bg-gray-700/50 transition-colors">
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <div className="text-sm font-medium text-gray-900 dark:text-white">
+                      {receipt.merchantName || receipt.fileName || 'Unknown merchant'}
+                    </div>
+                    <div className="text-sm text-gray-500 dark:text-gray-400">
+                      {new Date(receipt.createdAt).toLocaleString()}
+                    </div>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                    {receipt.user.email}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right text-sm text-gray-900 dark:text-white">
+                    {receipt.totalAmount ? Number(receipt.totalAmount).toFixed(2) : '—'}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <span
+                      className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
+                        STATUS_STYLES[receipt.status] ?? STATUS_STYLES.PENDING_OCR
+                      }`}
+                    >
+                      {receipt.status.replace(/_/g, ' ')}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    {receipt.fraudScore === null ? (
+                      <span className="text-sm text-gray-400">—</span>
+                    ) : (
+                      <span
+                        className={`text-sm font-semibold ${
+                          receipt.isSuspicious
+                            ? 'text-red-600 dark:text-red-400'
+                            : 'text-gray-900 dark:text-white'
+                        }`}
+                      >
+                        {receipt.fraudScore}
+                        {receipt.isSuspicious && ' ⚠'}
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                    <button
+                      onClick={() => setReviewReceiptId(receipt.id)}
+                      className="text-blue-600 dark:text-blue-400 hover:text-blue-900 dark:hover:text-blue-300 transition-colors"
+                    >
+                      Review
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {/* Pagination */}
+          {totalPages > 1 && (
+            <div className="bg-gray-50 dark:bg-gray-900 px-6 py-4 flex items-center justify-between border-t border-gray-200 dark:border-gray-700">
+              <div className="text-sm text-gray-700 dark:text-gray-300">
+                Page {page} of {totalPages} ({total} total)
+              </div>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => setPage((p) => Math.max(1, p - 1))}
+                  disabled={page === 1}
+                  className="px-3 py-1 border border-gray-300 dark:border-gray-600 rounded-lg text-sm font-medium text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-800 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                  Previous
+                </button>
+                <button
+                  onClick={() => setPage((p) => Math.min(totalPages, p + 1))}
+                  disabled={page === totalPages}
+                  className="px-3 py-1 border border-gray-300 dark:border-gray-600 rounded-lg text-sm font-medium text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-800 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                  Next
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
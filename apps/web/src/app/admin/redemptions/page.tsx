@@ -0,0 +1,438 @@
+'use client';
+
+/**
+ * Redemptions Page
+ *
+ * Approval queue for high-value redemptions with bulk approve/reject,
+ * plus the redemption history and the shop's high-value threshold.
+ * Role-based: Super admins see all shops, shop admins see only their shop.
+ */
+
+import { useState } from 'react';
+import { trpc } from '@/lib/trpc';
+import { useAuth } from '@/contexts/AuthContext';
+import { usePermission } from '@/hooks/usePermission';
+import PageHeader from '@/components/admin/ui/PageHeader';
+import LoadingSkeleton from '@/components/admin/ui/LoadingSkeleton';
+import EmptyState from '@/components/admin/ui/EmptyState';
+import ErrorAlert from '@/components/admin/ui/ErrorAlert';
+import ConfirmDialog from '@/components/admin/ui/ConfirmDialog';
+
+const PAGE_SIZE = 20;
+
+type RedemptionTab = 'PENDING' | 'ALL';
+
+const STATUS_STYLES: Record<string, string> = {
+  PENDING: 'bg-yellow-100 dark:bg-yellow-900 text-yellow-800 dark:text-yellow-200',
+  APPROVED: 'bg-green-100 dark:bg-green-900 text-green-800 dark:text-green-200',
+  COMPLETED: 'bg-green-100 dark:bg-green-900 text-green-800 dark:text-green-200',
+  REJECTED: 'bg-red-100 dark:bg-red-900 text-red-800 dark:text-red-200',
+  CANCELLED: 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300',
+};
+
+export default function RedemptionsPage() {
+  const { user } = useAuth();
+  const [tab, setTab] = useState<RedemptionTab>('PENDING');
+  const [page, setPage] = useState(1);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [isApproveOpen, setIsApproveOpen] = useState(false);
+  const [isRejectOpen, setIsRejectOpen] = useState(false);
+  const [rejectReason, setRejectReason] = useState('');
+  const [thresholdInput, setThresholdInput] = useState<string | null>(null);
+
+  const canApprove = usePermission('redemptions', 'approve_high_value');
+  const canUpdateSettings = usePermission('config', 'update');
+  const shopId = user?.shopId ?? undefined;
+
+  // Fetch redemptions
+  const {
+    data: redemptionsData,
+    isLoading,
+    error,
+    refetch,
+  } = trpc.redemptions.list.useQuery({
+    status: tab === 'PENDING' ? 'PENDING' : undefined,
+    highValueOnly: tab === 'PENDING',
+    limit: PAGE_SIZE,
+    offset: (page - 1) * PAGE_SIZE,
+  });
+
+  // Fetch shop threshold (shop admins only)
+  const { data: settings, refetch: refetchSettings } = trpc.redemptions.getSettings.useQuery(
+    { shopId: shopId ?? '' },
+    { enabled: !!shopId }
+  );
+
+  // Bulk review mutation
+  const reviewMutation = trpc.redemptions.review.useMutation({
+    onSuccess: (result) => {
+      setSelectedIds([]);
+      setIsApproveOpen(false);
+      setIsRejectOpen(false);
+      setRejectReason('');
+      if (result.skipped.length > 0) {
+        alert(`${result.skipped.length} redemption(s) were no longer pending and were skipped.`);
+      }
+      refetch();
+    },
+    onError: (error) => {
+      alert(`Failed to review redemptions: ${error.message}`);
+    },
+  });
+
+  // Threshold mutation
+  const settingsMutation = trpc.redemptions.updateSettings.useMutation({
+    onSuccess: () => {
+      setThresholdInput(null);
+      refetchSettings();
+    },
+    onError: (error) => {
+      alert(`Failed to update threshold: ${error.message}`);
+    },
+  });
+
+  const switchTab = (nextTab: RedemptionTab) => {
+    setTab(nextTab);
+    setPage(1);
+    setSelectedIds([]);
+  };
+
+  if (isLoading) {
+    return (
+      <div>
+        <PageHeader
+          title="Redemptions"
+          description="Review high-value redemptions and redemption history"
+        />
+        <LoadingSkeleton type="table" rows={10} />
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div>
+        <PageHeader
+          title="Redemptions"
+          description="Review high-value redemptions and redemption history"
+        />
+        <ErrorAlert
+          message={error.message}
+          onRetry={() => refetch()}
+        />
+      </div>
+    );
+  }
+
+  const { redemptions, total } = redemptionsData || { redemptions: [], total: 0 };
+  const totalPages = Math.ceil(total / PAGE_SIZE);
+  const selectable = tab === 'PENDING' && canApprove;
+  const pendingIds = redemptions
+    .filter((redemption) => redemption.status === 'PENDING')
+    .map((redemption) => redemption.id);
+  const allSelected = pendingIds.length > 0 && pendingIds.every((id) => selectedIds.includes(id));
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds((current) =>
+      current.includes(id) ? current.filter((selected) => selected !== id) : [...current, id]
+    );
+  };
+
+  return (
+    <div>
+      {/* Approve Confirmation Dialog */}
+      <ConfirmDialog
+        isOpen={isApproveOpen}
+        title="Approve Redemptions"
+        message={`Approve ${selectedIds.length} high-value redemption(s)? The customers will receive their rewards.`}
+        confirmLabel="Approve"
+        cancelLabel="Cancel"
+        confirmVariant="primary"
+        onConfirm={() => {
+          reviewMutation.mutate({ redemptionIds: selectedIds, decision: 'APPROVED' });
+        }}
+        onCancel={() => setIsApproveOpen(false)}
+        isLoading={reviewMutation.isPending}
+      />
+
+      {/* Reject Dialog */}
+      {isRejectOpen && (
+        <div className="fixed inset-0 z-50 overflow-y-auto">
+          <div
+            className="fixed inset-0 bg-black bg-opacity-50 transition-opacity"
+            onClick={() => setIsRejectOpen(false)}
+          />
+          <div className="flex min-h-full items-center justify-center p-4">
+            <div className="relative bg-white dark:bg-gray-800 rounded-lg shadow-xl max-w-md w-full p-6">
+              <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-2">
+                Reject Redemptions
+              </h3>
+              <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+                Reject {selectedIds.length} redemption(s). The voucher uses will be released.
+              </p>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Reason
+              </label>
+              <textarea
+                value={rejectReason}
+                onChange={(e) => setRejectReason(e.target.value)}
+                rows={3}
+                maxLength={500}
+                className="block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg shadow-sm placeholder-gray-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white sm:text-sm"
+                placeholder="Why are these redemptions rejected?"
+              />
+              <div className="mt-6 flex justify-end gap-3">
+                <button
+                  onClick={() => setIsRejectOpen(false)}
+                  disabled={reviewMutation.isPending}
+                  className="px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-sm font-medium text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-800 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50 transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={() => {
+                    reviewMutation.mutate({
+                      redemptionIds: selectedIds,
+                      decision: 'REJECTED',
+                      reason: rejectReason.trim(),
+                    });
+                  }}
+                  disabled={reviewMutation.isPending || !rejectReason.trim()}
+                  className="px-4 py-2 rounded-lg text-sm font-medium text-white bg-red-600 hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                  {reviewMutation.isPending ? 'Rejecting...' : 'Reject'}
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      <PageHeader
+        title="Redemptions"
+        description={
+          tab === 'PENDING'
+            ? `${total} high-value redemption(s) awaiting approval`
+            : `${total} total redemptions`
+        }
+        actions={
+          selectable &&
+          selectedIds.length > 0 && (
+            <div className="flex gap-3">
+              <button
+                onClick={() => setIsRejectOpen(true)}
+                className="inline-flex items-center px-4 py-2 border border-red-300 dark:border-red-700 text-sm font-medium rounded-lg text-red-700 dark:text-red-300 bg-white dark:bg-gray-800 hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors"
+              >
+                Reject ({selectedIds.length})
+              </button>
+              <button
+                onClick={() => setIsApproveOpen(true)}
+                className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-lg shadow-sm text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors"
+              >
+                Approve ({selectedIds.length})
+              </button>
+            </div>
+          )
+        }
+      />
+
+      {/* Threshold Settings (shop admins) */}
+      {settings && (
+        <div className="mb-6 bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-4">
+          <div className="flex flex-col sm:flex-row sm:items-center gap-4">
+            <div className="flex-1">
+              <div className="text-sm font-medium text-gray-900 dark:text-white">
+                High-value threshold
+              </div>
+              <div className="text-sm text-gray-500 dark:text-gray-400">
+                Redemptions worth more than this amount need approval
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              <input
+                type="number"
+                min={0}
+                step="0.01"
+                value={thresholdInput ?? String(settings.highValueThreshold)}
+                onChange={(e) => setThresholdInput(e.target.value)}
+                disabled={!canUpdateSettings}
+                className="block w-32 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white sm:text-sm disabled:opacity-50"
+              />
+              {canUpdateSettings && thresholdInput !== null && (
+                <button
+                  onClick={() => {
+                    const value = Number(thresholdInput);
+                    if (!shopId || !Number.isFinite(value) || value < 0) {
+                      alert('Threshold must be a positive number');
+                      return;
+                    }
+                    settingsMutation.mutate({ shopId, highValueThreshold: value });
+                  }}
+                  disabled={settingsMutation.isPending}
+                  className="px-3 py-2 rounded-lg text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 transition-colors"
+                >
+                  {settingsMutation.isPending ? 'Saving...' : 'Save'}
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Tabs */}
+      <div className="mb-6 border-b border-gray-200 dark:border-gray-700">
+        <nav className="-mb-px flex gap-6">
+          {(['PENDING', 'ALL'] as const).map((tabKey) => (
+            <button
+              key={tabKey}
+              onClick={() => switchTab(tabKey)}
+              className={`pb-3 text-sm font-medium border-b-2 transition-colors ${
+                tab === tabKey
+                  ? 'border-blue-600 text-blue-600 dark:text-blue-400'
+                  : 'border-transparent text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-300'
+              }`}
+            >
+              {tabKey === 'PENDING' ? 'Approval Queue' : 'All Redemptions'}
+            </button>
+          ))}
+        </nav>
+      </div>
+
+      {/* Redemptions Table */}
+      {redemptions.length === 0 ? (
+        <EmptyState
+          icon={
+            <svg className="w-12 h-12" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4" />
+            </svg>
+          }
+          title={tab === 'PENDING' ? 'No redemptions awaiting approval' : 'No redemptions yet'}
+          description={
+            tab === 'PENDING'
+              ? 'High-value redemptions will appear here for review'
+              : 'Redemptions appear here once vouchers are redeemed'
+          }
+        />
+      ) : (
+        <div className="bg-white dark:bg-gray-800 shadow-sm rounded-lg border border-gray-200 dark:border-gray-700 overflow-hidden">
+          <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+            <thead className="bg-gray-50 dark:bg-gray-900">
+              <tr>
+                {selectable && (
+                  <th className="px-6 py-3 w-10">
+                    <input
+                      type="checkbox"
+                      checked={allSelected}
+                      onChange={() => setSelectedIds(allSelected ? [] : pendingIds)}
+                      className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                    />
+                  </th>
+                )}
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                  Customer
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                  Voucher
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                  Value
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                  Status
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                  Requested
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+              {redemptions.map((redemption) => (
+                <tr key={redemption.id} className="hover:bg-gray-50 dark:hover:bg-gray-700/50 transition-colors">
+                  {selectable && (
+                    <td className="px-6 py-4">
+                      <input
+                        type="checkbox"
+                        checked={selectedIds.includes(redemption.id)}
+                        onChange={() => toggleSelected(redemption.id)}
+                        disabled={redemption.status !== 'PENDING'}
+                        className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                      />
+                    </td>
+                  )}
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <div className="text-sm font-medium text-gray-900 dark:text-white">
+                      {redemption.user.name || 'Unnamed User'}
+                    </div>
+                    <div className="text-sm text-gray-500 dark:text-gray-400">
+                      {redemption.user.email}
+                    </div>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <div className="text-sm font-mono text-gray-900 dark:text-white">
+                      {redemption.voucher.code}
+                    </div>
+                    <div className="text-sm text-gray-500 dark:text-gray-400">
+                      {redemption.voucher.description || redemption.voucher.type}
+                    </div>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right">
+                    <span className="text-sm font-semibold text-gray-900 dark:text-white">
+                      {Number(redemption.redeemValue).toFixed(2)}
+                    </span>
+                    {redemption.isHighValue && (
+                      <span className="ml-2 inline-flex px-2 py-0.5 text-xs font-medium rounded-full bg-orange-100 dark:bg-orange-900 text-orange-800 dark:text-orange-200">
+                        High value
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <span
+                      className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
+                        STATUS_STYLES[redemption.status] ?? STATUS_STYLES.CANCELLED
+                      }`}
+                    >
+                      {redemption.status}
+                    </span>
+                    {redemption.rejectionReason && (
+                      <div className="mt-1 text-xs text-gray-500 dark:text-gray-400 max-w-xs truncate">
+                        {redemption.rejectionReason}
+                      </div>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                    {new Date(redemption.createdAt).toLocaleString()}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {/* Pagination */}
+          {totalPages > 1 && (
+            <div className="bg-gray-50 dark:bg-gray-900 px-6 py-4 flex items-center justify-between border-t border-gray-200 dark:border-gray-700">
+              <div className="text-sm text-gray-700 dark:text-gray-300">
+                Page {page} of {totalPages} ({total} total)
+              </div>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => setPage((p) => Math.max(1, p - 1))}
+                  disabled={page === 1}
+                  className="px-3 py-1 border border-gray-300 dark:border-gray-600 rounded-lg text-sm font-medium text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-800 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                  Previous
+                </button>
+                <button
+                  onClick={() => setPage((p) => Math.min(totalPages, p + 1))}
+                  disabled={page === totalPages}
+                  className="px-3 py-1 border border-gray-300 dark:border-gray-600 rounded-lg text-sm font-medium text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-800 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                  Next
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
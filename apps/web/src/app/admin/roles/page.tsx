@@ -0,0 +1,263 @@
+'use client';
+
+/**
+ * Roles List Page
+ *
+ * Lists roles with their permission and user counts. Tenant roles can be
+ * edited in the permission matrix; system and platform roles are read-only
+ * but can be cloned into a shop.
+ * Role-based: Super admins pick a shop, shop admins see their shop's roles.
+ */
+
+import { useState } from 'react';
+import { trpc } from '@/lib/trpc';
+import { useAuth } from '@/contexts/AuthContext';
+import { usePermission } from '@/hooks/usePermission';
+import PageHeader from '@/components/admin/ui/PageHeader';
+import LoadingSkeleton from '@/components/admin/ui/LoadingSkeleton';
+import EmptyState from '@/components/admin/ui/EmptyState';
+import ErrorAlert from '@/components/admin/ui/ErrorAlert';
+import ConfirmDialog from '@/components/admin/ui/ConfirmDialog';
+import RoleEditorModal, { type RoleEditorTarget } from '@/components/admin/roles/RoleEditorModal';
+
+export default function RolesPage() {
+  const { user } = useAuth();
+  const [selectedShopId, setSelectedShopId] = useState<string | undefined>();
+  const [editorTarget, setEditorTarget] = useState<RoleEditorTarget | null>(null);
+  const [deleteRole, setDeleteRole] = useState<{ id: string; displayName: string } | null>(null);
+
+  const canCreate = usePermission('roles', 'create');
+  const canUpdate = usePermission('roles', 'update');
+  const canDelete = usePermission('roles', 'delete');
+
+  // Super admins need a shop selected before creating tenant roles
+  const targetShopId = user?.isSuperAdmin ? selectedShopId : undefined;
+  const canCreateHere = canCreate && (!user?.isSuperAdmin || !!selectedShopId);
+
+  const { data, isLoading, error, refetch } = trpc.roles.list.useQuery({
+    shopId: selectedShopId,
+  });
+
+  const deleteRoleMutation = trpc.roles.delete.useMutation({
+    onSuccess: () => {
+      setDeleteRole(null);
+      refetch();
+    },
+    onError: (error) => {
+      alert(`Failed to delete role: ${error.message}`);
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div>
+        <PageHeader title="Roles" description="Manage roles and their permissions" />
+        <LoadingSkeleton type="table" rows={8} />
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div>
+        <PageHeader title="Roles" description="Manage roles and their permissions" />
+        <ErrorAlert message={error.message} onRetry={() => refetch()} />
+      </div>
+    );
+  }
+
+  const { roles, shops } = data || { roles: [], shops: [] };
+
+  return (
+    <div>
+      {/* Create / Clone / Edit Modal */}
+      <RoleEditorModal
+        target={editorTarget}
+        onClose={() => setEditorTarget(null)}
+        onSuccess={() => {
+          refetch();
+        }}
+      />
+
+      {/* Delete Confirmation Dialog */}
+      <ConfirmDialog
+        isOpen={!!deleteRole}
+        title="Delete Role"
+        message={`Are you sure you want to delete ${deleteRole?.displayName}? This action cannot be undone.`}
+        confirmLabel="Delete Role"
+        cancelLabel="Cancel"
+        confirmVariant="danger"
+        onConfirm={() => {
+          if (deleteRole) {
+            deleteRoleMutation.mutate({ id: deleteRole.id });
+          }
+        }}
+        onCancel={() => setDeleteRole(null)}
+        isLoading={deleteRoleMutation.isPending}
+      />
+
+      <PageHeader
+        title="Roles"
+        description={`${roles.length} roles`}
+        actions={
+          canCreateHere && (
+            <button
+              onClick={() => setEditorTarget({ mode: 'create', shopId: targetShopId })}
+              className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-lg shadow-sm text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors"
+            >
+              <svg className="w-5 h-5 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+              </svg>
+              Create Role
+            </button>
+          )
+        }
+      />
+
+      {/* Shop Filter (Super Admin only) */}
+      {user?.isSuperAdmin && (
+        <div className="mb-6 bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-4">
+          <div className="sm:w-64">
+            <select
+              value={selectedShopId || ''}
+              onChange={(e) => setSelectedShopId(e.target.value || undefined)}
+              className="block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white sm:text-sm"
+            >
+              <option value="">All Shops</option>
+              {shops.map((shop) => (
+                <option key={shop.id} value={shop.id}>
+                  {shop.name}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+      )}
+
+      {/* Roles Table */}
+      {roles.length === 0 ? (
+        <EmptyState
+          icon={
+            <svg className="w-12 h-12" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m5.618-4.016A11.955 11.955 0 0112 2.944a11.955 11.955 0 01-8.618 3.04A12.02 12.02 0 003 9c0 5.591 3.824 10.29 9 11.622 5.176-1.332 9-6.03 9-11.622 0-1.042-.133-2.052-.382-3.016z" />
+            </svg>
+          }
+          title="No roles found"
+          description="Get started by creating your first role"
+          action={
+            canCreateHere
+              ? {
+                  label: 'Create Role',
+                  onClick: () => setEditorTarget({ mode: 'create', shopId: targetShopId }),
+                }
+              : undefined
+          }
+        />
+      ) : (
+        <div className="bg-white dark:bg-gray-800 shadow-sm rounded-lg border border-gray-200 dark:border-gray-700 overflow-hidden">
+          <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+            <thead className="bg-gray-50 dark:bg-gray-900">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                  Role
+                </th>
+                {user?.isSuperAdmin && (
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                    Shop
+                  </th>
+                )}
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                  Permissions
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                  Users
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+              {roles.map((role) => {
+                const cloneShopId = targetShopId ?? role.shopId ?? undefined;
+                const canClone = canCreate && (!user?.isSuperAdmin || !!cloneShopId);
+
+                return (
+                  <tr key={role.id} className="hover:bg-gray-50 dark:hover:bg-gray-700/50 transition-colors">
+                    <td className="px-6 py-4">
+                      <div className="flex items-center gap-2">
+                        <span className="text-sm font-medium text-gray-900 dark:text-white">
+                          {role.displayName}
+                        </span>
+                        {role.isSystemRole && (
+                          <span className="inline-flex px-2 py-1 text-xs font-semibold rounded-full bg-purple-100 dark:bg-purple-900 text-purple-800 dark:text-purple-200">
+                            System
+                          </span>
+                        )}
+                        {!role.shopId && (
+                          <span className="inline-flex px-2 py-1 text-xs font-medium rounded-full bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300">
+                            Platform
+                          </span>
+                        )}
+                      </div>
+                      <div className="text-sm text-gray-500 dark:text-gray-400 font-mono">{role.name}</div>
+                      {role.description && (
+                        <div className="text-sm text-gray-500 dark:text-gray-400">{role.description}</div>
+                      )}
+                    </td>
+                    {user?.isSuperAdmin && (
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="text-sm text-gray-900 dark:text-white">
+                          {role.shop?.name || 'Platform'}
+                        </div>
+                      </td>
+                    )}
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-white">
+                      {role._count.permissions}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-white">
+                      {role._count.users}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                      <button
+                        onClick={() => setEditorTarget({ mode: 'edit', roleId: role.id, readOnly: !canUpdate })}
+                        className="text-blue-600 dark:text-blue-400 hover:text-blue-900 dark:hover:text-blue-300 mr-4 transition-colors"
+                      >
+                        {canUpdate && role.isEditable ? 'Edit' : 'View'}
+                      </button>
+                      {canClone && (
+                        <button
+                          onClick={() =>
+                            setEditorTarget({
+                              mode: 'clone',
+                              sourceId: role.id,
+                              sourceName: role.displayName,
+                              shopId: cloneShopId,
+                            })
+                          }
+                          className="text-blue-600 dark:text-blue-400 hover:text-blue-900 dark:hover:text-blue-300 mr-4 transition-colors"
+                        >
+                          Clone
+                        </button>
+                      )}
+                      {canDelete && role.isEditable && (
+                        <button
+                          onClick={() => setDeleteRole({ id: role.id, displayName: role.displayName })}
+                          disabled={role._count.users > 0}
+                          title={role._count.users > 0 ? 'Remove this role from all users first' : undefined}
+                          className="text-red-600 dark:text-red-400 hover:text-red-900 dark:hover:text-red-300 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                        >
+                          Delete
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -18,6 +18,7 @@ export default function MFASetupPage() {
   const [step, setStep] = useState<'generate' | 'verify' | 'complete'>('generate');
   const [qrCode, setQrCode] = useState('');
   const [secret, setSecret] = useState('');
+  const [setupToken, setSetupToken] = useState('');
   const [backupCodes, setBackupCodes] = useState<string[]>([]);
   const [verificationCode, setVerificationCode] = useState('');
   const [error, setError] = useState('');
@@ -33,10 +34,11 @@ export default function MFASetupPage() {
     setError('');
 
     try {
-      const result = await setupMFAMutation.mutateAsync({ userId: user.userId });
+      const result = await setupMFAMutation.mutateAsync();
       setQrCode(result.qrCodeDataURL);
       setSecret(result.secret);
       setBackupCodes(result.backupCodes);
+      setSetupToken(result.setupToken);
       setStep('verify');
     } catch (err: any) {
       setError(err.message || 'Failed to generate MFA setup');
@@ -54,10 +56,8 @@ export default function MFASetupPage() {
 
     try {
       await verifyMFASetupMutation.mutateAsync({
-        userId: user.userId,
-        secret,
+        setupToken,
         token: verificationCode,
-        backupCodes,
       });
       setStep('complete');
     } catch (err: any) {
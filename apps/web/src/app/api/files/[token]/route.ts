@@ -0,0 +1,56 @@
+/**
+ * Signed File Download Route
+ *
+ * Serves a stored object for a download token created by createDownloadUrl().
+ * The object is checked against the hash recorded at upload time before it is served.
+ * Handles GET /api/files/{token}
+ */
+
+import { NextResponse, type NextRequest } from 'next/server';
+import { verifyFileIntegrity } from '@shop-rewards/shared/utils';
+import { getObject, verifyDownloadToken } from '@/server/lib/storage';
+
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  const { token } = await params;
+
+  let payload;
+  try {
+    payload = await verifyDownloadToken(token);
+  } catch (error) {
+    const expired = error instanceof Error && error.message === 'TOKEN_EXPIRED';
+    return NextResponse.json(
+      { error: expired ? 'Download link has expired' : 'Invalid download link' },
+      { status: expired ? 410 : 403 }
+    );
+  }
+
+  let file: Buffer;
+  try {
+    file = await getObject(payload.path);
+  } catch (error) {
+    if (error instanceof Error && error.message.startsWith('STORAGE_NOT_FOUND')) {
+      return NextResponse.json({ error: 'File not found' }, { status: 404 });
+    }
+
+    console.error('[Files] Failed to read object:', { path: payload.path, error });
+    return NextResponse.json({ error: 'Failed to read file' }, { status: 500 });
+  }
+
+  if (payload.sha256 && !verifyFileIntegrity(file, payload.sha256)) {
+    console.error('[Files] Integrity check failed:', { path: payload.path });
+    return NextResponse.json({ error: 'File integrity check failed' }, { status: 409 });
+  }
+
+  return new NextResponse(new Uint8Array(file), {
+    headers: {
+      'Content-Type': payload.contentType,
+      'Content-Length': String(file.length),
+      'Content-Disposition': `inline; filename="${encodeURIComponent(payload.fileName)}"`,
+      'Cache-Control': 'private, no-store',
+      'X-Content-Type-Options': 'nosniff',
+    },
+  });
+}
@@ -0,0 +1,63 @@
+/**
+ * Public File Route
+ *
+ * Serves logos and ads without authentication. Receipt buckets are never
+ * served here; they require a signed download token (/api/files/{token}).
+ * Handles GET /api/files/public/{bucket}/{key}
+ */
+
+import { NextResponse, type NextRequest } from 'next/server';
+import { getObject, isPublicObjectPath } from '@/server/lib/storage';
+
+/**
+ * Content type by file extension (object keys are {sha256}.{ext})
+ */
+const CONTENT_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  webp: 'image/webp',
+  svg: 'image/svg+xml',
+};
+
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: Promise<{ path: string[] }> }
+) {
+  const { path } = await params;
+  const objectPath = path.join('/');
+
+  let isPublic = false;
+  try {
+    isPublic = isPublicObjectPath(objectPath);
+  } catch {
+    // Malformed path
+  }
+
+  if (!isPublic) {
+    return NextResponse.json({ error: 'File not found' }, { status: 404 });
+  }
+
+  try {
+    const file = await getObject(objectPath);
+    const extension = objectPath.split('.').pop()?.toLowerCase() ?? '';
+
+    return new NextResponse(new Uint8Array(file), {
+      headers: {
+        'Content-Type': CONTENT_TYPES[extension] || 'application/octet-stream',
+        'Content-Length': String(file.length),
+        // Keys are content-addressed, so a path never changes content
+        'Cache-Control': 'public, max-age=31536000, immutable',
+        'X-Content-Type-Options': 'nosniff',
+        // SVGs must not run scripts when opened directly
+        'Content-Security-Policy': "default-src 'none'; style-src 'unsafe-inline'",
+      },
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message.startsWith('STORAGE_NOT_FOUND')) {
+      return NextResponse.json({ error: 'File not found' }, { status: 404 });
+    }
+
+    console.error('[Files] Failed to read public object:', { objectPath, error });
+    return NextResponse.json({ error: 'Failed to read file' }, { status: 500 });
+  }
+}
@@ -9,6 +9,7 @@ import { fetchRequestHandler } from '@trpc/server/adapters/fetch';
 import { type NextRequest } from 'next/server';
 import { appRouter } from '@/server';
 import { createTRPCContext } from '@/server/trpc';
+import { RateLimitExceededError } from '@/server/lib/rate-limit';
 
 /**
  * Handle all tRPC requests (GET, POST)
@@ -19,6 +20,17 @@ const handler = (req: NextRequest) =>
     req,
     router: appRouter,
     createContext: createTRPCContext,
+    // Standard Retry-After header for rate-limited calls
+    responseMeta({ errors }) {
+      const retryAfter = Math.max(
+        0,
+        ...errors.map((error) =>
+          error.cause instanceof RateLimitExceededError ? error.cause.retryAfterSeconds : 0
+        )
+      );
+
+      return retryAfter > 0 ? { headers: { 'Retry-After': String(retryAfter) } } : {};
+    },
     onError:
       process.env.NODE_ENV === 'development'
         ? ({ path, error }) => {
@@ -0,0 +1,95 @@
+'use client';
+
+/**
+ * Forgot Password Page
+ *
+ * Linked from the login form. Requests a single-use reset link by email; the
+ * response is the same whether or not the address belongs to an account.
+ */
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { trpc } from '@/lib/trpc';
+
+export default function ForgotPasswordPage() {
+  const [email, setEmail] = useState('');
+  const [submitted, setSubmitted] = useState(false);
+  const [error, setError] = useState('');
+
+  const requestResetMutation = trpc.auth.requestPasswordReset.useMutation();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    try {
+      await requestResetMutation.mutateAsync({ email });
+      setSubmitted(true);
+    } catch (err: any) {
+      setError(err.message || 'Failed to request a password reset');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex items-center justify-center px-4">
+      <div className="bg-white dark:bg-gray-800 shadow-lg rounded-lg max-w-md w-full p-6">
+        <h1 className="text-lg font-semibold text-gray-900 dark:text-white mb-2">
+          Reset Password
+        </h1>
+
+        {submitted ? (
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            If an account exists for <span className="font-medium">{email}</span>, we have sent
+            a link to reset its password. The link expires in one hour.
+          </p>
+        ) : (
+          <form onSubmit={handleSubmit}>
+            <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+              Enter the email address of your account and we will send you a link to choose a
+              new password.
+            </p>
+
+            <label
+              htmlFor="email"
+              className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2"
+            >
+              Email Address
+            </label>
+            <input
+              id="email"
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="you@example.com"
+              required
+              disabled={requestResetMutation.isPending}
+              autoComplete="email"
+              className="block w-full px-3 py-2 bg-white dark:bg-gray-900 border border-gray-300 dark:border-gray-700 rounded-lg text-sm text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+
+            {error && (
+              <div className="mt-4 p-3 bg-red-50 dark:bg-red-900/10 border border-red-200 dark:border-red-900/50 rounded-lg">
+                <p className="text-sm text-red-800 dark:text-red-200">{error}</p>
+              </div>
+            )}
+
+            <button
+              type="submit"
+              disabled={requestResetMutation.isPending}
+              className="mt-6 w-full px-4 py-2 text-sm font-medium bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {requestResetMutation.isPending ? 'Sending...' : 'Send reset link'}
+            </button>
+          </form>
+        )}
+
+        <Link
+          href="/login"
+          className="inline-block mt-6 text-sm text-blue-600 dark:text-blue-400 hover:underline"
+        >
+          ← Back to sign in
+        </Link>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+'use client';
+
+/**
+ * Reset Password Page
+ *
+ * Target of the password reset link requested on /forgot-password. Sets a new
+ * password with the single-use token from ?token=. Strength rules come from the
+ * platform security policy (checked server-side).
+ */
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { trpc } from '@/lib/trpc';
+
+export default function ResetPasswordPage() {
+  const [token, setToken] = useState<string | null>(null);
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [error, setError] = useState('');
+  const [done, setDone] = useState(false);
+
+  const confirmResetMutation = trpc.auth.confirmPasswordReset.useMutation();
+
+  useEffect(() => {
+    const linkToken = new URLSearchParams(window.location.search).get('token');
+    setToken(linkToken);
+
+    if (!linkToken) {
+      setError('This reset link is incomplete. Please use the link from the email.');
+    }
+  }, []);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (!token) return;
+
+    if (newPassword !== confirmPassword) {
+      setError('Passwords do not match');
+      return;
+    }
+
+    try {
+      await confirmResetMutation.mutateAsync({ token, newPassword });
+      setDone(true);
+    } catch (err: any) {
+      setError(err.message || 'Failed to reset password');
+    }
+  };
+
+  const inputClassName =
+    'block w-full px-3 py-2 bg-white dark:bg-gray-900 border border-gray-300 dark:border-gray-700 rounded-lg text-sm text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex items-center justify-center px-4">
+      <div className="bg-white dark:bg-gray-800 shadow-lg rounded-lg max-w-md w-full p-6">
+        <h1 className="text-lg font-semibold text-gray-900 dark:text-white mb-2">
+          Choose a New Password
+        </h1>
+
+        {done ? (
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Your password has been changed and you were signed out on all devices. You can now
+            sign in with your new password.
+          </p>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label
+                htmlFor="new-password"
+                className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2"
+              >
+                New Password
+              </label>
+              <input
+                id="new-password"
+                type="password"
+                value={newPassword}
+                onChange={(e) => setNewPassword(e.target.value)}
+                required
+                disabled={!token || confirmResetMutation.isPending}
+                autoComplete="new-password"
+                className={inputClassName}
+              />
+            </div>
+
+            <div>
+              <label
+                htmlFor="confirm-password"
+                className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2"
+              >
+                Confirm New Password
+              </label>
+              <input
+                id="confirm-password"
+                type="password"
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+                required
+                disabled={!token || confirmResetMutation.isPending}
+                autoComplete="new-password"
+                className={inputClassName}
+              />
+            </div>
+
+            {error && (
+              <div className="p-3 bg-red-50 dark:bg-red-900/10 border border-red-200 dark:border-red-900/50 rounded-lg">
+                <p className="text-sm text-red-800 dark:text-red-200">{error}</p>
+              </div>
+            )}
+
+            <button
+              type="submit"
+              disabled={!token || confirmResetMutation.isPending || !newPassword || !confirmPassword}
+              className="w-full px-4 py-2 text-sm font-medium bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {confirmResetMutation.isPending ? 'Saving...' : 'Set new password'}
+            </button>
+          </form>
+        )}
+
+        <div className="mt-6 flex justify-between text-sm">
+          <Link href="/login" className="text-blue-600 dark:text-blue-400 hover:underline">
+            Go to sign in
+          </Link>
+          {!done && (
+            <Link href="/forgot-password" className="text-blue-600 dark:text-blue-400 hover:underline">
+              Request a new link
+            </Link>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
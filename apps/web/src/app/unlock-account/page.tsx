@@ -0,0 +1,82 @@
+'use client';
+
+/**
+ * Unlock Account Page
+ *
+ * Target of the unlock link emailed when an account is locked after too many
+ * failed sign-in attempts. Consumes the single-use token from ?token=.
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
+import { trpc } from '@/lib/trpc';
+
+type UnlockStatus = 'unlocking' | 'unlocked' | 'failed';
+
+export default function UnlockAccountPage() {
+  const [status, setStatus] = useState<UnlockStatus>('unlocking');
+  const [error, setError] = useState('');
+  const requested = useRef(false);
+
+  const unlockMutation = trpc.auth.unlockAccount.useMutation();
+
+  useEffect(() => {
+    // The token is single-use: submit it only once
+    if (requested.current) return;
+    requested.current = true;
+
+    const token = new URLSearchParams(window.location.search).get('token');
+
+    if (!token) {
+      setError('This unlock link is incomplete. Please use the link from the email.');
+      setStatus('failed');
+      return;
+    }
+
+    unlockMutation
+      .mutateAsync({ token })
+      .then(() => setStatus('unlocked'))
+      .catch((err: any) => {
+        setError(err.message || 'Failed to unlock account');
+        setStatus('failed');
+      });
+  }, [unlockMutation]);
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex items-center justify-center px-4">
+      <div className="bg-white dark:bg-gray-800 shadow-lg rounded-lg max-w-md w-full p-6 text-center">
+        <h1 className="text-lg font-semibold text-gray-900 dark:text-white mb-2">
+          Unlock Account
+        </h1>
+
+        {status === 'unlocking' && (
+          <div>
+            <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-blue-600 mx-auto my-4"></div>
+            <p className="text-sm text-gray-600 dark:text-gray-400">Unlocking your account...</p>
+          </div>
+        )}
+
+        {status === 'unlocked' && (
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Your account has been unlocked. You can sign in again.
+          </p>
+        )}
+
+        {status === 'failed' && (
+          <div className="p-3 bg-red-50 dark:bg-red-900/10 border border-red-200 dark:border-red-900/50 rounded-lg">
+            <p className="text-sm text-red-800 dark:text-red-200">{error}</p>
+          </div>
+        )}
+
+        {status !== 'unlocking' && (
+          <Link
+            href="/login"
+            className="inline-block mt-6 px-4 py-2 text-sm font-medium bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors"
+          >
+            Go to sign in
+          </Link>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+'use client';
+
+/**
+ * Verify Email Page
+ *
+ * Target of the verification links emailed to new users (?type=user) and to
+ * a shop's contact address (?type=shop). Consumes the single-use token from ?token=.
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
+import { trpc } from '@/lib/trpc';
+
+type VerifyStatus = 'verifying' | 'verified' | 'failed';
+
+export default function VerifyEmailPage() {
+  const [status, setStatus] = useState<VerifyStatus>('verifying');
+  const [type, setType] = useState<'user' | 'shop'>('user');
+  const [error, setError] = useState('');
+  const requested = useRef(false);
+
+  const verifyMutation = trpc.auth.verifyEmail.useMutation();
+
+  useEffect(() => {
+    // The token is single-use: submit it only once
+    if (requested.current) return;
+    requested.current = true;
+
+    const params = new URLSearchParams(window.location.search);
+    const token = params.get('token');
+    const linkType = params.get('type') === 'shop' ? 'shop' : 'user';
+    setType(linkType);
+
+    if (!token) {
+      setError('This verification link is incomplete. Please use the link from the email.');
+      setStatus('failed');
+      return;
+    }
+
+    verifyMutation
+      .mutateAsync({ token, type: linkType })
+      .then(() => setStatus('verified'))
+      .catch((err: any) => {
+        setError(err.message || 'Failed to verify email address');
+        setStatus('failed');
+      });
+  }, [verifyMutation]);
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex items-center justify-center px-4">
+      <div className="bg-white dark:bg-gray-800 shadow-lg rounded-lg max-w-md w-full p-6 text-center">
+        <h1 className="text-lg font-semibold text-gray-900 dark:text-white mb-2">
+          Verify Email Address
+        </h1>
+
+        {status === 'verifying' && (
+          <div>
+            <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-blue-600 mx-auto my-4"></div>
+            <p className="text-sm text-gray-600 dark:text-gray-400">Verifying your email address...</p>
+          </div>
+        )}
+
+        {status === 'verified' && (
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            {type === 'shop'
+              ? 'The shop email address has been verified.'
+              : 'Your email address has been verified.'}
+          </p>
+        )}
+
+        {status === 'failed' && (
+          <div className="p-3 bg-red-50 dark:bg-red-900/10 border border-red-200 dark:border-red-900/50 rounded-lg">
+            <p className="text-sm text-red-800 dark:text-red-200">{error}</p>
+          </div>
+        )}
+
+        {status !== 'verifying' && (
+          <Link
+            href="/login"
+            className="inline-block mt-6 px-4 py-2 text-sm font-medium bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors"
+          >
+            Go to sign in
+          </Link>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,86 @@
+'use client';
+
+/**
+ * Audit Diff Viewer Component
+ *
+ * Side-by-side view of an audit entry's change set. Fields listed in `diff`
+ * (from createDiff on the server) are highlighted; unchanged fields are shown
+ * dimmed for context.
+ */
+
+interface AuditDiffViewerProps {
+  before: unknown;
+  after: unknown;
+  diff: Record<string, { before: unknown; after: unknown }>;
+}
+
+function asRecord(value: unknown): Record<string, unknown> {
+  return value && typeof value === 'object' && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : {};
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined) return '—';
+  return typeof value === 'string' ? value : JSON.stringify(value, null, 2);
+}
+
+export default function AuditDiffViewer({ before, after, diff }: AuditDiffViewerProps) {
+  const beforeRecord = asRecord(before);
+  const afterRecord = asRecord(after);
+  const keys = Array.from(
+    new Set([...Object.keys(beforeRecord), ...Object.keys(afterRecord)])
+  ).sort();
+
+  if (keys.length === 0) {
+    return (
+      <p className="text-sm text-gray-500 dark:text-gray-400">
+        This entry has no recorded changes.
+      </p>
+    );
+  }
+
+  return (
+    <div className="border border-gray-200 dark:border-gray-700 rounded-lg overflow-hidden">
+      <div className="grid grid-cols-[10rem_1fr_1fr] bg-gray-50 dark:bg-gray-900 text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+        <div className="px-3 py-2">Field</div>
+        <div className="px-3 py-2 border-l border-gray-200 dark:border-gray-700">Before</div>
+        <div className="px-3 py-2 border-l border-gray-200 dark:border-gray-700">After</div>
+      </div>
+      {keys.map((key) => {
+        const changed = key in diff;
+
+        return (
+          <div
+            key={key}
+            className={`grid grid-cols-[10rem_1fr_1fr] border-t border-gray-200 dark:border-gray-700 text-sm ${
+              changed ? '' : 'opacity-60'
+            }`}
+          >
+            <div className="px-3 py-2 font-medium text-gray-900 dark:text-white break-all">
+              {key}
+            </div>
+            <pre
+              className={`px-3 py-2 border-l border-gray-200 dark:border-gray-700 whitespace-pre-wrap break-all font-mono text-xs ${
+                changed
+                  ? 'bg-red-50 dark:bg-red-900/10 text-red-800 dark:text-red-200'
+                  : 'text-gray-700 dark:text-gray-300'
+              }`}
+            >
+              {formatValue(beforeRecord[key])}
+            </pre>
+            <pre
+              className={`px-3 py-2 border-l border-gray-200 dark:border-gray-700 whitespace-pre-wrap break-all font-mono text-xs ${
+                changed
+                  ? 'bg-green-50 dark:bg-green-900/10 text-green-800 dark:text-green-200'
+                  : 'text-gray-700 dark:text-gray-300'
+              }`}
+            >
+              {formatValue(afterRecord[key])}
+            </pre>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -3,15 +3,15 @@
 /**
  * ImageUpload Component
  *
- * A reusable image upload component with drag-and-drop, preview, and Base64 conversion.
+ * A reusable image upload component with drag-and-drop, preview, and object storage upload.
  * Features:
  * - Drag-and-drop zone
  * - Click to browse
  * - Image preview with dimensions
  * - File size/type validation (PNG, JPG, SVG, max 1MB)
- * - Convert to Base64 for storage
+ * - Uploads to object storage (storage.uploadImage) and returns the public URL
  * - Remove/replace button
- * - Loading state during conversion
+ * - Loading state during upload
  * - Full dark mode support
  * - Accessible with ARIA labels
  *
@@ -20,14 +20,15 @@
 
 import { useState, useRef, useCallback } from 'react';
 import { Upload, X, Image as ImageIcon, AlertCircle, Check } from 'lucide-react';
+import { trpc } from '@/lib/trpc';
 
 interface ImageUploadProps {
   /** Input label text */
   label: string;
-  /** Current image value (Base64 or URL) */
+  /** Current image value (URL, or Base64 for legacy values) */
   value?: string | null;
-  /** Callback when image changes (receives Base64 string) */
-  onChange: (base64: string | null) => void;
+  /** Callback when image changes (receives the stored image URL) */
+  onChange: (url: string | null) => void;
   /** Optional error message */
   error?: string;
   /** Optional helper text */
@@ -44,6 +45,8 @@ interface ImageUploadProps {
   accept?: string;
   /** Optional aspect ratio hint (e.g., "16:9", "1:1") */
   aspectRatioHint?: string;
+  /** Shop that owns the image (default: current user's shop, null: platform) */
+  shopId?: string | null;
 }
 
 const DEFAULT_MAX_SIZE = 1024 * 1024; // 1MB
@@ -61,6 +64,7 @@ export default function ImageUpload({
   maxSize = DEFAULT_MAX_SIZE,
   accept = DEFAULT_ACCEPT,
   aspectRatioHint,
+  shopId,
 }: ImageUploadProps) {
   const [isDragging, setIsDragging] = useState(false);
   const [isConverting, setIsConverting] = useState(false);
@@ -68,6 +72,7 @@ export default function ImageUpload({
   const [imageDimensions, setImageDimensions] = useState<{ width: number; height: number } | null>(null);
   const [uploadError, setUploadError] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const uploadMutation = trpc.storage.uploadImage.useMutation();
 
   /**
    * Validates file before processing
@@ -144,9 +149,12 @@ export default function ImageUpload({
       const dimensions = await getImageDimensions(base64);
       setImageDimensions(dimensions);
 
+      // Upload to object storage
+      const { url } = await uploadMutation.mutateAsync({ dataUrl: base64, shopId });
+
       // Update preview and trigger onChange
-      setPreviewUrl(base64);
-      onChange(base64);
+      setPreviewUrl(url);
+      onChange(url);
     } catch (err: any) {
       setUploadError(err.message || 'Failed to process image');
     } finally {
@@ -333,7 +341,7 @@ export default function ImageUpload({
             {/* Text */}
             {isConverting ? (
               <p className="text-sm text-gray-600 dark:text-gray-400">
-                Processing image...
+                Uploading image...
               </p>
             ) : (
               <>
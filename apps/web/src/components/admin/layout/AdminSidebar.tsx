@@ -48,6 +48,16 @@ export default function AdminSidebar() {
       ),
       permission: ['users', 'view'],
     },
+    {
+      name: 'Roles',
+      href: '/admin/roles',
+      icon: (
+        <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m5.618-4.016A11.955 11.955 0 0112 2.944a11.955 11.955 0 01-8.618 3.04A12.02 12.02 0 003 9c0 5.591 3.824 10.29 9 11.622 5.176-1.332 9-6.03 9-11.622 0-1.042-.133-2.052-.382-3.016z" />
+        </svg>
+      ),
+      permission: ['roles', 'read'],
+    },
     {
       name: 'Shops',
       href: '/admin/shops',
@@ -105,7 +115,7 @@ export default function AdminSidebar() {
           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
         </svg>
       ),
-      permission: ['audit', 'view'],
+      permission: ['audit', 'read'],
     },
     {
       name: 'Settings',
@@ -0,0 +1,91 @@
+'use client';
+
+/**
+ * Fraud Breakdown Component
+ *
+ * Shows the fraud score of a receipt and which weighted rules were triggered.
+ */
+
+import { OCR_CONFIG } from '@shop-rewards/shared/constants';
+import type { FraudRuleResult } from '@shop-rewards/shared/validators';
+
+interface FraudBreakdownProps {
+  score: number | null;
+  details: unknown;
+}
+
+/**
+ * Human-readable rule names
+ */
+const RULE_LABELS: Record<string, string> = {
+  duplicate_file_hash: 'Duplicate file',
+  duplicate_receipt_number: 'Duplicate receipt number',
+  date_outside_campaign: 'Date outside campaign',
+  total_mismatch: 'Total vs line items',
+  upload_velocity: 'Upload velocity',
+};
+
+export default function FraudBreakdown({ score, details }: FraudBreakdownProps) {
+  const rules = Array.isArray(details) ? (details as FraudRuleResult[]) : [];
+
+  if (score === null) {
+    return (
+      <p className="text-sm text-gray-500 dark:text-gray-400">
+        This receipt has not been scored yet.
+      </p>
+    );
+  }
+
+  const flagged = score >= OCR_CONFIG.FRAUD_THRESHOLD_SCORE;
+
+  return (
+    <div>
+      {/* Score */}
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Fraud score</span>
+        <span
+          className={`text-sm font-semibold ${
+            flagged ? 'text-red-600 dark:text-red-400' : 'text-gray-900 dark:text-white'
+          }`}
+        >
+          {score} / 100
+        </span>
+      </div>
+      <div className="w-full h-2 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden mb-1">
+        <div
+          className={`h-2 ${flagged ? 'bg-red-500' : score > 0 ? 'bg-yellow-500' : 'bg-green-500'}`}
+          style={{ width: `${score}%` }}
+        />
+      </div>
+      <p className="text-xs text-gray-500 dark:text-gray-400 mb-4">
+        Receipts scoring {OCR_CONFIG.FRAUD_THRESHOLD_SCORE} or more are flagged for review
+      </p>
+
+      {/* Rules */}
+      <ul className="divide-y divide-gray-200 dark:divide-gray-700 border border-gray-200 dark:border-gray-700 rounded-lg">
+        {rules.map((rule) => (
+          <li key={rule.rule} className="px-3 py-2 flex items-start gap-3">
+            <span
+              className={`mt-1 inline-block w-2 h-2 rounded-full flex-shrink-0 ${
+                rule.triggered ? 'bg-red-500' : 'bg-green-500'
+              }`}
+            />
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center justify-between">
+                <span className="text-sm font-medium text-gray-900 dark:text-white">
+                  {RULE_LABELS[rule.rule] ?? rule.rule}
+                </span>
+                <span className="text-xs text-gray-500 dark:text-gray-400">
+                  {rule.triggered ? `+${rule.weight}` : `0 / ${rule.weight}`}
+                </span>
+              </div>
+              {rule.reason && (
+                <p className="text-xs text-gray-600 dark:text-gray-400 mt-0.5">{rule.reason}</p>
+              )}
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
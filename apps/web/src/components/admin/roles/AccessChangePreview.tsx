@@ -0,0 +1,101 @@
+'use client';
+
+/**
+ * Access Change Preview Component
+ *
+ * Shows what saving a role's permissions would change: permissions added and
+ * removed, scopes changed, and the users who gain or lose access (users who
+ * keep a permission through another role are not listed).
+ */
+
+interface AccessChangePreviewProps {
+  preview: {
+    added: string[];
+    removed: string[];
+    scopeChanges: Array<{ key: string; from: string; to: string }>;
+    totalUsers: number;
+    users: Array<{
+      userId: string;
+      email: string;
+      name: string | null;
+      gained: string[];
+      lost: string[];
+    }>;
+  };
+}
+
+function PermissionBadges({ keys, variant }: { keys: string[]; variant: 'gain' | 'loss' }) {
+  return (
+    <div className="flex flex-wrap gap-1">
+      {keys.map((key) => (
+        <span
+          key={key}
+          className={`inline-flex px-2 py-0.5 text-xs font-mono rounded ${
+            variant === 'gain'
+              ? 'bg-green-100 dark:bg-green-900/30 text-green-800 dark:text-green-200'
+              : 'bg-red-100 dark:bg-red-900/30 text-red-800 dark:text-red-200'
+          }`}
+        >
+          {variant === 'gain' ? '+' : '−'} {key}
+        </span>
+      ))}
+    </div>
+  );
+}
+
+export default function AccessChangePreview({ preview }: AccessChangePreviewProps) {
+  if (
+    preview.added.length === 0 &&
+    preview.removed.length === 0 &&
+    preview.scopeChanges.length === 0
+  ) {
+    return (
+      <p className="text-sm text-gray-500 dark:text-gray-400">No permission changes.</p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        {preview.added.length > 0 && <PermissionBadges keys={preview.added} variant="gain" />}
+        {preview.removed.length > 0 && <PermissionBadges keys={preview.removed} variant="loss" />}
+        {preview.scopeChanges.length > 0 && (
+          <ul className="text-xs text-gray-700 dark:text-gray-300 space-y-1">
+            {preview.scopeChanges.map((change) => (
+              <li key={change.key}>
+                <span className="font-mono">{change.key}</span>: scope {change.from.toLowerCase()} →{' '}
+                {change.to.toLowerCase()} (applies to all {preview.totalUsers} user(s) with this role)
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <div>
+        <p className="text-sm text-gray-700 dark:text-gray-300 mb-2">
+          {preview.users.length === 0
+            ? `None of the ${preview.totalUsers} user(s) with this role gain or lose access.`
+            : `${preview.users.length} of ${preview.totalUsers} user(s) with this role are affected:`}
+        </p>
+        {preview.users.length > 0 && (
+          <ul className="max-h-60 overflow-y-auto divide-y divide-gray-200 dark:divide-gray-700 border border-gray-200 dark:border-gray-700 rounded-lg">
+            {preview.users.map((user) => (
+              <li key={user.userId} className="px-3 py-2 space-y-1">
+                <div className="text-sm font-medium text-gray-900 dark:text-white">
+                  {user.name || user.email}
+                  {user.name && (
+                    <span className="ml-2 text-xs font-normal text-gray-500 dark:text-gray-400">
+                      {user.email}
+                    </span>
+                  )}
+                </div>
+                {user.gained.length > 0 && <PermissionBadges keys={user.gained} variant="gain" />}
+                {user.lost.length > 0 && <PermissionBadges keys={user.lost} variant="loss" />}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
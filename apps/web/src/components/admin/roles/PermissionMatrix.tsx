@@ -0,0 +1,164 @@
+'use client';
+
+/**
+ * Permission Matrix Component
+ *
+ * Checkbox grid of the permission catalog grouped by module. Permissions the
+ * current user does not hold cannot be granted (they can still be removed
+ * from a role that has them). Selected permissions in scopable modules get a
+ * scope picker, offering scopes up to the widest the current user holds.
+ */
+
+import { PERMISSION_SCOPES, type PermissionScope } from '@shop-rewards/shared/constants';
+
+export interface PermissionOption {
+  key: string;
+  module: string;
+  action: string;
+  description: string;
+  isGrantable: boolean;
+  isScopable: boolean;
+  maxScope: PermissionScope | null;
+}
+
+interface PermissionMatrixProps {
+  permissions: PermissionOption[];
+  selected: string[];
+  onChange: (selected: string[]) => void;
+  /** Scopes of narrowed grants (selected keys not listed cover the whole shop) */
+  scopes: Record<string, PermissionScope>;
+  onScopeChange: (key: string, scope: PermissionScope) => void;
+  readOnly?: boolean;
+}
+
+const SCOPE_LABELS: Record<PermissionScope, string> = {
+  OWN: 'Own records',
+  DEPARTMENT: 'Same department',
+  LOCATION: 'Same location',
+  SHOP: 'Whole shop',
+};
+
+function formatLabel(value: string): string {
+  return value.replace(/_/g, ' ').replace(/^\w/, (char) => char.toUpperCase());
+}
+
+/**
+ * Scopes that may be picked: up to the caller's widest, plus the current one
+ */
+function getScopeChoices(permission: PermissionOption, current: PermissionScope): PermissionScope[] {
+  const limit = PERMISSION_SCOPES.indexOf(permission.maxScope ?? 'OWN');
+  return PERMISSION_SCOPES.filter((scope, index) => index <= limit || scope === current);
+}
+
+export default function PermissionMatrix({
+  permissions,
+  selected,
+  onChange,
+  scopes,
+  onScopeChange,
+  readOnly = false,
+}: PermissionMatrixProps) {
+  const selectedSet = new Set(selected);
+  const modules = new Map<string, PermissionOption[]>();
+
+  for (const permission of permissions) {
+    modules.set(permission.module, [...(modules.get(permission.module) ?? []), permission]);
+  }
+
+  const canToggle = (permission: PermissionOption) =>
+    !readOnly && (permission.isGrantable || selectedSet.has(permission.key));
+
+  const toggle = (key: string) => {
+    onChange(selectedSet.has(key) ? selected.filter((item) => item !== key) : [...selected, key]);
+  };
+
+  const toggleModule = (options: PermissionOption[]) => {
+    const toggleable = options.filter(canToggle);
+    const allSelected = toggleable.every((option) => selectedSet.has(option.key));
+    const keys = new Set(toggleable.map((option) => option.key));
+
+    onChange(
+      allSelected
+        ? selected.filter((key) => !keys.has(key))
+        : Array.from(new Set([...selected, ...keys]))
+    );
+  };
+
+  return (
+    <div className="border border-gray-200 dark:border-gray-700 rounded-lg divide-y divide-gray-200 dark:divide-gray-700">
+      {Array.from(modules.entries()).map(([module, options]) => {
+        const count = options.filter((option) => selectedSet.has(option.key)).length;
+
+        return (
+          <div key={module} className="p-4">
+            <div className="flex items-center justify-between mb-3">
+              <h4 className="text-sm font-semibold text-gray-900 dark:text-white">
+                {formatLabel(module)}
+                <span className="ml-2 text-xs font-normal text-gray-500 dark:text-gray-400">
+                  {count} of {options.length}
+                </span>
+              </h4>
+              {!readOnly && (
+                <button
+                  type="button"
+                  onClick={() => toggleModule(options)}
+                  className="text-xs font-medium text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-300"
+                >
+                  {options.filter(canToggle).every((option) => selectedSet.has(option.key))
+                    ? 'Clear all'
+                    : 'Select all'}
+                </button>
+              )}
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-2">
+              {options.map((permission) => (
+                <label
+                  key={permission.key}
+                  title={
+                    permission.isGrantable
+                      ? permission.description
+                      : `${permission.description} (you do not have this permission)`
+                  }
+                  className={`flex items-start gap-2 text-sm ${
+                    canToggle(permission) ? 'cursor-pointer' : 'opacity-50 cursor-not-allowed'
+                  }`}
+                >
+                  <input
+                    type="checkbox"
+                    checked={selectedSet.has(permission.key)}
+                    disabled={!canToggle(permission)}
+                    onChange={() => toggle(permission.key)}
+                    className="mt-0.5 h-4 w-4 text-blue-600 border-gray-300 dark:border-gray-600 rounded focus:ring-blue-500"
+                  />
+                  <span>
+                    <span className="block text-gray-900 dark:text-white">
+                      {formatLabel(permission.action)}
+                    </span>
+                    <span className="block text-xs text-gray-500 dark:text-gray-400">
+                      {permission.description}
+                    </span>
+                    {permission.isScopable && selectedSet.has(permission.key) && (
+                      <select
+                        value={scopes[permission.key] ?? 'SHOP'}
+                        disabled={readOnly}
+                        onChange={(e) => onScopeChange(permission.key, e.target.value as PermissionScope)}
+                        aria-label={`Scope of ${permission.key}`}
+                        className="mt-1 block w-full px-2 py-1 border border-gray-300 dark:border-gray-600 rounded text-xs focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-white disabled:opacity-60"
+                      >
+                        {getScopeChoices(permission, scopes[permission.key] ?? 'SHOP').map((scope) => (
+                          <option key={scope} value={scope}>
+                            {SCOPE_LABELS[scope]}
+                          </option>
+                        ))}
+                      </select>
+                    )}
+                  </span>
+                </label>
+              ))}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
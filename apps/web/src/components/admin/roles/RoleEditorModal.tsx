@@ -0,0 +1,335 @@
+'use client';
+
+/**
+ * Role Editor Modal Component
+ *
+ * Create, clone or edit a tenant role. Editing permissions is a two-step
+ * flow: "Review changes" shows which users gain or lose access, then
+ * "Save" applies the change. System roles open read-only.
+ */
+
+import { useEffect, useState } from 'react';
+import type { PermissionScope } from '@shop-rewards/shared/constants';
+import { trpc } from '@/lib/trpc';
+import LoadingSkeleton from '@/components/admin/ui/LoadingSkeleton';
+import PermissionMatrix from './PermissionMatrix';
+import AccessChangePreview from './AccessChangePreview';
+
+export type RoleEditorTarget =
+  | { mode: 'create'; shopId?: string }
+  | { mode: 'clone'; sourceId: string; sourceName: string; shopId?: string }
+  | { mode: 'edit'; roleId: string; readOnly?: boolean };
+
+interface RoleEditorModalProps {
+  target: RoleEditorTarget | null;
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+const INPUT_CLASS =
+  'block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-white sm:text-sm disabled:opacity-60';
+
+function toRoleName(displayName: string): string {
+  return displayName
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^[^a-z]+|_+$/g, '')
+    .slice(0, 50);
+}
+
+function sameKeys(a: string[], b: string[]): boolean {
+  return a.length === b.length && [...a].sort().join(',') === [...b].sort().join(',');
+}
+
+/**
+ * Scopes of the selected permissions, without whole-shop entries
+ */
+function getActiveScopes(
+  selected: string[],
+  scopes: Record<string, PermissionScope>
+): Record<string, PermissionScope> {
+  return Object.fromEntries(
+    Object.entries(scopes).filter(([key, scope]) => selected.includes(key) && scope !== 'SHOP')
+  );
+}
+
+function sameScopes(a: Record<string, PermissionScope>, b: Record<string, PermissionScope>): boolean {
+  return sameKeys(
+    Object.entries(a).map(([key, scope]) => `${key}=${scope}`),
+    Object.entries(b).map(([key, scope]) => `${key}=${scope}`)
+  );
+}
+
+export default function RoleEditorModal({ target, onClose, onSuccess }: RoleEditorModalProps) {
+  const [displayName, setDisplayName] = useState('');
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [selected, setSelected] = useState<string[]>([]);
+  const [scopes, setScopes] = useState<Record<string, PermissionScope>>({});
+  const [isReviewing, setIsReviewing] = useState(false);
+  const [error, setError] = useState('');
+
+  const roleId = target?.mode === 'edit' ? target.roleId : target?.mode === 'clone' ? target.sourceId : null;
+
+  const { data: catalog, isLoading: isCatalogLoading } = trpc.roles.listPermissions.useQuery(undefined, {
+    enabled: !!target,
+  });
+  const { data: role, isLoading: isRoleLoading } = trpc.roles.getById.useQuery(
+    { id: roleId ?? '' },
+    { enabled: !!roleId }
+  );
+
+  const isEdit = target?.mode === 'edit';
+  const readOnly =
+    target?.mode === 'clone' ||
+    (target?.mode === 'edit' && (!!target.readOnly || (!!role && !role.isEditable)));
+  const activeScopes = getActiveScopes(selected, scopes);
+  const permissionsChanged =
+    isEdit &&
+    !!role &&
+    (!sameKeys(role.permissions, selected) || !sameScopes(role.scopes, activeScopes));
+
+  const { data: preview, isFetching: isPreviewLoading } = trpc.roles.previewChanges.useQuery(
+    { id: roleId ?? '', permissions: selected, scopes: activeScopes },
+    { enabled: isEdit && isReviewing && permissionsChanged }
+  );
+
+  // Reset the form whenever the modal opens for another role
+  useEffect(() => {
+    setDisplayName(target?.mode === 'clone' ? `Copy of ${target.sourceName}` : '');
+    setName(target?.mode === 'clone' ? toRoleName(`copy_of_${target.sourceName}`) : '');
+    setDescription('');
+    setSelected([]);
+    setScopes({});
+    setIsReviewing(false);
+    setError('');
+  }, [target]);
+
+  useEffect(() => {
+    if (role && target?.mode === 'edit') {
+      setDisplayName(role.displayName);
+      setDescription(role.description ?? '');
+    }
+    if (role) {
+      setSelected(role.permissions);
+      setScopes(role.scopes);
+    }
+  }, [role, target]);
+
+  const handleSuccess = () => {
+    onSuccess();
+    onClose();
+  };
+
+  const handleError = (mutationError: { message: string }) => {
+    setIsReviewing(false);
+    setError(mutationError.message);
+  };
+
+  const createMutation = trpc.roles.create.useMutation({ onSuccess: handleSuccess, onError: handleError });
+  const cloneMutation = trpc.roles.clone.useMutation({ onSuccess: handleSuccess, onError: handleError });
+  const updateMutation = trpc.roles.update.useMutation({ onSuccess: handleSuccess, onError: handleError });
+
+  const isSaving = createMutation.isPending || cloneMutation.isPending || updateMutation.isPending;
+
+  if (!target) return null;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (target.mode === 'create') {
+      createMutation.mutate({
+        shopId: target.shopId,
+        name,
+        displayName,
+        description: description || undefined,
+        permissions: selected,
+        scopes: activeScopes,
+      });
+    } else if (target.mode === 'clone') {
+      cloneMutation.mutate({ id: target.sourceId, shopId: target.shopId, name, displayName });
+    } else if (permissionsChanged && !isReviewing) {
+      setIsReviewing(true);
+    } else {
+      updateMutation.mutate({
+        id: target.roleId,
+        displayName,
+        description: description || null,
+        ...(permissionsChanged ? { permissions: selected, scopes: activeScopes } : {}),
+      });
+    }
+  };
+
+  const title =
+    target.mode === 'create'
+      ? 'Create Role'
+      : target.mode === 'clone'
+        ? `Clone ${target.sourceName}`
+        : readOnly
+          ? role?.displayName ?? 'Role'
+          : `Edit ${role?.displayName ?? 'Role'}`;
+
+  const submitLabel =
+    target.mode === 'create'
+      ? 'Create Role'
+      : target.mode === 'clone'
+        ? 'Clone Role'
+        : permissionsChanged && !isReviewing
+          ? 'Review changes'
+          : 'Save';
+
+  return (
+    <>
+      {/* Backdrop */}
+      <div className="fixed inset-0 bg-black/50 z-40" onClick={onClose} />
+
+      {/* Modal */}
+      <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl max-w-4xl w-full max-h-[90vh] overflow-y-auto">
+          {/* Header */}
+          <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700">
+            <div className="flex items-center justify-between">
+              <h2 className="text-xl font-semibold text-gray-900 dark:text-white">{title}</h2>
+              <button
+                onClick={onClose}
+                className="text-gray-400 hover:text-gray-500 dark:hover:text-gray-300 transition-colors"
+                aria-label="Close"
+              >
+                <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+          </div>
+
+          {isCatalogLoading || (roleId && isRoleLoading) ? (
+            <div className="px-6 py-4">
+              <LoadingSkeleton type="form" rows={6} />
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit} className="px-6 py-4 space-y-4">
+              {isEdit && role && !role.isEditable && (
+                <div className="p-3 bg-yellow-50 dark:bg-yellow-900/10 border border-yellow-200 dark:border-yellow-900/50 rounded-lg">
+                  <p className="text-sm text-yellow-800 dark:text-yellow-200">
+                    System roles cannot be changed. Clone this role to customise it.
+                  </p>
+                </div>
+              )}
+
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div>
+                  <label htmlFor="role-display-name" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                    Display Name *
+                  </label>
+                  <input
+                    id="role-display-name"
+                    type="text"
+                    required
+                    value={displayName}
+                    disabled={isEdit && readOnly}
+                    onChange={(e) => {
+                      setDisplayName(e.target.value);
+                      if (!isEdit) setName(toRoleName(e.target.value));
+                    }}
+                    className={INPUT_CLASS}
+                  />
+                </div>
+                <div>
+                  <label htmlFor="role-name" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                    Name *
+                  </label>
+                  <input
+                    id="role-name"
+                    type="text"
+                    required
+                    value={isEdit ? role?.name ?? '' : name}
+                    disabled={isEdit}
+                    onChange={(e) => setName(e.target.value)}
+                    className={`${INPUT_CLASS} font-mono`}
+                  />
+                </div>
+              </div>
+
+              {target.mode !== 'clone' && (
+                <div>
+                  <label htmlFor="role-description" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                    Description
+                  </label>
+                  <textarea
+                    id="role-description"
+                    rows={2}
+                    value={description}
+                    disabled={readOnly}
+                    onChange={(e) => setDescription(e.target.value)}
+                    className={INPUT_CLASS}
+                  />
+                </div>
+              )}
+
+              <div>
+                <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  Permissions ({selected.length})
+                </h3>
+                <PermissionMatrix
+                  permissions={catalog ?? []}
+                  selected={selected}
+                  onChange={(next) => {
+                    setSelected(next);
+                    setIsReviewing(false);
+                  }}
+                  scopes={scopes}
+                  onScopeChange={(key, scope) => {
+                    setScopes((current) => ({ ...current, [key]: scope }));
+                    setIsReviewing(false);
+                  }}
+                  readOnly={readOnly || isReviewing}
+                />
+              </div>
+
+              {isReviewing && (
+                <div className="p-4 bg-gray-50 dark:bg-gray-900 rounded-lg">
+                  <h3 className="text-sm font-semibold text-gray-900 dark:text-white mb-3">
+                    Access changes
+                  </h3>
+                  {isPreviewLoading || !preview ? (
+                    <LoadingSkeleton type="form" rows={2} />
+                  ) : (
+                    <AccessChangePreview preview={preview} />
+                  )}
+                </div>
+              )}
+
+              {error && (
+                <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-3">
+                  <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+                </div>
+              )}
+
+              {/* Actions */}
+              <div className="flex gap-3 pt-4">
+                <button
+                  type="button"
+                  onClick={isReviewing ? () => setIsReviewing(false) : onClose}
+                  disabled={isSaving}
+                  className="flex-1 px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-sm font-medium text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                  {isReviewing ? 'Back' : readOnly && isEdit ? 'Close' : 'Cancel'}
+                </button>
+                {!(isEdit && readOnly) && (
+                  <button
+                    type="submit"
+                    disabled={isSaving || (isReviewing && (isPreviewLoading || !preview))}
+                    className="flex-1 px-4 py-2 border border-transparent rounded-lg text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  >
+                    {isSaving ? 'Saving...' : submitLabel}
+                  </button>
+                )}
+              </div>
+            </form>
+          )}
+        </div>
+      </div>
+    </>
+  );
+}
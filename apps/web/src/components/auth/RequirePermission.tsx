@@ -5,6 +5,7 @@
  *
  * Conditional rendering wrapper for permission-based features.
  * Only renders children if user has the required permission.
+ * All instances share one auth.myPermissions request (see usePermission).
  */
 
 import { usePermission } from '@/hooks/usePermission';
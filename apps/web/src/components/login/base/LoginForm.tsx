@@ -8,7 +8,9 @@
  *
  * Features:
  * - Email/password authentication
- * - MFA token verification
+ * - Passwordless sign-in with a passkey
+ * - MFA verification with whichever factors the user enrolled
+ *   (authenticator code, backup code, passkey)
  * - Password visibility toggle
  * - Demo account quick login
  * - Error handling
@@ -17,8 +19,9 @@
 
 import { useState } from 'react';
 import { useRouter } from 'next/navigation';
+import { startAuthentication } from '@simplewebauthn/browser';
 import { trpc } from '@/lib/trpc';
-import { Mail, Lock, Eye, EyeOff, Loader2 } from 'lucide-react';
+import { Mail, Lock, Eye, EyeOff, Loader2, KeyRound } from 'lucide-react';
 import type { LoginTemplateText, LoginTemplateDemoAccount } from '@shop-rewards/shared';
 
 interface LoginFormProps {
@@ -32,6 +35,21 @@ interface LoginFormProps {
   className?: string;
 }
 
+/**
+ * Where to go after sign-in
+ * The security policy may require a password change or MFA enrolment first.
+ */
+function getPostLoginPath(result: {
+  requiresPasswordChange?: boolean;
+  requiresMFASetup?: boolean;
+}): string {
+  if (result.requiresPasswordChange) return '/admin/profile?required=password';
+  if (result.requiresMFASetup) return '/admin/security/mfa/setup';
+  return '/admin';
+}
+
+type MFAMethod = 'totp' | 'backup_code' | 'passkey';
+
 export default function LoginForm({
   text,
   primaryColor,
@@ -43,12 +61,67 @@ export default function LoginForm({
   const [password, setPassword] = useState('');
   const [mfaToken, setMfaToken] = useState('');
   const [requiresMfa, setRequiresMfa] = useState(false);
+  const [mfaChallengeToken, setMfaChallengeToken] = useState('');
+  const [mfaMethods, setMfaMethods] = useState<MFAMethod[]>([]);
+  const [useBackupCode, setUseBackupCode] = useState(false);
   const [error, setError] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [showPassword, setShowPassword] = useState(false);
 
   const loginMutation = trpc.auth.login.useMutation();
   const loginWithMfaMutation = trpc.auth.loginWithMFA.useMutation();
+  const loginWithBackupCodeMutation = trpc.auth.loginWithBackupCode.useMutation();
+  const passkeyLoginOptionsMutation = trpc.auth.passkeyLoginOptions.useMutation();
+  const loginWithPasskeyMutation = trpc.auth.loginWithPasskey.useMutation();
+
+  const completeLogin = (result: {
+    accessToken: string;
+    refreshToken: string;
+    requiresPasswordChange?: boolean;
+    requiresMFASetup?: boolean;
+  }) => {
+    localStorage.setItem('accessToken', result.accessToken);
+    localStorage.setItem('refreshToken', result.refreshToken);
+    router.push(getPostLoginPath(result));
+  };
+
+  const startMfa = (result: { mfaChallengeToken: string; mfaMethods: MFAMethod[] }) => {
+    setMfaChallengeToken(result.mfaChallengeToken);
+    setMfaMethods(result.mfaMethods);
+    setUseBackupCode(false);
+    setRequiresMfa(true);
+  };
+
+  /**
+   * Sign in with a passkey: as the second factor in MFA mode, otherwise passwordless
+   */
+  const handlePasskeyLogin = async () => {
+    setError('');
+    setIsLoading(true);
+
+    try {
+      const challenge = requiresMfa ? { mfaChallengeToken } : undefined;
+      const { options, challengeToken } = await passkeyLoginOptionsMutation.mutateAsync(challenge);
+      const response = await startAuthentication({ optionsJSON: options });
+      const result = await loginWithPasskeyMutation.mutateAsync({
+        ...challenge,
+        challengeToken,
+        response,
+      });
+
+      completeLogin(result);
+    } catch (err: any) {
+      console.error('[LoginForm] Passkey error:', err);
+      // The browser rejects with NotAllowedError when the user cancels the prompt
+      setError(
+        err?.name === 'NotAllowedError'
+          ? 'The passkey prompt was cancelled or timed out'
+          : err.message || 'Passkey sign-in failed'
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -57,15 +130,18 @@ export default function LoginForm({
 
     try {
       if (requiresMfa) {
-        const result = await loginWithMfaMutation.mutateAsync({
-          userId: email,
-          token: mfaToken,
-        });
+        const result = useBackupCode
+          ? await loginWithBackupCodeMutation.mutateAsync({
+              challengeToken: mfaChallengeToken,
+              code: mfaToken,
+            })
+          : await loginWithMfaMutation.mutateAsync({
+              challengeToken: mfaChallengeToken,
+              token: mfaToken,
+            });
 
         if (result?.accessToken) {
-          localStorage.setItem('accessToken', result.accessToken);
-          localStorage.setItem('refreshToken', result.refreshToken);
-          router.push('/admin');
+          completeLogin(result);
         }
       } else {
         const result = await loginMutation.mutateAsync({
@@ -76,12 +152,10 @@ export default function LoginForm({
         console.log('[LoginForm] Login result:', result);
 
         if (result?.requiresMFA) {
-          setRequiresMfa(true);
+          startMfa(result);
         } else if (result?.accessToken) {
-          localStorage.setItem('accessToken', result.accessToken);
-          localStorage.setItem('refreshToken', result.refreshToken);
-          console.log('[LoginForm] Tokens stored, redirecting to /admin');
-          router.push('/admin');
+          console.log('[LoginForm] Tokens stored, redirecting');
+          completeLogin(result);
         } else {
           console.error('[LoginForm] Unexpected response structure:', result);
           setError('Login failed - unexpected response');
@@ -110,12 +184,10 @@ export default function LoginForm({
       {
         onSuccess: (result) => {
           if (result?.requiresMFA) {
-            setRequiresMfa(true);
+            startMfa(result);
             setEmail(text.demoAccount!.email);
           } else if (result?.accessToken) {
-            localStorage.setItem('accessToken', result.accessToken);
-            localStorage.setItem('refreshToken', result.refreshToken);
-            router.push('/admin');
+            completeLogin(result);
           }
         },
         onError: (err: any) => {
@@ -174,28 +246,51 @@ export default function LoginForm({
       {/* Login Form */}
       <form onSubmit={handleSubmit} method="post">
         {requiresMfa ? (
-          // MFA Token Input
-          <div className="mb-6">
-            <label htmlFor="mfa-token" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-              Enter MFA Code
-            </label>
-            <input
-              id="mfa-token"
-              type="text"
-              value={mfaToken}
-              onChange={(e) => setMfaToken(e.target.value.replace(/\D/g, '').slice(0, 6))}
-              maxLength={6}
-              placeholder="000000"
-              required
-              disabled={isLoading}
-              autoComplete="one-time-code"
-              className="block w-full h-12 px-4 bg-gray-50 dark:bg-gray-950 border border-gray-200 dark:border-gray-800 rounded-xl text-gray-900 dark:text-white text-center text-2xl font-mono tracking-wider placeholder-gray-400 focus:outline-none focus:ring-2 focus:border-transparent transition-all"
-              style={{ focusRingColor: primaryColor }}
-            />
-            <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
-              Enter the 6-digit code from your authenticator app
-            </p>
-          </div>
+          // MFA Token Input (only when an authenticator app is set up)
+          mfaMethods.includes('totp') && (
+            <div className="mb-6">
+              <label htmlFor="mfa-token" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                {useBackupCode ? 'Enter Backup Code' : 'Enter MFA Code'}
+              </label>
+              <input
+                id="mfa-token"
+                type="text"
+                value={mfaToken}
+                onChange={(e) =>
+                  setMfaToken(
+                    useBackupCode
+                      ? e.target.value.trim()
+                      : e.target.value.replace(/\D/g, '').slice(0, 6)
+                  )
+                }
+                maxLength={useBackupCode ? 32 : 6}
+                placeholder={useBackupCode ? 'XXXXXXXX' : '000000'}
+                required
+                disabled={isLoading}
+                autoComplete="one-time-code"
+                className="block w-full h-12 px-4 bg-gray-50 dark:bg-gray-950 border border-gray-200 dark:border-gray-800 rounded-xl text-gray-900 dark:text-white text-center text-2xl font-mono tracking-wider placeholder-gray-400 focus:outline-none focus:ring-2 focus:border-transparent transition-all"
+                style={{ focusRingColor: primaryColor }}
+              />
+              <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+                {useBackupCode
+                  ? 'Enter one of the backup codes you saved when setting up MFA'
+                  : 'Enter the 6-digit code from your authenticator app'}
+              </p>
+              {mfaMethods.includes('backup_code') && (
+                <button
+                  type="button"
+                  onClick={() => {
+                    setUseBackupCode(!useBackupCode);
+                    setMfaToken('');
+                  }}
+                  className="mt-2 text-xs hover:underline"
+                  style={{ color: primaryColor }}
+                >
+                  {useBackupCode ? 'Use an authenticator code instead' : 'Use a backup code instead'}
+                </button>
+              )}
+            </div>
+          )
         ) : (
           <>
             {/* Email Input */}
@@ -271,25 +366,40 @@ export default function LoginForm({
           </div>
         )}
 
-        {/* Submit Button */}
-        <button
-          type="submit"
-          disabled={isLoading}
-          className="group relative w-full h-12 px-4 text-white font-semibold rounded-xl overflow-hidden transition-all duration-300 hover:shadow-lg disabled:opacity-50 disabled:cursor-not-allowed"
-          style={{ backgroundColor: primaryColor }}
-        >
-          {/* Shimmer effect */}
-          <div
-            className="absolute inset-0 w-full h-full bg-gradient-to-r from-transparent via-white/20 to-transparent transform -skew-x-12 group-hover:animate-shimmer"
-            style={{ animation: 'shimmer 2s linear infinite' }}
-          />
+        {/* Submit Button (MFA mode without an authenticator app: passkey only) */}
+        {(!requiresMfa || mfaMethods.includes('totp')) && (
+          <button
+            type="submit"
+            disabled={isLoading}
+            className="group relative w-full h-12 px-4 text-white font-semibold rounded-xl overflow-hidden transition-all duration-300 hover:shadow-lg disabled:opacity-50 disabled:cursor-not-allowed"
+            style={{ backgroundColor: primaryColor }}
+          >
+            {/* Shimmer effect */}
+            <div
+              className="absolute inset-0 w-full h-full bg-gradient-to-r from-transparent via-white/20 to-transparent transform -skew-x-12 group-hover:animate-shimmer"
+              style={{ animation: 'shimmer 2s linear infinite' }}
+            />
+
+            {/* Button content */}
+            <span className="relative flex items-center justify-center gap-2">
+              {isLoading && <Loader2 className="h-5 w-5 animate-spin" />}
+              {isLoading ? 'Signing in...' : requiresMfa ? 'Verify Code' : text.loginButton}
+            </span>
+          </button>
+        )}
 
-          {/* Button content */}
-          <span className="relative flex items-center justify-center gap-2">
-            {isLoading && <Loader2 className="h-5 w-5 animate-spin" />}
-            {isLoading ? 'Signing in...' : requiresMfa ? 'Verify Code' : text.loginButton}
-          </span>
-        </button>
+        {/* Passkey: passwordless sign-in, or second factor in MFA mode */}
+        {(!requiresMfa || mfaMethods.includes('passkey')) && (
+          <button
+            type="button"
+            onClick={handlePasskeyLogin}
+            disabled={isLoading}
+            className="mt-3 w-full h-12 px-4 flex items-center justify-center gap-2 font-medium rounded-xl border border-gray-200 dark:border-gray-800 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-900 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <KeyRound className="h-5 w-5" />
+            {requiresMfa ? 'Use a passkey' : 'Sign in with a passkey'}
+          </button>
+        )}
 
         {/* Back to Login (MFA mode) */}
         {requiresMfa && (
@@ -297,6 +407,9 @@ export default function LoginForm({
             type="button"
             onClick={() => {
               setRequiresMfa(false);
+              setMfaChallengeToken('');
+              setMfaMethods([]);
+              setUseBackupCode(false);
               setMfaToken('');
               setError('');
             }}
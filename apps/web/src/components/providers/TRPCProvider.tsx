@@ -45,6 +45,12 @@ export function TRPCProvider({ children }: { children: React.ReactNode }) {
         httpBatchLink({
           url: `${getBaseUrl()}/api/trpc`,
           transformer: superjson,
+          headers() {
+            // Access token stored by AuthContext after login
+            const accessToken =
+              typeof window !== 'undefined' ? localStorage.getItem('accessToken') : null;
+            return accessToken ? { authorization: `Bearer ${accessToken}` } : {};
+          },
         }),
       ],
     })
@@ -0,0 +1,133 @@
+'use client';
+
+/**
+ * Active Sessions Panel Component
+ *
+ * Lists the devices signed in to the current account.
+ * Other devices can be signed out one by one, or all at once with
+ * "Sign out everywhere" (which also ends the current session).
+ */
+
+import { useState } from 'react';
+import { trpc } from '@/lib/trpc';
+import { useAuth } from '@/contexts/AuthContext';
+
+/**
+ * Short device description from a user agent string
+ */
+function describeUserAgent(userAgent: string): string {
+  if (!userAgent || userAgent === 'unknown') return 'Unknown device';
+
+  const browser =
+    /Edg\//.test(userAgent) ? 'Edge'
+    : /OPR\//.test(userAgent) ? 'Opera'
+    : /Firefox\//.test(userAgent) ? 'Firefox'
+    : /Chrome\//.test(userAgent) ? 'Chrome'
+    : /Safari\//.test(userAgent) ? 'Safari'
+    : 'Unknown browser';
+
+  const os =
+    /Windows/.test(userAgent) ? 'Windows'
+    : /Android/.test(userAgent) ? 'Android'
+    : /iPhone|iPad/.test(userAgent) ? 'iOS'
+    : /Mac OS X/.test(userAgent) ? 'macOS'
+    : /Linux/.test(userAgent) ? 'Linux'
+    : 'Unknown OS';
+
+  return `${browser} on ${os}`;
+}
+
+export default function ActiveSessionsPanel() {
+  const { logout } = useAuth();
+  const [error, setError] = useState('');
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+
+  const { data: sessions, isLoading, refetch } = trpc.auth.listSessions.useQuery();
+  const revokeSessionMutation = trpc.auth.revokeSession.useMutation();
+
+  const handleRevoke = async (sessionId: string) => {
+    setError('');
+    setRevokingId(sessionId);
+
+    try {
+      await revokeSessionMutation.mutateAsync({ sessionId });
+      await refetch();
+    } catch (err: any) {
+      setError(err.message || 'Failed to sign out device');
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  const handleSignOutEverywhere = () => {
+    if (!confirm('Sign out of all devices, including this one?')) return;
+    logout({ everywhere: true });
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 shadow rounded-lg">
+      <div className="px-4 py-5 sm:p-6">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h3 className="text-lg font-medium text-gray-900 dark:text-white">
+              Active Devices
+            </h3>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+              Devices currently signed in to your account
+            </p>
+          </div>
+          <button
+            onClick={handleSignOutEverywhere}
+            className="px-3 py-1.5 text-sm font-medium text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/10 rounded-lg transition-colors"
+          >
+            Sign out everywhere
+          </button>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+            <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+          </div>
+        )}
+
+        {isLoading ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">Loading sessions...</p>
+        ) : !sessions || sessions.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">No active sessions</p>
+        ) : (
+          <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+            {sessions.map((session) => (
+              <li key={session.id} className="flex items-center justify-between py-3">
+                <div className="flex-1">
+                  <div className="flex items-center space-x-2">
+                    <h4 className="text-sm font-medium text-gray-900 dark:text-white">
+                      {describeUserAgent(session.userAgent)}
+                    </h4>
+                    {session.isCurrent && (
+                      <span className="inline-flex items-center px-2.5 py-0.5 rounded text-xs font-medium bg-green-100 dark:bg-green-900 text-green-800 dark:text-green-200">
+                        This device
+                      </span>
+                    )}
+                  </div>
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                    {session.ipAddress} · Signed in {new Date(session.createdAt).toLocaleString()} ·
+                    Last active {new Date(session.lastActivityAt).toLocaleString()}
+                  </p>
+                </div>
+                {!session.isCurrent && (
+                  <button
+                    onClick={() => handleRevoke(session.id)}
+                    disabled={revokingId === session.id}
+                    className="px-3 py-1.5 text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {revokingId === session.id ? 'Signing out...' : 'Sign out'}
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -3,45 +3,49 @@
 /**
  * Disable MFA Modal Component
  *
- * Confirmation modal for disabling two-factor authentication.
- * Requires password confirmation for security.
+ * Confirmation modal for removing the authenticator app (TOTP) and backup codes.
+ * Requires step-up re-authentication: the password and a current MFA code,
+ * a backup code or a passkey are exchanged for a step-up token first.
+ * Registered passkeys are not affected.
  */
 
 import { useState } from 'react';
 import { trpc } from '@/lib/trpc';
+import { useStepUp } from '@/hooks/useStepUp';
 
 interface DisableMFAModalProps {
   isOpen: boolean;
   onClose: () => void;
-  userId: string;
   onSuccess: () => void;
 }
 
 export default function DisableMFAModal({
   isOpen,
   onClose,
-  userId,
   onSuccess,
 }: DisableMFAModalProps) {
   const [password, setPassword] = useState('');
+  const [code, setCode] = useState('');
   const [error, setError] = useState('');
   const [isLoading, setIsLoading] = useState(false);
 
+  const { stepUp, stepUpWithPasskey } = useStepUp();
   const disableMFAMutation = trpc.auth.disableMFA.useMutation();
+  const { data: mfaStatus } = trpc.auth.mfaStatus.useQuery(undefined, { enabled: isOpen });
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
+  const disable = async (withPasskey: boolean) => {
     setError('');
     setIsLoading(true);
 
     try {
-      await disableMFAMutation.mutateAsync({
-        userId,
-        password,
-      });
+      const stepUpToken = withPasskey
+        ? await stepUpWithPasskey(password)
+        : await stepUp(password, code);
+      await disableMFAMutation.mutateAsync({ stepUpToken });
       onSuccess();
       onClose();
       setPassword('');
+      setCode('');
     } catch (err: any) {
       setError(err.message || 'Failed to disable MFA');
     } finally {
@@ -49,8 +53,14 @@ export default function DisableMFAModal({
     }
   };
 
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    await disable(false);
+  };
+
   const handleClose = () => {
     setPassword('');
+    setCode('');
     setError('');
     onClose();
   };
@@ -87,10 +97,10 @@ export default function DisableMFAModal({
             </div>
             <div className="ml-3 flex-1">
               <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
-                Disable Two-Factor Authentication
+                Remove Authenticator App
               </h3>
               <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
-                This will remove the extra layer of security from your account. Enter your password to confirm.
+                Codes from your authenticator app and your backup codes will no longer be accepted. Passkeys stay registered. Enter your password and a code from your authenticator app to confirm.
               </p>
             </div>
           </div>
@@ -122,6 +132,36 @@ export default function DisableMFAModal({
               />
             </div>
 
+            <div>
+              <label
+                htmlFor="mfa-code"
+                className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2"
+              >
+                Authentication Code
+              </label>
+              <input
+                id="mfa-code"
+                type="text"
+                value={code}
+                onChange={(e) => setCode(e.target.value.trim())}
+                autoComplete="one-time-code"
+                className="block w-full px-3 py-2 bg-white dark:bg-gray-900 border border-gray-300 dark:border-gray-700 rounded-lg text-gray-900 dark:text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-red-600 focus:border-transparent"
+                placeholder="6-digit code or backup code"
+                required
+              />
+            </div>
+
+            {mfaStatus && mfaStatus.passkeys > 0 && (
+              <button
+                type="button"
+                onClick={() => disable(true)}
+                disabled={isLoading || !password}
+                className="text-sm text-blue-600 dark:text-blue-400 hover:underline disabled:opacity-50 disabled:no-underline"
+              >
+                Confirm with a passkey instead
+              </button>
+            )}
+
             {/* Actions */}
             <div className="flex justify-end space-x-3 pt-4">
               <button
@@ -134,7 +174,7 @@ export default function DisableMFAModal({
               </button>
               <button
                 type="submit"
-                disabled={isLoading || !password}
+                disabled={isLoading || !password || !code}
                 className="px-4 py-2 text-sm font-medium bg-red-600 hover:bg-red-700 text-white rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
               >
                 {isLoading ? 'Disabling...' : 'Disable MFA'}
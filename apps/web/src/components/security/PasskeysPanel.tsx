@@ -0,0 +1,302 @@
+'use client';
+
+/**
+ * Passkeys Panel Component
+ *
+ * Lists the passkeys and security keys registered to the current account and
+ * lets the user add, rename and remove them. A passkey works as a second
+ * factor and for passwordless sign-in. Removing one requires step-up
+ * re-authentication (password plus an MFA code or another passkey).
+ */
+
+import { useState } from 'react';
+import { startRegistration } from '@simplewebauthn/browser';
+import { trpc } from '@/lib/trpc';
+import { useStepUp } from '@/hooks/useStepUp';
+
+interface PasskeysPanelProps {
+  /** Called after a passkey was added or removed (MFA status may have changed) */
+  onChange?: () => void;
+}
+
+const inputClassName =
+  'block w-full px-3 py-2 bg-white dark:bg-gray-900 border border-gray-300 dark:border-gray-700 rounded-lg text-sm text-gray-900 dark:text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+export default function PasskeysPanel({ onChange }: PasskeysPanelProps) {
+  const [error, setError] = useState('');
+  const [isAdding, setIsAdding] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState('');
+  const [removingId, setRemovingId] = useState<string | null>(null);
+  const [password, setPassword] = useState('');
+  const [code, setCode] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+
+  const { data: passkeys, isLoading, refetch } = trpc.passkeys.list.useQuery();
+  const registrationOptionsMutation = trpc.passkeys.registrationOptions.useMutation();
+  const registerMutation = trpc.passkeys.register.useMutation();
+  const renameMutation = trpc.passkeys.rename.useMutation();
+  const removeMutation = trpc.passkeys.remove.useMutation();
+  const { stepUp, stepUpWithPasskey } = useStepUp();
+
+  const run = async (action: () => Promise<void>, fallbackMessage: string) => {
+    setError('');
+    setIsWorking(true);
+
+    try {
+      await action();
+    } catch (err: any) {
+      // The browser rejects with NotAllowedError when the user cancels the prompt
+      setError(
+        err?.name === 'NotAllowedError'
+          ? 'The passkey prompt was cancelled or timed out'
+          : err.message || fallbackMessage
+      );
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    return run(async () => {
+      const { options, challengeToken } = await registrationOptionsMutation.mutateAsync();
+      const response = await startRegistration({ optionsJSON: options });
+      await registerMutation.mutateAsync({ challengeToken, response, name: newName });
+
+      setIsAdding(false);
+      setNewName('');
+      await refetch();
+      onChange?.();
+    }, 'Failed to add passkey');
+  };
+
+  const handleRename = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editingId) return;
+
+    return run(async () => {
+      await renameMutation.mutateAsync({ id: editingId, name: editName });
+      setEditingId(null);
+      await refetch();
+    }, 'Failed to rename passkey');
+  };
+
+  const handleRemove = (withPasskey: boolean) => {
+    if (!removingId) return;
+
+    return run(async () => {
+      const stepUpToken = withPasskey
+        ? await stepUpWithPasskey(password)
+        : await stepUp(password, code);
+      await removeMutation.mutateAsync({ id: removingId, stepUpToken });
+
+      cancelRemove();
+      await refetch();
+      onChange?.();
+    }, 'Failed to remove passkey');
+  };
+
+  const cancelRemove = () => {
+    setRemovingId(null);
+    setPassword('');
+    setCode('');
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 shadow rounded-lg">
+      <div className="px-4 py-5 sm:p-6">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h3 className="text-lg font-medium text-gray-900 dark:text-white">
+              Passkeys
+            </h3>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+              Sign in with your fingerprint, face, screen lock or a security key
+            </p>
+          </div>
+          {!isAdding && (
+            <button
+              onClick={() => setIsAdding(true)}
+              className="px-3 py-1.5 text-sm font-medium text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/10 rounded-lg transition-colors"
+            >
+              Add passkey
+            </button>
+          )}
+        </div>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+            <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+          </div>
+        )}
+
+        {isAdding && (
+          <form onSubmit={handleAdd} className="mb-4 flex items-center space-x-3">
+            <input
+              type="text"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              placeholder="Name, e.g. Work laptop"
+              maxLength={64}
+              required
+              disabled={isWorking}
+              className={inputClassName}
+            />
+            <button
+              type="submit"
+              disabled={isWorking || !newName.trim()}
+              className="px-4 py-2 text-sm font-medium bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed whitespace-nowrap"
+            >
+              {isWorking ? 'Waiting...' : 'Register'}
+            </button>
+            <button
+              type="button"
+              onClick={() => setIsAdding(false)}
+              disabled={isWorking}
+              className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors disabled:opacity-50"
+            >
+              Cancel
+            </button>
+          </form>
+        )}
+
+        {isLoading ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">Loading passkeys...</p>
+        ) : !passkeys || passkeys.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">No passkeys registered</p>
+        ) : (
+          <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+            {passkeys.map((passkey) => (
+              <li key={passkey.id} className="py-3">
+                {editingId === passkey.id ? (
+                  <form onSubmit={handleRename} className="flex items-center space-x-3">
+                    <input
+                      type="text"
+                      value={editName}
+                      onChange={(e) => setEditName(e.target.value)}
+                      maxLength={64}
+                      required
+                      disabled={isWorking}
+                      className={inputClassName}
+                    />
+                    <button
+                      type="submit"
+                      disabled={isWorking || !editName.trim()}
+                      className="px-3 py-1.5 text-sm font-medium text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/10 rounded-lg transition-colors disabled:opacity-50"
+                    >
+                      Save
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setEditingId(null)}
+                      className="px-3 py-1.5 text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+                    >
+                      Cancel
+                    </button>
+                  </form>
+                ) : (
+                  <div className="flex items-center justify-between">
+                    <div className="flex-1">
+                      <div className="flex items-center space-x-2">
+                        <h4 className="text-sm font-medium text-gray-900 dark:text-white">
+                          {passkey.name}
+                        </h4>
+                        <span className="inline-flex items-center px-2.5 py-0.5 rounded text-xs font-medium bg-gray-100 dark:bg-gray-900 text-gray-800 dark:text-gray-200">
+                          {passkey.backedUp ? 'Synced' : 'This device only'}
+                        </span>
+                      </div>
+                      <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                        Added {new Date(passkey.createdAt).toLocaleString()} ·{' '}
+                        {passkey.lastUsedAt
+                          ? `Last used ${new Date(passkey.lastUsedAt).toLocaleString()}`
+                          : 'Never used'}
+                      </p>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <button
+                        onClick={() => {
+                          setEditingId(passkey.id);
+                          setEditName(passkey.name);
+                        }}
+                        className="px-3 py-1.5 text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+                      >
+                        Rename
+                      </button>
+                      <button
+                        onClick={() => setRemovingId(passkey.id)}
+                        className="px-3 py-1.5 text-sm font-medium text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/10 rounded-lg transition-colors"
+                      >
+                        Remove
+                      </button>
+                    </div>
+                  </div>
+                )}
+
+                {removingId === passkey.id && (
+                  <form
+                    onSubmit={(e) => {
+                      e.preventDefault();
+                      handleRemove(false);
+                    }}
+                    className="mt-3 p-3 bg-gray-50 dark:bg-gray-900/50 rounded-lg space-y-3"
+                  >
+                    <p className="text-xs text-gray-600 dark:text-gray-400">
+                      Confirm with your password and a code from your authenticator app, a
+                      backup code or another passkey.
+                    </p>
+                    <input
+                      type="password"
+                      value={password}
+                      onChange={(e) => setPassword(e.target.value)}
+                      placeholder="Password"
+                      autoComplete="current-password"
+                      disabled={isWorking}
+                      className={inputClassName}
+                    />
+                    <input
+                      type="text"
+                      value={code}
+                      onChange={(e) => setCode(e.target.value.trim())}
+                      placeholder="6-digit code or backup code"
+                      autoComplete="one-time-code"
+                      disabled={isWorking}
+                      className={inputClassName}
+                    />
+                    <div className="flex items-center justify-end space-x-2">
+                      <button
+                        type="button"
+                        onClick={cancelRemove}
+                        disabled={isWorking}
+                        className="px-3 py-1.5 text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors disabled:opacity-50"
+                      >
+                        Cancel
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => handleRemove(true)}
+                        disabled={isWorking || !password}
+                        className="px-3 py-1.5 text-sm font-medium text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/10 rounded-lg transition-colors disabled:opacity-50"
+                      >
+                        Use a passkey
+                      </button>
+                      <button
+                        type="submit"
+                        disabled={isWorking || !password || !code}
+                        className="px-3 py-1.5 text-sm font-medium bg-red-600 hover:bg-red-700 text-white rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        {isWorking ? 'Removing...' : 'Remove passkey'}
+                      </button>
+                    </div>
+                  </form>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
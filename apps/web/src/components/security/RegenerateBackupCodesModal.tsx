@@ -13,13 +13,11 @@ import { trpc } from '@/lib/trpc';
 interface RegenerateBackupCodesModalProps {
   isOpen: boolean;
   onClose: () => void;
-  userId: string;
 }
 
 export default function RegenerateBackupCodesModal({
   isOpen,
   onClose,
-  userId,
 }: RegenerateBackupCodesModalProps) {
   const [password, setPassword] = useState('');
   const [backupCodes, setBackupCodes] = useState<string[]>([]);
@@ -35,10 +33,7 @@ export default function RegenerateBackupCodesModal({
     setIsLoading(true);
 
     try {
-      const result = await regenerateBackupCodesMutation.mutateAsync({
-        userId,
-        password,
-      });
+      const result = await regenerateBackupCodesMutation.mutateAsync({ password });
       setBackupCodes(result.backupCodes);
       setStep('display');
     } catch (err: any) {
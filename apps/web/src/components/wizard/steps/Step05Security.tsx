@@ -155,6 +155,20 @@ export function Step05Security() {
             {errors.maxConcurrentSessions && (
               <p className="mt-1 text-sm text-red-600 dark:text-red-400">{errors.maxConcurrentSessions.message}</p>
             )}
+            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">Oldest sessions are signed out when exceeded</p>
+          </div>
+
+          <div className="col-span-2 flex items-center gap-3">
+            <input
+              id="mfaRequired"
+              type="checkbox"
+              {...register('mfaRequired')}
+              onChange={handleSubmit(saveFormData)}
+              className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+            />
+            <label htmlFor="mfaRequired" className="text-sm text-gray-700 dark:text-gray-300">
+              Require two-factor authentication for all users
+            </label>
           </div>
         </div>
       </div>
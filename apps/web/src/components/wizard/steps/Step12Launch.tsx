@@ -144,6 +144,7 @@ export function Step12Launch() {
           <h3 className="text-sm font-semibold text-gray-900 dark:text-white mb-2">Security</h3>
           <div className="text-sm text-gray-600 dark:text-gray-400 space-y-1">
             <p>Session Timeout: {wizardData.security?.sessionTimeout || 15} min</p>
+            <p>MFA Required: {wizardData.security?.mfaRequired ? 'Yes' : 'No'}</p>
             <p>Data Retention: {wizardData.security?.dataRetentionDays || 30} days</p>
           </div>
         </div>
@@ -9,6 +9,7 @@
 
 import { createContext, useContext, useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
+import { trpc } from '@/lib/trpc';
 
 export interface AuthUser {
   userId: string;
@@ -26,7 +27,7 @@ interface AuthContextType {
   isLoading: boolean;
   isAuthenticated: boolean;
   login: (accessToken: string, refreshToken: string) => void;
-  logout: () => void;
+  logout: (options?: { everywhere?: boolean }) => void;
   refreshAuth: () => void;
 }
 
@@ -72,6 +73,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [user, setUser] = useState<AuthUser | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const router = useRouter();
+  const logoutMutation = trpc.auth.logout.useMutation();
 
   /**
    * Load user from localStorage on mount
@@ -151,13 +153,26 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   };
 
   /**
-   * Logout - clear tokens and redirect
+   * Logout - revoke the server-side session, clear tokens and redirect
+   * Tokens are cleared even if the revoke call fails (e.g. session already expired).
    */
-  const logout = () => {
-    localStorage.removeItem('accessToken');
-    localStorage.removeItem('refreshToken');
-    setUser(null);
-    router.push('/login');
+  const logout = (options?: { everywhere?: boolean }) => {
+    const clearAuth = () => {
+      localStorage.removeItem('accessToken');
+      localStorage.removeItem('refreshToken');
+      setUser(null);
+      router.push('/login');
+    };
+
+    if (!localStorage.getItem('accessToken')) {
+      clearAuth();
+      return;
+    }
+
+    logoutMutation.mutate(
+      { everywhere: options?.everywhere ?? false },
+      { onSettled: clearAuth }
+    );
   };
 
   /**
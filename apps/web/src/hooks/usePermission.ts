@@ -5,9 +5,37 @@
  *
  * Check if the current user has a specific permission.
  * Used for conditional rendering and feature gating in the UI.
+ *
+ * Permissions come from auth.myPermissions, fetched once and shared by every
+ * hook (so role changes show up without signing in again). Until it loads,
+ * the permissions in the access token are used.
  */
 
+import { hasPermission } from '@shop-rewards/shared/constants';
 import { useAuth } from '@/contexts/AuthContext';
+import { trpc } from '@/lib/trpc';
+
+/**
+ * Current user's effective permissions (wildcards such as 'module:*' included)
+ *
+ * @returns Permission strings, or null when not authenticated
+ */
+function useEffectivePermissions(): string[] | null {
+  const { user } = useAuth();
+  const { data } = trpc.auth.myPermissions.useQuery(undefined, {
+    enabled: !!user,
+  });
+
+  if (!user) {
+    return null;
+  }
+
+  if (user.isSuperAdmin || data?.isSuperAdmin) {
+    return ['*:*'];
+  }
+
+  return data?.permissions ?? user.permissions;
+}
 
 /**
  * Check if user has a specific permission
@@ -30,21 +58,14 @@ import { useAuth } from '@/contexts/AuthContext';
  * }
  */
 export function usePermission(module: string, action: string): boolean {
-  const { user } = useAuth();
+  const permissions = useEffectivePermissions();
 
   // Not authenticated - no permissions
-  if (!user) {
+  if (!permissions) {
     return false;
   }
 
-  // Super admins have all permissions
-  if (user.isSuperAdmin) {
-    return true;
-  }
-
-  // Check if user has the specific permission
-  const permissionString = `${module}:${action}`;
-  return user.permissions.includes(permissionString);
+  return hasPermission(permissions, module, action);
 }
 
 /**
@@ -62,20 +83,13 @@ export function usePermission(module: string, action: string): boolean {
 export function useAnyPermission(
   permissions: Array<[string, string]>
 ): boolean {
-  const { user } = useAuth();
+  const userPermissions = useEffectivePermissions();
 
-  if (!user) {
+  if (!userPermissions) {
     return false;
   }
 
-  if (user.isSuperAdmin) {
-    return true;
-  }
-
-  return permissions.some(([module, action]) => {
-    const permissionString = `${module}:${action}`;
-    return user.permissions.includes(permissionString);
-  });
+  return permissions.some(([module, action]) => hasPermission(userPermissions, module, action));
 }
 
 /**
@@ -93,20 +107,13 @@ export function useAnyPermission(
 export function useAllPermissions(
   permissions: Array<[string, string]>
 ): boolean {
-  const { user } = useAuth();
+  const userPermissions = useEffectivePermissions();
 
-  if (!user) {
+  if (!userPermissions) {
     return false;
   }
 
-  if (user.isSuperAdmin) {
-    return true;
-  }
-
-  return permissions.every(([module, action]) => {
-    const permissionString = `${module}:${action}`;
-    return user.permissions.includes(permissionString);
-  });
+  return permissions.every(([module, action]) => hasPermission(userPermissions, module, action));
 }
 
 /**
@@ -136,15 +143,5 @@ export function useIsSuperAdmin(): boolean {
  * console.log(permissions); // ['users:create', 'users:update', ...]
  */
 export function useUserPermissions(): string[] {
-  const { user } = useAuth();
-
-  if (!user) {
-    return [];
-  }
-
-  if (user.isSuperAdmin) {
-    return ['*:*']; // Wildcard for all permissions
-  }
-
-  return user.permissions;
+  return useEffectivePermissions() ?? [];
 }
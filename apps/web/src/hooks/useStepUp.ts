@@ -0,0 +1,51 @@
+'use client';
+
+/**
+ * Step-Up Hook
+ *
+ * Exchange the password and a second factor for a step-up token (auth.stepUp).
+ * Sensitive operations such as disabling MFA or removing a passkey require one.
+ */
+
+import { startAuthentication } from '@simplewebauthn/browser';
+import { trpc } from '@/lib/trpc';
+
+/**
+ * Step-up with an MFA code or with one of the user's passkeys
+ *
+ * @example
+ * const { stepUp, stepUpWithPasskey } = useStepUp();
+ * const stepUpToken = await stepUp(password, code);
+ * await disableMFAMutation.mutateAsync({ stepUpToken });
+ */
+export function useStepUp() {
+  const stepUpMutation = trpc.auth.stepUp.useMutation();
+  const passkeyOptionsMutation = trpc.passkeys.authenticationOptions.useMutation();
+
+  /**
+   * Step up with a TOTP code or a backup code
+   */
+  const stepUp = async (password: string, code: string): Promise<string> => {
+    const result = await stepUpMutation.mutateAsync({ password, code });
+    return result.stepUpToken;
+  };
+
+  /**
+   * Step up with a passkey (prompts the browser)
+   */
+  const stepUpWithPasskey = async (password: string): Promise<string> => {
+    const { options, challengeToken } = await passkeyOptionsMutation.mutateAsync();
+    const response = await startAuthentication({ optionsJSON: options });
+    const result = await stepUpMutation.mutateAsync({
+      password,
+      passkey: { challengeToken, response },
+    });
+    return result.stepUpToken;
+  };
+
+  return {
+    stepUp,
+    stepUpWithPasskey,
+    isPending: stepUpMutation.isPending || passkeyOptionsMutation.isPending,
+  };
+}
@@ -0,0 +1,13 @@
+/**
+ * Next.js Instrumentation
+ *
+ * Runs once when the server starts. Starts the in-process job scheduler
+ * (Node.js runtime only; the Edge runtime has no timers or Prisma).
+ */
+
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { startScheduler } = await import('./server/lib/scheduler');
+    startScheduler();
+  }
+}
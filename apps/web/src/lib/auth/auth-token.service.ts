@@ -0,0 +1,107 @@
+/**
+ * Auth Token Service
+ *
+ * Single-use tokens delivered by email (account unlock, password reset and
+ * email verification links).
+ * Only the SHA-256 hash is stored; a token is consumed atomically so it
+ * cannot be used twice, and issuing a new token invalidates older unused ones
+ * for the same user and purpose.
+ */
+
+import 'server-only';
+import type { Prisma, PrismaClient } from '@shop-rewards/db';
+import { generateToken, sha256 } from '@shop-rewards/shared/utils';
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+/**
+ * What a token authorizes (stored in AuthToken.purpose)
+ */
+export type AuthTokenPurpose = 'account_unlock' | 'password_reset' | 'email_verification';
+
+/**
+ * Issue a token for a user
+ *
+ * @param db - Prisma client
+ * @param userId - User the token belongs to
+ * @param purpose - What the token authorizes
+ * @param ttlSeconds - Token lifetime
+ * @returns Raw token (to be sent to the user, never stored)
+ */
+export async function createAuthToken(
+  db: DbClient,
+  userId: string,
+  purpose: AuthTokenPurpose,
+  ttlSeconds: number
+): Promise<string> {
+  const token = generateToken(32);
+  const now = new Date();
+
+  // Only the latest token for a purpose stays valid
+  await db.authToken.updateMany({
+    where: { userId, purpose, usedAt: null },
+    data: { usedAt: now },
+  });
+
+  await db.authToken.create({
+    data: {
+      userId,
+      purpose,
+      tokenHash: sha256(token),
+      expiresAt: new Date(now.getTime() + ttlSeconds * 1000),
+    },
+  });
+
+  return token;
+}
+
+/**
+ * Consume a token
+ *
+ * @param db - Prisma client
+ * @param purpose - Purpose the token must have been issued for
+ * @param token - Raw token from the link
+ * @returns ID of the token's user
+ * @throws Error (INVALID_TOKEN) if the token is unknown, expired or already used
+ */
+export async function consumeAuthToken(
+  db: DbClient,
+  purpose: AuthTokenPurpose,
+  token: string
+): Promise<string> {
+  const tokenHash = sha256(token);
+  const now = new Date();
+
+  const record = await db.authToken.findUnique({ where: { tokenHash } });
+
+  if (!record || record.purpose !== purpose || record.usedAt || record.expiresAt <= now) {
+    throw new Error('INVALID_TOKEN: Token is invalid or has expired');
+  }
+
+  // Conditional update: only one of two concurrent uses succeeds
+  const { count } = await db.authToken.updateMany({
+    where: { id: record.id, usedAt: null },
+    data: { usedAt: now },
+  });
+
+  if (count === 0) {
+    throw new Error('INVALID_TOKEN: Token is invalid or has expired');
+  }
+
+  return record.userId;
+}
+
+/**
+ * Delete expired tokens (run periodically)
+ *
+ * @returns Number of tokens deleted
+ */
+export async function cleanupAuthTokens(db: DbClient): Promise<number> {
+  const result = await db.authToken.deleteMany({
+    where: { expiresAt: { lt: new Date() } },
+  });
+
+  console.log('[Auth Token Service] Cleanup removed tokens:', result.count);
+
+  return result.count;
+}
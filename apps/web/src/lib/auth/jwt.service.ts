@@ -2,16 +2,28 @@
  * JWT Authentication Service
  *
  * Handles JWT token generation and verification using jose library.
- * Supports access tokens (15 min) and refresh tokens (7 days).
+ * Supports access tokens (15 min) and refresh tokens (7 days), plus short-lived
+ * MFA challenge, step-up and WebAuthn challenge tokens (5 min) and MFA setup
+ * tokens (10 min). The short-lived tokens have their own audiences, so they are
+ * never accepted as access tokens.
  */
 
 import 'server-only';
+import { randomUUID } from 'crypto';
 import * as jose from 'jose';
 
 // Token configuration
 const ACCESS_TOKEN_TTL = '15m'; // 15 minutes
 const REFRESH_TOKEN_TTL = '7d'; // 7 days
 const ALGORITHM = 'HS256';
+const MFA_CHALLENGE_TTL_SECONDS = 5 * 60; // 5 minutes
+const STEP_UP_TTL_SECONDS = 5 * 60; // 5 minutes
+const MFA_CHALLENGE_AUDIENCE = 'shoprewards-mfa-challenge';
+const STEP_UP_AUDIENCE = 'shoprewards-step-up';
+const WEBAUTHN_CHALLENGE_TTL_SECONDS = 5 * 60; // 5 minutes
+const WEBAUTHN_CHALLENGE_AUDIENCE = 'shoprewards-webauthn';
+const MFA_SETUP_TTL_SECONDS = 10 * 60; // 10 minutes
+const MFA_SETUP_AUDIENCE = 'shoprewards-mfa-setup';
 
 // JWT payload structure
 export interface TokenPayload {
@@ -22,6 +34,8 @@ export interface TokenPayload {
   roles: string[];
   isSuperAdmin: boolean;
   mfaEnabled: boolean;
+  /** Server-side Session row (refresh token family) the token belongs to */
+  sessionId: string;
   type: 'access' | 'refresh';
 }
 
@@ -66,6 +80,7 @@ export async function generateAccessToken(
     type: 'access',
   })
     .setProtectedHeader({ alg: ALGORITHM })
+    .setJti(randomUUID())
     .setIssuedAt()
     .setExpirationTime(ACCESS_TOKEN_TTL)
     .setIssuer('shoprewards-hub')
@@ -100,6 +115,7 @@ export async function generateRefreshToken(
     type: 'refresh',
   })
     .setProtectedHeader({ alg: ALGORITHM })
+    .setJti(randomUUID())
     .setIssuedAt()
     .setExpirationTime(REFRESH_TOKEN_TTL)
     .setIssuer('shoprewards-hub')
@@ -212,6 +228,238 @@ export async function verifyRefreshToken(
   return payload;
 }
 
+/**
+ * Sign a short-lived token for one step of an authentication flow
+ *
+ * @param subject - User the token is about (null if not known yet)
+ * @param claims - Extra claims
+ * @param audience - What the token may be used for
+ * @param ttlSeconds - Token lifetime
+ */
+async function signScopedToken(
+  subject: string | null,
+  claims: Record<string, string>,
+  audience: string,
+  ttlSeconds: number
+): Promise<TokenResult> {
+  const expiresAt = new Date(Date.now() + ttlSeconds * 1000);
+
+  const jwt = new jose.SignJWT(claims).setProtectedHeader({ alg: ALGORITHM }).setJti(randomUUID());
+
+  if (subject) {
+    jwt.setSubject(subject);
+  }
+
+  const token = await jwt
+    .setIssuedAt()
+    .setExpirationTime(Math.floor(expiresAt.getTime() / 1000))
+    .setIssuer('shoprewards-hub')
+    .setAudience(audience)
+    .sign(getJWTSecret());
+
+  return { token, expiresAt };
+}
+
+/**
+ * Verify a short-lived token signed by signScopedToken
+ *
+ * @throws Error('TOKEN_EXPIRED' | 'TOKEN_INVALID')
+ */
+async function verifyScopedToken(token: string, audience: string): Promise<jose.JWTPayload> {
+  try {
+    const { payload } = await jose.jwtVerify(token, getJWTSecret(), {
+      issuer: 'shoprewards-hub',
+      audience,
+      algorithms: [ALGORITHM],
+    });
+
+    return payload;
+  } catch (error) {
+    if (error instanceof jose.errors.JWTExpired) {
+      throw new Error('TOKEN_EXPIRED');
+    }
+
+    throw new Error('TOKEN_INVALID');
+  }
+}
+
+/**
+ * Generate an MFA challenge token (5 min TTL)
+ * Issued by login once the password has been verified; loginWithMFA and
+ * loginWithBackupCode require it as proof of the first factor.
+ *
+ * @param userId - User who passed the password step
+ * @returns Challenge token and expiration
+ */
+export async function generateMFAChallengeToken(userId: string): Promise<TokenResult> {
+  return signScopedToken(userId, {}, MFA_CHALLENGE_AUDIENCE, MFA_CHALLENGE_TTL_SECONDS);
+}
+
+/**
+ * Verify an MFA challenge token
+ *
+ * @param token - Challenge token from login
+ * @returns ID of the user who passed the password step
+ * @throws Error('TOKEN_EXPIRED' | 'TOKEN_INVALID')
+ */
+export async function verifyMFAChallengeToken(token: string): Promise<string> {
+  const payload = await verifyScopedToken(token, MFA_CHALLENGE_AUDIENCE);
+
+  if (!payload.sub) {
+    throw new Error('TOKEN_INVALID');
+  }
+
+  return payload.sub;
+}
+
+/**
+ * Generate a step-up token (5 min TTL)
+ * Proves that the user re-authenticated recently in this session; required
+ * by sensitive operations such as disabling MFA.
+ *
+ * @param userId - User who re-authenticated
+ * @param sessionId - Session the re-authentication happened in
+ * @returns Step-up token and expiration
+ */
+export async function generateStepUpToken(
+  userId: string,
+  sessionId: string
+): Promise<TokenResult> {
+  return signScopedToken(userId, { sid: sessionId }, STEP_UP_AUDIENCE, STEP_UP_TTL_SECONDS);
+}
+
+/**
+ * Verify a step-up token
+ *
+ * @param token - Step-up token
+ * @param sessionId - Session of the current request (must match)
+ * @returns ID of the user who re-authenticated
+ * @throws Error('TOKEN_EXPIRED' | 'TOKEN_INVALID')
+ */
+export async function verifyStepUpToken(token: string, sessionId: string): Promise<string> {
+  const payload = await verifyScopedToken(token, STEP_UP_AUDIENCE);
+
+  if (!payload.sub || payload.sid !== sessionId) {
+    throw new Error('TOKEN_INVALID');
+  }
+
+  return payload.sub;
+}
+
+/**
+ * Pending TOTP enrollment carried by an MFA setup token
+ */
+export interface MFASetupClaims {
+  /** Base32 TOTP secret generated by setupMFA */
+  secret: string;
+  /** Hashes of the backup codes shown to the user (see hashBackupCode) */
+  backupCodeHashes: string[];
+}
+
+/**
+ * Generate an MFA setup token (10 min TTL)
+ * Issued by setupMFA with the server-generated secret and backup code hashes;
+ * verifyMFASetup stores them once the user proves the secret with a code, so
+ * the client never supplies them. Bound to the session that started setup.
+ *
+ * @param userId - User enrolling
+ * @param sessionId - Session the enrollment started in
+ * @param setup - Secret and backup code hashes to enable
+ * @returns Setup token and expiration
+ */
+export async function generateMFASetupToken(
+  userId: string,
+  sessionId: string,
+  setup: MFASetupClaims
+): Promise<TokenResult> {
+  return signScopedToken(
+    userId,
+    { sid: sessionId, secret: setup.secret, codes: setup.backupCodeHashes.join(',') },
+    MFA_SETUP_AUDIENCE,
+    MFA_SETUP_TTL_SECONDS
+  );
+}
+
+/**
+ * Verify an MFA setup token
+ *
+ * @param token - Setup token from setupMFA
+ * @param userId - User of the current request (must match)
+ * @param sessionId - Session of the current request (must match)
+ * @returns Secret and backup code hashes to enable
+ * @throws Error('TOKEN_EXPIRED' | 'TOKEN_INVALID')
+ */
+export async function verifyMFASetupToken(
+  token: string,
+  userId: string,
+  sessionId: string
+): Promise<MFASetupClaims> {
+  const payload = await verifyScopedToken(token, MFA_SETUP_AUDIENCE);
+
+  if (
+    payload.sub !== userId ||
+    payload.sid !== sessionId ||
+    typeof payload.secret !== 'string' ||
+    typeof payload.codes !== 'string'
+  ) {
+    throw new Error('TOKEN_INVALID');
+  }
+
+  return {
+    secret: payload.secret,
+    backupCodeHashes: payload.codes ? payload.codes.split(',') : [],
+  };
+}
+
+/**
+ * What a WebAuthn ceremony is for
+ */
+export type WebAuthnCeremony = 'registration' | 'authentication';
+
+/**
+ * Generate a WebAuthn challenge token (5 min TTL)
+ * Carries the challenge of a registration or authentication ceremony to the
+ * verification step, so no server-side state is needed between the two.
+ *
+ * @param challenge - Challenge sent to the authenticator
+ * @param ceremony - Registration or authentication
+ * @param userId - User the ceremony is for (null for passwordless sign-in)
+ * @returns Challenge token and expiration
+ */
+export async function generateWebAuthnChallengeToken(
+  challenge: string,
+  ceremony: WebAuthnCeremony,
+  userId: string | null
+): Promise<TokenResult> {
+  return signScopedToken(
+    userId,
+    { challenge, ceremony },
+    WEBAUTHN_CHALLENGE_AUDIENCE,
+    WEBAUTHN_CHALLENGE_TTL_SECONDS
+  );
+}
+
+/**
+ * Verify a WebAuthn challenge token
+ *
+ * @param token - Challenge token from the options step
+ * @param ceremony - Ceremony the token must have been issued for
+ * @returns Challenge and user (null for passwordless sign-in)
+ * @throws Error('TOKEN_EXPIRED' | 'TOKEN_INVALID')
+ */
+export async function verifyWebAuthnChallengeToken(
+  token: string,
+  ceremony: WebAuthnCeremony
+): Promise<{ challenge: string; userId: string | null }> {
+  const payload = await verifyScopedToken(token, WEBAUTHN_CHALLENGE_AUDIENCE);
+
+  if (payload.ceremony !== ceremony || typeof payload.challenge !== 'string') {
+    throw new Error('TOKEN_INVALID');
+  }
+
+  return { challenge: payload.challenge, userId: payload.sub ?? null };
+}
+
 /**
  * Decode JWT token without verification (unsafe - for debugging only)
  *
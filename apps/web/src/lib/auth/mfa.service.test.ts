@@ -0,0 +1,55 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { generateMFASetupToken, verifyMFASetupToken } from './jwt.service';
+import {
+  generateBackupCodes,
+  hashBackupCode,
+  removeBackupCode,
+  verifyBackupCode,
+} from './mfa.service';
+
+describe('backup codes', () => {
+  it('verify typed codes against the stored hashes', () => {
+    const [code, other] = generateBackupCodes(2);
+    const stored = [hashBackupCode(code!), hashBackupCode(other!)];
+
+    expect(stored.join()).not.toContain(code);
+    expect(verifyBackupCode(code!.toLowerCase().replace(/-/g, ' '), stored)).toBe(true);
+    expect(verifyBackupCode('AAAA-BBBB-CC', stored)).toBe(false);
+  });
+
+  it('hash codes stored before hashing when one is used', () => {
+    const stored = ['AAAA-BBBB-CC', 'DDDD-EEEE-FF'];
+
+    expect(verifyBackupCode('aaaabbbbcc', stored)).toBe(true);
+    expect(removeBackupCode('AAAA-BBBB-CC', stored)).toEqual([hashBackupCode('DDDD-EEEE-FF')]);
+  });
+});
+
+describe('MFA setup token', () => {
+  const setup = { secret: 'JBSWY3DPEHPK3PXP', backupCodeHashes: [hashBackupCode('AAAA-BBBB-CC')] };
+
+  beforeEach(() => {
+    vi.stubEnv('JWT_SECRET', 'test-secret-that-is-at-least-32-characters');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('carries the server-generated secret and backup code hashes', async () => {
+    const { token } = await generateMFASetupToken('user-1', 'session-1', setup);
+
+    await expect(verifyMFASetupToken(token, 'user-1', 'session-1')).resolves.toEqual(setup);
+  });
+
+  it('is only accepted by the session that started setup', async () => {
+    const { token } = await generateMFASetupToken('user-1', 'session-1', setup);
+
+    await expect(verifyMFASetupToken(token, 'user-1', 'session-2')).rejects.toThrow('TOKEN_INVALID');
+    await expect(verifyMFASetupToken(token, 'user-2', 'session-1')).rejects.toThrow('TOKEN_INVALID');
+    await expect(verifyMFASetupToken(`${token}x`, 'user-1', 'session-1')).rejects.toThrow(
+      'TOKEN_INVALID'
+    );
+  });
+});
@@ -3,11 +3,14 @@
  *
  * Handles TOTP (Time-based One-Time Password) generation and verification.
  * Uses speakeasy for TOTP and qrcode for QR code generation.
+ * Backup codes are shown to the user once and stored as SHA-256 hashes.
  */
 
 import 'server-only';
+import { randomInt } from 'crypto';
 import speakeasy from 'speakeasy';
 import QRCode from 'qrcode';
+import { sha256 } from '@shop-rewards/shared/utils';
 
 /**
  * MFA setup result with secret and QR code
@@ -138,7 +141,7 @@ export function generateBackupCodes(
   for (let i = 0; i < count; i++) {
     let code = '';
     for (let j = 0; j < length; j++) {
-      code += charset[Math.floor(Math.random() * charset.length)];
+      code += charset[randomInt(charset.length)];
     }
     // Format as XXXX-XXXX-XX for readability
     const formatted = code.match(/.{1,4}/g)?.join('-') || code;
@@ -148,12 +151,46 @@ export function generateBackupCodes(
   return codes;
 }
 
+/**
+ * Normalize a backup code as typed (case, spaces and dashes don't matter)
+ */
+function normalizeBackupCode(code: string): string {
+  return code.toUpperCase().replace(/[\s-]/g, '');
+}
+
+/**
+ * Stored form of backup codes: hashes are 64 hex characters, while codes
+ * stored before hashing are XXXX-XXXX-XX
+ */
+const BACKUP_CODE_HASH_PATTERN = /^[0-9a-f]{64}$/;
+
+/**
+ * Hash a backup code for storage
+ *
+ * @param code - Backup code as generated or typed
+ * @returns SHA-256 hex of the normalized code
+ */
+export function hashBackupCode(code: string): string {
+  return sha256(normalizeBackupCode(code));
+}
+
+/**
+ * Stored backup codes in hashed form (hashes codes stored before hashing)
+ *
+ * @param storedCodes - Backup codes from database
+ */
+export function hashBackupCodes(storedCodes: string[]): string[] {
+  return storedCodes.map((storedCode) =>
+    BACKUP_CODE_HASH_PATTERN.test(storedCode) ? storedCode : hashBackupCode(storedCode)
+  );
+}
+
 /**
  * Verify backup code
  * Note: Backup codes should be one-time use and marked as used in database
  *
  * @param code - Backup code entered by user
- * @param storedCodes - Array of valid backup codes from database
+ * @param storedCodes - Hashes of the unused backup codes from database
  * @returns True if code is valid and unused
  */
 export function verifyBackupCode(
@@ -164,14 +201,7 @@ export function verifyBackupCode(
     return false;
   }
 
-  // Normalize code (uppercase, remove spaces/dashes)
-  const normalizedCode = code.toUpperCase().replace(/[\s-]/g, '');
-
-  // Check if code exists in stored codes
-  const isValid = storedCodes.some((storedCode) => {
-    const normalizedStored = storedCode.toUpperCase().replace(/[\s-]/g, '');
-    return normalizedStored === normalizedCode;
-  });
+  const isValid = hashBackupCodes(storedCodes).includes(hashBackupCode(code));
 
   if (isValid) {
     console.log('[MFA Service] Backup code verified successfully');
@@ -182,6 +212,19 @@ export function verifyBackupCode(
   return isValid;
 }
 
+/**
+ * Remove a used backup code
+ *
+ * @param code - Backup code entered by user (already verified)
+ * @param storedCodes - Backup code hashes from database
+ * @returns Hashes of the remaining codes
+ */
+export function removeBackupCode(code: string, storedCodes: string[]): string[] {
+  const usedHash = hashBackupCode(code);
+
+  return hashBackupCodes(storedCodes).filter((storedHash) => storedHash !== usedHash);
+}
+
 /**
  * Check if MFA is enabled for user
  * (Helper function for convenience)
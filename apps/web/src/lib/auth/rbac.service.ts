@@ -12,6 +12,7 @@ import {
   isSuperAdminRole,
   getRolePermissions as getDefaultRolePermissions,
 } from '@shop-rewards/shared/constants';
+import { invalidateUserPermissions } from '@/server/lib/cache/permission-cache';
 
 /**
  * Get all permissions for a user
@@ -199,6 +200,8 @@ export async function assignRoleToUser(
       },
     });
 
+    await invalidateUserPermissions(userId);
+
     console.log('[RBAC Service] Role assigned successfully:', {
       userId,
       roleName,
@@ -254,6 +257,8 @@ export async function removeRoleFromUser(
       },
     });
 
+    await invalidateUserPermissions(userId);
+
     console.log('[RBAC Service] Role removed successfully:', {
       userId,
       roleName,
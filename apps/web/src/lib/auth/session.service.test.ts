@@ -0,0 +1,37 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { getClientInfo } from './session.service';
+
+const ipOf = (headers: Record<string, string>) => getClientInfo(new Headers(headers)).ipAddress;
+
+describe('getClientInfo', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('takes the hop appended by the proxy, not the one sent by the client', () => {
+    expect(ipOf({ 'x-forwarded-for': '1.1.1.1, 203.0.113.7' })).toBe('203.0.113.7');
+  });
+
+  it('skips the hops of every trusted proxy', () => {
+    vi.stubEnv('TRUSTED_PROXY_COUNT', '2');
+
+    expect(ipOf({ 'x-forwarded-for': '1.1.1.1, 203.0.113.7, 10.0.0.2' })).toBe('203.0.113.7');
+    expect(ipOf({ 'x-forwarded-for': '203.0.113.7' })).toBe('203.0.113.7');
+  });
+
+  it('prefers the configured platform header', () => {
+    vi.stubEnv('CLIENT_IP_HEADER', 'CF-Connecting-IP');
+
+    expect(
+      ipOf({ 'cf-connecting-ip': '203.0.113.7', 'x-forwarded-for': '1.1.1.1, 10.0.0.2' })
+    ).toBe('203.0.113.7');
+    expect(ipOf({ 'x-forwarded-for': '203.0.113.7' })).toBe('unknown');
+  });
+
+  it('ignores client headers without a trusted source', () => {
+    vi.stubEnv('TRUSTED_PROXY_COUNT', '0');
+
+    expect(ipOf({ 'x-forwarded-for': '203.0.113.7', 'x-real-ip': '203.0.113.8' })).toBe('unknown');
+  });
+});
@@ -0,0 +1,496 @@
+/**
+ * Session Service
+ *
+ * Server-side session store backing the stateless JWTs.
+ * Each Session row is one refresh token family: created at login, rotated on
+ * every refresh and revoked on logout. Only SHA-256 hashes of the current
+ * access and refresh tokens are stored.
+ *
+ * - Access tokens are accepted only while their session is active and the
+ *   token is the latest one issued for it
+ * - Presenting a refresh token that was already rotated out (reuse) revokes
+ *   the whole family, since either the client or an attacker holds a stolen copy
+ */
+
+import 'server-only';
+import { randomUUID } from 'crypto';
+import type { Prisma, PrismaClient } from '@shop-rewards/db';
+import { SESSION_CONFIG } from '@shop-rewards/shared/constants';
+import { sha256 } from '@shop-rewards/shared/utils';
+import {
+  generateTokenPair,
+  verifyRefreshToken,
+  type TokenPayload,
+  type TokenResult,
+} from './jwt.service';
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+/**
+ * Claims embedded in both tokens of a session
+ */
+export type SessionClaims = Omit<TokenPayload, 'type' | 'sessionId'>;
+
+/**
+ * Request metadata recorded on the session
+ */
+export interface ClientInfo {
+  ipAddress: string;
+  userAgent: string;
+  /** ISO country code from the CDN / proxy geo header, if any */
+  country?: string;
+}
+
+/**
+ * Geo headers set by common CDNs and proxies (first match wins)
+ */
+const COUNTRY_HEADERS = ['cf-ipcountry', 'x-vercel-ip-country', 'cloudfront-viewer-country', 'x-country-code'];
+
+/**
+ * Tokens issued for a session
+ */
+export interface IssuedSession {
+  sessionId: string;
+  accessToken: TokenResult;
+  refreshToken: TokenResult;
+}
+
+/**
+ * Result of a refresh token rotation
+ * `reused` means the token was already rotated out and the family is now revoked.
+ */
+export type RotationResult =
+  | ({ reused: false; claims: SessionClaims } & IssuedSession)
+  | { reused: true; sessionId: string; userId: string; shopId: string | null };
+
+/**
+ * Reasons stored in Session.revokedReason
+ */
+export type SessionRevokeReason =
+  | 'logout'
+  | 'logout_everywhere'
+  | 'revoked_by_user'
+  | 'refresh_token_reuse'
+  | 'session_limit'
+  | 'idle_timeout'
+  | 'password_changed';
+
+/**
+ * Security fields of the session's user, returned by validateSession
+ */
+export interface SessionUserState {
+  mfaEnabled: boolean;
+  forcePasswordChange: boolean;
+  passwordChangedAt: Date | null;
+  createdAt: Date;
+}
+
+/**
+ * Optional checks applied when validating or rotating a session
+ */
+export interface SessionCheckOptions {
+  /** End sessions inactive for longer than this (seconds) */
+  idleTimeoutSeconds?: number;
+}
+
+/**
+ * Hash a token for storage and lookup
+ */
+function hashToken(token: string): string {
+  return sha256(token);
+}
+
+/**
+ * Client IP of a request
+ * X-Forwarded-For starts with whatever the client sent, so only hops appended
+ * by our own proxies are trusted:
+ * - CLIENT_IP_HEADER: header the platform sets to the connecting IP
+ *   (e.g. cf-connecting-ip behind Cloudflare); used when configured
+ * - TRUSTED_PROXY_COUNT: reverse proxies in front of the app (default 1);
+ *   the client is the hop the outermost of them appended
+ */
+function getClientIp(headers: Headers): string | undefined {
+  const clientIpHeader = process.env.CLIENT_IP_HEADER?.trim().toLowerCase();
+
+  if (clientIpHeader) {
+    return headers.get(clientIpHeader)?.trim() || undefined;
+  }
+
+  const trustedProxies = parseInt(process.env.TRUSTED_PROXY_COUNT || '1', 10);
+  const hops = (headers.get('x-forwarded-for') ?? '')
+    .split(',')
+    .map((hop) => hop.trim())
+    .filter(Boolean);
+
+  if (!(trustedProxies > 0) || hops.length === 0) {
+    return undefined;
+  }
+
+  // Fewer hops than proxies: every hop was appended by one of them
+  return hops[Math.max(hops.length - trustedProxies, 0)];
+}
+
+/**
+ * Extract client IP, user agent and country from request headers
+ * The IP comes from the trusted proxy hop (see getClientIp).
+ */
+export function getClientInfo(headers: Headers): ClientInfo {
+  const country = COUNTRY_HEADERS.map((name) => headers.get(name)?.trim().toUpperCase()).find(
+    // Cloudflare reports XX (unknown) and T1 (Tor)
+    (value) => value && /^[A-Z]{2}$/.test(value) && value !== 'XX'
+  );
+
+  return {
+    ipAddress: getClientIp(headers) || 'unknown',
+    userAgent: headers.get('user-agent') || 'unknown',
+    ...(country ? { country } : {}),
+  };
+}
+
+/**
+ * Load the current token claims for a user
+ *
+ * @throws Error('USER_NOT_FOUND') if the user does not exist or was erased
+ */
+export async function getSessionClaims(db: DbClient, userId: string): Promise<SessionClaims> {
+  const user = await db.user.findUnique({
+    where: { id: userId },
+    include: {
+      roles: {
+        include: {
+          role: true,
+        },
+      },
+    },
+  });
+
+  if (!user || user.deletedAt) {
+    throw new Error('USER_NOT_FOUND');
+  }
+
+  return {
+    userId: user.id,
+    email: user.email,
+    name: user.name || `${user.firstName} ${user.lastName}`,
+    shopId: user.shopId,
+    roles: user.roles.map((ur) => ur.role.name),
+    isSuperAdmin: user.isSuperAdmin,
+    mfaEnabled: user.mfaEnabled || !!user.mfaSecret,
+  };
+}
+
+/**
+ * Create a session and issue its first token pair
+ *
+ * @param db - Prisma client
+ * @param claims - Token claims for the user
+ * @param client - Request IP and user agent
+ * @returns Session ID and tokens
+ */
+export async function createSession(
+  db: DbClient,
+  claims: SessionClaims,
+  client: ClientInfo
+): Promise<IssuedSession> {
+  const sessionId = randomUUID();
+  const { accessToken, refreshToken } = await generateTokenPair({ ...claims, sessionId });
+
+  await db.session.create({
+    data: {
+      id: sessionId,
+      userId: claims.userId,
+      shopId: claims.shopId,
+      accessTokenHash: hashToken(accessToken.token),
+      refreshTokenHash: hashToken(refreshToken.token),
+      ipAddress: client.ipAddress,
+      userAgent: client.userAgent,
+      expiresAt: refreshToken.expiresAt,
+    },
+  });
+
+  await db.user.update({
+    where: { id: claims.userId },
+    data: {
+      lastLoginAt: new Date(),
+      lastLoginIp: client.ipAddress,
+    },
+  });
+
+  console.log('[Session Service] Session created', { sessionId, userId: claims.userId });
+
+  return { sessionId, accessToken, refreshToken };
+}
+
+/**
+ * Rotate a session's refresh token
+ *
+ * The presented token must be the latest one issued for its session. A valid
+ * but outdated token (or a concurrent rotation) is treated as reuse and
+ * revokes the session.
+ *
+ * @param db - Prisma client
+ * @param token - Refresh token presented by the client
+ * @param client - Request IP and user agent
+ * @param options - Idle timeout
+ * @returns New tokens, or `reused: true` if the family was revoked
+ * @throws Error('SESSION_NOT_FOUND' | 'SESSION_REVOKED' | 'SESSION_EXPIRED' | 'SESSION_IDLE_TIMEOUT') or a token error
+ */
+export async function rotateSession(
+  db: DbClient,
+  token: string,
+  client: ClientInfo,
+  options: SessionCheckOptions = {}
+): Promise<RotationResult> {
+  const payload = await verifyRefreshToken(token);
+
+  if (!payload.sessionId) {
+    throw new Error('SESSION_NOT_FOUND');
+  }
+
+  const session = await db.session.findUnique({ where: { id: payload.sessionId } });
+
+  if (!session || session.userId !== payload.userId) {
+    throw new Error('SESSION_NOT_FOUND');
+  }
+
+  if (session.revokedAt) {
+    throw new Error('SESSION_REVOKED');
+  }
+
+  if (session.expiresAt <= new Date()) {
+    throw new Error('SESSION_EXPIRED');
+  }
+
+  await checkIdleTimeout(db, session, options);
+
+  const presentedHash = hashToken(token);
+
+  if (presentedHash !== session.refreshTokenHash) {
+    await revokeSession(db, session.id, 'refresh_token_reuse');
+    console.warn('[Session Service] Refresh token reuse detected, session revoked', {
+      sessionId: session.id,
+      userId: session.userId,
+    });
+    return { reused: true, sessionId: session.id, userId: session.userId, shopId: session.shopId };
+  }
+
+  // Claims are reloaded so role changes apply from the next refresh
+  const claims = await getSessionClaims(db, session.userId);
+  const { accessToken, refreshToken } = await generateTokenPair({
+    ...claims,
+    sessionId: session.id,
+  });
+
+  // Conditional on the presented hash: of two concurrent rotations only one wins
+  const updated = await db.session.updateMany({
+    where: { id: session.id, refreshTokenHash: presentedHash, revokedAt: null },
+    data: {
+      accessTokenHash: hashToken(accessToken.token),
+      refreshTokenHash: hashToken(refreshToken.token),
+      ipAddress: client.ipAddress,
+      userAgent: client.userAgent,
+      expiresAt: refreshToken.expiresAt,
+      lastActivityAt: new Date(),
+    },
+  });
+
+  if (updated.count === 0) {
+    await revokeSession(db, session.id, 'refresh_token_reuse');
+    console.warn('[Session Service] Concurrent refresh token use, session revoked', {
+      sessionId: session.id,
+      userId: session.userId,
+    });
+    return { reused: true, sessionId: session.id, userId: session.userId, shopId: session.shopId };
+  }
+
+  return { reused: false, sessionId: session.id, claims, accessToken, refreshToken };
+}
+
+/**
+ * End a session that has been idle for longer than the configured timeout
+ *
+ * @throws Error('SESSION_IDLE_TIMEOUT') after revoking the session
+ */
+async function checkIdleTimeout(
+  db: DbClient,
+  session: { id: string; lastActivityAt: Date },
+  options: SessionCheckOptions
+): Promise<void> {
+  if (
+    options.idleTimeoutSeconds &&
+    Date.now() - session.lastActivityAt.getTime() > options.idleTimeoutSeconds * 1000
+  ) {
+    await revokeSession(db, session.id, 'idle_timeout');
+    throw new Error('SESSION_IDLE_TIMEOUT');
+  }
+}
+
+/**
+ * Check that an access token belongs to an active session
+ * Also records session activity (at most once per ACTIVITY_UPDATE_INTERVAL).
+ *
+ * @param db - Prisma client
+ * @param sessionId - Session ID from the token
+ * @param token - Access token presented by the client
+ * @param options - Idle timeout
+ * @returns Security fields of the session's user (for policy checks)
+ * @throws Error('SESSION_NOT_FOUND' | 'SESSION_REVOKED' | 'SESSION_EXPIRED' | 'SESSION_IDLE_TIMEOUT' | 'TOKEN_SUPERSEDED')
+ */
+export async function validateSession(
+  db: DbClient,
+  sessionId: string | undefined,
+  token: string,
+  options: SessionCheckOptions = {}
+): Promise<SessionUserState> {
+  if (!sessionId) {
+    throw new Error('SESSION_NOT_FOUND');
+  }
+
+  const session = await db.session.findUnique({
+    where: { id: sessionId },
+    select: {
+      id: true,
+      accessTokenHash: true,
+      revokedAt: true,
+      expiresAt: true,
+      lastActivityAt: true,
+      user: {
+        select: {
+          mfaEnabled: true,
+          forcePasswordChange: true,
+          passwordChangedAt: true,
+          createdAt: true,
+        },
+      },
+    },
+  });
+
+  if (!session) {
+    throw new Error('SESSION_NOT_FOUND');
+  }
+
+  if (session.revokedAt) {
+    throw new Error('SESSION_REVOKED');
+  }
+
+  const now = new Date();
+
+  if (session.expiresAt <= now) {
+    throw new Error('SESSION_EXPIRED');
+  }
+
+  if (session.accessTokenHash !== hashToken(token)) {
+    throw new Error('TOKEN_SUPERSEDED');
+  }
+
+  await checkIdleTimeout(db, session, options);
+
+  if (now.getTime() - session.lastActivityAt.getTime() > SESSION_CONFIG.ACTIVITY_UPDATE_INTERVAL * 1000) {
+    await db.session.update({
+      where: { id: sessionId },
+      data: { lastActivityAt: now },
+    });
+  }
+
+  return session.user;
+}
+
+/**
+ * Revoke a single session
+ *
+ * @returns True if the session was active and is now revoked
+ */
+export async function revokeSession(
+  db: DbClient,
+  sessionId: string,
+  reason: SessionRevokeReason
+): Promise<boolean> {
+  const result = await db.session.updateMany({
+    where: { id: sessionId, revokedAt: null },
+    data: { revokedAt: new Date(), revokedReason: reason },
+  });
+
+  return result.count > 0;
+}
+
+/**
+ * Revoke all active sessions of a user ("sign out everywhere")
+ *
+ * @param db - Prisma client
+ * @param userId - User whose sessions to revoke
+ * @param reason - Revocation reason
+ * @param exceptSessionId - Session to keep (e.g. the current one)
+ * @returns Number of sessions revoked
+ */
+export async function revokeAllSessions(
+  db: DbClient,
+  userId: string,
+  reason: SessionRevokeReason,
+  exceptSessionId?: string
+): Promise<number> {
+  const result = await db.session.updateMany({
+    where: {
+      userId,
+      revokedAt: null,
+      ...(exceptSessionId ? { id: { not: exceptSessionId } } : {}),
+    },
+    data: { revokedAt: new Date(), revokedReason: reason },
+  });
+
+  console.log('[Session Service] Sessions revoked', { userId, reason, count: result.count });
+
+  return result.count;
+}
+
+/**
+ * Revoke a user's oldest active sessions so at most `keep` remain
+ * Called before creating a session to enforce a concurrent session limit.
+ *
+ * @returns Number of sessions evicted
+ */
+export async function evictExcessSessions(
+  db: DbClient,
+  userId: string,
+  keep: number
+): Promise<number> {
+  const active = await db.session.findMany({
+    where: { userId, revokedAt: null, expiresAt: { gt: new Date() } },
+    select: { id: true },
+    orderBy: { createdAt: 'desc' },
+  });
+
+  const excess = active.slice(Math.max(keep, 0));
+
+  if (excess.length === 0) {
+    return 0;
+  }
+
+  const result = await db.session.updateMany({
+    where: { id: { in: excess.map((session) => session.id) }, revokedAt: null },
+    data: { revokedAt: new Date(), revokedReason: 'session_limit' },
+  });
+
+  console.log('[Session Service] Evicted sessions over limit', { userId, count: result.count });
+
+  return result.count;
+}
+
+/**
+ * Delete sessions that expired or were revoked more than
+ * SESSION_CONFIG.REVOKED_RETENTION_DAYS ago
+ *
+ * @returns Number of sessions deleted
+ */
+export async function cleanupSessions(db: DbClient): Promise<number> {
+  const cutoff = new Date(Date.now() - SESSION_CONFIG.REVOKED_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+
+  const result = await db.session.deleteMany({
+    where: {
+      OR: [{ expiresAt: { lt: cutoff } }, { revokedAt: { lt: cutoff } }],
+    },
+  });
+
+  console.log('[Session Service] Cleanup removed sessions:', result.count);
+
+  return result.count;
+}
@@ -0,0 +1,319 @@
+import { createHash, generateKeyPairSync, randomBytes, sign, type KeyObject } from 'crypto';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { asSystem, type User } from '@shop-rewards/db';
+import {
+  createTestDatabase,
+  createTestShop,
+  createTestUser,
+  type TestDatabase,
+} from '@shop-rewards/db/testing';
+import type {
+  AuthenticationResponseJSON,
+  PublicKeyCredentialCreationOptionsJSON,
+  PublicKeyCredentialRequestOptionsJSON,
+  RegistrationResponseJSON,
+} from '@simplewebauthn/server';
+
+import {
+  createAuthenticationOptions,
+  createRegistrationOptions,
+  verifyAuthentication,
+  verifyRegistration,
+} from './webauthn.service';
+
+const ORIGIN = 'http://localhost:3000';
+
+type CborValue = number | string | Uint8Array | Map<CborValue, CborValue>;
+
+/**
+ * Minimal CBOR encoder (integers, byte and text strings, maps)
+ */
+function encodeCbor(value: CborValue): Buffer {
+  const head = (major: number, length: number) => {
+    if (length < 24) return Buffer.from([(major << 5) | length]);
+    if (length < 0x100) return Buffer.from([(major << 5) | 24, length]);
+    const buffer = Buffer.alloc(3);
+    buffer.writeUInt8((major << 5) | 25);
+    buffer.writeUInt16BE(length, 1);
+    return buffer;
+  };
+
+  if (typeof value === 'number') {
+    return value >= 0 ? head(0, value) : head(1, -1 - value);
+  }
+
+  if (typeof value === 'string') {
+    const bytes = Buffer.from(value, 'utf8');
+    return Buffer.concat([head(3, bytes.length), bytes]);
+  }
+
+  if (value instanceof Uint8Array) {
+    return Buffer.concat([head(2, value.length), value]);
+  }
+
+  return Buffer.concat([
+    head(5, value.size),
+    ...Array.from(value).flatMap(([key, entry]) => [encodeCbor(key), encodeCbor(entry)]),
+  ]);
+}
+
+const base64url = (data: Uint8Array) => Buffer.from(data).toString('base64url');
+const sha256 = (data: Uint8Array | string) => createHash('sha256').update(data).digest();
+
+/**
+ * Software authenticator with one ES256 credential
+ * Answers ceremonies like a platform authenticator with "none" attestation.
+ */
+class SoftwareAuthenticator {
+  readonly credentialId = randomBytes(16);
+  private readonly privateKey: KeyObject;
+  private readonly publicKey: KeyObject;
+  private signCount = 0;
+
+  constructor(private readonly origin = ORIGIN) {
+    ({ privateKey: this.privateKey, publicKey: this.publicKey } = generateKeyPairSync('ec', {
+      namedCurve: 'P-256',
+    }));
+  }
+
+  private authenticatorData(rpId: string, userVerified: boolean, attestedCredential?: Buffer) {
+    const flags = 0x01 | (userVerified ? 0x04 : 0) | (attestedCredential ? 0x40 : 0);
+    const counter = Buffer.alloc(4);
+    counter.writeUInt32BE(++this.signCount);
+
+    return Buffer.concat([
+      sha256(rpId),
+      Buffer.from([flags]),
+      counter,
+      ...(attestedCredential ? [attestedCredential] : []),
+    ]);
+  }
+
+  private clientData(type: string, challenge: string) {
+    return Buffer.from(
+      JSON.stringify({ type, challenge, origin: this.origin, crossOrigin: false })
+    );
+  }
+
+  register(options: PublicKeyCredentialCreationOptionsJSON): RegistrationResponseJSON {
+    const jwk = this.publicKey.export({ format: 'jwk' });
+    const coseKey = encodeCbor(
+      new Map<CborValue, CborValue>([
+        [1, 2], // kty: EC2
+        [3, -7], // alg: ES256
+        [-1, 1], // crv: P-256
+        [-2, Buffer.from(jwk.x!, 'base64url')],
+        [-3, Buffer.from(jwk.y!, 'base64url')],
+      ])
+    );
+    const idLength = Buffer.alloc(2);
+    idLength.writeUInt16BE(this.credentialId.length);
+    const attestedCredential = Buffer.concat([
+      Buffer.alloc(16), // AAGUID
+      idLength,
+      this.credentialId,
+      coseKey,
+    ]);
+
+    const attestationObject = encodeCbor(
+      new Map<CborValue, CborValue>([
+        ['fmt', 'none'],
+        ['attStmt', new Map()],
+        ['authData', this.authenticatorData(options.rp.id!, true, attestedCredential)],
+      ])
+    );
+
+    return {
+      id: base64url(this.credentialId),
+      rawId: base64url(this.credentialId),
+      type: 'public-key',
+      response: {
+        clientDataJSON: base64url(this.clientData('webauthn.create', options.challenge)),
+        attestationObject: base64url(attestationObject),
+        transports: ['internal'],
+      },
+      clientExtensionResults: {},
+    };
+  }
+
+  authenticate(
+    options: PublicKeyCredentialRequestOptionsJSON,
+    userHandle: string,
+    { userVerified = true } = {}
+  ): AuthenticationResponseJSON {
+    const authenticatorData = this.authenticatorData(options.rpId!, userVerified);
+    const clientDataJSON = this.clientData('webauthn.get', options.challenge);
+    const signature = sign(
+      'sha256',
+      Buffer.concat([authenticatorData, sha256(clientDataJSON)]),
+      this.privateKey
+    );
+
+    return {
+      id: base64url(this.credentialId),
+      rawId: base64url(this.credentialId),
+      type: 'public-key',
+      response: {
+        clientDataJSON: base64url(clientDataJSON),
+        authenticatorData: base64url(authenticatorData),
+        signature: base64url(signature),
+        userHandle: base64url(Buffer.from(userHandle)),
+      },
+      clientExtensionResults: {},
+    };
+  }
+}
+
+describe('WebAuthn ceremonies with a software authenticator', () => {
+  let testDb: TestDatabase;
+  let user: User;
+  let otherUser: User;
+
+  const db = () => testDb.db;
+
+  /**
+   * Register a new authenticator for a user
+   */
+  const registerAuthenticator = async (owner: User) => {
+    const authenticator = new SoftwareAuthenticator();
+    const { options, challengeToken } = await createRegistrationOptions(db(), owner);
+    await verifyRegistration(
+      db(),
+      owner.id,
+      challengeToken,
+      authenticator.register(options),
+      'Key'
+    );
+    return authenticator;
+  };
+
+  beforeAll(async () => {
+    vi.stubEnv('JWT_SECRET', 'test-secret-that-is-at-least-32-characters');
+    vi.stubEnv('NEXTAUTH_URL', ORIGIN);
+    // Nothing listens here, so used challenges are remembered in memory
+    vi.stubEnv('VALKEY_URL', 'redis://127.0.0.1:1');
+
+    testDb = await createTestDatabase();
+    const shop = await createTestShop(testDb.db, 'passkey-shop');
+    user = await createTestUser(testDb.db, shop.id);
+    otherUser = await createTestUser(testDb.db, shop.id);
+  });
+
+  afterAll(async () => {
+    await testDb?.close();
+    vi.unstubAllEnvs();
+  });
+
+  const inSystem = <T>(fn: () => Promise<T>) => asSystem('test', fn);
+
+  it('registers a credential and excludes it from later registrations', () =>
+    inSystem(async () => {
+      const authenticator = await registerAuthenticator(user);
+
+      const stored = await db().webAuthnCredential.findUniqueOrThrow({
+        where: { credentialId: base64url(authenticator.credentialId) },
+      });
+      expect(stored).toMatchObject({
+        userId: user.id,
+        counter: BigInt(1),
+        transports: ['internal'],
+      });
+
+      const { options } = await createRegistrationOptions(db(), user);
+      expect(options.excludeCredentials?.map((credential) => credential.id)).toContain(
+        stored.credentialId
+      );
+    }));
+
+  it('authenticates as a second factor and advances the signature counter', () =>
+    inSystem(async () => {
+      const authenticator = await registerAuthenticator(user);
+      const { options, challengeToken } = await createAuthenticationOptions(db(), user.id);
+
+      const result = await verifyAuthentication(
+        db(),
+        challengeToken,
+        authenticator.authenticate(options, user.id, { userVerified: false })
+      );
+
+      expect(result.userId).toBe(user.id);
+      expect(
+        await db().webAuthnCredential.findUniqueOrThrow({ where: { id: result.credentialId } })
+      ).toMatchObject({ counter: BigInt(2), lastUsedAt: expect.any(Date) });
+    }));
+
+  it('requires user verification for passwordless sign-in', () =>
+    inSystem(async () => {
+      const authenticator = await registerAuthenticator(user);
+
+      const unverified = await createAuthenticationOptions(db(), null);
+      await expect(
+        verifyAuthentication(
+          db(),
+          unverified.challengeToken,
+          authenticator.authenticate(unverified.options, user.id, { userVerified: false })
+        )
+      ).rejects.toThrow('WEBAUTHN_INVALID');
+
+      const verified = await createAuthenticationOptions(db(), null);
+      await expect(
+        verifyAuthentication(
+          db(),
+          verified.challengeToken,
+          authenticator.authenticate(verified.options, user.id)
+        )
+      ).resolves.toMatchObject({ userId: user.id });
+    }));
+
+  it('accepts each challenge once', () =>
+    inSystem(async () => {
+      const authenticator = await registerAuthenticator(user);
+      const { options, challengeToken } = await createAuthenticationOptions(db(), user.id);
+
+      await verifyAuthentication(
+        db(),
+        challengeToken,
+        authenticator.authenticate(options, user.id)
+      );
+
+      await expect(
+        verifyAuthentication(db(), challengeToken, authenticator.authenticate(options, user.id))
+      ).rejects.toThrow('Challenge was already used');
+    }));
+
+  it('rejects credentials of another user and responses from another origin', () =>
+    inSystem(async () => {
+      const othersAuthenticator = await registerAuthenticator(otherUser);
+      const first = await createAuthenticationOptions(db(), user.id);
+
+      await expect(
+        verifyAuthentication(
+          db(),
+          first.challengeToken,
+          othersAuthenticator.authenticate(first.options, otherUser.id)
+        )
+      ).rejects.toThrow('Unknown credential');
+
+      const phishing = new SoftwareAuthenticator('https://shop-rewards.example.net');
+      const { options, challengeToken } = await createRegistrationOptions(db(), user);
+
+      await expect(
+        verifyRegistration(db(), user.id, challengeToken, phishing.register(options), 'Key')
+      ).rejects.toThrow('WEBAUTHN_INVALID');
+    }));
+
+  it('rejects a registration challenge issued for another user', () =>
+    inSystem(async () => {
+      const { options, challengeToken } = await createRegistrationOptions(db(), otherUser);
+
+      await expect(
+        verifyRegistration(
+          db(),
+          user.id,
+          challengeToken,
+          new SoftwareAuthenticator().register(options),
+          'Key'
+        )
+      ).rejects.toThrow('another user');
+    }));
+});
@@ -0,0 +1,348 @@
+/**
+ * WebAuthn Service
+ *
+ * Passkeys and security keys as a second factor alongside TOTP, and as a
+ * passwordless sign-in option. Credentials are stored per user
+ * (WebAuthnCredential). Ceremony challenges travel in signed challenge tokens
+ * (see jwt.service.ts) and each challenge is accepted only once.
+ *
+ * Relying party: WEBAUTHN_RP_ID, WEBAUTHN_RP_NAME and WEBAUTHN_ORIGINS
+ * (comma-separated), defaulting to the host and origin of NEXTAUTH_URL.
+ */
+
+import 'server-only';
+import type { Prisma, PrismaClient, User, WebAuthnCredential } from '@shop-rewards/db';
+import {
+  generateAuthenticationOptions,
+  generateRegistrationOptions,
+  verifyAuthenticationResponse,
+  verifyRegistrationResponse,
+  type AuthenticationResponseJSON,
+  type AuthenticatorTransportFuture,
+  type PublicKeyCredentialCreationOptionsJSON,
+  type PublicKeyCredentialRequestOptionsJSON,
+  type RegistrationResponseJSON,
+} from '@simplewebauthn/server';
+import { z } from 'zod';
+import { counterStore } from '@/server/lib/cache/counter-store';
+import { generateWebAuthnChallengeToken, verifyWebAuthnChallengeToken } from './jwt.service';
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+export interface RelyingParty {
+  id: string;
+  name: string;
+  origins: string[];
+}
+
+/**
+ * Ceremony options for the browser plus the token to send back with the response
+ */
+export interface WebAuthnCeremonyOptions<T> {
+  options: T;
+  challengeToken: string;
+}
+
+/**
+ * Browser responses are checked structurally here and cryptographically on verify
+ */
+function isCredentialResponse(value: unknown): boolean {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as { id?: unknown }).id === 'string' &&
+    typeof (value as { response?: unknown }).response === 'object'
+  );
+}
+
+export const registrationResponseSchema = z.custom<RegistrationResponseJSON>(isCredentialResponse, {
+  message: 'Invalid passkey registration response',
+});
+
+export const authenticationResponseSchema = z.custom<AuthenticationResponseJSON>(
+  isCredentialResponse,
+  { message: 'Invalid passkey authentication response' }
+);
+
+/**
+ * How long used challenges are remembered (longer than the challenge token TTL)
+ */
+const USED_CHALLENGE_MEMORY_SECONDS = 10 * 60;
+
+/**
+ * Relying party (the site credentials are bound to)
+ */
+export function getRelyingParty(): RelyingParty {
+  const appUrl = new URL(process.env.NEXTAUTH_URL || 'http://localhost:3000');
+  const origins = (process.env.WEBAUTHN_ORIGINS || '')
+    .split(',')
+    .map((origin) => origin.trim())
+    .filter(Boolean);
+
+  return {
+    id: process.env.WEBAUTHN_RP_ID || appUrl.hostname,
+    name: process.env.WEBAUTHN_RP_NAME || 'ShopRewards Hub',
+    origins: origins.length > 0 ? origins : [appUrl.origin],
+  };
+}
+
+/**
+ * Verify a challenge token and accept its challenge once
+ *
+ * @throws Error (WEBAUTHN_INVALID) if the token is invalid, expired or replayed
+ */
+async function consumeChallenge(
+  challengeToken: string,
+  ceremony: 'registration' | 'authentication'
+): Promise<{ challenge: string; userId: string | null }> {
+  let result: { challenge: string; userId: string | null };
+
+  try {
+    result = await verifyWebAuthnChallengeToken(challengeToken, ceremony);
+  } catch {
+    throw new Error('WEBAUTHN_INVALID: Challenge is invalid or has expired');
+  }
+
+  const uses = await counterStore.increment(
+    `auth:webauthn:challenge:${result.challenge}`,
+    USED_CHALLENGE_MEMORY_SECONDS
+  );
+
+  if (uses > 1) {
+    throw new Error('WEBAUTHN_INVALID: Challenge was already used');
+  }
+
+  return result;
+}
+
+/**
+ * Start registering a new credential for a user
+ * The user's existing credentials are excluded, so an authenticator is
+ * registered at most once.
+ */
+export async function createRegistrationOptions(
+  db: DbClient,
+  user: Pick<User, 'id' | 'email' | 'name' | 'firstName' | 'lastName'>
+): Promise<WebAuthnCeremonyOptions<PublicKeyCredentialCreationOptionsJSON>> {
+  const rp = getRelyingParty();
+
+  const existing = await db.webAuthnCredential.findMany({
+    where: { userId: user.id },
+    select: { credentialId: true, transports: true },
+  });
+
+  const options = await generateRegistrationOptions({
+    rpName: rp.name,
+    rpID: rp.id,
+    userName: user.email,
+    userID: new TextEncoder().encode(user.id),
+    userDisplayName: user.name || `${user.firstName} ${user.lastName}`,
+    attestationType: 'none',
+    excludeCredentials: existing.map((credential) => ({
+      id: credential.credentialId,
+      transports: credential.transports as AuthenticatorTransportFuture[],
+    })),
+    authenticatorSelection: {
+      residentKey: 'preferred', // Discoverable credentials enable passwordless sign-in
+      userVerification: 'preferred',
+    },
+  });
+
+  const challengeToken = await generateWebAuthnChallengeToken(
+    options.challenge,
+    'registration',
+    user.id
+  );
+
+  return { options, challengeToken: challengeToken.token };
+}
+
+/**
+ * Verify a registration response and store the new credential
+ *
+ * @param db - Prisma client
+ * @param userId - Signed-in user (must match the challenge token)
+ * @param challengeToken - Token from createRegistrationOptions
+ * @param response - Response from the browser
+ * @param name - Label for the credential
+ * @returns Stored credential
+ * @throws Error (WEBAUTHN_INVALID) if the response does not verify
+ */
+export async function verifyRegistration(
+  db: DbClient,
+  userId: string,
+  challengeToken: string,
+  response: RegistrationResponseJSON,
+  name: string
+): Promise<WebAuthnCredential> {
+  const { challenge, userId: challengeUserId } = await consumeChallenge(
+    challengeToken,
+    'registration'
+  );
+
+  if (challengeUserId !== userId) {
+    throw new Error('WEBAUTHN_INVALID: Challenge was issued for another user');
+  }
+
+  const rp = getRelyingParty();
+  let verification: Awaited<ReturnType<typeof verifyRegistrationResponse>>;
+
+  try {
+    verification = await verifyRegistrationResponse({
+      response,
+      expectedChallenge: challenge,
+      expectedOrigin: rp.origins,
+      expectedRPID: rp.id,
+      requireUserVerification: false,
+    });
+  } catch (error) {
+    throw new Error(`WEBAUTHN_INVALID: ${error instanceof Error ? error.message : 'Verification failed'}`);
+  }
+
+  if (!verification.verified) {
+    throw new Error('WEBAUTHN_INVALID: Registration could not be verified');
+  }
+
+  const { credential, credentialDeviceType, credentialBackedUp } = verification.registrationInfo;
+
+  return db.webAuthnCredential.create({
+    data: {
+      userId,
+      credentialId: credential.id,
+      publicKey: Buffer.from(credential.publicKey),
+      counter: BigInt(credential.counter),
+      transports: credential.transports ?? response.response.transports ?? [],
+      deviceType: credentialDeviceType,
+      backedUp: credentialBackedUp,
+      name,
+    },
+  });
+}
+
+/**
+ * Start an authentication ceremony
+ *
+ * @param db - Prisma client
+ * @param userId - User whose credentials may answer (second factor, step-up),
+ *   or null for passwordless sign-in with a discoverable credential
+ * @throws Error (WEBAUTHN_NOT_ENROLLED) if the user has no credentials
+ */
+export async function createAuthenticationOptions(
+  db: DbClient,
+  userId: string | null
+): Promise<WebAuthnCeremonyOptions<PublicKeyCredentialRequestOptionsJSON>> {
+  const credentials = userId
+    ? await db.webAuthnCredential.findMany({
+        where: { userId },
+        select: { credentialId: true, transports: true },
+      })
+    : [];
+
+  if (userId && credentials.length === 0) {
+    throw new Error('WEBAUTHN_NOT_ENROLLED: No passkeys are registered for this user');
+  }
+
+  const options = await generateAuthenticationOptions({
+    rpID: getRelyingParty().id,
+    allowCredentials: credentials.map((credential) => ({
+      id: credential.credentialId,
+      transports: credential.transports as AuthenticatorTransportFuture[],
+    })),
+    // Passwordless sign-in replaces both factors: the authenticator must verify the user
+    userVerification: userId ? 'preferred' : 'required',
+  });
+
+  const challengeToken = await generateWebAuthnChallengeToken(
+    options.challenge,
+    'authentication',
+    userId
+  );
+
+  return { options, challengeToken: challengeToken.token };
+}
+
+/**
+ * Verify an authentication response
+ * Updates the credential's signature counter and last use.
+ *
+ * @param db - Prisma client
+ * @param challengeToken - Token from createAuthenticationOptions
+ * @param response - Response from the browser
+ * @returns Owner of the credential that answered
+ * @throws Error (WEBAUTHN_INVALID) if the response does not verify
+ */
+export async function verifyAuthentication(
+  db: DbClient,
+  challengeToken: string,
+  response: AuthenticationResponseJSON
+): Promise<{ userId: string; credentialId: string }> {
+  const { challenge, userId: challengeUserId } = await consumeChallenge(
+    challengeToken,
+    'authentication'
+  );
+
+  const stored = await db.webAuthnCredential.findUnique({
+    where: { credentialId: response.id },
+  });
+
+  if (!stored || (challengeUserId && stored.userId !== challengeUserId)) {
+    throw new Error('WEBAUTHN_INVALID: Unknown credential');
+  }
+
+  const rp = getRelyingParty();
+  let verification: Awaited<ReturnType<typeof verifyAuthenticationResponse>>;
+
+  try {
+    verification = await verifyAuthenticationResponse({
+      response,
+      expectedChallenge: challenge,
+      expectedOrigin: rp.origins,
+      expectedRPID: rp.id,
+      credential: {
+        id: stored.credentialId,
+        publicKey: new Uint8Array(stored.publicKey),
+        counter: Number(stored.counter),
+        transports: stored.transports as AuthenticatorTransportFuture[],
+      },
+      requireUserVerification: challengeUserId === null,
+    });
+  } catch (error) {
+    throw new Error(`WEBAUTHN_INVALID: ${error instanceof Error ? error.message : 'Verification failed'}`);
+  }
+
+  if (!verification.verified) {
+    throw new Error('WEBAUTHN_INVALID: Authentication could not be verified');
+  }
+
+  await db.webAuthnCredential.update({
+    where: { id: stored.id },
+    data: {
+      counter: BigInt(verification.authenticationInfo.newCounter),
+      lastUsedAt: new Date(),
+    },
+  });
+
+  return { userId: stored.userId, credentialId: stored.id };
+}
+
+/**
+ * Recompute User.mfaEnabled after a factor was added or removed
+ * MFA counts as enabled while the user has TOTP or at least one passkey.
+ *
+ * @returns Whether MFA is still enabled
+ */
+export async function syncMFAEnabled(db: DbClient, userId: string): Promise<boolean> {
+  const [user, passkeys] = await Promise.all([
+    db.user.findUniqueOrThrow({ where: { id: userId }, select: { mfaSecret: true } }),
+    db.webAuthnCredential.count({ where: { userId } }),
+  ]);
+
+  const mfaEnabled = !!user.mfaSecret || passkeys > 0;
+
+  await db.user.update({
+    where: { id: userId },
+    data: { mfaEnabled },
+  });
+
+  return mfaEnabled;
+}
@@ -8,22 +8,41 @@
 import { createTRPCRouter } from './trpc';
 import { wizardRouter } from './routers/wizard';
 import { authRouter } from './routers/auth';
+import { passkeysRouter } from './routers/passkeys';
 import { usersRouter } from './routers/users';
 import { loginTemplateRouter } from './routers/login-template';
+import { receiptsRouter } from './routers/receipts';
+import { vouchersRouter } from './routers/vouchers';
+import { campaignsRouter } from './routers/campaigns';
+import { redemptionsRouter } from './routers/redemptions';
+import { storageRouter } from './routers/storage';
+import { gdprRouter } from './routers/gdpr';
+import { rateLimitsRouter } from './routers/rate-limits';
+import { auditLogsRouter } from './routers/audit-logs';
+import { anomalyRulesRouter } from './routers/anomaly-rules';
+import { rolesRouter } from './routers/roles';
 
 export const appRouter = createTRPCRouter({
   wizard: wizardRouter,
   auth: authRouter,
+  passkeys: passkeysRouter,
   users: usersRouter,
   loginTemplate: loginTemplateRouter,
+  receipts: receiptsRouter,
+  vouchers: vouchersRouter,
+  campaigns: campaignsRouter,
+  redemptions: redemptionsRouter,
+  storage: storageRouter,
+  gdpr: gdprRouter,
+  rateLimits: rateLimitsRouter,
+  auditLogs: auditLogsRouter,
+  anomalyRules: anomalyRulesRouter,
+  roles: rolesRouter,
   // TODO: Add more routers as they're implemented
   // shops: shopsRouter,
-  // vouchers: vouchersRouter,
-  // receipts: receiptsRouter,
   // ads: adsRouter,
   // analytics: analyticsRouter,
   // billing: billingRouter,
-  // gdpr: gdprRouter,
 });
 
 // Export type definition for client
@@ -0,0 +1,355 @@
+/**
+ * Anomaly Rules
+ *
+ * Registry of rules that flag audit log entries as suspicious. Every entry
+ * written by createAuditLog / createSystemAuditLog is checked before it is
+ * stored; matches set isSuspicious and flagReason and raise a SECURITY_ALERT.
+ *
+ * A rule sees the new entry, the caller's metadata and the database (for
+ * counts over recent AuditLog rows). Its behaviour is tuned by a config:
+ * - threshold: rule-specific limit (count, value, ...)
+ * - windowSeconds: how far back recent entries are counted (0 if unused)
+ * - severity: severity of the SECURITY_ALERT
+ *
+ * Platform admins can override the config per shop via ShopConfig
+ * (`anomaly_rule:<ID>`, JSON with any of enabled, threshold, windowSeconds,
+ * severity). Entries without a shop use the defaults.
+ *
+ * Further rules can be added with registerAnomalyRule().
+ */
+
+import type { Prisma, PrismaClient } from '@shop-rewards/db';
+import { z } from 'zod';
+import type { AuditEntryData } from './audit-chain';
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+export type AnomalySeverity = 'low' | 'medium' | 'high';
+
+export interface AnomalyRuleConfig {
+  enabled: boolean;
+  threshold: number;
+  windowSeconds: number;
+  severity: AnomalySeverity;
+}
+
+/**
+ * What a rule is evaluated against
+ */
+export interface AnomalyRuleContext {
+  db: DbClient;
+  /** Entry about to be written */
+  entry: AuditEntryData;
+  /** Extra context from the caller (not stored) */
+  metadata: Record<string, unknown>;
+}
+
+export interface AnomalyRule {
+  id: string;
+  description: string;
+  defaults: AnomalyRuleConfig;
+  /**
+   * @returns Flag reason if the entry matches, otherwise null
+   */
+  evaluate: (context: AnomalyRuleContext, config: AnomalyRuleConfig) => Promise<string | null>;
+}
+
+export interface AnomalyMatch {
+  ruleId: string;
+  reason: string;
+  severity: AnomalySeverity;
+}
+
+/**
+ * Per-shop override (validated on write and on read)
+ */
+export const anomalyRuleOverrideSchema = z.object({
+  enabled: z.boolean().optional(),
+  threshold: z.number().min(0).max(1_000_000).optional(),
+  windowSeconds: z.number().int().min(0).max(365 * 24 * 60 * 60).optional(),
+  severity: z.enum(['low', 'medium', 'high']).optional(),
+});
+
+export type AnomalyRuleOverride = z.infer<typeof anomalyRuleOverrideSchema>;
+
+const rules = new Map<string, AnomalyRule>();
+
+/**
+ * Add a rule to the registry (replaces a rule with the same ID)
+ */
+export function registerAnomalyRule(rule: AnomalyRule): void {
+  rules.set(rule.id, rule);
+}
+
+/**
+ * Registered rules, in registration order
+ */
+export function getAnomalyRules(): AnomalyRule[] {
+  return Array.from(rules.values());
+}
+
+export function getAnomalyRule(id: string): AnomalyRule | undefined {
+  return rules.get(id);
+}
+
+/**
+ * ShopConfig key of a rule's override
+ */
+export function getAnomalyRuleConfigKey(ruleId: string): string {
+  return `anomaly_rule:${ruleId}`;
+}
+
+function getNumber(value: unknown): number {
+  const number = Number(value);
+  return Number.isFinite(number) ? number : 0;
+}
+
+/**
+ * Logins compared by LOGIN_NEW_COUNTRY (newest first)
+ */
+const RECENT_LOGIN_LIMIT = 500;
+
+function getWindowStart(config: AnomalyRuleConfig): Date {
+  return new Date(Date.now() - config.windowSeconds * 1000);
+}
+
+/**
+ * Built-in rules
+ */
+
+registerAnomalyRule({
+  id: 'BULK_DELETE',
+  description: 'Delete of more records at once than the threshold',
+  defaults: { enabled: true, threshold: 10, windowSeconds: 0, severity: 'medium' },
+  evaluate: async ({ entry, metadata }, config) => {
+    const count = getNumber(metadata.count);
+
+    return entry.action === 'DELETE' && count > config.threshold
+      ? `Bulk delete of ${count} ${entry.resource} records`
+      : null;
+  },
+});
+
+registerAnomalyRule({
+  id: 'HIGH_VALUE_APPROVAL',
+  description: 'Approval of a voucher worth more than the threshold',
+  defaults: { enabled: true, threshold: 1000, windowSeconds: 0, severity: 'medium' },
+  evaluate: async ({ entry, metadata }, config) => {
+    const value = getNumber(metadata.voucherValue);
+
+    return entry.action === 'APPROVE' && value > config.threshold
+      ? `High-value approval (${value})`
+      : null;
+  },
+});
+
+registerAnomalyRule({
+  id: 'SUPER_ADMIN_PASSWORD_RESET',
+  description: 'Password reset on a super admin account',
+  defaults: { enabled: true, threshold: 0, windowSeconds: 0, severity: 'high' },
+  evaluate: async ({ entry, metadata }) =>
+    entry.action === 'RESET_PASSWORD' && metadata.targetIsSuperAdmin === true
+      ? 'Password reset on a super admin account'
+      : null,
+});
+
+registerAnomalyRule({
+  id: 'ACCOUNT_SUSPENSION',
+  description: 'Suspension of a user or shop',
+  defaults: { enabled: true, threshold: 0, windowSeconds: 0, severity: 'low' },
+  evaluate: async ({ entry }) =>
+    entry.action === 'SUSPEND' && (entry.resource === 'user' || entry.resource === 'shop')
+      ? `${entry.resource === 'user' ? 'User' : 'Shop'} suspended`
+      : null,
+});
+
+registerAnomalyRule({
+  id: 'REPEATED_LOCKOUT',
+  description: 'Repeated login lockout, or one IP failing on threshold or more accounts',
+  defaults: { enabled: true, threshold: 3, windowSeconds: 0, severity: 'high' },
+  evaluate: async ({ entry, metadata }, config) => {
+    if (entry.action !== 'LOCK' || metadata.reason !== 'failed_logins') return null;
+
+    if (getNumber(metadata.distinctAccounts) >= config.threshold) {
+      return `Failed logins on ${getNumber(metadata.distinctAccounts)} accounts from one IP`;
+    }
+
+    return getNumber(metadata.lockoutCount) > 1
+      ? `Locked out ${getNumber(metadata.lockoutCount)} times`
+      : null;
+  },
+});
+
+registerAnomalyRule({
+  id: 'ROLE_ASSIGNMENT_BURST',
+  description: 'More role assignments by one user within the window than the threshold',
+  defaults: { enabled: true, threshold: 20, windowSeconds: 5 * 60, severity: 'high' },
+  evaluate: async ({ db, entry }, config) => {
+    if (entry.action !== 'ASSIGN_ROLE' || !entry.userId) return null;
+
+    const recent = await db.auditLog.count({
+      where: {
+        shopId: entry.shopId ?? null,
+        userId: entry.userId,
+        action: 'ASSIGN_ROLE',
+        createdAt: { gte: getWindowStart(config) },
+      },
+    });
+
+    // Including the entry being written
+    return recent + 1 > config.threshold
+      ? `${recent + 1} role assignments within ${Math.round(config.windowSeconds / 60)} minutes`
+      : null;
+  },
+});
+
+registerAnomalyRule({
+  id: 'LOGIN_NEW_COUNTRY',
+  description: "Login from a country not seen in the user's logins within the window",
+  defaults: { enabled: true, threshold: 0, windowSeconds: 90 * 24 * 60 * 60, severity: 'medium' },
+  evaluate: async ({ db, entry }, config) => {
+    const country = entry.changesAfter?.country;
+    if (entry.action !== 'LOGIN' || !entry.userId || typeof country !== 'string') return null;
+
+    const recentLogins = await db.auditLog.findMany({
+      where: {
+        userId: entry.userId,
+        action: 'LOGIN',
+        createdAt: { gte: getWindowStart(config) },
+      },
+      orderBy: { createdAt: 'desc' },
+      take: RECENT_LOGIN_LIMIT,
+      select: { changesAfter: true },
+    });
+
+    const knownCountries = new Set(
+      recentLogins
+        .map((login) => (login.changesAfter as Record<string, unknown> | null)?.country)
+        .filter((value): value is string => typeof value === 'string')
+    );
+
+    // The first recorded login has nothing to compare against
+    return knownCountries.size > 0 && !knownCountries.has(country)
+      ? `Login from new country ${country}`
+      : null;
+  },
+});
+
+/**
+ * How long loaded overrides are reused (read on every audited action)
+ */
+const OVERRIDE_CACHE_TTL_MS = 60 * 1000;
+
+const overrideCache = new Map<string, { overrides: Map<string, AnomalyRuleOverride>; loadedAt: number }>();
+
+/**
+ * Get a shop's rule overrides
+ *
+ * @returns Overrides by rule ID (rules without an override are missing)
+ */
+export async function getAnomalyRuleOverrides(
+  db: DbClient,
+  shopId: string
+): Promise<Map<string, AnomalyRuleOverride>> {
+  const cached = overrideCache.get(shopId);
+
+  if (cached && Date.now() - cached.loadedAt < OVERRIDE_CACHE_TTL_MS) {
+    return cached.overrides;
+  }
+
+  const configs = await db.shopConfig.findMany({
+    where: { shopId, key: { startsWith: getAnomalyRuleConfigKey('') } },
+  });
+
+  const overrides = new Map<string, AnomalyRuleOverride>();
+
+  for (const config of configs) {
+    try {
+      overrides.set(
+        config.key.slice(getAnomalyRuleConfigKey('').length),
+        anomalyRuleOverrideSchema.parse(JSON.parse(config.value))
+      );
+    } catch {
+      console.warn('[AnomalyRules] Invalid override, using default:', { shopId, key: config.key });
+    }
+  }
+
+  overrideCache.set(shopId, { overrides, loadedAt: Date.now() });
+
+  return overrides;
+}
+
+/**
+ * Store or clear a shop's override for a rule
+ *
+ * @param override - New override, or null to return to the defaults
+ */
+export async function setAnomalyRuleOverride(
+  db: DbClient,
+  shopId: string,
+  ruleId: string,
+  override: AnomalyRuleOverride | null
+): Promise<void> {
+  const key = getAnomalyRuleConfigKey(ruleId);
+
+  if (override) {
+    const value = JSON.stringify(anomalyRuleOverrideSchema.parse(override));
+
+    await db.shopConfig.upsert({
+      where: { shopId_key: { shopId, key } },
+      update: { value },
+      create: { shopId, key, value, isEncrypted: false },
+    });
+  } else {
+    await db.shopConfig.deleteMany({ where: { shopId, key } });
+  }
+
+  overrideCache.delete(shopId);
+}
+
+/**
+ * Effective config of a rule (defaults merged with the override)
+ */
+export function getEffectiveRuleConfig(
+  rule: AnomalyRule,
+  override: AnomalyRuleOverride | undefined
+): AnomalyRuleConfig {
+  return { ...rule.defaults, ...override };
+}
+
+/**
+ * Evaluate every enabled rule against an entry about to be written
+ * A rule that fails is logged and skipped, so auditing never breaks.
+ *
+ * @returns Matching rules (empty if the entry looks normal)
+ */
+export async function evaluateAnomalyRules(
+  db: DbClient,
+  entry: AuditEntryData,
+  metadata: Record<string, unknown> = {}
+): Promise<AnomalyMatch[]> {
+  const overrides = entry.shopId
+    ? await getAnomalyRuleOverrides(db, entry.shopId)
+    : new Map<string, AnomalyRuleOverride>();
+  const matches: AnomalyMatch[] = [];
+
+  for (const rule of rules.values()) {
+    const config = getEffectiveRuleConfig(rule, overrides.get(rule.id));
+    if (!config.enabled) continue;
+
+    try {
+      const reason = await rule.evaluate({ db, entry, metadata }, config);
+
+      if (reason) {
+        matches.push({ ruleId: rule.id, reason, severity: config.severity });
+      }
+    } catch (error) {
+      console.error('[AnomalyRules] Rule failed:', {
+        ruleId: rule.id,
+        error: error instanceof Error ? error.message : error,
+      });
+    }
+  }
+
+  return matches;
+}
@@ -0,0 +1,350 @@
+/**
+ * Tamper-Evident Audit Chain
+ *
+ * Every audit log entry is appended to a hash chain: one chain per shop, plus
+ * the platform chain (AUDIT_LOG_CONFIG.PLATFORM_CHAIN_ID) for entries without
+ * a shop. An entry stores its position (chainSeq), the previous entry's hash
+ * (prevHash) and the SHA-256 of its canonical content including prevHash.
+ * Editing an entry breaks its hash; deleting one breaks the next entry's
+ * prevHash and leaves a sequence gap. Deleting the newest entries is only
+ * visible against a signed checkpoint (see audit-checkpoint.ts).
+ *
+ * Hashed: chain position, shop, user, action, resource, change sets, IP
+ * address, user agent and timestamp. Not hashed: userEmail (anonymised by GDPR
+ * erasure) and the isSuspicious / flagReason review flags. Users are never
+ * hard-deleted (erasure anonymises them), so userId stays stable; a hard
+ * delete would null it through onDelete: SetNull and show up as an edit.
+ *
+ * Appends take a per-chain Postgres advisory lock, so concurrent writers
+ * cannot fork a chain; @@unique([chainId, chainSeq]) backs this up.
+ */
+
+import {
+  Prisma,
+  withTenantTransaction,
+  type AuditLog,
+  type PrismaClient,
+} from '@shop-rewards/db';
+import { AUDIT_LOG_CONFIG } from '@shop-rewards/shared/constants';
+import { sha256 } from '@shop-rewards/shared/utils';
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+/**
+ * Audit log entry as written by createAuditLog / createSystemAuditLog
+ */
+export type AuditEntryData = Pick<
+  Prisma.AuditLogUncheckedCreateInput,
+  | 'shopId'
+  | 'userId'
+  | 'userEmail'
+  | 'action'
+  | 'resource'
+  | 'resourceId'
+  | 'ipAddress'
+  | 'userAgent'
+  | 'isSuspicious'
+  | 'flagReason'
+> & {
+  changesBefore?: Record<string, unknown> | null;
+  changesAfter?: Record<string, unknown> | null;
+};
+
+/**
+ * Fields covered by an entry's hash
+ */
+type HashedContent = Pick<
+  AuditLog,
+  | 'chainId'
+  | 'chainSeq'
+  | 'prevHash'
+  | 'shopId'
+  | 'userId'
+  | 'action'
+  | 'resource'
+  | 'resourceId'
+  | 'changesBefore'
+  | 'changesAfter'
+  | 'ipAddress'
+  | 'userAgent'
+  | 'createdAt'
+>;
+
+/**
+ * Newest entry of a chain
+ */
+export interface AuditChainHead {
+  chainId: string;
+  chainSeq: number;
+  hash: string;
+}
+
+/**
+ * Why a chain failed verification
+ * - HASH_MISMATCH: the entry was edited
+ * - PREV_HASH_MISMATCH: the previous entry was replaced or removed
+ * - SEQUENCE_GAP: entries before this one were deleted
+ * - CHECKPOINT_MISMATCH: the chain differs from a signed checkpoint
+ *   (entries at or before the checkpoint were edited, or the newest were deleted)
+ */
+export type AuditChainBreakReason =
+  | 'HASH_MISMATCH'
+  | 'PREV_HASH_MISMATCH'
+  | 'SEQUENCE_GAP'
+  | 'CHECKPOINT_MISMATCH';
+
+export interface AuditChainReport {
+  chainId: string;
+  valid: boolean;
+  entriesChecked: number;
+  checkpointsChecked: number;
+  head: { chainSeq: number; hash: string } | null;
+  /** First broken link (null if the chain is intact) */
+  brokenLink: {
+    reason: AuditChainBreakReason;
+    chainSeq: number;
+    entryId: string | null;
+    message: string;
+  } | null;
+}
+
+/**
+ * Chain an entry belongs to
+ */
+export function getChainId(shopId: string | null | undefined): string {
+  return shopId || AUDIT_LOG_CONFIG.PLATFORM_CHAIN_ID;
+}
+
+/**
+ * Deterministic JSON: object keys sorted at every level, dates as ISO strings
+ * (Postgres jsonb does not preserve key order, so stored change sets are
+ * re-serialized this way before hashing)
+ */
+export function canonicalJson(value: unknown): string {
+  if (value === null || value === undefined) return 'null';
+  if (value instanceof Date) return JSON.stringify(value.toISOString());
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+
+  if (typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+
+    return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${canonicalJson(item)}`).join(',')}}`;
+  }
+
+  return JSON.stringify(value);
+}
+
+/**
+ * Hash of an entry's canonical content
+ */
+export function computeEntryHash(entry: HashedContent): string {
+  return sha256(
+    canonicalJson({
+      chainId: entry.chainId,
+      chainSeq: entry.chainSeq,
+      prevHash: entry.prevHash,
+      shopId: entry.shopId,
+      userId: entry.userId,
+      action: entry.action,
+      resource: entry.resource,
+      resourceId: entry.resourceId,
+      changesBefore: entry.changesBefore,
+      changesAfter: entry.changesAfter,
+      ipAddress: entry.ipAddress,
+      userAgent: entry.userAgent,
+      createdAt: entry.createdAt,
+    })
+  );
+}
+
+/**
+ * Change set as it reads back from the database (JSON round trip)
+ */
+function toStoredJson(value: Record<string, unknown> | null | undefined): Prisma.JsonValue {
+  return value ? (JSON.parse(JSON.stringify(value)) as Prisma.JsonValue) : null;
+}
+
+async function appendToChain(tx: Prisma.TransactionClient, data: AuditEntryData): Promise<AuditLog> {
+  const chainId = getChainId(data.shopId);
+
+  // Held until the transaction ends: one writer per chain at a time
+  await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${chainId}))`;
+
+  const previous = await tx.auditLog.findFirst({
+    where: { chainId },
+    orderBy: { chainSeq: 'desc' },
+    select: { chainSeq: true, hash: true },
+  });
+
+  const content: HashedContent = {
+    chainId,
+    chainSeq: (previous?.chainSeq ?? 0) + 1,
+    prevHash: previous?.hash ?? null,
+    shopId: data.shopId ?? null,
+    userId: data.userId ?? null,
+    action: data.action,
+    resource: data.resource,
+    resourceId: data.resourceId ?? null,
+    changesBefore: toStoredJson(data.changesBefore),
+    changesAfter: toStoredJson(data.changesAfter),
+    ipAddress: data.ipAddress,
+    userAgent: data.userAgent,
+    createdAt: new Date(),
+  };
+
+  return tx.auditLog.create({
+    data: {
+      ...content,
+      changesBefore: content.changesBefore ?? Prisma.DbNull,
+      changesAfter: content.changesAfter ?? Prisma.DbNull,
+      userEmail: data.userEmail,
+      isSuspicious: data.isSuspicious,
+      flagReason: data.flagReason,
+      hash: computeEntryHash(content),
+    },
+  });
+}
+
+/**
+ * Append an entry to its shop's chain
+ * Runs in its own transaction, or in the caller's when given a transaction client.
+ */
+export async function appendAuditLog(db: DbClient, data: AuditEntryData): Promise<AuditLog> {
+  if ('$transaction' in db) {
+    return withTenantTransaction(db, (tx) => appendToChain(tx, data));
+  }
+
+  return appendToChain(db, data);
+}
+
+/**
+ * Newest entry of every chain (for checkpoints)
+ */
+export async function getChainHeads(db: DbClient): Promise<AuditChainHead[]> {
+  const groups = await db.auditLog.groupBy({
+    by: ['chainId'],
+    where: { chainId: { not: null } },
+    _max: { chainSeq: true },
+  });
+
+  const heads: AuditChainHead[] = [];
+
+  for (const group of groups) {
+    if (!group.chainId || !group._max.chainSeq) continue;
+
+    const head = await db.auditLog.findUnique({
+      where: { chainId_chainSeq: { chainId: group.chainId, chainSeq: group._max.chainSeq } },
+      select: { chainSeq: true, hash: true },
+    });
+
+    if (head?.chainSeq && head.hash) {
+      heads.push({ chainId: group.chainId, chainSeq: head.chainSeq, hash: head.hash });
+    }
+  }
+
+  return heads.sort((a, b) => (a.chainId < b.chainId ? -1 : 1));
+}
+
+/**
+ * Walk a chain from its first entry and report the first broken link
+ *
+ * @param db - Prisma client
+ * @param chainId - Shop ID or AUDIT_LOG_CONFIG.PLATFORM_CHAIN_ID
+ * @param checkpoints - Heads of this chain from signed checkpoints; each must
+ *   still match the entry at its position
+ */
+export async function verifyAuditChain(
+  db: DbClient,
+  chainId: string,
+  checkpoints: Array<{ chainSeq: number; hash: string }> = []
+): Promise<AuditChainReport> {
+  const expectedHashes = new Map(checkpoints.map((checkpoint) => [checkpoint.chainSeq, checkpoint.hash]));
+  let previous: { chainSeq: number; hash: string } | null = null;
+  let entriesChecked = 0;
+
+  const report = (brokenLink: AuditChainReport['brokenLink']): AuditChainReport => ({
+    chainId,
+    valid: brokenLink === null,
+    entriesChecked,
+    checkpointsChecked: checkpoints.length,
+    head: previous,
+    brokenLink,
+  });
+
+  for (;;) {
+    const batch: AuditLog[] = await db.auditLog.findMany({
+      where: {
+        chainId,
+        ...(previous ? { chainSeq: { gt: previous.chainSeq } } : {}),
+      },
+      orderBy: { chainSeq: 'asc' },
+      take: AUDIT_LOG_CONFIG.VERIFY_BATCH_SIZE,
+    });
+
+    for (const entry of batch) {
+      const chainSeq: number = entry.chainSeq ?? 0;
+      const expectedSeq: number = (previous?.chainSeq ?? 0) + 1;
+
+      if (chainSeq !== expectedSeq) {
+        return report({
+          reason: 'SEQUENCE_GAP',
+          chainSeq,
+          entryId: entry.id,
+          message: `Entries ${expectedSeq} to ${chainSeq - 1} are missing`,
+        });
+      }
+
+      if (entry.prevHash !== (previous?.hash ?? null)) {
+        return report({
+          reason: 'PREV_HASH_MISMATCH',
+          chainSeq,
+          entryId: entry.id,
+          message: `Entry ${chainSeq} does not link to entry ${chainSeq - 1}`,
+        });
+      }
+
+      if (!entry.hash || computeEntryHash(entry) !== entry.hash) {
+        return report({
+          reason: 'HASH_MISMATCH',
+          chainSeq,
+          entryId: entry.id,
+          message: `Entry ${chainSeq} was modified after it was written`,
+        });
+      }
+
+      const checkpointHash = expectedHashes.get(chainSeq);
+      if (checkpointHash && checkpointHash !== entry.hash) {
+        return report({
+          reason: 'CHECKPOINT_MISMATCH',
+          chainSeq,
+          entryId: entry.id,
+          message: `Entry ${chainSeq} differs from the signed checkpoint`,
+        });
+      }
+
+      previous = { chainSeq, hash: entry.hash };
+      entriesChecked++;
+    }
+
+    if (batch.length < AUDIT_LOG_CONFIG.VERIFY_BATCH_SIZE) break;
+  }
+
+  // A checkpoint beyond the current head means the newest entries were deleted
+  const headSeq = previous?.chainSeq ?? 0;
+  const lostCheckpoint = checkpoints
+    .filter((checkpoint) => checkpoint.chainSeq > headSeq)
+    .sort((a, b) => a.chainSeq - b.chainSeq)[0];
+
+  if (lostCheckpoint) {
+    return report({
+      reason: 'CHECKPOINT_MISMATCH',
+      chainSeq: lostCheckpoint.chainSeq,
+      entryId: null,
+      message: `Entries ${headSeq + 1} to ${lostCheckpoint.chainSeq} were deleted after a signed checkpoint`,
+    });
+  }
+
+  return report(null);
+}
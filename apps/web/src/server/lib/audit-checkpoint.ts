@@ -0,0 +1,199 @@
+/**
+ * Signed Audit Checkpoints
+ *
+ * A checkpoint records the head (chainSeq + hash) of every audit chain and is
+ * signed with an Ed25519 key. Checkpoints are appended as JSON lines to
+ * {AUDIT_CHECKPOINT_DIR}/checkpoints-YYYY-MM-DD.jsonl (default dir:
+ * ./audit-checkpoints), which should be shipped to write-once storage.
+ * Rewriting an audit chain - including deleting its newest entries - then no
+ * longer matches an earlier checkpoint.
+ *
+ * Keys:
+ * - AUDIT_CHECKPOINT_PRIVATE_KEY: PKCS#8 PEM, needed to write checkpoints
+ * - AUDIT_CHECKPOINT_PUBLIC_KEY: SPKI PEM, lets a verify-only node check signatures
+ *   (derived from the private key when omitted)
+ *
+ * Generate a key pair with:
+ *   openssl genpkey -algorithm ed25519 -out checkpoint.key
+ *   openssl pkey -in checkpoint.key -pubout -out checkpoint.pub
+ */
+
+import { createPrivateKey, createPublicKey, sign, verify, type KeyObject } from 'crypto';
+import { appendFile, mkdir, readdir, readFile } from 'fs/promises';
+import path from 'path';
+import type { Prisma, PrismaClient } from '@shop-rewards/db';
+import { sha256Buffer } from '@shop-rewards/shared/utils';
+import { canonicalJson, getChainHeads, type AuditChainHead } from './audit-chain';
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+const CHECKPOINT_VERSION = 1;
+const CHECKPOINT_FILE_PATTERN = /^checkpoints-\d{4}-\d{2}-\d{2}\.jsonl$/;
+
+export interface AuditCheckpoint {
+  version: number;
+  createdAt: string;
+  heads: AuditChainHead[];
+  /** Fingerprint of the signing key's public half */
+  keyId: string;
+  /** Base64 Ed25519 signature over the canonical JSON of everything above */
+  signature: string;
+}
+
+/**
+ * Head of one chain as recorded by a checkpoint
+ */
+export interface AuditCheckpointHead {
+  createdAt: string;
+  chainSeq: number;
+  hash: string;
+  /** null when no public key is configured to check the signature */
+  signatureValid: boolean | null;
+}
+
+function getCheckpointDir(): string {
+  return path.resolve(process.env.AUDIT_CHECKPOINT_DIR || 'audit-checkpoints');
+}
+
+function getPrivateKey(): KeyObject {
+  const pem = process.env.AUDIT_CHECKPOINT_PRIVATE_KEY;
+
+  if (!pem) {
+    throw new Error('CHECKPOINT_KEY_MISSING: AUDIT_CHECKPOINT_PRIVATE_KEY is not configured');
+  }
+
+  return createPrivateKey(pem.replace(/\\n/g, '\n'));
+}
+
+function getPublicKey(): KeyObject | null {
+  const pem = process.env.AUDIT_CHECKPOINT_PUBLIC_KEY;
+
+  if (pem) {
+    return createPublicKey(pem.replace(/\\n/g, '\n'));
+  }
+
+  return process.env.AUDIT_CHECKPOINT_PRIVATE_KEY ? createPublicKey(getPrivateKey()) : null;
+}
+
+function getKeyId(publicKey: KeyObject): string {
+  return sha256Buffer(publicKey.export({ type: 'spki', format: 'der' })).slice(0, 16);
+}
+
+function getSignedPayload(checkpoint: Omit<AuditCheckpoint, 'signature'>): Buffer {
+  return Buffer.from(
+    canonicalJson({
+      version: checkpoint.version,
+      createdAt: checkpoint.createdAt,
+      heads: checkpoint.heads,
+      keyId: checkpoint.keyId,
+    })
+  );
+}
+
+/**
+ * Whether a checkpoint was signed by the configured key
+ * Returns null when no key is configured.
+ */
+export function verifyCheckpointSignature(checkpoint: AuditCheckpoint): boolean | null {
+  const publicKey = getPublicKey();
+  if (!publicKey) return null;
+
+  if (checkpoint.keyId !== getKeyId(publicKey)) return false;
+
+  return verify(
+    null,
+    getSignedPayload(checkpoint),
+    publicKey,
+    Buffer.from(checkpoint.signature, 'base64')
+  );
+}
+
+/**
+ * Sign the current head of every audit chain and append it to today's checkpoint file
+ *
+ * @throws Error('CHECKPOINT_KEY_MISSING') when no signing key is configured
+ */
+export async function createAuditCheckpoint(
+  db: DbClient
+): Promise<{ checkpoint: AuditCheckpoint; filePath: string }> {
+  const privateKey = getPrivateKey();
+  const createdAt = new Date().toISOString();
+
+  const unsigned: Omit<AuditCheckpoint, 'signature'> = {
+    version: CHECKPOINT_VERSION,
+    createdAt,
+    heads: await getChainHeads(db),
+    keyId: getKeyId(createPublicKey(privateKey)),
+  };
+
+  const checkpoint: AuditCheckpoint = {
+    ...unsigned,
+    signature: sign(null, getSignedPayload(unsigned), privateKey).toString('base64'),
+  };
+
+  const dir = getCheckpointDir();
+  const filePath = path.join(dir, `checkpoints-${createdAt.slice(0, 10)}.jsonl`);
+
+  await mkdir(dir, { recursive: true });
+  await appendFile(filePath, JSON.stringify(checkpoint) + '\n');
+
+  console.log('[AuditCheckpoint] Written:', {
+    filePath,
+    chains: checkpoint.heads.length,
+  });
+
+  return { checkpoint, filePath };
+}
+
+/**
+ * Heads of one chain from every exported checkpoint, oldest first
+ * Returns an empty list when no checkpoints have been written.
+ */
+export async function readAuditCheckpoints(chainId: string): Promise<AuditCheckpointHead[]> {
+  const dir = getCheckpointDir();
+  let files: string[];
+
+  try {
+    files = (await readdir(dir)).filter((file) => CHECKPOINT_FILE_PATTERN.test(file)).sort();
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') return [];
+    throw error;
+  }
+
+  const heads: AuditCheckpointHead[] = [];
+
+  for (const file of files) {
+    const lines = (await readFile(path.join(dir, file), 'utf8')).split('\n');
+
+    for (const line of lines) {
+      if (!line.trim()) continue;
+
+      let checkpoint: AuditCheckpoint;
+      try {
+        checkpoint = JSON.parse(line) as AuditCheckpoint;
+      } catch {
+        console.error('[AuditCheckpoint] Skipping unreadable line in', file);
+        continue;
+      }
+
+      const head = checkpoint.heads?.find((entry) => entry.chainId === chainId);
+      if (!head) continue;
+
+      let signatureValid: boolean | null;
+      try {
+        signatureValid = verifyCheckpointSignature(checkpoint);
+      } catch {
+        signatureValid = false;
+      }
+
+      heads.push({
+        createdAt: checkpoint.createdAt,
+        chainSeq: head.chainSeq,
+        hash: head.hash,
+        signatureValid,
+      });
+    }
+  }
+
+  return heads;
+}
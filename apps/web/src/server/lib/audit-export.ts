@@ -0,0 +1,114 @@
+/**
+ * Audit Log Export
+ *
+ * Serializes audit log entries for compliance reviews:
+ * - CSV: one row per entry, change sets as JSON strings
+ * - JSONL: one JSON object per line, change sets kept as objects
+ *
+ * CSV cells that a spreadsheet would evaluate as a formula (leading =, +, -, @)
+ * are prefixed with a quote, since audit values such as user agents and
+ * resource IDs come from clients.
+ */
+
+import type { AuditLog } from '@shop-rewards/db';
+import type { AuditLogExportFormat } from '@shop-rewards/shared/validators';
+
+/**
+ * Audit log entry as exported (user email resolved from the user when known)
+ */
+export type AuditLogExportRow = Pick<
+  AuditLog,
+  | 'id'
+  | 'createdAt'
+  | 'shopId'
+  | 'userId'
+  | 'userEmail'
+  | 'action'
+  | 'resource'
+  | 'resourceId'
+  | 'changesBefore'
+  | 'changesAfter'
+  | 'ipAddress'
+  | 'userAgent'
+  | 'isSuspicious'
+  | 'flagReason'
+>;
+
+const CSV_COLUMNS = [
+  'id',
+  'createdAt',
+  'shopId',
+  'userId',
+  'userEmail',
+  'action',
+  'resource',
+  'resourceId',
+  'ipAddress',
+  'userAgent',
+  'isSuspicious',
+  'flagReason',
+  'changesBefore',
+  'changesAfter',
+] as const;
+
+const MIME_TYPES: Record<AuditLogExportFormat, string> = {
+  csv: 'text/csv',
+  jsonl: 'application/x-ndjson',
+};
+
+function toPlainValue(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+function toCsvCell(value: unknown): string {
+  let cell = toPlainValue(value);
+
+  if (/^[=+\-@\t\r]/.test(cell)) {
+    cell = `'${cell}`;
+  }
+
+  return /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+}
+
+/**
+ * Header line of a CSV export
+ */
+export function getAuditCsvHeader(): string {
+  return CSV_COLUMNS.join(',');
+}
+
+/**
+ * Serialize a batch of entries (without the CSV header)
+ * Batches are joined with a newline.
+ */
+export function serializeAuditLogs(
+  rows: AuditLogExportRow[],
+  format: AuditLogExportFormat
+): string {
+  if (format === 'jsonl') {
+    return rows.map((row) => JSON.stringify(row)).join('\n');
+  }
+
+  return rows
+    .map((row) => CSV_COLUMNS.map((column) => toCsvCell(row[column])).join(','))
+    .join('\n');
+}
+
+/**
+ * File name and MIME type of an export
+ */
+export function getAuditExportFile(
+  format: AuditLogExportFormat,
+  shopId: string | null
+): { fileName: string; mimeType: string } {
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+  const scope = shopId ? `shop-${shopId}` : 'all-shops';
+
+  return {
+    fileName: `audit-logs-${scope}-${timestamp}.${format}`,
+    mimeType: MIME_TYPES[format],
+  };
+}
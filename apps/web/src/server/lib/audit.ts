@@ -3,10 +3,17 @@
  *
  * Creates comprehensive audit trails for all mutations and sensitive operations.
  * Tracks who did what, when, and what changed.
+ * Entries are appended to their shop's hash chain (see audit-chain.ts) and
+ * checked by the anomaly rules (see anomaly-rules.ts) before they are written.
  */
 
-import type { PrismaClient } from '@shop-rewards/db';
+import type { Prisma, PrismaClient } from '@shop-rewards/db';
 import type { Session } from '../trpc';
+import { appendAuditLog, type AuditEntryData } from './audit-chain';
+import { evaluateAnomalyRules, type AnomalyMatch } from './anomaly-rules';
+import { publishEvent } from './realtime';
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
 
 export type AuditAction =
   | 'CREATE'
@@ -24,7 +31,9 @@ export type AuditAction =
   | 'REMOVE_ROLE'
   | 'RESET_PASSWORD'
   | 'VERIFY'
-  | 'FLAG';
+  | 'FLAG'
+  | 'PURGE'
+  | 'EXPORT';
 
 export type AuditResource =
   | 'user'
@@ -32,10 +41,14 @@ export type AuditResource =
   | 'receipt'
   | 'voucher'
   | 'redemption'
+  | 'campaign'
   | 'role'
   | 'permission'
   | 'session'
-  | 'config';
+  | 'config'
+  | 'gdpr_request'
+  | 'ip_address'
+  | 'audit_log';
 
 export interface AuditLogData {
   action: AuditAction;
@@ -43,12 +56,48 @@ export interface AuditLogData {
   resourceId: string;
   changesBefore?: Record<string, unknown>;
   changesAfter?: Record<string, unknown>;
+  /** Context for the anomaly rules (not stored) */
   metadata?: Record<string, unknown>;
   ipAddress?: string;
   userAgent?: string;
   isSuspicious?: boolean;
 }
 
+/**
+ * Flag an entry by the anomaly rules, write it, and alert on matches
+ * (flags are set before the write; they are not part of the entry's hash anyway)
+ */
+async function writeAuditLog(
+  db: DbClient,
+  entry: AuditEntryData,
+  metadata?: Record<string, unknown>
+) {
+  const anomalies = await detectSuspiciousActivity(db, entry, metadata);
+
+  const auditLog = await appendAuditLog(db, {
+    ...entry,
+    isSuspicious: entry.isSuspicious || anomalies.length > 0,
+    flagReason: anomalies.map((anomaly) => anomaly.reason).join('; ') || null,
+  });
+
+  for (const anomaly of anomalies) {
+    await publishEvent(auditLog.shopId, {
+      type: 'SECURITY_ALERT',
+      payload: { message: anomaly.reason, severity: anomaly.severity },
+    });
+  }
+
+  if (anomalies.length > 0) {
+    console.warn('[Audit] Suspicious activity:', {
+      auditLogId: auditLog.id,
+      shopId: auditLog.shopId,
+      rules: anomalies.map((anomaly) => anomaly.ruleId),
+    });
+  }
+
+  return auditLog;
+}
+
 /**
  * Create an audit log entry
  *
@@ -68,7 +117,7 @@ export interface AuditLogData {
  */
 export async function createAuditLog(
   db: PrismaClient,
-  session: Session,
+  session: Pick<Session, 'userId' | 'shopId'>,
   data: AuditLogData
 ) {
   const {
@@ -83,20 +132,82 @@ export async function createAuditLog(
     isSuspicious = false,
   } = data;
 
-  return await db.auditLog.create({
-    data: {
+  return await writeAuditLog(
+    db,
+    {
       userId: session.userId,
       shopId: session.shopId || null,
       action,
       resource,
       resourceId,
-      changesBefore: (changesBefore as any) || null,
-      changesAfter: (changesAfter as any) || null,
+      changesBefore: changesBefore || null,
+      changesAfter: changesAfter || null,
       ipAddress: ipAddress || 'unknown',
       userAgent: userAgent || 'unknown',
       isSuspicious,
     },
-  });
+    metadata
+  );
+}
+
+/**
+ * Create an audit log entry for an action performed by the system
+ * (scheduled jobs, background workers) rather than a user session
+ *
+ * @param db - Prisma client instance
+ * @param shopId - Tenant the action applies to (null for platform-wide actions)
+ * @param actor - Name of the job or worker, stored as the user agent
+ * @param data - Audit log data
+ * @returns Created audit log entry
+ *
+ * @example
+ * await createSystemAuditLog(db, receipt.shopId, 'gdpr-retention', {
+ *   action: 'PURGE',
+ *   resource: 'receipt',
+ *   resourceId: receipt.id,
+ * });
+ */
+export async function createSystemAuditLog(
+  db: DbClient,
+  shopId: string | null,
+  actor: string,
+  data: Omit<AuditLogData, 'ipAddress' | 'userAgent'>
+) {
+  const {
+    action,
+    resource,
+    resourceId,
+    changesBefore,
+    changesAfter,
+    metadata,
+    isSuspicious = false,
+  } = data;
+
+  return await writeAuditLog(
+    db,
+    {
+      userId: null,
+      shopId,
+      action,
+      resource,
+      resourceId,
+      changesBefore: changesBefore || null,
+      changesAfter: changesAfter || null,
+      ipAddress: 'system',
+      userAgent: `system:${actor}`,
+      isSuspicious,
+    },
+    metadata
+  );
+}
+
+/**
+ * Whether two audit values are equal (nested objects and arrays by content)
+ */
+function isSameValue(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  return JSON.stringify(a) === JSON.stringify(b);
 }
 
 /**
@@ -124,7 +235,7 @@ export function createDiff(
   const allKeys = new Set([...Object.keys(before), ...Object.keys(after)]);
 
   for (const key of allKeys) {
-    if (before[key] !== after[key]) {
+    if (!isSameValue(before[key], after[key])) {
       diff[key] = {
         before: before[key],
         after: after[key],
@@ -137,49 +248,24 @@ export function createDiff(
 
 /**
  * Detect suspicious activity patterns
- * Analyzes audit logs to identify potential security issues
+ * Runs the anomaly rule registry (with the shop's overrides) against an entry
+ * about to be written
  *
- * @param action - Audit action being performed
+ * @param db - Prisma client instance (rules count recent audit log entries)
+ * @param entry - Audit log entry being written
  * @param metadata - Additional context about the action
- * @returns Whether the action should be flagged as suspicious
+ * @returns Matching rules, each with the flag reason and alert severity
  *
  * @example
- * const suspicious = detectSuspiciousActivity('DELETE', { count: 50 });
- * // Returns true for bulk deletes
+ * const anomalies = await detectSuspiciousActivity(db, entry, { count: 50 });
+ * // Returns a BULK_DELETE match for bulk deletes
  */
-export function detectSuspiciousActivity(
-  action: AuditAction,
+export async function detectSuspiciousActivity(
+  db: DbClient,
+  entry: AuditEntryData,
   metadata?: Record<string, unknown>
-): boolean {
-  // Flag bulk delete operations
-  if (action === 'DELETE' && metadata?.count && (metadata.count as number) > 10) {
-    return true;
-  }
-
-  // Flag high-value voucher redemptions
-  if (
-    action === 'APPROVE' &&
-    metadata?.voucherValue &&
-    (metadata.voucherValue as number) > 1000
-  ) {
-    return true;
-  }
-
-  // Flag password reset attempts on super admin accounts
-  if (
-    action === 'RESET_PASSWORD' &&
-    metadata?.targetIsSuperAdmin &&
-    metadata.targetIsSuperAdmin === true
-  ) {
-    return true;
-  }
-
-  // Flag account suspensions
-  if (action === 'SUSPEND') {
-    return true;
-  }
-
-  return false;
+): Promise<AnomalyMatch[]> {
+  return evaluateAnomalyRules(db, entry, metadata);
 }
 
 /**
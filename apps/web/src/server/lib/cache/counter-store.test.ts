@@ -0,0 +1,108 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+
+import { counterStore } from './counter-store';
+
+// Nothing listens here, so every operation uses the in-memory fallback
+beforeAll(() => {
+  vi.stubEnv('VALKEY_URL', 'redis://127.0.0.1:1');
+  vi.useFakeTimers({ toFake: ['Date'] });
+  vi.setSystemTime(new Date('2026-10-19T12:00:00Z'));
+});
+
+afterAll(() => {
+  vi.useRealTimers();
+  vi.unstubAllEnvs();
+});
+
+const advance = (seconds: number) => vi.setSystemTime(Date.now() + seconds * 1000);
+
+describe('counterStore in-memory fallback', () => {
+  afterEach(async () => {
+    await counterStore.delete('counter', 'set', 'flag', 'window');
+  });
+
+  it('counts within a fixed window that starts with the first increment', async () => {
+    expect(await counterStore.increment('counter', 60)).toBe(1);
+    advance(30);
+    expect(await counterStore.increment('counter', 60)).toBe(2);
+    expect(await counterStore.getTtl('counter')).toBe(30);
+
+    advance(30);
+    expect(await counterStore.increment('counter', 60)).toBe(1);
+  });
+
+  it('counts distinct set members', async () => {
+    await counterStore.addToSet('set', 'a', 60);
+    await counterStore.addToSet('set', 'a', 60);
+
+    expect(await counterStore.addToSet('set', 'b', 60)).toBe(2);
+  });
+
+  it('expires flags and forgets deleted keys', async () => {
+    await counterStore.setFlag('flag', 10);
+    expect(await counterStore.getTtl('flag')).toBe(10);
+
+    advance(10);
+    expect(await counterStore.getTtl('flag')).toBe(0);
+
+    await counterStore.increment('counter', 60);
+    await counterStore.delete('counter');
+    expect(await counterStore.getTtl('counter')).toBe(0);
+  });
+
+  describe('slidingWindow', () => {
+    it('allows hits up to the limit', async () => {
+      expect(await counterStore.slidingWindow('window', 2, 60)).toEqual({
+        allowed: true,
+        count: 1,
+        retryAfterSeconds: 0,
+      });
+      expect(await counterStore.slidingWindow('window', 2, 60)).toMatchObject({
+        allowed: true,
+        count: 2,
+      });
+    });
+
+    it('rejects further hits until the oldest one leaves the window', async () => {
+      await counterStore.slidingWindow('window', 2, 60);
+      advance(20);
+      await counterStore.slidingWindow('window', 2, 60);
+      advance(15);
+
+      expect(await counterStore.slidingWindow('window', 2, 60)).toEqual({
+        allowed: false,
+        count: 2,
+        retryAfterSeconds: 25,
+      });
+
+      advance(25);
+      expect(await counterStore.slidingWindow('window', 2, 60)).toEqual({
+        allowed: true,
+        count: 2,
+        retryAfterSeconds: 0,
+      });
+    });
+
+    it('does not record rejected hits', async () => {
+      await counterStore.slidingWindow('window', 1, 60);
+      advance(30);
+
+      // Retrying while blocked does not push the window back
+      await counterStore.slidingWindow('window', 1, 60);
+      await counterStore.slidingWindow('window', 1, 60);
+
+      advance(30);
+      expect(await counterStore.slidingWindow('window', 1, 60)).toMatchObject({ allowed: true });
+    });
+
+    it('rounds Retry-After up to whole seconds, at least one', async () => {
+      await counterStore.slidingWindow('window', 1, 60);
+      vi.setSystemTime(Date.now() + 59_500);
+
+      expect(await counterStore.slidingWindow('window', 1, 60)).toMatchObject({
+        allowed: false,
+        retryAfterSeconds: 1,
+      });
+    });
+  });
+});
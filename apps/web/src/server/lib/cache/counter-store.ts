@@ -0,0 +1,311 @@
+/**
+ * Counter Store
+ *
+ * Expiring counters, sets, flags and sliding windows for security bookkeeping
+ * (login lockout, rate limiting). Backed by Valkey so every server instance
+ * sees the same counts, with an in-memory fallback while Valkey is unreachable
+ * (counts are then per instance). The fallback also serves tests without Valkey.
+ */
+
+import { randomUUID } from 'crypto';
+import { Redis } from 'ioredis';
+
+/**
+ * Redis/Valkey client instance
+ * Offline queue disabled so commands fail fast and the fallback takes over.
+ */
+let redisClient: Redis | null = null;
+
+/**
+ * Whether the fallback is in use (logged once per switch)
+ */
+let usingFallback = false;
+
+/**
+ * Get or create Redis client
+ */
+function getRedisClient(): Redis {
+  if (!redisClient) {
+    const options = {
+      db: 0,
+      keyPrefix: 'shop-rewards:',
+      retryStrategy: (times: number) => Math.min(times * 50, 2000),
+      maxRetriesPerRequest: 1,
+      enableOfflineQueue: false,
+    };
+
+    redisClient = process.env.VALKEY_URL
+      ? new Redis(process.env.VALKEY_URL, options)
+      : new Redis({
+          ...options,
+          host: process.env.VALKEY_HOST || 'localhost',
+          port: parseInt(process.env.VALKEY_PORT || '6379'),
+        });
+
+    redisClient.on('ready', () => {
+      if (usingFallback) {
+        console.log('[CounterStore] Valkey available again');
+        usingFallback = false;
+      }
+    });
+
+    redisClient.on('error', (err) => {
+      console.error('[CounterStore] Valkey/Redis error:', err.message);
+    });
+  }
+
+  return redisClient;
+}
+
+interface MemoryEntry {
+  value: number | number[] | Set<string> | true;
+  expiresAt: number;
+}
+
+/**
+ * Result of recording a hit in a sliding window
+ */
+export interface SlidingWindowResult {
+  allowed: boolean;
+  /** Hits in the window, including this one if allowed */
+  count: number;
+  /** Seconds until the oldest hit leaves the window (0 if allowed) */
+  retryAfterSeconds: number;
+}
+
+/**
+ * Sliding window log as a sorted set scored by time (ms); atomic in Valkey
+ * KEYS[1] window key; ARGV: now, window (ms), limit, unique member
+ * Returns { allowed (0/1), count, retry after (ms) }
+ */
+const SLIDING_WINDOW_SCRIPT = `
+local now = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+local limit = tonumber(ARGV[3])
+redis.call('ZREMRANGEBYSCORE', KEYS[1], '-inf', now - window)
+local count = redis.call('ZCARD', KEYS[1])
+if count < limit then
+  redis.call('ZADD', KEYS[1], now, ARGV[4])
+  redis.call('PEXPIRE', KEYS[1], window)
+  return { 1, count + 1, 0 }
+end
+local oldest = redis.call('ZRANGE', KEYS[1], 0, 0, 'WITHSCORES')
+return { 0, count, tonumber(oldest[2]) + window - now }
+`;
+
+/**
+ * In-memory fallback (pruned lazily, and fully once it grows large)
+ */
+const memory = new Map<string, MemoryEntry>();
+const MEMORY_PRUNE_SIZE = 10_000;
+
+function getMemoryEntry(key: string): MemoryEntry | undefined {
+  const entry = memory.get(key);
+
+  if (entry && entry.expiresAt <= Date.now()) {
+    memory.delete(key);
+    return undefined;
+  }
+
+  return entry;
+}
+
+function setMemoryEntry(key: string, entry: MemoryEntry): void {
+  if (memory.size >= MEMORY_PRUNE_SIZE) {
+    const now = Date.now();
+    for (const [existingKey, existing] of memory) {
+      if (existing.expiresAt <= now) memory.delete(existingKey);
+    }
+  }
+
+  memory.set(key, entry);
+}
+
+/**
+ * Run a Valkey operation, falling back to memory if it fails
+ */
+async function withFallback<T>(
+  operation: (redis: Redis) => Promise<T>,
+  fallback: () => T
+): Promise<T> {
+  try {
+    return await operation(getRedisClient());
+  } catch (error) {
+    if (!usingFallback) {
+      console.warn('[CounterStore] Valkey unavailable, using in-memory fallback:', {
+        error: error instanceof Error ? error.message : error,
+      });
+      usingFallback = true;
+    }
+
+    return fallback();
+  }
+}
+
+/**
+ * Counter Store Operations
+ */
+export const counterStore = {
+  /**
+   * Increment a counter (the window starts with the first increment)
+   *
+   * @param key - Counter key
+   * @param windowSeconds - Lifetime of the counter
+   * @returns Count after the increment
+   */
+  async increment(key: string, windowSeconds: number): Promise<number> {
+    return withFallback(
+      async (redis) => {
+        const results = await redis.multi().incr(key).expire(key, windowSeconds, 'NX').exec();
+        const [error, count] = results?.[0] ?? [new Error('Transaction aborted')];
+        if (error) throw error;
+        return count as number;
+      },
+      () => {
+        const entry = getMemoryEntry(key);
+        const count = (typeof entry?.value === 'number' ? entry.value : 0) + 1;
+        setMemoryEntry(key, {
+          value: count,
+          expiresAt: entry?.expiresAt ?? Date.now() + windowSeconds * 1000,
+        });
+        return count;
+      }
+    );
+  },
+
+  /**
+   * Add a member to an expiring set
+   *
+   * @param key - Set key
+   * @param member - Member to add
+   * @param windowSeconds - Lifetime of the set (starts with the first member)
+   * @returns Number of distinct members
+   */
+  async addToSet(key: string, member: string, windowSeconds: number): Promise<number> {
+    return withFallback(
+      async (redis) => {
+        const results = await redis
+          .multi()
+          .sadd(key, member)
+          .expire(key, windowSeconds, 'NX')
+          .scard(key)
+          .exec();
+        const [error, size] = results?.[2] ?? [new Error('Transaction aborted')];
+        if (error) throw error;
+        return size as number;
+      },
+      () => {
+        const entry = getMemoryEntry(key);
+        const members = entry?.value instanceof Set ? entry.value : new Set<string>();
+        members.add(member);
+        setMemoryEntry(key, {
+          value: members,
+          expiresAt: entry?.expiresAt ?? Date.now() + windowSeconds * 1000,
+        });
+        return members.size;
+      }
+    );
+  },
+
+  /**
+   * Record a hit in a sliding window, unless the window is full
+   * Rejected hits are not recorded, so a client that keeps retrying is let
+   * through again once its oldest counted hit leaves the window.
+   *
+   * @param key - Window key
+   * @param limit - Maximum hits within the window
+   * @param windowSeconds - Window length
+   */
+  async slidingWindow(
+    key: string,
+    limit: number,
+    windowSeconds: number
+  ): Promise<SlidingWindowResult> {
+    const now = Date.now();
+    const windowMs = windowSeconds * 1000;
+
+    const toResult = (allowed: boolean, count: number, retryAfterMs: number) => ({
+      allowed,
+      count,
+      retryAfterSeconds: allowed ? 0 : Math.max(Math.ceil(retryAfterMs / 1000), 1),
+    });
+
+    return withFallback(
+      async (redis) => {
+        const [allowed, count, retryAfterMs] = (await redis.eval(
+          SLIDING_WINDOW_SCRIPT,
+          1,
+          key,
+          now,
+          windowMs,
+          limit,
+          `${now}:${randomUUID()}`
+        )) as [number, number, number];
+        return toResult(allowed === 1, count, retryAfterMs);
+      },
+      () => {
+        const entry = getMemoryEntry(key);
+        const hits = (Array.isArray(entry?.value) ? entry.value : []).filter(
+          (time) => time > now - windowMs
+        );
+
+        if (hits.length >= limit) {
+          const oldest = hits[0] ?? now;
+          const newest = hits[hits.length - 1] ?? now;
+          setMemoryEntry(key, { value: hits, expiresAt: newest + windowMs });
+          return toResult(false, hits.length, oldest + windowMs - now);
+        }
+
+        hits.push(now);
+        setMemoryEntry(key, { value: hits, expiresAt: now + windowMs });
+        return toResult(true, hits.length, 0);
+      }
+    );
+  },
+
+  /**
+   * Set a flag that expires after ttlSeconds (replaces any existing flag)
+   */
+  async setFlag(key: string, ttlSeconds: number): Promise<void> {
+    await withFallback(
+      async (redis) => {
+        await redis.set(key, '1', 'EX', ttlSeconds);
+      },
+      () => {
+        setMemoryEntry(key, { value: true, expiresAt: Date.now() + ttlSeconds * 1000 });
+      }
+    );
+  },
+
+  /**
+   * Seconds until a key expires
+   *
+   * @returns Remaining lifetime, or 0 if the key does not exist
+   */
+  async getTtl(key: string): Promise<number> {
+    return withFallback(
+      async (redis) => Math.max(await redis.ttl(key), 0),
+      () => {
+        const entry = getMemoryEntry(key);
+        return entry ? Math.ceil((entry.expiresAt - Date.now()) / 1000) : 0;
+      }
+    );
+  },
+
+  /**
+   * Delete keys
+   */
+  async delete(...keys: string[]): Promise<void> {
+    if (keys.length === 0) return;
+
+    // Clear both stores so a fallback period leaves nothing stale behind
+    for (const key of keys) memory.delete(key);
+
+    await withFallback(
+      async (redis) => {
+        await redis.del(...keys);
+      },
+      () => undefined
+    );
+  },
+};
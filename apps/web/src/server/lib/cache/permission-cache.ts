@@ -0,0 +1,171 @@
+/**
+ * Permission Cache
+ *
+ * Valkey cache of each user's effective permission set (module:action keys
+ * from all their roles, plus the scope of narrowed grants). Entries are keyed
+ * by three version counters rather than deleted on change:
+ * - the platform version, bumped when a platform role's permissions change
+ * - the shop version, bumped when one of the shop's roles changes
+ * - the user version, bumped when the user's role assignments change
+ *
+ * Bumping a counter makes every entry built from the old value unreachable
+ * (they expire with PERMISSION_CACHE_TTL), so a change to a role used by
+ * thousands of users costs one INCR. Bump after the change is committed.
+ *
+ * Valkey being unreachable never fails a request: permissions are then
+ * loaded from the database on every call.
+ */
+
+import { Redis } from 'ioredis';
+import { CACHE_KEYS, type PermissionScope } from '@shop-rewards/shared/constants';
+
+/**
+ * A user's effective permissions
+ */
+export interface UserPermissionSet {
+  /** module:action keys (wildcards included) */
+  permissions: string[];
+  /** Keys whose widest grant covers less than the whole shop */
+  scopes: Record<string, PermissionScope>;
+}
+
+/**
+ * Lifetime of a cached permission set (bounds staleness if a bump is lost)
+ */
+const PERMISSION_CACHE_TTL = 15 * 60; // 15 minutes
+
+/**
+ * Lifetime of the version counters (refreshed on every bump; must outlive
+ * cached sets so a counter never restarts at a value still in use)
+ */
+const VERSION_TTL = 24 * 60 * 60; // 1 day
+
+/**
+ * Redis/Valkey client instance
+ * Offline queue disabled so commands fail fast and the database takes over.
+ */
+let redisClient: Redis | null = null;
+
+/**
+ * Whether Valkey is being bypassed (logged once per switch)
+ */
+let bypassingCache = false;
+
+/**
+ * Get or create Redis client
+ */
+function getRedisClient(): Redis {
+  if (!redisClient) {
+    const options = {
+      db: 0,
+      keyPrefix: 'shop-rewards:',
+      retryStrategy: (times: number) => Math.min(times * 50, 2000),
+      maxRetriesPerRequest: 1,
+      enableOfflineQueue: false,
+    };
+
+    redisClient = process.env.VALKEY_URL
+      ? new Redis(process.env.VALKEY_URL, options)
+      : new Redis({
+          ...options,
+          host: process.env.VALKEY_HOST || 'localhost',
+          port: parseInt(process.env.VALKEY_PORT || '6379'),
+        });
+
+    redisClient.on('ready', () => {
+      if (bypassingCache) {
+        console.log('[PermissionCache] Valkey available again');
+        bypassingCache = false;
+      }
+    });
+
+    redisClient.on('error', (err) => {
+      console.error('[PermissionCache] Valkey/Redis error:', err.message);
+    });
+  }
+
+  return redisClient;
+}
+
+function logBypass(error: unknown): void {
+  if (!bypassingCache) {
+    console.warn('[PermissionCache] Valkey unavailable, loading permissions from the database:', {
+      error: error instanceof Error ? error.message : error,
+    });
+    bypassingCache = true;
+  }
+}
+
+/**
+ * Get a user's permission set, loading and caching it on a miss
+ *
+ * @param userId - User whose permissions are requested
+ * @param shopId - The user's shop (null for platform users)
+ * @param load - Loads the permission set from the database
+ */
+export async function getCachedPermissions(
+  userId: string,
+  shopId: string | null,
+  load: () => Promise<UserPermissionSet>
+): Promise<UserPermissionSet> {
+  let key: string;
+
+  try {
+    const redis = getRedisClient();
+    const versions = await redis.mget(
+      CACHE_KEYS.PERMISSIONS_VERSION(null),
+      ...(shopId ? [CACHE_KEYS.PERMISSIONS_VERSION(shopId)] : []),
+      CACHE_KEYS.USER_PERMISSIONS_VERSION(userId)
+    );
+
+    key = CACHE_KEYS.USER_PERMISSIONS(shopId, userId, versions.map((version) => version ?? '0').join('.'));
+
+    const cached = await redis.get(key);
+    if (cached) {
+      return JSON.parse(cached) as UserPermissionSet;
+    }
+  } catch (error) {
+    logBypass(error);
+    return load();
+  }
+
+  const permissionSet = await load();
+
+  try {
+    await getRedisClient().set(key, JSON.stringify(permissionSet), 'EX', PERMISSION_CACHE_TTL);
+  } catch (error) {
+    logBypass(error);
+  }
+
+  return permissionSet;
+}
+
+async function bumpVersion(versionKey: string): Promise<void> {
+  try {
+    await getRedisClient().multi().incr(versionKey).expire(versionKey, VERSION_TTL).exec();
+  } catch (error) {
+    // Entries built from the old version still expire with PERMISSION_CACHE_TTL
+    console.error('[PermissionCache] Failed to invalidate permissions:', {
+      versionKey,
+      error: error instanceof Error ? error.message : error,
+    });
+  }
+}
+
+/**
+ * Invalidate users' cached permissions after their role assignments changed
+ */
+export async function invalidateUserPermissions(...userIds: string[]): Promise<void> {
+  await Promise.all(
+    userIds.map((userId) => bumpVersion(CACHE_KEYS.USER_PERMISSIONS_VERSION(userId)))
+  );
+}
+
+/**
+ * Invalidate cached permissions after a role's permissions changed
+ *
+ * @param shopId - The role's shop (null for platform roles, which invalidates every user)
+ */
+export async function invalidateRolePermissions(shopId: string | null): Promise<void> {
+  await bumpVersion(CACHE_KEYS.PERMISSIONS_VERSION(shopId));
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Prisma, type PrismaClient } from '@shop-rewards/db';
+
+import { withRewardTransaction } from './campaign-engine';
+
+const serializationFailure = () =>
+  new Prisma.PrismaClientKnownRequestError('could not serialize access', {
+    code: 'P2034',
+    clientVersion: 'test',
+  });
+
+/**
+ * Client whose interactive transactions fail with the given errors, then run
+ */
+function clientFailingWith(...errors: Error[]) {
+  const $transaction = vi.fn(async (fn: (tx: unknown) => Promise<unknown>) => {
+    const error = errors.shift();
+    if (error) throw error;
+    return fn({});
+  });
+
+  return { db: { $transaction } as unknown as PrismaClient, $transaction };
+}
+
+describe('withRewardTransaction', () => {
+  it('runs the work in a Serializable transaction', async () => {
+    const { db, $transaction } = clientFailingWith();
+
+    await expect(withRewardTransaction(db, async () => 'issued')).resolves.toBe('issued');
+    expect($transaction).toHaveBeenCalledWith(expect.any(Function), {
+      isolationLevel: 'Serializable',
+    });
+  });
+
+  it('retries serialization failures', async () => {
+    const { db, $transaction } = clientFailingWith(serializationFailure(), serializationFailure());
+
+    await expect(withRewardTransaction(db, async () => 'issued')).resolves.toBe('issued');
+    expect($transaction).toHaveBeenCalledTimes(3);
+  });
+
+  it('gives up after three serialization failures', async () => {
+    const { db, $transaction } = clientFailingWith(
+      serializationFailure(),
+      serializationFailure(),
+      serializationFailure()
+    );
+
+    await expect(withRewardTransaction(db, async () => 'issued')).rejects.toMatchObject({
+      code: 'P2034',
+    });
+    expect($transaction).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not retry other errors', async () => {
+    const { db, $transaction } = clientFailingWith(new Error('voucher code collision'));
+
+    await expect(withRewardTransaction(db, async () => 'issued')).rejects.toThrow(
+      'voucher code collision'
+    );
+    expect($transaction).toHaveBeenCalledTimes(1);
+  });
+});
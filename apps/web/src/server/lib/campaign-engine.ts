@@ -0,0 +1,381 @@
+/**
+ * Campaign Engine
+ *
+ * Turns verified receipts into vouchers using the tiered reward rules
+ * stored in Campaign.rules. Enforces per-user, participant and budget limits.
+ * Also supports a dry-run mode so admins can preview the outcome for an amount.
+ */
+
+import {
+  Prisma,
+  withTenantTransaction,
+  type Campaign,
+  type PrismaClient,
+  type Voucher,
+} from '@shop-rewards/db';
+import {
+  campaignRulesSchema,
+  type CampaignRules,
+  type RewardRule,
+} from '@shop-rewards/shared/validators';
+import { applyScheduledCampaignTransitions } from './campaign-lifecycle';
+import { generateUniqueVoucherCode, generateVoucherQrCode } from './vouchers';
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+/**
+ * Attempts for a reward transaction aborted by a serialization conflict
+ */
+const REWARD_TRANSACTION_ATTEMPTS = 3;
+
+/**
+ * Outcome of evaluating a campaign for a receipt amount
+ */
+export interface CampaignEvaluation {
+  campaignId: string;
+  campaignName: string;
+  eligible: boolean;
+  reason: string | null;
+  tier: RewardRule | null;
+  rewardValue: number;
+  validUntil: Date | null;
+}
+
+/**
+ * Parse and validate the rules JSON of a campaign
+ *
+ * @param rules - Raw Campaign.rules value
+ * @returns Parsed rules or null if the JSON is malformed
+ */
+export function parseCampaignRules(rules: unknown): CampaignRules | null {
+  const result = campaignRulesSchema.safeParse(rules);
+
+  if (!result.success) {
+    console.warn('[Campaign Engine] Invalid campaign rules:', result.error.flatten());
+    return null;
+  }
+
+  return result.data;
+}
+
+/**
+ * Select the reward tier that matches an amount
+ * When tiers overlap, the tier with the highest minAmount wins
+ *
+ * @param rewardRules - Tiered reward rules
+ * @param amount - Receipt amount
+ * @returns Matching tier or null
+ *
+ * @example
+ * selectRewardTier(
+ *   [
+ *     { minAmount: 0, maxAmount: 49.99, discountType: 'PERCENTAGE', discountValue: 5, voucherValidityDays: 30 },
+ *     { minAmount: 50, discountType: 'FIXED_AMOUNT', discountValue: 10, voucherValidityDays: 30 },
+ *   ],
+ *   75
+ * );
+ * // Returns the FIXED_AMOUNT tier
+ */
+export function selectRewardTier(rewardRules: RewardRule[], amount: number): RewardRule | null {
+  const matching = rewardRules.filter(
+    (rule) => amount >= rule.minAmount && (rule.maxAmount === undefined || amount <= rule.maxAmount)
+  );
+
+  if (matching.length === 0) {
+    return null;
+  }
+
+  return matching.reduce((best, rule) => (rule.minAmount > best.minAmount ? rule : best));
+}
+
+/**
+ * Nominal value of a reward (used for budget accounting)
+ *
+ * @param tier - Reward tier
+ * @param amount - Receipt amount the reward is based on
+ * @returns Reward value in shop currency
+ */
+export function calculateRewardValue(tier: RewardRule, amount: number): number {
+  const value =
+    tier.discountType === 'PERCENTAGE' ? (amount * tier.discountValue) / 100 : tier.discountValue;
+
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Sum the nominal value of all vouchers already issued by a campaign
+ */
+async function getSpentBudget(db: DbClient, campaignId: string): Promise<number> {
+  const vouchers = await db.voucher.findMany({
+    where: { campaignId, status: { not: 'CANCELLED' } },
+    select: {
+      discountAmount: true,
+      discountPercent: true,
+      receipt: { select: { totalAmount: true } },
+    },
+  });
+
+  return vouchers.reduce((sum, voucher) => {
+    if (voucher.discountAmount) {
+      return sum + voucher.discountAmount.toNumber();
+    }
+
+    if (voucher.discountPercent && voucher.receipt?.totalAmount) {
+      return (
+        sum + (voucher.receipt.totalAmount.toNumber() * voucher.discountPercent.toNumber()) / 100
+      );
+    }
+
+    return sum;
+  }, 0);
+}
+
+/**
+ * Evaluate a campaign for a receipt amount without writing anything
+ *
+ * @param db - Prisma client or transaction client
+ * @param campaign - Campaign to evaluate
+ * @param amount - Receipt amount
+ * @param userId - Receipt owner (limits per user/participant are skipped when omitted)
+ * @returns Evaluation outcome with the selected tier and reward value
+ */
+export async function evaluateCampaign(
+  db: DbClient,
+  campaign: Pick<Campaign, 'id' | 'name' | 'rules'>,
+  amount: number,
+  userId?: string
+): Promise<CampaignEvaluation> {
+  const evaluation: CampaignEvaluation = {
+    campaignId: campaign.id,
+    campaignName: campaign.name,
+    eligible: false,
+    reason: null,
+    tier: null,
+    rewardValue: 0,
+    validUntil: null,
+  };
+
+  const rules = parseCampaignRules(campaign.rules);
+  if (!rules) {
+    return { ...evaluation, reason: 'Campaign rules are invalid' };
+  }
+
+  const tier = selectRewardTier(rules.rewardRules, amount);
+  if (!tier) {
+    return { ...evaluation, reason: `No reward tier matches amount ${amount}` };
+  }
+
+  const rewardValue = calculateRewardValue(tier, amount);
+
+  if (userId) {
+    // Per-user reward limit
+    const userRewards = await db.voucher.count({
+      where: {
+        campaignId: campaign.id,
+        status: { not: 'CANCELLED' },
+        receipt: { userId },
+      },
+    });
+
+    if (userRewards >= rules.maxRewardsPerUser) {
+      return { ...evaluation, tier, reason: 'User has reached the maximum rewards for this campaign' };
+    }
+
+    // Participant limit (only applies to users who have not participated yet)
+    if (rules.maxParticipants !== undefined && userRewards === 0) {
+      const participants = await db.receipt.findMany({
+        where: {
+          vouchers: { some: { campaignId: campaign.id, status: { not: 'CANCELLED' } } },
+        },
+        distinct: ['userId'],
+        select: { userId: true },
+      });
+
+      if (participants.length >= rules.maxParticipants) {
+        return { ...evaluation, tier, reason: 'Campaign has reached its maximum participants' };
+      }
+    }
+  }
+
+  // Budget limit
+  if (rules.budget !== undefined) {
+    const spent = await getSpentBudget(db, campaign.id);
+
+    if (spent + rewardValue > rules.budget) {
+      return { ...evaluation, tier, reason: 'Campaign budget exhausted' };
+    }
+  }
+
+  return {
+    ...evaluation,
+    eligible: true,
+    tier,
+    rewardValue,
+    validUntil: new Date(Date.now() + tier.voucherValidityDays * 24 * 60 * 60 * 1000),
+  };
+}
+
+/**
+ * Find campaigns that are currently running for a shop
+ *
+ * @param db - Prisma client or transaction client
+ * @param shopId - Shop ID
+ * @param campaignId - Optional campaign to restrict to (e.g. the one a receipt was uploaded for)
+ */
+export async function findActiveCampaigns(
+  db: DbClient,
+  shopId: string,
+  campaignId?: string | null
+): Promise<Campaign[]> {
+  // Bring scheduled starts/ends up to date before reading
+  await applyScheduledCampaignTransitions(db, shopId);
+
+  const now = new Date();
+
+  return db.campaign.findMany({
+    where: {
+      shopId,
+      status: 'ACTIVE',
+      startDate: { lte: now },
+      endDate: { gte: now },
+      ...(campaignId ? { id: campaignId } : {}),
+    },
+    orderBy: { startDate: 'asc' },
+  });
+}
+
+/**
+ * Preview rewards for a sample amount across the shop's active campaigns (dry run)
+ *
+ * @param db - Prisma client instance
+ * @param shopId - Shop ID
+ * @param amount - Sample receipt amount
+ * @param options - Optional campaign filter and user to evaluate limits for
+ * @returns One evaluation per campaign; nothing is written
+ */
+export async function previewCampaignRewards(
+  db: PrismaClient,
+  shopId: string,
+  amount: number,
+  options: { campaignId?: string; userId?: string } = {}
+): Promise<CampaignEvaluation[]> {
+  const campaigns = options.campaignId
+    ? await db.campaign.findMany({ where: { id: options.campaignId, shopId } })
+    : await findActiveCampaigns(db, shopId);
+
+  return Promise.all(
+    campaigns.map((campaign) => evaluateCampaign(db, campaign, amount, options.userId))
+  );
+}
+
+/**
+ * Run a Serializable tenant transaction for work that issues rewards
+ * Limits are checked against a consistent view of already issued vouchers;
+ * a transaction Postgres aborts for a serialization conflict (P2034) is retried.
+ *
+ * @example
+ * await withRewardTransaction(ctx.db, async (tx) => {
+ *   const receipt = await tx.receipt.update({ ... });
+ *   return issueCampaignRewards(tx, receipt);
+ * });
+ */
+export async function withRewardTransaction<T>(
+  db: PrismaClient,
+  fn: (tx: Prisma.TransactionClient) => Promise<T>
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await withTenantTransaction(db, fn, { isolationLevel: 'Serializable' });
+    } catch (error) {
+      const serializationFailure =
+        error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2034';
+
+      if (!serializationFailure || attempt >= REWARD_TRANSACTION_ATTEMPTS) {
+        throw error;
+      }
+    }
+  }
+}
+
+/**
+ * Issue campaign vouchers for a verified receipt
+ * Runs in the caller's transaction (see withRewardTransaction), so the vouchers
+ * are committed together with the status change that verified the receipt.
+ *
+ * @param tx - Transaction client of a reward transaction
+ * @param receipt - Verified receipt
+ * @returns Vouchers created and the evaluation for every campaign considered
+ */
+export async function issueCampaignRewards(
+  tx: Prisma.TransactionClient,
+  receipt: {
+    id: string;
+    shopId: string;
+    userId: string;
+    campaignId: string | null;
+    totalAmount: { toNumber(): number } | null;
+  }
+): Promise<{ vouchers: Voucher[]; evaluations: CampaignEvaluation[] }> {
+  const vouchers: Voucher[] = [];
+  const evaluations: CampaignEvaluation[] = [];
+
+  if (!receipt.totalAmount) {
+    console.log('[Campaign Engine] Receipt has no total amount, skipping:', receipt.id);
+    return { vouchers, evaluations };
+  }
+
+  const amount = receipt.totalAmount.toNumber();
+  const campaigns = await findActiveCampaigns(tx, receipt.shopId, receipt.campaignId);
+
+  for (const campaign of campaigns) {
+    // Idempotency: one voucher per receipt and campaign
+    const existing = await tx.voucher.findFirst({
+      where: { receiptId: receipt.id, campaignId: campaign.id },
+    });
+
+    if (existing) {
+      continue;
+    }
+
+    const evaluation = await evaluateCampaign(tx, campaign, amount, receipt.userId);
+    evaluations.push(evaluation);
+
+    if (!evaluation.eligible || !evaluation.tier || !evaluation.validUntil) {
+      continue;
+    }
+
+    const { tier } = evaluation;
+    const code = await generateUniqueVoucherCode(tx);
+
+    vouchers.push(
+      await tx.voucher.create({
+        data: {
+          shopId: receipt.shopId,
+          receiptId: receipt.id,
+          campaignId: campaign.id,
+          code,
+          type: tier.discountType,
+          discountPercent: tier.discountType === 'PERCENTAGE' ? tier.discountValue : null,
+          discountAmount: tier.discountType === 'FIXED_AMOUNT' ? tier.discountValue : null,
+          description:
+            tier.discountType === 'PERCENTAGE'
+              ? `${campaign.name}: ${tier.discountValue}% off`
+              : `${campaign.name}: ${tier.discountValue} off`,
+          validFrom: new Date(),
+          validUntil: evaluation.validUntil,
+          maxUses: 1,
+          status: 'ACTIVE',
+          qrCodeData: await generateVoucherQrCode(receipt.shopId, code),
+        },
+      })
+    );
+  }
+
+  console.log('[Campaign Engine] Rewards issued for receipt', {
+    receiptId: receipt.id,
+    campaignsEvaluated: campaigns.length,
+    vouchersIssued: vouchers.length,
+  });
+
+  return { vouchers, evaluations };
+}
@@ -0,0 +1,87 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { asSystem, type Shop } from '@shop-rewards/db';
+import { createTestDatabase, createTestShop, type TestDatabase } from '@shop-rewards/db/testing';
+
+import { applyScheduledCampaignTransitions } from './campaign-lifecycle';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe('applyScheduledCampaignTransitions', () => {
+  let testDb: TestDatabase;
+  let shop: Shop;
+
+  const createCampaign = (status: 'SCHEDULED' | 'ACTIVE', startDate: Date, endDate: Date) =>
+    asSystem('test', () =>
+      testDb.db.campaign.create({
+        data: { shopId: shop.id, name: status, status, startDate, endDate, rules: {} },
+      })
+    );
+
+  const auditEntries = (resourceId: string) =>
+    asSystem('test', () =>
+      testDb.db.auditLog.findMany({ where: { resource: 'campaign', resourceId } })
+    );
+
+  beforeAll(async () => {
+    testDb = await createTestDatabase();
+    shop = await createTestShop(testDb.db, 'lifecycle-shop');
+  });
+
+  afterAll(async () => {
+    await testDb?.close();
+  });
+
+  it('starts and ends campaigns on their dates and audits each change once', async () => {
+    const now = Date.now();
+    const starting = await createCampaign(
+      'SCHEDULED',
+      new Date(now - HOUR_MS),
+      new Date(now + HOUR_MS)
+    );
+    const ending = await createCampaign(
+      'ACTIVE',
+      new Date(now - 2 * HOUR_MS),
+      new Date(now - HOUR_MS)
+    );
+    const upcoming = await createCampaign(
+      'SCHEDULED',
+      new Date(now + HOUR_MS),
+      new Date(now + 2 * HOUR_MS)
+    );
+
+    const run = () =>
+      asSystem('campaign-lifecycle', () => applyScheduledCampaignTransitions(testDb.db));
+
+    expect(await run()).toEqual({ activated: 1, completed: 1 });
+    expect(await run()).toEqual({ activated: 0, completed: 0 });
+
+    const statuses = await asSystem('test', () =>
+      testDb.db.campaign.findMany({ select: { id: true, status: true, active: true } })
+    );
+    expect(statuses).toEqual(
+      expect.arrayContaining([
+        { id: starting.id, status: 'ACTIVE', active: true },
+        { id: ending.id, status: 'COMPLETED', active: false },
+        { id: upcoming.id, status: 'SCHEDULED', active: false },
+      ])
+    );
+
+    expect(await auditEntries(starting.id)).toEqual([
+      expect.objectContaining({
+        action: 'ACTIVATE',
+        shopId: shop.id,
+        userId: null,
+        userAgent: 'system:campaign-lifecycle',
+        changesBefore: { status: 'SCHEDULED' },
+        changesAfter: { status: 'ACTIVE', reason: 'start_date_reached' },
+      }),
+    ]);
+    expect(await auditEntries(ending.id)).toEqual([
+      expect.objectContaining({
+        action: 'UPDATE',
+        changesAfter: { status: 'COMPLETED', reason: 'end_date_passed' },
+      }),
+    ]);
+    expect(await auditEntries(upcoming.id)).toEqual([]);
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * Campaign Lifecycle
+ *
+ * State machine for Campaign.status:
+ *
+ *   DRAFT → SCHEDULED → ACTIVE ⇄ PAUSED → COMPLETED
+ *      ↘         ↘         ↘        ↘
+ *                     CANCELLED
+ *
+ * Scheduled campaigns are activated once their startDate is reached and
+ * running campaigns are completed once their endDate has passed.
+ */
+
+import { TRPCError } from '@trpc/server';
+import type { Prisma, PrismaClient } from '@shop-rewards/db';
+import type { CampaignStatus } from '@shop-rewards/shared/validators';
+import { createSystemAuditLog } from './audit';
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+const AUDIT_ACTOR = 'campaign-lifecycle';
+
+/**
+ * Allowed target statuses for each status
+ * COMPLETED and CANCELLED are terminal.
+ */
+export const CAMPAIGN_TRANSITIONS: Record<CampaignStatus, CampaignStatus[]> = {
+  DRAFT: ['SCHEDULED', 'CANCELLED'],
+  SCHEDULED: ['ACTIVE', 'CANCELLED'],
+  ACTIVE: ['PAUSED', 'COMPLETED', 'CANCELLED'],
+  PAUSED: ['ACTIVE', 'COMPLETED', 'CANCELLED'],
+  COMPLETED: [],
+  CANCELLED: [],
+};
+
+/**
+ * Permission action ('campaigns:<action>') required to move a campaign into a status
+ */
+export const CAMPAIGN_TRANSITION_PERMISSIONS: Record<
+  Exclude<CampaignStatus, 'DRAFT'>,
+  'activate' | 'pause'
+> = {
+  SCHEDULED: 'activate',
+  ACTIVE: 'activate',
+  PAUSED: 'pause',
+  COMPLETED: 'pause',
+  CANCELLED: 'pause',
+};
+
+/**
+ * Check whether a status transition is legal
+ *
+ * @param from - Current status
+ * @param to - Requested status
+ * @returns True if the transition is allowed
+ *
+ * @example
+ * canTransitionCampaign('ACTIVE', 'PAUSED') // Returns: true
+ * canTransitionCampaign('COMPLETED', 'ACTIVE') // Returns: false
+ */
+export function canTransitionCampaign(from: CampaignStatus, to: CampaignStatus): boolean {
+  return CAMPAIGN_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Validate a status transition for a campaign
+ *
+ * @param campaign - Campaign being transitioned
+ * @param to - Requested status
+ * @param now - Reference time (default: now)
+ * @throws TRPCError if the transition is illegal or conflicts with the campaign period
+ */
+export function assertCampaignTransition(
+  campaign: { status: CampaignStatus; endDate: Date },
+  to: CampaignStatus,
+  now: Date = new Date()
+): void {
+  if (!canTransitionCampaign(campaign.status, to)) {
+    const allowed = CAMPAIGN_TRANSITIONS[campaign.status];
+    throw new TRPCError({
+      code: 'BAD_REQUEST',
+      message: allowed.length
+        ? `Cannot change campaign from ${campaign.status} to ${to} (allowed: ${allowed.join(', ')})`
+        : `Cannot change campaign from ${campaign.status}: status is final`,
+    });
+  }
+
+  if ((to === 'SCHEDULED' || to === 'ACTIVE') && campaign.endDate <= now) {
+    throw new TRPCError({
+      code: 'BAD_REQUEST',
+      message: 'Cannot start a campaign whose end date has passed',
+    });
+  }
+}
+
+/**
+ * Apply time-based transitions:
+ * - SCHEDULED campaigns whose startDate has been reached become ACTIVE
+ * - SCHEDULED, ACTIVE and PAUSED campaigns whose endDate has passed become COMPLETED
+ *
+ * Idempotent; run every minute by the campaign-lifecycle job and also before
+ * campaigns are read, so statuses are current between runs. Each transition is
+ * written only if the status is still the one read, and audited once.
+ *
+ * @param db - Prisma client or transaction client
+ * @param shopId - Optional shop to restrict to
+ * @returns Number of campaigns activated and completed
+ */
+export async function applyScheduledCampaignTransitions(
+  db: DbClient,
+  shopId?: string
+): Promise<{ activated: number; completed: number }> {
+  const now = new Date();
+  const result = { activated: 0, completed: 0 };
+
+  const due = await db.campaign.findMany({
+    where: {
+      ...(shopId ? { shopId } : {}),
+      OR: [
+        { status: { in: ['SCHEDULED', 'ACTIVE', 'PAUSED'] }, endDate: { lt: now } },
+        { status: 'SCHEDULED', startDate: { lte: now } },
+      ],
+    },
+    select: { id: true, shopId: true, status: true, endDate: true },
+  });
+
+  for (const campaign of due) {
+    const status = campaign.endDate < now ? 'COMPLETED' : 'ACTIVE';
+
+    const { count } = await db.campaign.updateMany({
+      where: { id: campaign.id, status: campaign.status },
+      data: { status, active: status === 'ACTIVE' },
+    });
+
+    // Changed in the meantime (e.g. by a concurrent run)
+    if (count === 0) {
+      continue;
+    }
+
+    await createSystemAuditLog(db, campaign.shopId, AUDIT_ACTOR, {
+      action: status === 'ACTIVE' ? 'ACTIVATE' : 'UPDATE',
+      resource: 'campaign',
+      resourceId: campaign.id,
+      changesBefore: { status: campaign.status },
+      changesAfter: {
+        status,
+        reason: status === 'ACTIVE' ? 'start_date_reached' : 'end_date_passed',
+      },
+    });
+
+    result[status === 'ACTIVE' ? 'activated' : 'completed']++;
+  }
+
+  if (result.activated > 0 || result.completed > 0) {
+    console.log('[Campaign Lifecycle] Scheduled transitions applied', {
+      shopId: shopId ?? 'all',
+      ...result,
+    });
+  }
+
+  return result;
+}
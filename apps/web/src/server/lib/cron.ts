@@ -0,0 +1,92 @@
+/**
+ * Cron Expression Matching
+ *
+ * Minimal 5-field cron support (minute hour day-of-month month day-of-week)
+ * for the in-process job scheduler. Supports *, numbers, ranges (1-5),
+ * lists (1,15) and steps (*\/10, 0-30/5). Times are evaluated in server local time.
+ */
+
+const FIELD_RANGES: Array<[number, number]> = [
+  [0, 59], // minute
+  [0, 23], // hour
+  [1, 31], // day of month
+  [1, 12], // month
+  [0, 7], // day of week (0 and 7 = Sunday)
+];
+
+/**
+ * Parse one cron field into the set of values it matches
+ *
+ * @throws Error if the field is malformed or out of range
+ */
+function parseField(field: string, [min, max]: [number, number]): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const [rangePart, stepPart] = part.split('/');
+    const step = stepPart === undefined ? 1 : Number(stepPart);
+
+    let start = min;
+    let end = max;
+
+    if (rangePart !== '*') {
+      const [from, to] = rangePart!.split('-');
+      start = Number(from);
+      end = to === undefined ? (stepPart === undefined ? start : max) : Number(to);
+    }
+
+    if (
+      !Number.isInteger(start) ||
+      !Number.isInteger(end) ||
+      !Number.isInteger(step) ||
+      step < 1 ||
+      start < min ||
+      end > max ||
+      start > end
+    ) {
+      throw new Error(`Invalid cron field: ${field}`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Parse a cron expression
+ *
+ * @throws Error if the expression does not have 5 valid fields
+ */
+export function parseCron(expression: string): Set<number>[] {
+  const fields = expression.trim().split(/\s+/);
+
+  if (fields.length !== 5) {
+    throw new Error(`Invalid cron expression (expected 5 fields): ${expression}`);
+  }
+
+  return fields.map((field, index) => parseField(field, FIELD_RANGES[index]!));
+}
+
+/**
+ * Check whether a date matches a cron expression (to the minute)
+ *
+ * @example
+ * matchesCron('0 2 * * *', new Date('2024-01-01T02:00:00')) // true
+ */
+export function matchesCron(expression: string | Set<number>[], date: Date): boolean {
+  const [minutes, hours, days, months, weekdays] =
+    typeof expression === 'string' ? parseCron(expression) : expression;
+
+  const weekday = date.getDay();
+
+  return (
+    minutes!.has(date.getMinutes()) &&
+    hours!.has(date.getHours()) &&
+    days!.has(date.getDate()) &&
+    months!.has(date.getMonth() + 1) &&
+    (weekdays!.has(weekday) || (weekday === 0 && weekdays!.has(7)))
+  );
+}
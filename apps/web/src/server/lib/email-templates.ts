@@ -0,0 +1,180 @@
+/**
+ * Email Templates
+ *
+ * Subject, plain-text and HTML bodies of the system emails. Every template
+ * renders through the same layout, so all mail shares one look and values are
+ * HTML-escaped in one place. Send with:
+ *
+ *   sendEmail(db, { to: user.email, ...emailTemplates.passwordReset({ ... }) })
+ */
+
+import type { EmailMessage } from './email';
+import { escapeHtml } from './email';
+
+/**
+ * Rendered email without a recipient
+ */
+export type EmailContent = Omit<EmailMessage, 'to'>;
+
+interface EmailLayout {
+  subject: string;
+  greeting: string;
+  paragraphs: string[];
+  /** Button (HTML) / link line (text) after the paragraphs */
+  action?: { label: string; url: string };
+  /** Smaller print below the action */
+  footer?: string[];
+}
+
+const PRODUCT_NAME = 'ShopRewards Hub';
+
+/**
+ * Render a layout to subject, text and HTML
+ */
+function render(layout: EmailLayout): EmailContent {
+  const { greeting, paragraphs, action, footer = [] } = layout;
+
+  const text = [
+    greeting,
+    '',
+    ...paragraphs.flatMap((paragraph) => [paragraph, '']),
+    ...(action ? [`${action.label}: ${action.url}`, ''] : []),
+    ...footer.flatMap((line) => [line, '']),
+    `- ${PRODUCT_NAME}`,
+  ].join('\n');
+
+  const html = `
+    <div style="font-family: Arial, sans-serif; padding: 20px; max-width: 560px; color: #111827;">
+      <p>${escapeHtml(greeting)}</p>
+      ${paragraphs.map((paragraph) => `<p>${escapeHtml(paragraph)}</p>`).join('\n      ')}
+      ${
+        action
+          ? `<p style="margin: 24px 0;">
+        <a href="${escapeHtml(action.url)}" style="background: #2563eb; color: #ffffff; padding: 10px 18px; border-radius: 6px; text-decoration: none;">${escapeHtml(action.label)}</a>
+      </p>
+      <p style="font-size: 12px; color: #6b7280;">If the button does not work, open this link: ${escapeHtml(action.url)}</p>`
+          : ''
+      }
+      ${footer.map((line) => `<p style="font-size: 12px; color: #6b7280;">${escapeHtml(line)}</p>`).join('\n      ')}
+      <p style="font-size: 12px; color: #6b7280;">${PRODUCT_NAME}</p>
+    </div>
+  `;
+
+  return { subject: `${PRODUCT_NAME} - ${layout.subject}`, text, html };
+}
+
+/**
+ * Human-readable token lifetime ("1 hour", "48 hours", "30 minutes")
+ */
+function formatDuration(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  if (hours >= 1) return `${hours} hour${hours === 1 ? '' : 's'}`;
+
+  const minutes = Math.max(Math.floor(seconds / 60), 1);
+  return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+}
+
+export const emailTemplates = {
+  /**
+   * Account locked after failed sign-ins (with unlock link)
+   */
+  accountLocked(data: { firstName: string; lockedUntil: Date; unlockUrl: string }): EmailContent {
+    return render({
+      subject: 'Your account has been locked',
+      greeting: `Hi ${data.firstName},`,
+      paragraphs: [
+        `Your account was locked after too many failed sign-in attempts. It unlocks automatically at ${data.lockedUntil.toUTCString()}.`,
+        'If these attempts were yours, you can unlock your account now.',
+      ],
+      action: { label: 'Unlock account', url: data.unlockUrl },
+      footer: [
+        'If they were not, someone may be trying to guess your password. Consider changing it after signing in.',
+      ],
+    });
+  },
+
+  /**
+   * Self-service password reset link
+   */
+  passwordReset(data: { firstName: string; resetUrl: string; ttlSeconds: number }): EmailContent {
+    return render({
+      subject: 'Reset your password',
+      greeting: `Hi ${data.firstName},`,
+      paragraphs: [
+        'We received a request to reset the password of your account.',
+        `The link below can be used once and expires in ${formatDuration(data.ttlSeconds)}.`,
+      ],
+      action: { label: 'Choose a new password', url: data.resetUrl },
+      footer: ['If you did not request this, you can ignore this email. Your password stays unchanged.'],
+    });
+  },
+
+  /**
+   * Confirmation that the password was changed through a reset link
+   */
+  passwordChanged(data: { firstName: string }): EmailContent {
+    return render({
+      subject: 'Your password was changed',
+      greeting: `Hi ${data.firstName},`,
+      paragraphs: [
+        'The password of your account was just changed with a reset link, and you were signed out on all devices.',
+      ],
+      footer: ['If this was not you, contact your administrator immediately.'],
+    });
+  },
+
+  /**
+   * Notice that an administrator set a temporary password
+   */
+  passwordResetByAdmin(data: { firstName: string }): EmailContent {
+    return render({
+      subject: 'Your password was reset by an administrator',
+      greeting: `Hi ${data.firstName},`,
+      paragraphs: [
+        'An administrator has reset the password of your account and you were signed out on all devices.',
+        'Sign in with the temporary password they give you. You will then be asked to choose a new password.',
+      ],
+      footer: ['If you did not expect this, contact your administrator.'],
+    });
+  },
+
+  /**
+   * Verification link for a user's email address
+   */
+  userEmailVerification(data: {
+    firstName: string;
+    verifyUrl: string;
+    ttlSeconds: number;
+  }): EmailContent {
+    return render({
+      subject: 'Verify your email address',
+      greeting: `Hi ${data.firstName},`,
+      paragraphs: [
+        `An account was created for you on ${PRODUCT_NAME}. Please confirm that this email address belongs to you.`,
+        `The link expires in ${formatDuration(data.ttlSeconds)}.`,
+      ],
+      action: { label: 'Verify email address', url: data.verifyUrl },
+      footer: ['If you were not expecting this email, you can ignore it.'],
+    });
+  },
+
+  /**
+   * Verification link for a shop's contact email address
+   */
+  shopEmailVerification(data: {
+    shopName: string;
+    verifyUrl: string;
+    ttlSeconds: number;
+  }): EmailContent {
+    return render({
+      subject: 'Verify your shop email address',
+      greeting: 'Hello,',
+      paragraphs: [
+        `This address was given as the contact email of the shop "${data.shopName}". Please confirm that it belongs to the shop.`,
+        `The link expires in ${formatDuration(data.ttlSeconds)}.`,
+      ],
+      action: { label: 'Verify shop email', url: data.verifyUrl },
+      footer: ['If you did not register this shop, you can ignore this email.'],
+    });
+  },
+};
@@ -0,0 +1,134 @@
+/**
+ * Email Verification
+ *
+ * Confirms that users and shops own the email address on record:
+ * - Users: single-use AuthToken (purpose email_verification), confirmed in
+ *   User.emailVerifiedAt
+ * - Shops: Shop.verificationToken holds the SHA-256 of the emailed token and
+ *   Shop.verificationSentAt when it was issued, confirmed in Shop.emailVerified
+ *
+ * Links point to /verify-email and expire after
+ * EMAIL_TOKEN_CONFIG.EMAIL_VERIFICATION_TTL.
+ */
+
+import type { Prisma, PrismaClient, Shop, User } from '@shop-rewards/db';
+import { EMAIL_TOKEN_CONFIG } from '@shop-rewards/shared/constants';
+import { generateToken, sha256 } from '@shop-rewards/shared/utils';
+import { consumeAuthToken, createAuthToken } from '@/lib/auth/auth-token.service';
+import { getAppUrl, sendEmail } from './email';
+import { emailTemplates } from './email-templates';
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+/**
+ * Whose email address a verification link confirms
+ */
+export type EmailVerificationKind = 'user' | 'shop';
+
+function getVerifyUrl(kind: EmailVerificationKind, token: string): string {
+  return `${getAppUrl()}/verify-email?type=${kind}&token=${token}`;
+}
+
+/**
+ * Email a user a verification link (replaces any earlier link)
+ *
+ * @throws Error (EMAIL_NOT_CONFIGURED) if no SMTP integration is configured
+ */
+export async function sendUserVerificationEmail(
+  db: DbClient,
+  user: Pick<User, 'id' | 'email' | 'firstName'>
+): Promise<void> {
+  const ttlSeconds = EMAIL_TOKEN_CONFIG.EMAIL_VERIFICATION_TTL;
+  const token = await createAuthToken(db, user.id, 'email_verification', ttlSeconds);
+
+  await sendEmail(db, {
+    to: user.email,
+    ...emailTemplates.userEmailVerification({
+      firstName: user.firstName,
+      verifyUrl: getVerifyUrl('user', token),
+      ttlSeconds,
+    }),
+  });
+}
+
+/**
+ * Confirm a user's email address with the token from the link
+ *
+ * @returns ID of the verified user
+ * @throws Error (INVALID_TOKEN) if the token is unknown, expired or already used
+ */
+export async function verifyUserEmail(db: DbClient, token: string): Promise<string> {
+  const userId = await consumeAuthToken(db, 'email_verification', token);
+
+  await db.user.updateMany({
+    where: { id: userId, emailVerifiedAt: null },
+    data: { emailVerifiedAt: new Date() },
+  });
+
+  return userId;
+}
+
+/**
+ * Email a shop's contact address a verification link (replaces any earlier link)
+ *
+ * @throws Error (EMAIL_NOT_CONFIGURED) if no SMTP integration is configured
+ */
+export async function sendShopVerificationEmail(
+  db: DbClient,
+  shop: Pick<Shop, 'id' | 'email' | 'name'>
+): Promise<void> {
+  const token = generateToken(32);
+
+  await db.shop.update({
+    where: { id: shop.id },
+    data: {
+      emailVerified: false,
+      verificationToken: sha256(token),
+      verificationSentAt: new Date(),
+    },
+  });
+
+  await sendEmail(db, {
+    to: shop.email,
+    ...emailTemplates.shopEmailVerification({
+      shopName: shop.name,
+      verifyUrl: getVerifyUrl('shop', token),
+      ttlSeconds: EMAIL_TOKEN_CONFIG.EMAIL_VERIFICATION_TTL,
+    }),
+  });
+}
+
+/**
+ * Confirm a shop's contact email address with the token from the link
+ *
+ * @returns ID of the verified shop
+ * @throws Error (INVALID_TOKEN) if the token is unknown, expired or already used
+ */
+export async function verifyShopEmail(db: DbClient, token: string): Promise<string> {
+  const tokenHash = sha256(token);
+
+  const shop = await db.shop.findUnique({
+    where: { verificationToken: tokenHash },
+    select: { id: true, verificationSentAt: true },
+  });
+
+  const expiresAt = shop?.verificationSentAt
+    ? shop.verificationSentAt.getTime() + EMAIL_TOKEN_CONFIG.EMAIL_VERIFICATION_TTL * 1000
+    : 0;
+
+  if (!shop || expiresAt <= Date.now()) {
+    throw new Error('INVALID_TOKEN: Token is invalid or has expired');
+  }
+
+  // Conditional update: the token is cleared, so it works only once
+  const { count } = await db.shop.updateMany({
+    where: { id: shop.id, verificationToken: tokenHash },
+    data: { emailVerified: true, verificationToken: null, verificationSentAt: null },
+  });
+
+  if (count === 0) {
+    throw new Error('INVALID_TOKEN: Token is invalid or has expired');
+  }
+
+  return shop.id;
+}
@@ -0,0 +1,96 @@
+/**
+ * Transactional Email
+ *
+ * Sends system emails through the SMTP integration configured in setup
+ * wizard step 6 (SystemConfig `smtp_config`, decrypted by the db middleware).
+ */
+
+import nodemailer from 'nodemailer';
+import type { Prisma, PrismaClient } from '@shop-rewards/db';
+import { integrationSchema, type Integration } from '@shop-rewards/shared';
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+/**
+ * Load the SMTP configuration
+ *
+ * @returns SMTP settings, or null if email has not been configured
+ */
+export async function getSmtpConfig(db: DbClient): Promise<Integration | null> {
+  const row = await db.systemConfig.findUnique({ where: { key: 'smtp_config' } });
+
+  if (!row?.value) {
+    return null;
+  }
+
+  try {
+    return integrationSchema.parse(JSON.parse(row.value));
+  } catch (error) {
+    console.error('[Email] Invalid SMTP configuration:', error);
+    return null;
+  }
+}
+
+/**
+ * Send an email through the configured SMTP server
+ *
+ * @param db - Prisma client
+ * @param message - Recipient and content
+ * @throws Error (EMAIL_NOT_CONFIGURED) if no SMTP integration is configured
+ */
+export async function sendEmail(db: DbClient, message: EmailMessage): Promise<void> {
+  const config = await getSmtpConfig(db);
+
+  if (!config) {
+    throw new Error('EMAIL_NOT_CONFIGURED: SMTP integration is not configured');
+  }
+
+  const transporter = nodemailer.createTransport({
+    host: config.smtpHost,
+    port: config.smtpPort,
+    secure: config.smtpEncryption === 'ssl' || config.smtpPort === 465,
+    requireTLS: config.smtpEncryption === 'tls',
+    auth: {
+      user: config.smtpUsername,
+      pass: config.smtpPassword,
+    },
+    connectionTimeout: 10000,
+    greetingTimeout: 10000,
+  });
+
+  await transporter.sendMail({
+    from: process.env.SMTP_FROM || config.smtpUsername,
+    to: message.to,
+    subject: message.subject,
+    text: message.text,
+    html: message.html,
+  });
+
+  console.log('[Email] Sent:', { to: message.to, subject: message.subject });
+}
+
+/**
+ * Public base URL of the web app (NEXTAUTH_URL), for links in emails
+ */
+export function getAppUrl(): string {
+  return (process.env.NEXTAUTH_URL || 'http://localhost:3000').replace(/\/+$/, '');
+}
+
+/**
+ * Escape text for interpolation into an HTML email body
+ */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
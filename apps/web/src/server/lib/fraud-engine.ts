@@ -0,0 +1,265 @@
+/**
+ * Receipt Fraud Engine
+ *
+ * Scores receipts with weighted rules. The score is the sum of the weights
+ * of all triggered rules (capped at 100); receipts reaching
+ * OCR_CONFIG.FRAUD_THRESHOLD_SCORE are flagged as suspicious and sent to
+ * manual review. The per-rule breakdown is stored in Receipt.fraudDetails.
+ */
+
+import { asSystem, type Campaign, type Prisma, type PrismaClient, type Receipt } from '@shop-rewards/db';
+import { OCR_CONFIG, RATE_LIMITS } from '@shop-rewards/shared/constants';
+import {
+  ocrResultSchema,
+  type FraudRuleResult,
+} from '@shop-rewards/shared/validators';
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+/**
+ * Receipt as seen by fraud rules
+ */
+export type FraudCheckReceipt = Receipt & {
+  campaign: Pick<Campaign, 'id' | 'name' | 'startDate' | 'endDate'> | null;
+};
+
+/**
+ * Fraud rule definition
+ */
+export interface FraudRule {
+  id: string;
+  weight: number;
+  /**
+   * @returns Human-readable reason when the rule is triggered, null otherwise
+   */
+  evaluate(db: DbClient, receipt: FraudCheckReceipt): Promise<string | null>;
+}
+
+/**
+ * Result of scoring a receipt
+ */
+export interface FraudAssessment {
+  score: number;
+  flagged: boolean;
+  reasons: string[];
+  rules: FraudRuleResult[];
+}
+
+/**
+ * Allowed difference between the total and the line items
+ * (absolute, or relative to the total, whichever is larger)
+ */
+const LINE_ITEM_TOLERANCE = { absolute: 0.05, relative: 0.02 };
+
+/**
+ * Built-in fraud rules
+ */
+export const FRAUD_RULES: FraudRule[] = [
+  {
+    id: 'duplicate_file_hash',
+    weight: 50,
+    // Uploads reject a file already live in the same shop, so only other shops can hold it
+    async evaluate(db, receipt) {
+      const duplicates = await db.receipt.findMany({
+        where: {
+          id: { not: receipt.id },
+          fileHash: receipt.fileHash,
+          deletedAt: null,
+          shopId: { not: receipt.shopId },
+        },
+        select: { shopId: true, userId: true },
+      });
+
+      if (duplicates.length === 0) {
+        return null;
+      }
+
+      const otherShops = new Set(duplicates.map((d) => d.shopId));
+      const otherUsers = new Set(duplicates.filter((d) => d.userId !== receipt.userId).map((d) => d.userId));
+
+      return `Same file was uploaded ${duplicates.length} other time(s) (${otherUsers.size} other user(s), ${otherShops.size} other shop(s))`;
+    },
+  },
+  {
+    id: 'duplicate_receipt_number',
+    weight: 40,
+    async evaluate(db, receipt) {
+      if (!receipt.receiptNumber || !receipt.merchantName) {
+        return null;
+      }
+
+      const count = await db.receipt.count({
+        where: {
+          id: { not: receipt.id },
+          receiptNumber: receipt.receiptNumber,
+          merchantName: { equals: receipt.merchantName, mode: 'insensitive' },
+          deletedAt: null,
+        },
+      });
+
+      return count > 0
+        ? `Receipt number ${receipt.receiptNumber} from ${receipt.merchantName} was already submitted`
+        : null;
+    },
+  },
+  {
+    id: 'date_outside_campaign',
+    weight: 30,
+    async evaluate(_db, receipt) {
+      if (!receipt.campaign || !receipt.receiptDate) {
+        return null;
+      }
+
+      // Compare whole days: receipt dates carry no time of day
+      const day = receipt.receiptDate.toISOString().slice(0, 10);
+      const start = receipt.campaign.startDate.toISOString().slice(0, 10);
+      const end = receipt.campaign.endDate.toISOString().slice(0, 10);
+
+      return day < start || day > end
+        ? `Receipt date ${day} is outside the campaign "${receipt.campaign.name}" (${start} to ${end})`
+        : null;
+    },
+  },
+  {
+    id: 'total_mismatch',
+    weight: 25,
+    async evaluate(_db, receipt) {
+      const ocr = ocrResultSchema.partial().safeParse(receipt.ocrData);
+      const items = ocr.success ? ocr.data.items : undefined;
+
+      if (!receipt.totalAmount || !items || items.length === 0) {
+        return null;
+      }
+
+      const itemsTotal = items.reduce(
+        (sum, item) => sum + (item.totalPrice ?? (item.unitPrice ?? 0) * (item.quantity ?? 1)),
+        0
+      );
+      const total = receipt.totalAmount.toNumber();
+      // Items are usually listed before tax
+      const expected = ocr.success && ocr.data.subtotal !== undefined
+        ? ocr.data.subtotal
+        : total - (ocr.success ? ocr.data.tax ?? 0 : 0);
+      const tolerance = Math.max(LINE_ITEM_TOLERANCE.absolute, expected * LINE_ITEM_TOLERANCE.relative);
+
+      return Math.abs(itemsTotal - expected) > tolerance
+        ? `Line items add up to ${itemsTotal.toFixed(2)} but the receipt states ${expected.toFixed(2)}`
+        : null;
+    },
+  },
+  {
+    id: 'upload_velocity',
+    weight: 20,
+    async evaluate(db, receipt) {
+      const { maxRequests, windowSeconds } = RATE_LIMITS.RECEIPT_UPLOAD;
+
+      const uploads = await db.receipt.count({
+        where: {
+          userId: receipt.userId,
+          createdAt: {
+            gte: new Date(receipt.createdAt.getTime() - windowSeconds * 1000),
+            lte: receipt.createdAt,
+          },
+        },
+      });
+
+      return uploads > maxRequests
+        ? `User uploaded ${uploads} receipts within ${windowSeconds / 60} minutes (limit ${maxRequests})`
+        : null;
+    },
+  },
+];
+
+/**
+ * Score a receipt against the fraud rules (read-only)
+ *
+ * @param db - Prisma client or transaction client
+ * @param receipt - Receipt with its campaign
+ * @param rules - Rules to apply (default: FRAUD_RULES)
+ * @returns Score, flag and per-rule breakdown
+ */
+export async function assessReceiptFraud(
+  db: DbClient,
+  receipt: FraudCheckReceipt,
+  rules: FraudRule[] = FRAUD_RULES
+): Promise<FraudAssessment> {
+  const results: FraudRuleResult[] = [];
+
+  for (const rule of rules) {
+    const reason = await rule.evaluate(db, receipt);
+    results.push({
+      rule: rule.id,
+      weight: rule.weight,
+      triggered: reason !== null,
+      reason,
+    });
+  }
+
+  const score = Math.min(
+    100,
+    results.filter((result) => result.triggered).reduce((sum, result) => sum + result.weight, 0)
+  );
+
+  return {
+    score,
+    flagged: score >= OCR_CONFIG.FRAUD_THRESHOLD_SCORE,
+    reasons: results.filter((result) => result.triggered).map((result) => result.reason as string),
+    rules: results,
+  };
+}
+
+/**
+ * Score a receipt and store the result
+ * Flagged receipts are marked suspicious and moved to MANUAL_REVIEW.
+ *
+ * @param db - Prisma client instance
+ * @param receiptId - Receipt to score
+ * @returns Assessment, or null if the receipt no longer exists
+ */
+export async function scoreReceiptFraud(
+  db: PrismaClient,
+  receiptId: string
+): Promise<FraudAssessment | null> {
+  const receipt = await db.receipt.findUnique({
+    where: { id: receiptId },
+    include: {
+      campaign: {
+        select: { id: true, name: true, startDate: true, endDate: true },
+      },
+    },
+  });
+
+  if (!receipt || receipt.deletedAt) {
+    return null;
+  }
+
+  // Duplicate rules look across shops; they only count matches and never
+  // return other tenants' rows, so they run outside the caller's tenant context
+  const assessment = await asSystem('fraud-engine', () => assessReceiptFraud(db, receipt));
+
+  await db.receipt.update({
+    where: { id: receiptId },
+    data: {
+      fraudScore: assessment.score,
+      fraudReason: assessment.reasons.length > 0 ? assessment.reasons.join('; ') : null,
+      fraudDetails: assessment.rules,
+      // Never clear a flag set by a reviewer, only add one
+      ...(assessment.flagged
+        ? {
+            isSuspicious: true,
+            ...(receipt.status === 'OCR_COMPLETED' ? { status: 'MANUAL_REVIEW' as const } : {}),
+          }
+        : {}),
+    },
+  });
+
+  if (assessment.flagged) {
+    console.warn('[Fraud] Receipt flagged:', {
+      receiptId,
+      score: assessment.score,
+      reasons: assessment.reasons,
+    });
+  }
+
+  return assessment;
+}
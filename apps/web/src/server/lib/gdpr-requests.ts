@@ -0,0 +1,424 @@
+/**
+ * GDPR Data Subject Requests
+ *
+ * Export (Art. 15/20) and erasure (Art. 17) of everything tied to a User:
+ * profile, receipts, vouchers, redemptions, consents, sessions and audit entries.
+ *
+ * - Export: builds a zip with export.json, one CSV per record type and the
+ *   stored receipt files, stores it in the tenant exports bucket and records
+ *   its path and hash on the request
+ * - Erasure: deletes stored receipt files and earlier exports, soft-deletes the
+ *   receipts (purged by the retention sweeper), anonymises AuditLog.userEmail,
+ *   removes sessions and one-time auth tokens and tombstones the user row
+ */
+
+import { randomBytes } from 'crypto';
+import Papa from 'papaparse';
+import { Prisma, withTenantTransaction, type PrismaClient } from '@shop-rewards/db';
+import { STORAGE_CONFIG } from '@shop-rewards/shared/constants';
+import { sha256Buffer } from '@shop-rewards/shared/utils';
+import { createZip, type ZipEntry } from './zip';
+import { deleteObject, getObject, getTenantBucket, putObject } from './storage';
+
+/**
+ * Export bucket for users without a shop (platform admins)
+ */
+const PLATFORM_EXPORT_BUCKET = `${STORAGE_CONFIG.BUCKET_PREFIX}-platform-${STORAGE_CONFIG.EXPORT_SUFFIX}`;
+
+/**
+ * Domain used for tombstoned email addresses (reserved, never deliverable)
+ */
+const ERASED_EMAIL_DOMAIN = 'erased.invalid';
+
+/**
+ * Export summary (record counts per category)
+ */
+export interface UserExportSummary {
+  receipts: number;
+  receiptFiles: number;
+  missingReceiptFiles: number;
+  vouchers: number;
+  redemptions: number;
+  consents: number;
+  sessions: number;
+  auditLogs: number;
+  sizeBytes: number;
+}
+
+/**
+ * Erasure summary (records changed per category)
+ */
+export interface UserErasureSummary {
+  receiptFilesDeleted: number;
+  receiptsDeleted: number;
+  exportsDeleted: number;
+  auditLogsAnonymised: number;
+  sessionsDeleted: number;
+  consentsRevoked: number;
+}
+
+/**
+ * Convert records to CSV (dates as ISO strings, nested values as JSON)
+ */
+function toCsv(rows: Record<string, unknown>[]): string {
+  return Papa.unparse(
+    rows.map((row) =>
+      Object.fromEntries(
+        Object.entries(row).map(([key, value]) => [
+          key,
+          value instanceof Date
+            ? value.toISOString()
+            : value !== null && typeof value === 'object' && !(value instanceof Prisma.Decimal)
+              ? JSON.stringify(value)
+              : value === null || value === undefined
+                ? ''
+                : String(value),
+        ])
+      )
+    )
+  );
+}
+
+/**
+ * Build the export archive for a user
+ *
+ * @param db - Prisma client
+ * @param userId - Data subject
+ * @returns Zip archive and record counts
+ * @throws Error('USER_NOT_FOUND') if the user does not exist
+ */
+export async function buildUserExport(
+  db: PrismaClient,
+  userId: string
+): Promise<{ zip: Buffer; summary: UserExportSummary }> {
+  const user = await db.user.findUnique({
+    where: { id: userId },
+    select: {
+      id: true,
+      email: true,
+      name: true,
+      firstName: true,
+      lastName: true,
+      shopId: true,
+      mfaEnabled: true,
+      lastLoginAt: true,
+      lastLoginIp: true,
+      passwordChangedAt: true,
+      createdAt: true,
+      updatedAt: true,
+      roles: { select: { role: { select: { name: true } } } },
+    },
+  });
+
+  if (!user) {
+    throw new Error('USER_NOT_FOUND');
+  }
+
+  const [receipts, redemptions, consents, sessions, auditLogs] = await Promise.all([
+    db.receipt.findMany({
+      where: { userId },
+      select: {
+        id: true,
+        shopId: true,
+        campaignId: true,
+        minioPath: true,
+        fileHash: true,
+        fileName: true,
+        fileSize: true,
+        mimeType: true,
+        receiptNumber: true,
+        receiptDate: true,
+        totalAmount: true,
+        currency: true,
+        merchantName: true,
+        ocrData: true,
+        status: true,
+        verifiedAt: true,
+        scheduledDeleteAt: true,
+        deletedAt: true,
+        createdAt: true,
+      },
+      orderBy: { createdAt: 'asc' },
+    }),
+    db.redemption.findMany({
+      where: { userId },
+      select: {
+        id: true,
+        shopId: true,
+        voucherId: true,
+        redeemValue: true,
+        status: true,
+        redeemedAt: true,
+        approvedAt: true,
+        rejectedAt: true,
+        rejectionReason: true,
+        createdAt: true,
+      },
+      orderBy: { createdAt: 'asc' },
+    }),
+    db.gdprConsent.findMany({
+      where: { userId },
+      select: {
+        id: true,
+        shopId: true,
+        consentType: true,
+        granted: true,
+        ipAddress: true,
+        userAgent: true,
+        createdAt: true,
+        revokedAt: true,
+      },
+      orderBy: { createdAt: 'asc' },
+    }),
+    // Token hashes are credentials, not personal data of the subject
+    db.session.findMany({
+      where: { userId },
+      select: {
+        id: true,
+        ipAddress: true,
+        userAgent: true,
+        shopId: true,
+        expiresAt: true,
+        lastActivityAt: true,
+        revokedAt: true,
+        createdAt: true,
+      },
+      orderBy: { createdAt: 'asc' },
+    }),
+    db.auditLog.findMany({
+      where: { userId },
+      select: {
+        id: true,
+        shopId: true,
+        action: true,
+        resource: true,
+        resourceId: true,
+        ipAddress: true,
+        userAgent: true,
+        createdAt: true,
+      },
+      orderBy: { createdAt: 'asc' },
+    }),
+  ]);
+
+  // Vouchers issued for the user's receipts or redeemed by the user
+  const vouchers = await db.voucher.findMany({
+    where: {
+      OR: [
+        { receipt: { userId } },
+        { redemptions: { some: { userId } } },
+      ],
+    },
+    select: {
+      id: true,
+      shopId: true,
+      receiptId: true,
+      campaignId: true,
+      code: true,
+      type: true,
+      discountPercent: true,
+      discountAmount: true,
+      description: true,
+      validFrom: true,
+      validUntil: true,
+      usedCount: true,
+      status: true,
+      createdAt: true,
+    },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  const exportedAt = new Date();
+  const profile = { ...user, roles: user.roles.map((userRole) => userRole.role.name) };
+
+  const entries: ZipEntry[] = [
+    {
+      name: 'export.json',
+      data: JSON.stringify(
+        {
+          exportedAt: exportedAt.toISOString(),
+          user: profile,
+          receipts,
+          vouchers,
+          redemptions,
+          consents,
+          sessions,
+          auditLogs,
+        },
+        null,
+        2
+      ),
+    },
+    { name: 'user.csv', data: toCsv([profile]) },
+    { name: 'receipts.csv', data: toCsv(receipts) },
+    { name: 'vouchers.csv', data: toCsv(vouchers) },
+    { name: 'redemptions.csv', data: toCsv(redemptions) },
+    { name: 'consents.csv', data: toCsv(consents) },
+    { name: 'sessions.csv', data: toCsv(sessions) },
+    { name: 'audit_logs.csv', data: toCsv(auditLogs) },
+  ];
+
+  let receiptFiles = 0;
+  let missingReceiptFiles = 0;
+
+  for (const receipt of receipts) {
+    if (receipt.deletedAt) {
+      continue;
+    }
+
+    try {
+      entries.push({
+        name: `files/${receipt.id}-${receipt.minioPath.split('/').pop()}`,
+        data: await getObject(receipt.minioPath),
+        modifiedAt: receipt.createdAt,
+      });
+      receiptFiles++;
+    } catch (error) {
+      console.error('[GDPR] Receipt file missing from export:', { receiptId: receipt.id, error });
+      missingReceiptFiles++;
+    }
+  }
+
+  const zip = createZip(entries);
+
+  return {
+    zip,
+    summary: {
+      receipts: receipts.length,
+      receiptFiles,
+      missingReceiptFiles,
+      vouchers: vouchers.length,
+      redemptions: redemptions.length,
+      consents: consents.length,
+      sessions: sessions.length,
+      auditLogs: auditLogs.length,
+      sizeBytes: zip.length,
+    },
+  };
+}
+
+/**
+ * Build and store the export archive for a request
+ *
+ * @returns Object path, hash and summary of the stored archive
+ */
+export async function storeUserExport(
+  db: PrismaClient,
+  request: { id: string; userId: string; shopId: string | null }
+): Promise<{ exportPath: string; exportHash: string; summary: UserExportSummary }> {
+  const { zip, summary } = await buildUserExport(db, request.userId);
+
+  const bucket = request.shopId
+    ? getTenantBucket(request.shopId, STORAGE_CONFIG.EXPORT_SUFFIX)
+    : PLATFORM_EXPORT_BUCKET;
+  const exportPath = `${bucket}/gdpr-export-${request.id}.zip`;
+
+  await putObject(exportPath, zip, 'application/zip');
+
+  return { exportPath, exportHash: sha256Buffer(zip), summary };
+}
+
+/**
+ * Erase a user's personal data
+ *
+ * Stored files are deleted first; database changes run in one transaction so
+ * a failure leaves the user either fully tombstoned or untouched.
+ *
+ * @param db - Prisma client
+ * @param userId - Data subject
+ * @returns Counts of erased records
+ * @throws Error('USER_NOT_FOUND') if the user does not exist
+ */
+export async function eraseUserData(
+  db: PrismaClient,
+  userId: string
+): Promise<UserErasureSummary> {
+  const user = await db.user.findUnique({
+    where: { id: userId },
+    select: { id: true, email: true },
+  });
+
+  if (!user) {
+    throw new Error('USER_NOT_FOUND');
+  }
+
+  const [receipts, exports] = await Promise.all([
+    db.receipt.findMany({
+      where: { userId, deletedAt: null },
+      select: { id: true, minioPath: true },
+    }),
+    db.gdprRequest.findMany({
+      where: { userId, exportPath: { not: null } },
+      select: { id: true, exportPath: true },
+    }),
+  ]);
+
+  for (const receipt of receipts) {
+    await deleteObject(receipt.minioPath);
+  }
+
+  for (const request of exports) {
+    await deleteObject(request.exportPath!);
+  }
+
+  const now = new Date();
+  const tombstoneEmail = `erased-${user.id}@${ERASED_EMAIL_DOMAIN}`;
+
+  return withTenantTransaction(db, async (tx) => {
+    const receiptsDeleted = await tx.receipt.updateMany({
+      where: { id: { in: receipts.map((receipt) => receipt.id) } },
+      data: {
+        deletedAt: now,
+        ocrData: Prisma.DbNull,
+        fileName: null,
+        merchantName: null,
+      },
+    });
+
+    await tx.gdprRequest.updateMany({
+      where: { id: { in: exports.map((request) => request.id) } },
+      data: { exportPath: null, exportHash: null },
+    });
+
+    const auditLogsAnonymised = await tx.auditLog.updateMany({
+      where: { userId },
+      data: { userEmail: tombstoneEmail },
+    });
+
+    const sessionsDeleted = await tx.session.deleteMany({ where: { userId } });
+    await tx.authToken.deleteMany({ where: { userId } });
+    await tx.webAuthnCredential.deleteMany({ where: { userId } });
+
+    const consentsRevoked = await tx.gdprConsent.updateMany({
+      where: { userId },
+      data: { revokedAt: now, ipAddress: 'erased', userAgent: 'erased' },
+    });
+
+    // Tombstone: the row is kept so foreign keys and request history stay intact
+    await tx.user.update({
+      where: { id: userId },
+      data: {
+        email: tombstoneEmail,
+        name: null,
+        firstName: 'Erased',
+        lastName: 'User',
+        passwordHash: `!erased:${randomBytes(16).toString('hex')}`,
+        mfaEnabled: false,
+        mfaSecret: null,
+        mfaBackupCodes: [],
+        lastLoginIp: null,
+        lockedUntil: null,
+        deletedAt: now,
+      },
+    });
+
+    return {
+      receiptFilesDeleted: receipts.length,
+      receiptsDeleted: receiptsDeleted.count,
+      exportsDeleted: exports.length,
+      auditLogsAnonymised: auditLogsAnonymised.count,
+      sessionsDeleted: sessionsDeleted.count,
+      consentsRevoked: consentsRevoked.count,
+    };
+  });
+}
@@ -0,0 +1,339 @@
+/**
+ * GDPR Retention Sweeper
+ *
+ * Enforces Shop.dataRetentionDays on uploaded receipts in two phases:
+ * 1. Soft delete: once a receipt is due, its stored file is removed, OCR data
+ *    is cleared and the row is marked deleted (hidden from all queries)
+ * 2. Hard delete: soft-deleted rows are purged after GDPR_CONFIG.HARD_DELETE_GRACE_DAYS
+ *    (issued vouchers are kept; their receiptId is set to null)
+ *
+ * A receipt is due at the earlier of Receipt.scheduledDeleteAt (computed at
+ * upload) and createdAt + the shop's current retention, so shortening the
+ * retention period also applies to receipts that were already uploaded.
+ *
+ * Every deletion is recorded in AuditLog as a system action.
+ */
+
+import { Prisma, type PrismaClient } from '@shop-rewards/db';
+import { GDPR_CONFIG } from '@shop-rewards/shared/constants';
+import { createSystemAuditLog } from './audit';
+import { deleteObject } from './storage';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const AUDIT_ACTOR = 'gdpr-retention';
+
+/**
+ * Receipt that is due for deletion
+ */
+export interface RetentionCandidate {
+  id: string;
+  shopId: string;
+  fileName: string | null;
+  minioPath: string;
+  createdAt: Date;
+  /** When the receipt is (or was) due for soft deletion */
+  dueAt: Date;
+  /** When the row will be purged (soft-deleted rows only) */
+  purgeAt: Date | null;
+}
+
+/**
+ * Dry-run report of what a sweep at `asOf` would delete
+ */
+export interface RetentionReport {
+  asOf: Date;
+  totals: { softDelete: number; hardDelete: number };
+  shops: Array<{
+    shopId: string;
+    shopName: string;
+    dataRetentionDays: number;
+    softDelete: number;
+    hardDelete: number;
+  }>;
+  softDelete: RetentionCandidate[];
+  hardDelete: RetentionCandidate[];
+}
+
+/**
+ * Sweep result
+ */
+export interface RetentionSweepResult {
+  asOf: Date;
+  softDeleted: number;
+  hardDeleted: number;
+  failed: number;
+}
+
+const candidateSelect = {
+  id: true,
+  shopId: true,
+  fileName: true,
+  minioPath: true,
+  fileHash: true,
+  createdAt: true,
+  scheduledDeleteAt: true,
+  deletedAt: true,
+} satisfies Prisma.ReceiptSelect;
+
+type CandidateRow = Prisma.ReceiptGetPayload<{ select: typeof candidateSelect }>;
+
+/**
+ * Where clause for receipts of a shop that are due for soft deletion
+ */
+function dueForSoftDeleteWhere(
+  shopId: string,
+  retentionDays: number,
+  asOf: Date
+): Prisma.ReceiptWhereInput {
+  return {
+    shopId,
+    deletedAt: null,
+    OR: [
+      { scheduledDeleteAt: { lte: asOf } },
+      { createdAt: { lte: new Date(asOf.getTime() - retentionDays * DAY_MS) } },
+    ],
+  };
+}
+
+/**
+ * Where clause for soft-deleted receipts whose grace period has ended
+ */
+function dueForHardDeleteWhere(shopId: string, asOf: Date): Prisma.ReceiptWhereInput {
+  return {
+    shopId,
+    deletedAt: { lte: new Date(asOf.getTime() - GDPR_CONFIG.HARD_DELETE_GRACE_DAYS * DAY_MS) },
+  };
+}
+
+function toCandidate(row: CandidateRow, retentionDays: number): RetentionCandidate {
+  const retentionDue = new Date(row.createdAt.getTime() + retentionDays * DAY_MS);
+
+  return {
+    id: row.id,
+    shopId: row.shopId,
+    fileName: row.fileName,
+    minioPath: row.minioPath,
+    createdAt: row.createdAt,
+    dueAt: row.scheduledDeleteAt < retentionDue ? row.scheduledDeleteAt : retentionDue,
+    purgeAt: row.deletedAt
+      ? new Date(row.deletedAt.getTime() + GDPR_CONFIG.HARD_DELETE_GRACE_DAYS * DAY_MS)
+      : null,
+  };
+}
+
+/**
+ * Build a dry-run report of what the sweeper will delete
+ *
+ * @param db - Prisma client
+ * @param options.asOf - Point in time to evaluate (e.g. one week from now)
+ * @param options.shopId - Restrict the report to one shop
+ * @param options.limit - Maximum candidates listed per phase (totals are always exact)
+ * @returns Per-shop counts and the receipts that would be deleted
+ *
+ * @example
+ * const nextWeek = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000);
+ * const report = await getRetentionReport(db, { asOf: nextWeek });
+ */
+export async function getRetentionReport(
+  db: PrismaClient,
+  options: { asOf?: Date; shopId?: string; limit?: number } = {}
+): Promise<RetentionReport> {
+  const asOf = options.asOf ?? new Date();
+  const limit = options.limit ?? GDPR_CONFIG.SWEEP_BATCH_SIZE;
+
+  const shops = await db.shop.findMany({
+    where: options.shopId ? { id: options.shopId } : {},
+    select: { id: true, name: true, dataRetentionDays: true },
+    orderBy: { name: 'asc' },
+  });
+
+  const report: RetentionReport = {
+    asOf,
+    totals: { softDelete: 0, hardDelete: 0 },
+    shops: [],
+    softDelete: [],
+    hardDelete: [],
+  };
+
+  for (const shop of shops) {
+    const softWhere = dueForSoftDeleteWhere(shop.id, shop.dataRetentionDays, asOf);
+    const hardWhere = dueForHardDeleteWhere(shop.id, asOf);
+
+    const [softCount, hardCount] = await Promise.all([
+      db.receipt.count({ where: softWhere }),
+      db.receipt.count({ where: hardWhere }),
+    ]);
+
+    if (softCount === 0 && hardCount === 0) {
+      continue;
+    }
+
+    report.shops.push({
+      shopId: shop.id,
+      shopName: shop.name,
+      dataRetentionDays: shop.dataRetentionDays,
+      softDelete: softCount,
+      hardDelete: hardCount,
+    });
+    report.totals.softDelete += softCount;
+    report.totals.hardDelete += hardCount;
+
+    const remainingSoft = limit - report.softDelete.length;
+    if (softCount > 0 && remainingSoft > 0) {
+      const rows = await db.receipt.findMany({
+        where: softWhere,
+        select: candidateSelect,
+        orderBy: { scheduledDeleteAt: 'asc' },
+        take: remainingSoft,
+      });
+      report.softDelete.push(...rows.map((row) => toCandidate(row, shop.dataRetentionDays)));
+    }
+
+    const remainingHard = limit - report.hardDelete.length;
+    if (hardCount > 0 && remainingHard > 0) {
+      const rows = await db.receipt.findMany({
+        where: hardWhere,
+        select: candidateSelect,
+        orderBy: { deletedAt: 'asc' },
+        take: remainingHard,
+      });
+      report.hardDelete.push(...rows.map((row) => toCandidate(row, shop.dataRetentionDays)));
+    }
+  }
+
+  return report;
+}
+
+/**
+ * Soft-delete a due receipt: remove the stored file, clear OCR data, mark deleted
+ */
+async function softDeleteReceipt(db: PrismaClient, row: CandidateRow, asOf: Date): Promise<boolean> {
+  await deleteObject(row.minioPath);
+
+  const { count } = await db.receipt.updateMany({
+    where: { id: row.id, deletedAt: null },
+    data: {
+      deletedAt: asOf,
+      ocrData: Prisma.DbNull,
+    },
+  });
+
+  // Already deleted by a concurrent sweep
+  if (count === 0) {
+    return false;
+  }
+
+  await createSystemAuditLog(db, row.shopId, AUDIT_ACTOR, {
+    action: 'DELETE',
+    resource: 'receipt',
+    resourceId: row.id,
+    changesBefore: {
+      fileName: row.fileName,
+      fileHash: row.fileHash,
+      minioPath: row.minioPath,
+      scheduledDeleteAt: row.scheduledDeleteAt.toISOString(),
+    },
+    changesAfter: {
+      deletedAt: asOf.toISOString(),
+      reason: 'retention_expired',
+    },
+  });
+
+  return true;
+}
+
+/**
+ * Purge a soft-deleted receipt row
+ */
+async function hardDeleteReceipt(db: PrismaClient, row: CandidateRow): Promise<boolean> {
+  const { count } = await db.receipt.deleteMany({
+    where: { id: row.id, deletedAt: { not: null } },
+  });
+
+  if (count === 0) {
+    return false;
+  }
+
+  await createSystemAuditLog(db, row.shopId, AUDIT_ACTOR, {
+    action: 'PURGE',
+    resource: 'receipt',
+    resourceId: row.id,
+    changesBefore: {
+      fileHash: row.fileHash,
+      deletedAt: row.deletedAt?.toISOString() ?? null,
+    },
+    changesAfter: { reason: 'retention_grace_period_ended' },
+  });
+
+  return true;
+}
+
+/**
+ * Run the retention sweep for all shops
+ * Safe to run concurrently and repeatedly: each row is claimed with a conditional update.
+ *
+ * @param db - Prisma client
+ * @param options.asOf - Point in time to evaluate (default: now)
+ * @param options.shopId - Restrict the sweep to one shop
+ * @returns Counts of deleted and failed receipts
+ */
+export async function runRetentionSweep(
+  db: PrismaClient,
+  options: { asOf?: Date; shopId?: string } = {}
+): Promise<RetentionSweepResult> {
+  const asOf = options.asOf ?? new Date();
+  const result: RetentionSweepResult = { asOf, softDeleted: 0, hardDeleted: 0, failed: 0 };
+
+  const shops = await db.shop.findMany({
+    where: options.shopId ? { id: options.shopId } : {},
+    select: { id: true, dataRetentionDays: true },
+  });
+
+  for (const shop of shops) {
+    // Failed rows are skipped for the rest of this run and retried on the next one
+    const failedIds: string[] = [];
+
+    const phases = [
+      {
+        where: () => dueForSoftDeleteWhere(shop.id, shop.dataRetentionDays, asOf),
+        run: (row: CandidateRow) => softDeleteReceipt(db, row, asOf),
+        counter: 'softDeleted' as const,
+      },
+      {
+        where: () => dueForHardDeleteWhere(shop.id, asOf),
+        run: (row: CandidateRow) => hardDeleteReceipt(db, row),
+        counter: 'hardDeleted' as const,
+      },
+    ];
+
+    for (const phase of phases) {
+      for (;;) {
+        const rows = await db.receipt.findMany({
+          where: { ...phase.where(), id: { notIn: failedIds } },
+          select: candidateSelect,
+          take: GDPR_CONFIG.SWEEP_BATCH_SIZE,
+        });
+
+        if (rows.length === 0) {
+          break;
+        }
+
+        for (const row of rows) {
+          try {
+            if (await phase.run(row)) {
+              result[phase.counter]++;
+            }
+          } catch (error) {
+            console.error('[GDPR] Failed to delete receipt:', { receiptId: row.id, error });
+            failedIds.push(row.id);
+            result.failed++;
+          }
+        }
+      }
+    }
+  }
+
+  console.log('[GDPR] Retention sweep finished', result);
+
+  return result;
+}
@@ -0,0 +1,257 @@
+/**
+ * Login Lockout
+ *
+ * Progressive lockout against password guessing, per account and per client IP:
+ * - Account: RATE_LIMITS.LOGIN_ATTEMPTS failures within the window lock the
+ *   account (User.lockedUntil). The lock doubles with every further lockout
+ *   since the last successful login (User.failedLoginAttempts), up to
+ *   LOCKOUT_CONFIG.MAX_LOCK_SECONDS. The user is emailed an unlock link.
+ * - IP: RATE_LIMITS.LOGIN_ATTEMPTS_PER_IP failures (any account, including
+ *   unknown emails) lock the address, with the same backoff over
+ *   LOCKOUT_CONFIG.IP_LOCKOUT_MEMORY_SECONDS.
+ *
+ * Window counters live in the counter store (Valkey, in-memory fallback).
+ * Lockouts are audited and flagged by the REPEATED_LOCKOUT anomaly rule.
+ */
+
+import type { PrismaClient, User } from '@shop-rewards/db';
+import { LOCKOUT_CONFIG, RATE_LIMITS } from '@shop-rewards/shared/constants';
+import { createAuthToken } from '@/lib/auth/auth-token.service';
+import type { ClientInfo } from '@/lib/auth/session.service';
+import { createSystemAuditLog } from './audit';
+import { counterStore } from './cache/counter-store';
+import { getAppUrl, sendEmail } from './email';
+import { emailTemplates } from './email-templates';
+
+/**
+ * User fields needed to track lockouts
+ */
+export type LockoutUser = Pick<
+  User,
+  'id' | 'email' | 'firstName' | 'shopId' | 'failedLoginAttempts' | 'lockedUntil'
+>;
+
+export interface LoginLockout {
+  locked: boolean;
+  /** Seconds until the lock ends (0 if not locked) */
+  retryAfterSeconds: number;
+}
+
+const NOT_LOCKED: LoginLockout = { locked: false, retryAfterSeconds: 0 };
+
+/**
+ * Counter store keys
+ */
+const LockoutKeys = {
+  accountFailures: (userId: string) => `auth:lockout:account:${userId}:failures`,
+  ipFailures: (ip: string) => `auth:lockout:ip:${ip}:failures`,
+  ipAccounts: (ip: string) => `auth:lockout:ip:${ip}:accounts`,
+  ipLockouts: (ip: string) => `auth:lockout:ip:${ip}:lockouts`,
+  ipLock: (ip: string) => `auth:lockout:ip:${ip}:lock`,
+};
+
+/**
+ * Lock duration for the nth lockout (exponential backoff)
+ */
+export function getLockDurationSeconds(lockoutCount: number): number {
+  const exponent = Math.max(lockoutCount - 1, 0);
+  return Math.min(LOCKOUT_CONFIG.BASE_LOCK_SECONDS * 2 ** exponent, LOCKOUT_CONFIG.MAX_LOCK_SECONDS);
+}
+
+/**
+ * Whether an account is currently locked
+ */
+export function getAccountLockout(user: Pick<User, 'lockedUntil'>, now: Date = new Date()): LoginLockout {
+  if (!user.lockedUntil || user.lockedUntil <= now) {
+    return NOT_LOCKED;
+  }
+
+  return {
+    locked: true,
+    retryAfterSeconds: Math.ceil((user.lockedUntil.getTime() - now.getTime()) / 1000),
+  };
+}
+
+/**
+ * Whether a client IP is currently locked
+ * Requests without a known client IP are not tracked per IP.
+ */
+export async function getIpLockout(ipAddress: string): Promise<LoginLockout> {
+  if (ipAddress === 'unknown') {
+    return NOT_LOCKED;
+  }
+
+  const retryAfterSeconds = await counterStore.getTtl(LockoutKeys.ipLock(ipAddress));
+  return retryAfterSeconds > 0 ? { locked: true, retryAfterSeconds } : NOT_LOCKED;
+}
+
+/**
+ * Record a failed sign-in attempt (wrong password, MFA code or unknown email)
+ *
+ * @param db - Prisma client
+ * @param email - Email the attempt was made for
+ * @param user - Matching user, or null for unknown emails
+ * @param client - Request IP and user agent
+ * @returns Lock now in effect for this attempt (account or IP, whichever is longer)
+ */
+export async function recordLoginFailure(
+  db: PrismaClient,
+  email: string,
+  user: LockoutUser | null,
+  client: ClientInfo
+): Promise<LoginLockout> {
+  let ipLockout = NOT_LOCKED;
+  let accountLockout = NOT_LOCKED;
+  let distinctAccounts = 0;
+
+  if (client.ipAddress !== 'unknown') {
+    const ip = client.ipAddress;
+    const { maxRequests, windowSeconds } = RATE_LIMITS.LOGIN_ATTEMPTS_PER_IP;
+
+    const [failures, accounts] = await Promise.all([
+      counterStore.increment(LockoutKeys.ipFailures(ip), windowSeconds),
+      counterStore.addToSet(LockoutKeys.ipAccounts(ip), email.toLowerCase(), windowSeconds),
+    ]);
+    distinctAccounts = accounts;
+
+    if (failures >= maxRequests) {
+      const lockoutCount = await counterStore.increment(
+        LockoutKeys.ipLockouts(ip),
+        LOCKOUT_CONFIG.IP_LOCKOUT_MEMORY_SECONDS
+      );
+      const lockSeconds = getLockDurationSeconds(lockoutCount);
+
+      await counterStore.setFlag(LockoutKeys.ipLock(ip), lockSeconds);
+      await counterStore.delete(LockoutKeys.ipFailures(ip));
+      ipLockout = { locked: true, retryAfterSeconds: lockSeconds };
+
+      const details = {
+        reason: 'failed_logins',
+        failedAttempts: failures,
+        lockoutCount,
+        lockSeconds,
+        distinctAccounts,
+      };
+
+      console.warn('[Lockout] IP locked:', { ip, ...details });
+
+      await createSystemAuditLog(db, null, 'login-lockout', {
+        action: 'LOCK',
+        resource: 'ip_address',
+        resourceId: ip,
+        changesAfter: { ...details, userAgent: client.userAgent },
+        metadata: details,
+      });
+    }
+  }
+
+  if (user) {
+    const { maxRequests, windowSeconds } = RATE_LIMITS.LOGIN_ATTEMPTS;
+
+    const failures = await counterStore.increment(
+      LockoutKeys.accountFailures(user.id),
+      windowSeconds
+    );
+    const { failedLoginAttempts } = await db.user.update({
+      where: { id: user.id },
+      data: { failedLoginAttempts: { increment: 1 } },
+      select: { failedLoginAttempts: true },
+    });
+
+    if (failures >= maxRequests) {
+      const lockoutCount = Math.max(Math.floor(failedLoginAttempts / maxRequests), 1);
+      const lockSeconds = getLockDurationSeconds(lockoutCount);
+      const lockedUntil = new Date(Date.now() + lockSeconds * 1000);
+
+      await db.user.update({
+        where: { id: user.id },
+        data: { lockedUntil },
+      });
+      await counterStore.delete(LockoutKeys.accountFailures(user.id));
+      accountLockout = { locked: true, retryAfterSeconds: lockSeconds };
+
+      const details = {
+        reason: 'failed_logins',
+        failedAttempts: failedLoginAttempts,
+        lockoutCount,
+        lockSeconds,
+        distinctAccounts,
+      };
+
+      console.warn('[Lockout] Account locked:', { userId: user.id, ...details });
+
+      await createSystemAuditLog(db, user.shopId, 'login-lockout', {
+        action: 'LOCK',
+        resource: 'user',
+        resourceId: user.id,
+        changesBefore: { lockedUntil: user.lockedUntil },
+        changesAfter: {
+          ...details,
+          lockedUntil,
+          ipAddress: client.ipAddress,
+          userAgent: client.userAgent,
+        },
+        metadata: details,
+      });
+
+      await sendUnlockEmail(db, user, lockedUntil);
+    }
+  }
+
+  return accountLockout.retryAfterSeconds >= ipLockout.retryAfterSeconds
+    ? accountLockout
+    : ipLockout;
+}
+
+/**
+ * Reset an account's failure tracking after a successful sign-in
+ */
+export async function clearLoginFailures(
+  db: PrismaClient,
+  user: Pick<User, 'id' | 'failedLoginAttempts' | 'lockedUntil'>
+): Promise<void> {
+  await counterStore.delete(LockoutKeys.accountFailures(user.id));
+
+  if (user.failedLoginAttempts > 0 || user.lockedUntil) {
+    await db.user.update({
+      where: { id: user.id },
+      data: { failedLoginAttempts: 0, lockedUntil: null },
+    });
+  }
+}
+
+/**
+ * Unlock an account (unlock link or administrator) and reset its backoff
+ */
+export async function unlockAccount(db: PrismaClient, userId: string): Promise<void> {
+  await db.user.update({
+    where: { id: userId },
+    data: { failedLoginAttempts: 0, lockedUntil: null },
+  });
+
+  await counterStore.delete(LockoutKeys.accountFailures(userId));
+}
+
+/**
+ * Email the user a single-use unlock link
+ * Failures are logged only: the lock expires on its own.
+ */
+async function sendUnlockEmail(db: PrismaClient, user: LockoutUser, lockedUntil: Date): Promise<void> {
+  try {
+    const token = await createAuthToken(db, user.id, 'account_unlock', LOCKOUT_CONFIG.UNLOCK_TOKEN_TTL);
+
+    await sendEmail(db, {
+      to: user.email,
+      ...emailTemplates.accountLocked({
+        firstName: user.firstName,
+        lockedUntil,
+        unlockUrl: `${getAppUrl()}/unlock-account?token=${token}`,
+      }),
+    });
+  } catch (error) {
+    console.error('[Lockout] Failed to send unlock email:', {
+      userId: user.id,
+      error: error instanceof Error ? error.message : error,
+    });
+  }
+}
@@ -0,0 +1,76 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { asSystem, type Shop, type User } from '@shop-rewards/db';
+import {
+  createTestDatabase,
+  createTestReceipt,
+  createTestShop,
+  createTestUser,
+  type TestDatabase,
+} from '@shop-rewards/db/testing';
+
+import { getOcrProvider, LocalOcrProvider, processReceiptOcr } from '.';
+
+describe('processReceiptOcr with the local provider', () => {
+  let testDb: TestDatabase;
+  let shop: Shop;
+  let user: User;
+
+  const runOcr = (receiptId: string, buffer: Buffer, mimeType: string) =>
+    asSystem('test', () => processReceiptOcr(testDb.db, receiptId, { buffer, mimeType }));
+
+  const loadReceipt = (id: string) =>
+    asSystem('test', () => testDb.db.receipt.findUniqueOrThrow({ where: { id } }));
+
+  beforeAll(async () => {
+    testDb = await createTestDatabase();
+    shop = await createTestShop(testDb.db, 'ocr-shop');
+    user = await createTestUser(testDb.db, shop.id);
+  });
+
+  afterAll(async () => {
+    await testDb?.close();
+  });
+
+  it('is the default provider', () => {
+    expect(getOcrProvider()).toBeInstanceOf(LocalOcrProvider);
+  });
+
+  it('stores the fields of a readable receipt', async () => {
+    const receipt = await createTestReceipt(testDb.db, shop.id, user.id);
+    const text = 'Corner Coffee Shop\nDate: 2026-10-18\nLatte 3.50\nTOTAL EUR 3.50';
+
+    const outcome = await runOcr(receipt.id, Buffer.from(text), 'text/plain');
+
+    expect(outcome.status).toBe('OCR_COMPLETED');
+    expect(await loadReceipt(receipt.id)).toMatchObject({
+      status: 'OCR_COMPLETED',
+      ocrProcessed: true,
+      ocrConfidence: 100,
+      merchantName: 'Corner Coffee Shop',
+      currency: 'EUR',
+      receiptDate: new Date('2026-10-18T00:00:00.000Z'),
+      ocrData: expect.objectContaining({ provider: 'local' }),
+    });
+    expect((await loadReceipt(receipt.id)).totalAmount?.toNumber()).toBe(3.5);
+  });
+
+  it('sends images to manual review', async () => {
+    const receipt = await createTestReceipt(testDb.db, shop.id, user.id);
+
+    const outcome = await runOcr(receipt.id, Buffer.from([0xff, 0xd8, 0xff]), 'image/jpeg');
+
+    expect(outcome.status).toBe('MANUAL_REVIEW');
+    expect(await loadReceipt(receipt.id)).toMatchObject({
+      status: 'MANUAL_REVIEW',
+      ocrConfidence: 0,
+    });
+  });
+
+  it('only processes receipts awaiting OCR', async () => {
+    const receipt = await createTestReceipt(testDb.db, shop.id, user.id, { status: 'VERIFIED' });
+
+    await expect(runOcr(receipt.id, Buffer.from('TOTAL 1.00'), 'text/plain')).rejects.toThrow(
+      'OCR_NOT_PENDING'
+    );
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * OCR Pipeline
+ *
+ * Runs the configured OcrProvider on a receipt file, validates the output
+ * against ocrResultSchema and writes the extracted fields to the receipt.
+ * Results below OCR_CONFIG.MIN_CONFIDENCE_SCORE go to MANUAL_REVIEW.
+ *
+ * Provider selection: Ollama when ENABLE_OLLAMA_OCR=true, otherwise the
+ * deterministic local provider.
+ */
+
+import type { PrismaClient } from '@shop-rewards/db';
+import { OCR_CONFIG } from '@shop-rewards/shared/constants';
+import { ocrResultSchema, type OcrResult } from '@shop-rewards/shared/validators';
+import { LocalOcrProvider } from './local-provider';
+import { OllamaOcrProvider } from './ollama-provider';
+import type { OcrInput, OcrProvider } from './types';
+
+export type { OcrInput, OcrProvider } from './types';
+export { LocalOcrProvider, parseReceiptText, extractPdfText } from './local-provider';
+export { OllamaOcrProvider } from './ollama-provider';
+
+/**
+ * Outcome of processing a receipt
+ */
+export interface OcrOutcome {
+  status: 'OCR_COMPLETED' | 'MANUAL_REVIEW' | 'OCR_FAILED';
+  result: OcrResult | null;
+  error?: string;
+}
+
+/**
+ * Get the OCR provider configured for this environment
+ */
+export function getOcrProvider(): OcrProvider {
+  if (process.env.ENABLE_OLLAMA_OCR === 'true') {
+    return new OllamaOcrProvider();
+  }
+
+  return new LocalOcrProvider();
+}
+
+/**
+ * Run OCR on a receipt file and store the results
+ *
+ * @param db - Prisma client instance
+ * @param receiptId - Receipt to process (must be PENDING_OCR or OCR_FAILED)
+ * @param file - Receipt file contents
+ * @param provider - OCR provider (default: getOcrProvider())
+ * @returns Final OCR status and the validated result
+ *
+ * @example
+ * const outcome = await processReceiptOcr(ctx.db, receipt.id, {
+ *   buffer,
+ *   mimeType: 'application/pdf',
+ * });
+ * // outcome.status === 'MANUAL_REVIEW' when confidence < 85
+ */
+export async function processReceiptOcr(
+  db: PrismaClient,
+  receiptId: string,
+  file: OcrInput,
+  provider: OcrProvider = getOcrProvider()
+): Promise<OcrOutcome> {
+  // Claim the receipt so concurrent runs do not overwrite each other
+  const { count } = await db.receipt.updateMany({
+    where: { id: receiptId, status: { in: ['PENDING_OCR', 'OCR_FAILED'] } },
+    data: { status: 'OCR_PROCESSING' },
+  });
+
+  if (count === 0) {
+    throw new Error(`OCR_NOT_PENDING: Receipt ${receiptId} is not awaiting OCR`);
+  }
+
+  let result: OcrResult;
+
+  try {
+    const parsed = ocrResultSchema.safeParse(await provider.extract(file));
+
+    if (!parsed.success) {
+      throw new Error(
+        `OCR_INVALID_RESULT: ${parsed.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`).join('; ')}`
+      );
+    }
+
+    result = parsed.data;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error('[OCR] Processing failed:', { receiptId, provider: provider.name, error: message });
+
+    await db.receipt.update({
+      where: { id: receiptId },
+      data: {
+        status: 'OCR_FAILED',
+        ocrProcessed: true,
+        ocrData: { provider: provider.name, error: message },
+      },
+    });
+
+    return { status: 'OCR_FAILED', result: null, error: message };
+  }
+
+  const status =
+    result.confidence >= OCR_CONFIG.MIN_CONFIDENCE_SCORE ? 'OCR_COMPLETED' : 'MANUAL_REVIEW';
+
+  await db.receipt.update({
+    where: { id: receiptId },
+    data: {
+      status,
+      ocrProcessed: true,
+      ocrData: { ...result, provider: provider.name },
+      ocrConfidence: result.confidence,
+      receiptNumber: result.receiptNumber ?? null,
+      merchantName: result.merchantName ?? null,
+      totalAmount: result.total ?? null,
+      receiptDate: result.date ? new Date(result.date) : null,
+      ...(result.currency ? { currency: result.currency } : {}),
+    },
+  });
+
+  console.log('[OCR] Receipt processed:', {
+    receiptId,
+    provider: provider.name,
+    confidence: result.confidence,
+    status,
+  });
+
+  return { status, result };
+}
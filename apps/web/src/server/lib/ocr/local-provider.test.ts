@@ -0,0 +1,132 @@
+import { deflateSync } from 'zlib';
+import { describe, expect, it } from 'vitest';
+
+import {
+  extractPdfText,
+  LocalOcrProvider,
+  parseAmount,
+  parseReceiptDate,
+  parseReceiptText,
+} from './local-provider';
+
+const RECEIPT_TEXT = `Corner Coffee Shop
+Receipt No: R-10042
+Date: 2026-10-18
+2 x Latte 7.00
+Croissant 3.50
+Subtotal 10.50
+VAT 2.00
+TOTAL EUR 12.50
+Paid by VISA`;
+
+/**
+ * Minimal PDF with one content stream
+ */
+function buildPdf(content: string, compress = false): Buffer {
+  const data = compress
+    ? deflateSync(Buffer.from(content, 'latin1'))
+    : Buffer.from(content, 'latin1');
+  const filter = compress ? ' /Filter /FlateDecode' : '';
+
+  return Buffer.concat([
+    Buffer.from(`%PDF-1.4\n4 0 obj\n<< /Length ${data.length}${filter} >>\nstream\n`, 'latin1'),
+    data,
+    Buffer.from('\nendstream\nendobj\n%%EOF\n', 'latin1'),
+  ]);
+}
+
+describe('parseAmount', () => {
+  it('reads both decimal separators', () => {
+    expect(parseAmount('1,234.56')).toBe(1234.56);
+    expect(parseAmount('1.234,56')).toBe(1234.56);
+    expect(parseAmount('12,50')).toBe(12.5);
+    expect(parseAmount('abc')).toBeNull();
+  });
+});
+
+describe('parseReceiptDate', () => {
+  it('reads ISO and day-first dates', () => {
+    expect(parseReceiptDate('Date: 2026-10-18')).toBe('2026-10-18T00:00:00.000Z');
+    expect(parseReceiptDate('18.10.2026 14:02')).toBe('2026-10-18T00:00:00.000Z');
+  });
+
+  it('falls back to month-first when the day cannot be first', () => {
+    expect(parseReceiptDate('10/18/2026')).toBe('2026-10-18T00:00:00.000Z');
+  });
+
+  it('ignores impossible dates', () => {
+    expect(parseReceiptDate('2026-02-30')).toBeUndefined();
+    expect(parseReceiptDate('no date here')).toBeUndefined();
+  });
+});
+
+describe('parseReceiptText', () => {
+  it('extracts the key fields of a complete receipt with full confidence', () => {
+    expect(parseReceiptText(RECEIPT_TEXT)).toEqual({
+      receiptNumber: 'R-10042',
+      merchantName: 'Corner Coffee Shop',
+      date: '2026-10-18T00:00:00.000Z',
+      total: 12.5,
+      subtotal: 10.5,
+      tax: 2,
+      currency: 'EUR',
+      items: [
+        { name: 'Latte', quantity: 2, unitPrice: 3.5, totalPrice: 7 },
+        { name: 'Croissant', quantity: 1, totalPrice: 3.5 },
+      ],
+      paymentMethod: 'VISA',
+      confidence: 100,
+      rawText: RECEIPT_TEXT,
+    });
+  });
+
+  it('lowers confidence for missing fields', () => {
+    const result = parseReceiptText('Corner Coffee Shop\nTOTAL 12.50');
+
+    expect(result).toMatchObject({ merchantName: 'Corner Coffee Shop', total: 12.5 });
+    expect(result.confidence).toBe(60);
+  });
+});
+
+describe('extractPdfText', () => {
+  const content = 'BT /F1 12 Tf 10 700 Td (Caf\\351 Central) Tj T* [(TOTAL ) -250 (9.90)] TJ ET';
+
+  it('reads text operators line by line', () => {
+    expect(extractPdfText(buildPdf(content))).toBe('Café Central\nTOTAL 9.90');
+  });
+
+  it('inflates FlateDecode streams', () => {
+    expect(extractPdfText(buildPdf(content, true))).toBe('Café Central\nTOTAL 9.90');
+  });
+});
+
+describe('LocalOcrProvider', () => {
+  const provider = new LocalOcrProvider();
+
+  it('parses text receipts', async () => {
+    const result = await provider.extract({
+      buffer: Buffer.from(RECEIPT_TEXT),
+      mimeType: 'text/plain',
+    });
+
+    expect(result).toMatchObject({ total: 12.5, confidence: 100 });
+  });
+
+  it('parses text-based PDF receipts', async () => {
+    const result = await provider.extract({
+      buffer: buildPdf('BT (Corner Coffee Shop) Tj T* (TOTAL 12.50) Tj ET', true),
+      mimeType: 'application/pdf',
+    });
+
+    expect(result).toMatchObject({ merchantName: 'Corner Coffee Shop', total: 12.5 });
+  });
+
+  it('returns an empty zero-confidence result for images', async () => {
+    const result = await provider.extract({
+      buffer: Buffer.from([0xff, 0xd8, 0xff]),
+      mimeType: 'image/jpeg',
+    });
+
+    expect(result).toEqual({ confidence: 0, rawText: '' });
+  });
+});
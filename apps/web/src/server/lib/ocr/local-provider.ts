@@ -0,0 +1,294 @@
+/**
+ * Local OCR Provider
+ *
+ * Deterministic, dependency-free provider for plain-text and simple
+ * (text-based) PDF receipts. Works offline, which makes it the default
+ * for development and tests. Images yield an empty, zero-confidence result
+ * so they end up in manual review.
+ */
+
+import { inflateSync } from 'zlib';
+import type { OcrResult } from '@shop-rewards/shared/validators';
+import type { OcrInput, OcrProvider } from './types';
+
+/**
+ * Currency symbols mapped to ISO 4217 codes
+ */
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  $: 'USD',
+  '€': 'EUR',
+  '£': 'GBP',
+  '₹': 'INR',
+  '¥': 'JPY',
+};
+
+const CURRENCY_CODES = ['USD', 'EUR', 'GBP', 'INR', 'JPY', 'CAD', 'AUD', 'CHF'];
+
+/**
+ * Trailing amount on a line, e.g. "Coffee 3.50" or "TOTAL $1,234.56"
+ */
+const TRAILING_AMOUNT = /(-?\d{1,3}(?:[,. ]\d{3})*[.,]\d{2}|-?\d+[.,]\d{2})\s*[A-Z]{0,3}$/;
+
+const TOTAL_LINE = /^(grand\s+)?total\b|\b(total|amount)\s+due\b|\bbalance\s+due\b/i;
+const SUBTOTAL_LINE = /\bsub\s*-?\s*total\b/i;
+const TAX_LINE = /\b(tax|vat|gst)\b/i;
+const NON_ITEM_LINE = /\b(total|tax|vat|gst|change|cash|card|visa|mastercard|tendered|balance|paid)\b/i;
+const PAYMENT_METHOD = /\b(cash|visa|mastercard|amex|debit|credit|card)\b/i;
+const RECEIPT_NUMBER =
+  /\b(?:receipt|invoice|bill|txn|transaction|trans)\s*(?:no\.?|number|num|#|id)?\s*[:#]?\s*([A-Z0-9][A-Z0-9-]{2,})\b/i;
+
+/**
+ * Parse a localized amount string into a number
+ *
+ * @example
+ * parseAmount('1,234.56') // Returns: 1234.56
+ * parseAmount('1.234,56') // Returns: 1234.56
+ * parseAmount('12,50') // Returns: 12.5
+ */
+export function parseAmount(value: string): number | null {
+  const cleaned = value.replace(/\s/g, '');
+  const lastSeparator = Math.max(cleaned.lastIndexOf('.'), cleaned.lastIndexOf(','));
+
+  if (lastSeparator === -1) {
+    const whole = Number(cleaned);
+    return Number.isFinite(whole) ? whole : null;
+  }
+
+  const integerPart = cleaned.slice(0, lastSeparator).replace(/[.,]/g, '');
+  const decimalPart = cleaned.slice(lastSeparator + 1);
+  const amount = Number(`${integerPart}.${decimalPart}`);
+
+  return Number.isFinite(amount) ? Math.round(amount * 100) / 100 : null;
+}
+
+/**
+ * Find a date on a receipt and return it as an ISO datetime (UTC midnight)
+ * Supports YYYY-MM-DD and DD/MM/YYYY (MM/DD/YYYY when the day cannot be first)
+ */
+export function parseReceiptDate(text: string): string | undefined {
+  let year: number | undefined;
+  let month: number | undefined;
+  let day: number | undefined;
+
+  const iso = text.match(/\b(\d{4})-(\d{1,2})-(\d{1,2})\b/);
+  const local = text.match(/\b(\d{1,2})[./-](\d{1,2})[./-](\d{4})\b/);
+
+  if (iso) {
+    [year, month, day] = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+  } else if (local) {
+    const first = Number(local[1]);
+    const second = Number(local[2]);
+    year = Number(local[3]);
+    // Day-first unless that is impossible
+    [day, month] = second > 12 ? [second, first] : [first, second];
+  }
+
+  if (!year || !month || !day || month > 12 || day > 31) {
+    return undefined;
+  }
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCDate() === day ? date.toISOString() : undefined;
+}
+
+/**
+ * Decode a PDF literal string (the part between parentheses)
+ */
+function decodePdfString(value: string): string {
+  return value.replace(/\\([nrtbf()\\]|[0-7]{1,3})/g, (_, escape: string) => {
+    switch (escape) {
+      case 'n':
+        return '\n';
+      case 'r':
+        return '\r';
+      case 't':
+        return '\t';
+      case 'b':
+      case 'f':
+        return '';
+      case '(':
+      case ')':
+      case '\\':
+        return escape;
+      default:
+        return String.fromCharCode(parseInt(escape, 8));
+    }
+  });
+}
+
+/**
+ * Extract text from a simple PDF
+ * Reads text-showing operators (Tj, TJ, ', ") from content streams,
+ * inflating FlateDecode streams. Scanned PDFs yield no text.
+ *
+ * @param buffer - PDF file contents
+ * @returns Text with one line per text line in the PDF
+ */
+export function extractPdfText(buffer: Buffer): string {
+  const raw = buffer.toString('latin1');
+  const streamPattern = /<<([^]*?)>>\s*stream\r?\n([^]*?)\r?\nendstream/g;
+  const textPattern =
+    /\[((?:\\.|[^\]\\])*)\]\s*TJ|\(((?:\\.|[^)\\])*)\)\s*(?:Tj|'|")|(T\*|-?[\d.]+\s+-?[\d.]+\s+T[dD]|ET)/g;
+  const lines: string[] = [];
+  let current = '';
+
+  for (const [, dictionary = '', data = ''] of raw.matchAll(streamPattern)) {
+    let content = data;
+
+    if (/\/FlateDecode/.test(dictionary)) {
+      try {
+        content = inflateSync(Buffer.from(data, 'latin1')).toString('latin1');
+      } catch {
+        // Not a content stream we can read (e.g. an image)
+        continue;
+      }
+    }
+
+    for (const match of content.matchAll(textPattern)) {
+      if (match[3]) {
+        // Line break operator
+        if (current.trim()) {
+          lines.push(current.trim());
+        }
+        current = '';
+      } else if (match[2] !== undefined) {
+        current += decodePdfString(match[2]);
+      } else if (match[1] !== undefined) {
+        for (const part of match[1].matchAll(/\(((?:\\.|[^)\\])*)\)/g)) {
+          current += decodePdfString(part[1] ?? '');
+        }
+      }
+    }
+  }
+
+  if (current.trim()) {
+    lines.push(current.trim());
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Parse receipt text into structured OCR data
+ *
+ * Confidence is the share of key fields that were found
+ * (total 40, merchant 20, date 20, items 10, currency 5, items matching the total 5).
+ *
+ * @param text - Plain receipt text
+ * @returns OCR result (rawText included)
+ */
+export function parseReceiptText(text: string): OcrResult {
+  const lines = text
+    .split(/\r?\n/)
+    .map((line) => line.replace(/\s+/g, ' ').trim())
+    .filter(Boolean);
+
+  const amountOf = (line: string) => {
+    const match = line.match(TRAILING_AMOUNT);
+    return match?.[1] ? parseAmount(match[1]) : null;
+  };
+
+  let total: number | undefined;
+  let subtotal: number | undefined;
+  let tax: number | undefined;
+  let merchantName: string | undefined;
+  let paymentMethod: string | undefined;
+  const items: NonNullable<OcrResult['items']> = [];
+
+  for (const line of lines) {
+    const amount = amountOf(line);
+
+    if (SUBTOTAL_LINE.test(line)) {
+      subtotal = amount ?? subtotal;
+    } else if (TOTAL_LINE.test(line)) {
+      total = amount ?? total;
+    } else if (TAX_LINE.test(line)) {
+      tax = amount ?? tax;
+    } else if (amount !== null && !NON_ITEM_LINE.test(line) && total === undefined) {
+      const name = line.replace(TRAILING_AMOUNT, '').replace(/[$€£₹¥]\s*$/, '').trim();
+      const quantity = name.match(/^(\d+)\s*x\s+(.+)$/i);
+
+      if (name && /[a-z]/i.test(name) && !parseReceiptDate(line)) {
+        items.push(
+          quantity?.[1] && quantity[2]
+            ? {
+                name: quantity[2],
+                quantity: Number(quantity[1]),
+                unitPrice: Math.round((amount / Number(quantity[1])) * 100) / 100,
+                totalPrice: amount,
+              }
+            : { name, quantity: 1, totalPrice: amount }
+        );
+      }
+    }
+
+    if (!merchantName && /[a-z]{2}/i.test(line) && amount === null && !parseReceiptDate(line)) {
+      merchantName = line;
+    }
+
+    const payment = line.match(PAYMENT_METHOD);
+    if (payment?.[1] && !paymentMethod) {
+      paymentMethod = payment[1].toUpperCase();
+    }
+  }
+
+  const currency =
+    CURRENCY_CODES.find((code) => new RegExp(`\\b${code}\\b`).test(text)) ??
+    Object.entries(CURRENCY_SYMBOLS).find(([symbol]) => text.includes(symbol))?.[1];
+  const date = parseReceiptDate(text);
+  const receiptNumber = text.match(RECEIPT_NUMBER)?.[1];
+
+  const itemsTotal = items.reduce((sum, item) => sum + (item.totalPrice ?? 0), 0);
+  const expectedItemsTotal = subtotal ?? total;
+  const itemsMatch =
+    items.length > 0 &&
+    expectedItemsTotal !== undefined &&
+    Math.abs(itemsTotal - expectedItemsTotal) < 0.01;
+
+  const confidence =
+    (total !== undefined ? 40 : 0) +
+    (merchantName ? 20 : 0) +
+    (date ? 20 : 0) +
+    (items.length > 0 ? 10 : 0) +
+    (currency ? 5 : 0) +
+    (itemsMatch ? 5 : 0);
+
+  return {
+    receiptNumber,
+    merchantName,
+    date,
+    total,
+    subtotal,
+    tax,
+    currency,
+    items: items.length > 0 ? items : undefined,
+    paymentMethod,
+    confidence,
+    rawText: text,
+  };
+}
+
+/**
+ * Local OCR provider (text and text-based PDF receipts)
+ */
+export class LocalOcrProvider implements OcrProvider {
+  readonly name = 'local';
+
+  async extract(input: OcrInput): Promise<OcrResult> {
+    if (input.mimeType === 'application/pdf') {
+      return parseReceiptText(extractPdfText(input.buffer));
+    }
+
+    if (input.mimeType.startsWith('text/')) {
+      return parseReceiptText(input.buffer.toString('utf8'));
+    }
+
+    // Images need a real OCR engine
+    console.log('[OCR] Local provider cannot read images, routing to manual review:', {
+      mimeType: input.mimeType,
+      fileName: input.fileName,
+    });
+
+    return { confidence: 0, rawText: '' };
+  }
+}
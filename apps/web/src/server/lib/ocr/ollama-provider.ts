@@ -0,0 +1,108 @@
+/**
+ * Ollama OCR Provider
+ *
+ * Sends receipt images to a vision model (OCR_CONFIG.OLLAMA_MODEL) through
+ * the Ollama HTTP API and asks for the receipt fields as JSON.
+ */
+
+import { OCR_CONFIG } from '@shop-rewards/shared/constants';
+import type { OcrResult } from '@shop-rewards/shared/validators';
+import type { OcrInput, OcrProvider } from './types';
+
+/**
+ * Prompt asking the model for the ocrResultSchema fields
+ */
+const RECEIPT_PROMPT = `You are a receipt OCR engine. Read the receipt image and answer with JSON only, using these keys:
+receiptNumber (string), merchantName (string), merchantAddress (string), date (YYYY-MM-DD), total (number), subtotal (number),
+tax (number), currency (ISO 4217 code), items (array of {name, quantity, unitPrice, totalPrice}),
+paymentMethod (string), confidence (0-100, how sure you are that total, date and merchant are correct),
+rawText (all text on the receipt). Omit keys you cannot read.`;
+
+interface OllamaGenerateResponse {
+  response?: string;
+  error?: string;
+}
+
+/**
+ * Drop null values and coerce the model's date into an ISO datetime
+ */
+function normalizeModelOutput(output: Record<string, unknown>): Record<string, unknown> {
+  const normalized: Record<string, unknown> = {};
+
+  for (const [key, value] of Object.entries(output)) {
+    if (value !== null && value !== '') {
+      normalized[key] = value;
+    }
+  }
+
+  if (typeof normalized.date === 'string') {
+    const date = new Date(normalized.date);
+    normalized.date = Number.isNaN(date.getTime()) ? undefined : date.toISOString();
+  }
+
+  if (typeof normalized.currency === 'string') {
+    normalized.currency = normalized.currency.toUpperCase();
+  }
+
+  if (typeof normalized.confidence !== 'number') {
+    normalized.confidence = 0;
+  }
+
+  return normalized;
+}
+
+/**
+ * Ollama vision model OCR provider
+ */
+export class OllamaOcrProvider implements OcrProvider {
+  readonly name = 'ollama';
+
+  constructor(
+    private readonly baseUrl: string = process.env.OLLAMA_URL || 'http://localhost:11434',
+    private readonly model: string = OCR_CONFIG.OLLAMA_MODEL,
+    private readonly timeoutMs: number = OCR_CONFIG.TIMEOUT_SECONDS * 1000
+  ) {}
+
+  async extract(input: OcrInput): Promise<OcrResult> {
+    if (!input.mimeType.startsWith('image/')) {
+      throw new Error(`OCR_UNSUPPORTED_FILE: Ollama provider only reads images, got ${input.mimeType}`);
+    }
+
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), this.timeoutMs);
+
+    try {
+      const response = await fetch(`${this.baseUrl}/api/generate`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          model: this.model,
+          prompt: RECEIPT_PROMPT,
+          images: [input.buffer.toString('base64')],
+          format: 'json',
+          stream: false,
+          options: { temperature: 0 },
+        }),
+        signal: controller.signal,
+      });
+
+      const body = (await response.json()) as OllamaGenerateResponse;
+
+      if (!response.ok || body.error) {
+        throw new Error(`OCR_PROVIDER_ERROR: Ollama returned ${response.status}: ${body.error ?? 'unknown error'}`);
+      }
+
+      const output = JSON.parse(body.response ?? '{}') as Record<string, unknown>;
+
+      // Shape is checked against ocrResultSchema by the pipeline
+      return normalizeModelOutput(output) as OcrResult;
+    } catch (error) {
+      if (error instanceof Error && error.name === 'AbortError') {
+        throw new Error(`OCR_TIMEOUT: Ollama did not answer within ${this.timeoutMs / 1000}s`);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+}
@@ -0,0 +1,34 @@
+/**
+ * OCR Provider Types
+ *
+ * Contract shared by all OCR implementations. Providers only extract data;
+ * validation and persistence are handled by the pipeline in ./index.ts.
+ */
+
+import type { OcrResult } from '@shop-rewards/shared/validators';
+
+/**
+ * File handed to an OCR provider
+ */
+export interface OcrInput {
+  buffer: Buffer;
+  mimeType: string;
+  fileName?: string | null;
+}
+
+/**
+ * OCR provider interface
+ */
+export interface OcrProvider {
+  /** Provider identifier stored alongside the OCR data */
+  readonly name: string;
+
+  /**
+   * Extract receipt data from a file
+   *
+   * @param input - File buffer and MIME type
+   * @returns Extracted data (validated by the caller against ocrResultSchema)
+   * @throws Error if the file cannot be processed
+   */
+  extract(input: OcrInput): Promise<OcrResult>;
+}
@@ -0,0 +1,137 @@
+/**
+ * Permission Scopes
+ *
+ * Attribute-based conditions on permission grants. A grant (RolePermission)
+ * in one of the SCOPABLE_PERMISSION_MODULES covers either:
+ * - OWN: records the caller owns
+ * - DEPARTMENT: records owned by anyone sharing one of the caller's departments
+ * - LOCATION: records owned by anyone in a department at one of the caller's locations
+ * - SHOP: every record in the shop (the default)
+ * Each scope includes the narrower ones, and the widest grant the caller holds wins.
+ *
+ * getScopeFilter turns the caller's scope into a Prisma `where` fragment that
+ * endpoints AND into the query that loads the records they read or change,
+ * on top of the tenant filter (records outside the scope are not found):
+ *
+ * @example
+ * const receipt = await ctx.db.receipt.findFirst({
+ *   where: {
+ *     id: input.id,
+ *     AND: [await getScopeFilter(ctx, 'receipt', 'receipts', 'read')],
+ *   },
+ * });
+ */
+
+import { TRPCError } from '@trpc/server';
+import type { Prisma, PrismaClient } from '@shop-rewards/db';
+import type { Session } from '../trpc';
+import { getPermissionScope, getUserPermissionSet } from './permissions';
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+/**
+ * Where fragment type per scoped model
+ */
+interface ScopeWhere {
+  receipt: Prisma.ReceiptWhereInput;
+  redemption: Prisma.RedemptionWhereInput;
+  voucher: Prisma.VoucherWhereInput;
+  user: Prisma.UserWhereInput;
+}
+
+/**
+ * How each scoped model links a record to the user who owns it
+ * Vouchers are owned through the receipt they were issued for, so vouchers
+ * created without a receipt are only covered by whole-shop grants.
+ */
+const SCOPE_OWNERS: {
+  [M in keyof ScopeWhere]: (owner: Prisma.UserWhereInput) => ScopeWhere[M];
+} = {
+  receipt: (owner) => ({ user: owner }),
+  redemption: (owner) => ({ user: owner }),
+  voucher: (owner) => ({ receipt: { user: owner } }),
+  user: (owner) => owner,
+};
+
+interface CallerAttributes {
+  departmentIds: string[];
+  locationIds: string[];
+}
+
+/**
+ * Request-scoped memo of the caller's departments and locations
+ */
+const requestAttributes = new WeakMap<Session, Promise<CallerAttributes>>();
+
+function getCallerAttributes(session: Session, db: DbClient): Promise<CallerAttributes> {
+  const memoized = requestAttributes.get(session);
+  if (memoized) return memoized;
+
+  const attributes: Promise<CallerAttributes> = db.department
+    .findMany({
+      where: { users: { some: { id: session.userId } } },
+      select: { id: true, locationId: true },
+    })
+    .then((departments) => ({
+      departmentIds: departments.map((department) => department.id),
+      locationIds: Array.from(
+        new Set(departments.flatMap((department) => (department.locationId ? [department.locationId] : [])))
+      ),
+    }));
+
+  requestAttributes.set(session, attributes);
+  // Don't memoize a failed lookup
+  attributes.catch(() => requestAttributes.delete(session));
+
+  return attributes;
+}
+
+/**
+ * Where fragment limiting a model to the records the caller's grant covers
+ *
+ * @param ctx - tRPC context (db and session)
+ * @param model - Model being queried
+ * @param module - Permission module (e.g. 'receipts')
+ * @param action - Permission action (e.g. 'read')
+ * @returns Fragment to AND into the query ({} for whole-shop grants)
+ * @throws TRPCError FORBIDDEN if the caller does not hold the permission at all
+ */
+export async function getScopeFilter<M extends keyof ScopeWhere>(
+  ctx: { db: DbClient; session: Session },
+  model: M,
+  module: string,
+  action: string
+): Promise<ScopeWhere[M]> {
+  const scope = getPermissionScope(await getUserPermissionSet(ctx.session, ctx.db), module, action);
+
+  if (!scope) {
+    throw new TRPCError({
+      code: 'FORBIDDEN',
+      message: `Missing required permission: ${module}:${action}`,
+    });
+  }
+
+  if (scope === 'SHOP') {
+    return {} as ScopeWhere[M];
+  }
+
+  const ownedBy = SCOPE_OWNERS[model];
+  const own: Prisma.UserWhereInput = { id: ctx.session.userId };
+
+  if (scope === 'OWN') {
+    return ownedBy(own);
+  }
+
+  const { departmentIds, locationIds } = await getCallerAttributes(ctx.session, ctx.db);
+  const owners: Prisma.UserWhereInput[] = [own];
+
+  if (departmentIds.length > 0) {
+    owners.push({ departments: { some: { id: { in: departmentIds } } } });
+  }
+
+  if (scope === 'LOCATION' && locationIds.length > 0) {
+    owners.push({ departments: { some: { locationId: { in: locationIds } } } });
+  }
+
+  return ownedBy({ OR: owners });
+}
@@ -2,13 +2,32 @@
  * Permission Utilities
  *
  * Enhanced permission checking middleware and utilities for RBAC.
- * Works with the existing RBACService to enforce permissions at the tRPC layer.
+ * A user's effective permission set is loaded once per request (memoized on
+ * the session) and cached in Valkey across requests (see cache/permission-cache).
  */
 
 import { TRPCError } from '@trpc/server';
+import {
+  hasPermission as checkPermission,
+  isScopableModule,
+  OWN_ACTION_SUFFIX,
+  widestScope,
+  type PermissionScope,
+} from '@shop-rewards/shared/constants';
 import type { Session } from '../trpc';
 import { protectedProcedure } from '../trpc';
-import { userHasPermission } from '../../lib/auth/rbac.service';
+import { getCachedPermissions, type UserPermissionSet } from './cache/permission-cache';
+
+/**
+ * Request-scoped memo: the session object lives for one request (batched
+ * calls share it), so every check in the request reuses one lookup
+ */
+const requestPermissions = new WeakMap<Session, Promise<UserPermissionSet>>();
+
+/**
+ * Permission set of super admins
+ */
+const ALL_PERMISSIONS: UserPermissionSet = { permissions: ['*:*'], scopes: {} };
 
 /**
  * Create a tRPC middleware that requires a specific permission
@@ -37,13 +56,9 @@ export const requirePermission = (module: string, action: string) =>
     }
 
     // Check if user has the required permission
-    const hasPermission = await userHasPermission(
-      ctx.session.userId,
-      module,
-      action
-    );
+    const permissions = await getUserPermissions(ctx.session, ctx.db);
 
-    if (!hasPermission) {
+    if (!checkPermission(permissions, module, action)) {
       throw new TRPCError({
         code: 'FORBIDDEN',
         message: `Missing required permission: ${module}:${action}`,
@@ -79,7 +94,7 @@ export async function hasPermission(
     return true;
   }
 
-  return await userHasPermission(session.userId, module, action);
+  return checkPermission(await getUserPermissions(session, db), module, action);
 }
 
 /**
@@ -103,13 +118,9 @@ export const requireAnyPermission = (permissions: Array<[string, string]>) =>
     }
 
     // Check if user has any of the required permissions
-    const hasAnyPermission = await Promise.all(
-      permissions.map(([module, action]) =>
-        userHasPermission(ctx.session.userId, module, action)
-      )
-    );
+    const userPermissions = await getUserPermissions(ctx.session, ctx.db);
 
-    if (!hasAnyPermission.some((has) => has)) {
+    if (!permissions.some(([module, action]) => checkPermission(userPermissions, module, action))) {
       const permissionStrings = permissions
         .map(([module, action]) => `${module}:${action}`)
         .join(', ');
@@ -143,13 +154,9 @@ export const requireAllPermissions = (permissions: Array<[string, string]>) =>
     }
 
     // Check if user has all of the required permissions
-    const hasAllPermissions = await Promise.all(
-      permissions.map(([module, action]) =>
-        userHasPermission(ctx.session.userId, module, action)
-      )
-    );
+    const userPermissions = await getUserPermissions(ctx.session, ctx.db);
 
-    if (!hasAllPermissions.every((has) => has)) {
+    if (!permissions.every(([module, action]) => checkPermission(userPermissions, module, action))) {
       const permissionStrings = permissions
         .map(([module, action]) => `${module}:${action}`)
         .join(', ');
@@ -164,7 +171,9 @@ export const requireAllPermissions = (permissions: Array<[string, string]>) =>
 
 /**
  * Get all permissions for a user
- * Useful for frontend permission checking and UI rendering
+ * Useful for frontend permission checking and UI rendering.
+ * Memoized for the request and cached in Valkey; after changing role
+ * assignments or role permissions, call the invalidators in cache/permission-cache.
  *
  * @param session - User session from tRPC context
  * @param db - Prisma client instance
@@ -178,14 +187,75 @@ export async function getUserPermissions(
   session: Session,
   db: any
 ): Promise<string[]> {
+  return (await getUserPermissionSet(session, db)).permissions;
+}
+
+/**
+ * Get a user's permissions together with the scope of narrowed grants
+ *
+ * @param session - User session from tRPC context
+ * @param db - Prisma client instance
+ */
+export async function getUserPermissionSet(
+  session: Session,
+  db: any
+): Promise<UserPermissionSet> {
   // Super admins have all permissions
   if (session.isSuperAdmin) {
-    return ['*:*']; // Wildcard for all permissions
+    return ALL_PERMISSIONS;
+  }
+
+  let permissionSet = requestPermissions.get(session);
+
+  if (!permissionSet) {
+    permissionSet = getCachedPermissions(session.userId, session.shopId, () =>
+      loadUserPermissions(session.userId, db)
+    );
+    requestPermissions.set(session, permissionSet);
+    // Don't memoize a failed lookup
+    permissionSet.catch(() => requestPermissions.delete(session));
   }
 
+  return permissionSet;
+}
+
+/**
+ * Widest scope in which a permission set grants module:action
+ * Wildcard grants count, and grants outside SCOPABLE_PERMISSION_MODULES always
+ * cover the whole shop.
+ *
+ * @returns The scope, or null if the permission is not granted at all
+ */
+export function getPermissionScope(
+  permissionSet: UserPermissionSet,
+  module: string,
+  action: string
+): PermissionScope | null {
+  if (!checkPermission(permissionSet.permissions, module, action)) {
+    return null;
+  }
+
+  let scope: PermissionScope | null = null;
+
+  for (const key of ['*:*', `${module}:*`, `${module}:${action}`]) {
+    if (permissionSet.permissions.includes(key)) {
+      const grantScope = permissionSet.scopes[key] ?? 'SHOP';
+      scope = scope ? widestScope(scope, grantScope) : grantScope;
+    }
+  }
+
+  return scope ?? 'SHOP';
+}
+
+/**
+ * Load a user's permissions from their roles (cache miss path)
+ * The widest grant of a key wins. Legacy ownership actions such as
+ * 'receipts:read_own' also grant the base action with OWN scope.
+ */
+async function loadUserPermissions(userId: string, db: any): Promise<UserPermissionSet> {
   // Get all user roles with their permissions
   const userRoles = await db.userRole.findMany({
-    where: { userId: session.userId },
+    where: { userId },
     include: {
       role: {
         include: {
@@ -199,15 +269,32 @@ export async function getUserPermissions(
     },
   });
 
-  // Extract unique permissions
-  const permissionSet = new Set<string>();
+  // Widest scope granted per permission
+  const grants = new Map<string, PermissionScope>();
+
+  const grant = (module: string, action: string, scope: PermissionScope) => {
+    const key = `${module}:${action}`;
+    const effective = isScopableModule(module) ? scope : 'SHOP';
+    const existing = grants.get(key);
+    grants.set(key, existing ? widestScope(existing, effective) : effective);
+  };
 
   for (const userRole of userRoles) {
     for (const rolePermission of userRole.role.permissions) {
-      const permission = rolePermission.permission;
-      permissionSet.add(`${permission.module}:${permission.action}`);
+      const { module, action } = rolePermission.permission;
+      grant(module, action, rolePermission.scope);
+
+      if (action.endsWith(OWN_ACTION_SUFFIX)) {
+        grant(module, action.slice(0, -OWN_ACTION_SUFFIX.length), 'OWN');
+      }
     }
   }
 
-  return Array.from(permissionSet);
+  const scopes: Record<string, PermissionScope> = {};
+
+  for (const [key, scope] of grants) {
+    if (scope !== 'SHOP') scopes[key] = scope;
+  }
+
+  return { permissions: Array.from(grants.keys()), scopes };
 }
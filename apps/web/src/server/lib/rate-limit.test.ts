@@ -0,0 +1,83 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import type { PrismaClient } from '@shop-rewards/db';
+import { RATE_LIMITS } from '@shop-rewards/shared/constants';
+
+import { createCallerFactory, createTRPCRouter, publicProcedure, rateLimit } from '../trpc';
+import { consumeRateLimit, RateLimitExceededError } from './rate-limit';
+
+// Anonymous callers have no shop, so no override is read from the database
+const db = {} as PrismaClient;
+
+// Nothing listens here, so the counter store uses its in-memory fallback
+beforeAll(() => {
+  vi.stubEnv('VALKEY_URL', 'redis://127.0.0.1:1');
+  vi.useFakeTimers({ toFake: ['Date'] });
+  vi.setSystemTime(new Date('2026-10-19T12:00:00Z'));
+});
+
+afterAll(() => {
+  vi.useRealTimers();
+  vi.unstubAllEnvs();
+});
+
+describe('consumeRateLimit', () => {
+  const { maxRequests, windowSeconds } = RATE_LIMITS.VOUCHER_REDEMPTION;
+  const anonymous = (ipAddress: string) => ({ shopId: null, userId: null, ipAddress });
+
+  it('counts anonymous callers per IP until the budget is used up', async () => {
+    for (let remaining = maxRequests - 1; remaining >= 0; remaining--) {
+      expect(
+        await consumeRateLimit(db, 'VOUCHER_REDEMPTION', anonymous('203.0.113.1'))
+      ).toMatchObject({ allowed: true, limit: maxRequests, remaining });
+    }
+
+    vi.setSystemTime(Date.now() + 10_000);
+
+    expect(await consumeRateLimit(db, 'VOUCHER_REDEMPTION', anonymous('203.0.113.1'))).toEqual({
+      allowed: false,
+      limit: maxRequests,
+      remaining: 0,
+      retryAfterSeconds: windowSeconds - 10,
+    });
+    expect(
+      await consumeRateLimit(db, 'VOUCHER_REDEMPTION', anonymous('203.0.113.2'))
+    ).toMatchObject({ allowed: true });
+  });
+
+  it('counts signed-in users per user, wherever they connect from', async () => {
+    const user = { shopId: null, userId: 'user-1' };
+
+    for (let i = 0; i < maxRequests; i++) {
+      await consumeRateLimit(db, 'VOUCHER_REDEMPTION', { ...user, ipAddress: `198.51.100.${i}` });
+    }
+
+    expect(
+      await consumeRateLimit(db, 'VOUCHER_REDEMPTION', { ...user, ipAddress: '198.51.100.99' })
+    ).toMatchObject({ allowed: false });
+  });
+});
+
+describe('rateLimit middleware', () => {
+  const router = createTRPCRouter({
+    ping: publicProcedure.use(rateLimit('VOUCHER_REDEMPTION')).query(() => 'pong'),
+  });
+  const caller = createCallerFactory(router)({
+    headers: new Headers({ 'x-forwarded-for': '192.0.2.10' }),
+    db,
+    session: null,
+  });
+
+  it('fails calls over budget with TOO_MANY_REQUESTS and the Retry-After seconds', async () => {
+    for (let i = 0; i < RATE_LIMITS.VOUCHER_REDEMPTION.maxRequests; i++) {
+      await expect(caller.ping()).resolves.toBe('pong');
+    }
+
+    const error = await caller.ping().catch((error: unknown) => error);
+
+    expect(error).toMatchObject({ code: 'TOO_MANY_REQUESTS' });
+    expect((error as Error).cause).toBeInstanceOf(RateLimitExceededError);
+    expect(((error as Error).cause as RateLimitExceededError).retryAfterSeconds).toBe(
+      RATE_LIMITS.VOUCHER_REDEMPTION.windowSeconds
+    );
+  });
+});
@@ -0,0 +1,182 @@
+/**
+ * Rate Limiting
+ *
+ * Sliding-window budgets from RATE_LIMITS, enforced per caller by the
+ * rateLimit(name) procedure middleware (see trpc.ts):
+ * - Signed-in users are counted per user (within their shop)
+ * - Anonymous callers are counted per client IP
+ *
+ * A shop can get its own budget for a limit via ShopConfig
+ * (`rate_limit:<NAME>`, JSON { maxRequests, windowSeconds }).
+ * Windows live in the counter store (Valkey, in-process fallback).
+ */
+
+import type { Prisma, PrismaClient } from '@shop-rewards/db';
+import { CACHE_KEYS, RATE_LIMITS } from '@shop-rewards/shared/constants';
+import { z } from 'zod';
+import { counterStore } from './cache/counter-store';
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+export type RateLimitName = keyof typeof RATE_LIMITS;
+
+export interface RateLimitBudget {
+  maxRequests: number;
+  windowSeconds: number;
+}
+
+export interface RateLimitSubject {
+  shopId: string | null;
+  userId: string | null;
+  ipAddress: string;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  retryAfterSeconds: number;
+}
+
+/**
+ * Error attached as the cause of TOO_MANY_REQUESTS errors
+ * The error formatter and the HTTP handler turn it into Retry-After.
+ */
+export class RateLimitExceededError extends Error {
+  constructor(
+    public readonly limitName: RateLimitName,
+    public readonly retryAfterSeconds: number
+  ) {
+    super(`RATE_LIMITED: ${limitName} exceeded, retry after ${retryAfterSeconds}s`);
+    this.name = 'RateLimitExceededError';
+  }
+}
+
+/**
+ * Per-shop budget override (validated on write and on read)
+ */
+export const rateLimitBudgetSchema = z.object({
+  maxRequests: z.number().int().min(1).max(100000),
+  windowSeconds: z.number().int().min(1).max(24 * 60 * 60),
+});
+
+/**
+ * ShopConfig key of a limit's override
+ */
+export function getRateLimitConfigKey(name: RateLimitName): string {
+  return `rate_limit:${name}`;
+}
+
+/**
+ * How long loaded overrides are reused (read on every limited request)
+ */
+const OVERRIDE_CACHE_TTL_MS = 60 * 1000;
+
+const overrideCache = new Map<string, { budget: RateLimitBudget | null; loadedAt: number }>();
+
+/**
+ * Get a shop's override for a limit
+ *
+ * @returns Override, or null if the shop uses the default budget
+ */
+export async function getRateLimitOverride(
+  db: DbClient,
+  shopId: string,
+  name: RateLimitName
+): Promise<RateLimitBudget | null> {
+  const cacheKey = `${shopId}:${name}`;
+  const cached = overrideCache.get(cacheKey);
+
+  if (cached && Date.now() - cached.loadedAt < OVERRIDE_CACHE_TTL_MS) {
+    return cached.budget;
+  }
+
+  const config = await db.shopConfig.findUnique({
+    where: { shopId_key: { shopId, key: getRateLimitConfigKey(name) } },
+  });
+
+  let budget: RateLimitBudget | null = null;
+
+  if (config) {
+    try {
+      budget = rateLimitBudgetSchema.parse(JSON.parse(config.value));
+    } catch {
+      console.warn('[RateLimit] Invalid override, using default:', { shopId, name, value: config.value });
+    }
+  }
+
+  overrideCache.set(cacheKey, { budget, loadedAt: Date.now() });
+
+  return budget;
+}
+
+/**
+ * Store or clear a shop's override for a limit
+ *
+ * @param budget - New budget, or null to return to the default
+ */
+export async function setRateLimitOverride(
+  db: DbClient,
+  shopId: string,
+  name: RateLimitName,
+  budget: RateLimitBudget | null
+): Promise<void> {
+  const key = getRateLimitConfigKey(name);
+
+  if (budget) {
+    const value = JSON.stringify(rateLimitBudgetSchema.parse(budget));
+
+    await db.shopConfig.upsert({
+      where: { shopId_key: { shopId, key } },
+      update: { value },
+      create: { shopId, key, value, isEncrypted: false },
+    });
+  } else {
+    await db.shopConfig.deleteMany({ where: { shopId, key } });
+  }
+
+  overrideCache.delete(`${shopId}:${name}`);
+}
+
+/**
+ * Effective budget for a limit (shop override or RATE_LIMITS default)
+ */
+export async function getRateLimitBudget(
+  db: DbClient,
+  name: RateLimitName,
+  shopId: string | null
+): Promise<RateLimitBudget> {
+  const override = shopId ? await getRateLimitOverride(db, shopId, name) : null;
+  return override ?? RATE_LIMITS[name];
+}
+
+/**
+ * Count a request against a limit
+ *
+ * @param db - Prisma client (for shop overrides)
+ * @param name - Limit to apply
+ * @param subject - Who is making the request
+ * @returns Whether the request is allowed and the remaining budget
+ */
+export async function consumeRateLimit(
+  db: DbClient,
+  name: RateLimitName,
+  subject: RateLimitSubject
+): Promise<RateLimitResult> {
+  const { maxRequests, windowSeconds } = await getRateLimitBudget(db, name, subject.shopId);
+
+  const key = subject.userId
+    ? subject.shopId
+      ? CACHE_KEYS.RATE_LIMIT(subject.shopId, subject.userId, name)
+      : CACHE_KEYS.RATE_LIMIT_GLOBAL(`user:${subject.userId}`, name)
+    : CACHE_KEYS.RATE_LIMIT_GLOBAL(`ip:${subject.ipAddress}`, name);
+
+  const window = await counterStore.slidingWindow(key, maxRequests, windowSeconds);
+
+  return {
+    allowed: window.allowed,
+    limit: maxRequests,
+    remaining: Math.max(maxRequests - window.count, 0),
+    retryAfterSeconds: window.retryAfterSeconds,
+  };
+}
@@ -0,0 +1,71 @@
+/**
+ * Realtime Events
+ *
+ * Publishes WebSocketEvents for the Socket.io gateway, which relays them to
+ * connected admin dashboards. Events go to the Valkey pub/sub channel
+ * CACHE_KEYS.EVENTS(shopId) (prefixed with "shop-rewards:") and to in-process
+ * listeners (realtimeEvents), so a single-node install needs no Valkey.
+ *
+ * Disabled with ENABLE_REALTIME_ALERTS=false. Publishing never throws: a lost
+ * event must not fail the action that raised it.
+ */
+
+import { EventEmitter } from 'events';
+import { Redis } from 'ioredis';
+import { CACHE_KEYS } from '@shop-rewards/shared/constants';
+import type { WebSocketEvent } from '@shop-rewards/shared/types';
+
+const CHANNEL_PREFIX = 'shop-rewards:';
+
+/**
+ * In-process listeners: emitted as 'event' with (shopId, event)
+ */
+export const realtimeEvents = new EventEmitter();
+
+/**
+ * Publisher connection (pub/sub needs no subscriber state, so one is shared)
+ */
+let publisher: Redis | null = null;
+
+function getPublisher(): Redis {
+  if (!publisher) {
+    const options = {
+      retryStrategy: (times: number) => Math.min(times * 50, 2000),
+      maxRetriesPerRequest: 1,
+      enableOfflineQueue: false,
+    };
+
+    publisher = process.env.VALKEY_URL
+      ? new Redis(process.env.VALKEY_URL, options)
+      : new Redis({
+          ...options,
+          host: process.env.VALKEY_HOST || 'localhost',
+          port: parseInt(process.env.VALKEY_PORT || '6379'),
+        });
+
+    publisher.on('error', (err) => {
+      console.error('[Realtime] Valkey/Redis error:', err.message);
+    });
+  }
+
+  return publisher;
+}
+
+/**
+ * Publish an event to a shop's dashboards (or platform dashboards when shopId is null)
+ */
+export async function publishEvent(shopId: string | null, event: WebSocketEvent): Promise<void> {
+  if (process.env.ENABLE_REALTIME_ALERTS === 'false') return;
+
+  realtimeEvents.emit('event', shopId, event);
+
+  try {
+    await getPublisher().publish(CHANNEL_PREFIX + CACHE_KEYS.EVENTS(shopId), JSON.stringify(event));
+  } catch (error) {
+    console.warn('[Realtime] Event not published:', {
+      shopId,
+      type: event.type,
+      error: error instanceof Error ? error.message : error,
+    });
+  }
+}
@@ -0,0 +1,95 @@
+/**
+ * Redemption Utilities
+ *
+ * High-value redemption handling: redemptions whose value exceeds the shop's
+ * threshold are held as PENDING until approved from the approval queue.
+ * The threshold is stored per shop in ShopConfig.
+ */
+
+import type { Prisma, PrismaClient } from '@shop-rewards/db';
+import { REDEMPTION_CONFIG } from '@shop-rewards/shared/constants';
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+/**
+ * ShopConfig key holding the high-value threshold
+ */
+export const HIGH_VALUE_THRESHOLD_KEY = 'redemption_high_value_threshold';
+
+/**
+ * Get the high-value redemption threshold for a shop
+ *
+ * @param db - Prisma client or transaction client
+ * @param shopId - Shop ID
+ * @returns Threshold in shop currency (falls back to the system default)
+ */
+export async function getHighValueThreshold(db: DbClient, shopId: string): Promise<number> {
+  const config = await db.shopConfig.findUnique({
+    where: {
+      shopId_key: {
+        shopId,
+        key: HIGH_VALUE_THRESHOLD_KEY,
+      },
+    },
+  });
+
+  const threshold = config ? Number(config.value) : NaN;
+
+  if (!Number.isFinite(threshold) || threshold < 0) {
+    if (config) {
+      console.warn('[Redemptions] Invalid high-value threshold, using default:', {
+        shopId,
+        value: config.value,
+      });
+    }
+    return REDEMPTION_CONFIG.DEFAULT_HIGH_VALUE_THRESHOLD;
+  }
+
+  return threshold;
+}
+
+/**
+ * Store the high-value redemption threshold for a shop
+ *
+ * @param db - Prisma client instance
+ * @param shopId - Shop ID
+ * @param threshold - New threshold in shop currency
+ */
+export async function setHighValueThreshold(
+  db: DbClient,
+  shopId: string,
+  threshold: number
+): Promise<void> {
+  await db.shopConfig.upsert({
+    where: {
+      shopId_key: {
+        shopId,
+        key: HIGH_VALUE_THRESHOLD_KEY,
+      },
+    },
+    update: {
+      value: String(threshold),
+    },
+    create: {
+      shopId,
+      key: HIGH_VALUE_THRESHOLD_KEY,
+      value: String(threshold),
+      isEncrypted: false,
+    },
+  });
+}
+
+/**
+ * Check whether a redemption value needs approval
+ *
+ * @param redeemValue - Redemption value
+ * @param threshold - Shop high-value threshold
+ * @returns True if the value is above the threshold
+ *
+ * @example
+ * isHighValueRedemption(150, 100) // Returns: true
+ * isHighValueRedemption(100, 100) // Returns: false
+ */
+export function isHighValueRedemption(redeemValue: number, threshold: number): boolean {
+  return redeemValue > threshold;
+}
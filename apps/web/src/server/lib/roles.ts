@@ -0,0 +1,210 @@
+/**
+ * Role Management
+ *
+ * Helpers for the roles router: resolving permission keys (module:action) to
+ * Permission rows, guarding against privilege escalation, and previewing how
+ * a change to a role's permissions affects the users who hold it.
+ *
+ * A user's access is the union of the permissions of all their roles
+ * (wildcards such as `module:*` included), so a user only loses a permission
+ * when none of their other roles still grants it.
+ *
+ * Grants in scopable modules carry a scope (see lib/permission-scope). Scopes
+ * are passed as a map of permission key to scope; keys not in the map cover
+ * the whole shop.
+ */
+
+import type { Permission, Prisma, PrismaClient } from '@shop-rewards/db';
+import {
+  hasPermission,
+  isScopableModule,
+  widestScope,
+  type PermissionScope,
+} from '@shop-rewards/shared/constants';
+import type { UserPermissionSet } from './cache/permission-cache';
+import { getPermissionScope } from './permissions';
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+/**
+ * Effect of a permission change on one user
+ */
+export interface UserAccessChange {
+  userId: string;
+  email: string;
+  name: string | null;
+  gained: string[];
+  lost: string[];
+}
+
+/**
+ * A permission kept by the role with a different scope
+ */
+export interface ScopeChange {
+  key: string;
+  from: PermissionScope;
+  to: PermissionScope;
+}
+
+export interface RoleChangePreview {
+  added: string[];
+  removed: string[];
+  /** Kept permissions whose scope changes (scope changes do not appear in users) */
+  scopeChanges: ScopeChange[];
+  /** Users whose effective access changes (users covered by other roles are omitted) */
+  users: UserAccessChange[];
+  /** Users holding the role */
+  totalUsers: number;
+}
+
+export function getPermissionKey(permission: Pick<Permission, 'module' | 'action'>): string {
+  return `${permission.module}:${permission.action}`;
+}
+
+/**
+ * Look up Permission rows for permission keys
+ *
+ * @throws Error('UNKNOWN_PERMISSION') listing keys that are not in the catalog
+ */
+export async function resolvePermissions(db: DbClient, keys: string[]): Promise<Permission[]> {
+  const unique = Array.from(new Set(keys));
+  if (unique.length === 0) return [];
+
+  const permissions = await db.permission.findMany({
+    where: {
+      OR: unique.map((key) => {
+        const [module = '', action = ''] = key.split(':');
+        return { module, action };
+      }),
+    },
+  });
+
+  const found = new Set(permissions.map(getPermissionKey));
+  const unknown = unique.filter((key) => !found.has(key));
+
+  if (unknown.length > 0) {
+    throw new Error(`UNKNOWN_PERMISSION: ${unknown.join(', ')}`);
+  }
+
+  return permissions;
+}
+
+/**
+ * Validate the scopes of a permission set, dropping whole-shop entries
+ *
+ * @throws Error('INVALID_SCOPE') for scopes on keys outside the set or on
+ * modules that are not scopable
+ */
+export function normalizeScopes(
+  keys: string[],
+  scopes: Record<string, PermissionScope>
+): Record<string, PermissionScope> {
+  const invalid = Object.keys(scopes).filter(
+    (key) => scopes[key] !== 'SHOP' && (!keys.includes(key) || !isScopableModule(key.split(':')[0] ?? ''))
+  );
+
+  if (invalid.length > 0) {
+    throw new Error(`INVALID_SCOPE: ${invalid.join(', ')}`);
+  }
+
+  return Object.fromEntries(Object.entries(scopes).filter(([, scope]) => scope !== 'SHOP'));
+}
+
+/**
+ * Permissions the caller cannot grant: everything they do not hold themselves,
+ * or hold only in a narrower scope than requested
+ *
+ * @param caller - The caller's permission set (from getUserPermissionSet)
+ * @param scopes - Requested scopes (keys not listed are whole-shop grants)
+ * @returns Keys the caller cannot grant (empty if all may be granted)
+ */
+export function getUngrantablePermissions(
+  caller: UserPermissionSet,
+  keys: string[],
+  scopes: Record<string, PermissionScope> = {}
+): string[] {
+  return keys.filter((key) => {
+    const [module = '', action = ''] = key.split(':');
+    const callerScope = getPermissionScope(caller, module, action);
+    return !callerScope || widestScope(callerScope, scopes[key] ?? 'SHOP') !== callerScope;
+  });
+}
+
+function covers(permissions: string[], key: string): boolean {
+  const [module = '', action = ''] = key.split(':');
+  return hasPermission(permissions, module, action);
+}
+
+/**
+ * Preview replacing a role's permissions
+ *
+ * @param db - Prisma client
+ * @param roleId - Role being edited
+ * @param nextKeys - Permission keys the role would have after saving
+ * @param nextScopes - Scopes the role's grants would have after saving
+ */
+export async function previewRolePermissionChange(
+  db: DbClient,
+  roleId: string,
+  nextKeys: string[],
+  nextScopes: Record<string, PermissionScope> = {}
+): Promise<RoleChangePreview> {
+  const role = await db.role.findUniqueOrThrow({
+    where: { id: roleId },
+    include: { permissions: { include: { permission: true } } },
+  });
+
+  const current = role.permissions.map((rolePermission) => getPermissionKey(rolePermission.permission));
+  const next = Array.from(new Set(nextKeys));
+  const added = next.filter((key) => !current.includes(key)).sort();
+  const removed = current.filter((key) => !next.includes(key)).sort();
+
+  const scopeChanges: ScopeChange[] = [];
+
+  for (const rolePermission of role.permissions) {
+    const key = getPermissionKey(rolePermission.permission);
+    const to = nextScopes[key] ?? 'SHOP';
+
+    if (next.includes(key) && rolePermission.scope !== to) {
+      scopeChanges.push({ key, from: rolePermission.scope, to });
+    }
+  }
+
+  const holders = await db.userRole.findMany({
+    where: { roleId, user: { deletedAt: null } },
+    include: {
+      user: {
+        select: {
+          id: true,
+          email: true,
+          name: true,
+          roles: {
+            where: { roleId: { not: roleId } },
+            include: { role: { include: { permissions: { include: { permission: true } } } } },
+          },
+        },
+      },
+    },
+  });
+
+  const users: UserAccessChange[] = [];
+
+  for (const { user } of holders) {
+    const fromOtherRoles = user.roles.flatMap((userRole) =>
+      userRole.role.permissions.map((rolePermission) => getPermissionKey(rolePermission.permission))
+    );
+    const before = [...fromOtherRoles, ...current];
+    const after = [...fromOtherRoles, ...next];
+
+    const gained = added.filter((key) => !covers(before, key));
+    const lost = removed.filter((key) => !covers(after, key));
+
+    if (gained.length > 0 || lost.length > 0) {
+      users.push({ userId: user.id, email: user.email, name: user.name, gained, lost });
+    }
+  }
+
+  scopeChanges.sort((a, b) => a.key.localeCompare(b.key));
+
+  return { added, removed, scopeChanges, users, totalUsers: holders.length };
+}
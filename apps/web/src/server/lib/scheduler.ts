@@ -0,0 +1,138 @@
+/**
+ * In-Process Job Scheduler
+ *
+ * Runs periodic maintenance jobs inside the Next.js server process.
+ * Started once from instrumentation.ts; checks cron schedules every minute.
+ * Jobs must be idempotent, since every server instance runs its own scheduler.
+ * Jobs run as the system (asSystem), outside any tenant context.
+ *
+ * Jobs:
+ * - gdpr-retention: GDPR_CONFIG.AUTO_DELETE_CRON (override: AUTO_DELETE_CRON),
+ *   disabled with ENABLE_GDPR_AUTODELETE=false
+ * - session-cleanup: SESSION_CONFIG.CLEANUP_CRON, deletes long-expired and revoked sessions
+ *   and expired auth tokens
+ * - audit-checkpoint: AUDIT_LOG_CONFIG.CHECKPOINT_CRON, signs the audit chain heads;
+ *   enabled when AUDIT_CHECKPOINT_PRIVATE_KEY is set
+ * - campaign-lifecycle: CAMPAIGN_CONFIG.TRANSITIONS_CRON, starts and ends campaigns
+ *   on their dates
+ */
+
+import { asSystem, prisma } from '@shop-rewards/db';
+import {
+  AUDIT_LOG_CONFIG,
+  CAMPAIGN_CONFIG,
+  GDPR_CONFIG,
+  SESSION_CONFIG,
+} from '@shop-rewards/shared/constants';
+import { cleanupAuthTokens } from '@/lib/auth/auth-token.service';
+import { cleanupSessions } from '@/lib/auth/session.service';
+import { createAuditCheckpoint } from './audit-checkpoint';
+import { applyScheduledCampaignTransitions } from './campaign-lifecycle';
+import { parseCron, matchesCron } from './cron';
+import { runRetentionSweep } from './gdpr-retention';
+
+interface ScheduledJob {
+  name: string;
+  cron: string;
+  enabled: boolean;
+  run: () => Promise<unknown>;
+}
+
+const CHECK_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Registered jobs
+ */
+function getJobs(): ScheduledJob[] {
+  return [
+    {
+      name: 'gdpr-retention',
+      cron: process.env.AUTO_DELETE_CRON || GDPR_CONFIG.AUTO_DELETE_CRON,
+      enabled: process.env.ENABLE_GDPR_AUTODELETE !== 'false',
+      run: () => runRetentionSweep(prisma),
+    },
+    {
+      name: 'session-cleanup',
+      cron: SESSION_CONFIG.CLEANUP_CRON,
+      enabled: true,
+      run: async () => {
+        await cleanupSessions(prisma);
+        await cleanupAuthTokens(prisma);
+      },
+    },
+    {
+      name: 'audit-checkpoint',
+      cron: AUDIT_LOG_CONFIG.CHECKPOINT_CRON,
+      enabled: !!process.env.AUDIT_CHECKPOINT_PRIVATE_KEY,
+      run: () => createAuditCheckpoint(prisma),
+    },
+    {
+      name: 'campaign-lifecycle',
+      cron: CAMPAIGN_CONFIG.TRANSITIONS_CRON,
+      enabled: true,
+      run: () => applyScheduledCampaignTransitions(prisma),
+    },
+  ];
+}
+
+let timer: NodeJS.Timeout | null = null;
+
+/**
+ * Start the scheduler (no-op if already started)
+ */
+export function startScheduler(): void {
+  if (timer) {
+    return;
+  }
+
+  const jobs = getJobs()
+    .filter((job) => job.enabled)
+    .map((job) => ({ ...job, schedule: parseCron(job.cron), running: false, lastRun: '' }));
+
+  if (jobs.length === 0) {
+    console.log('[Scheduler] No jobs enabled');
+    return;
+  }
+
+  const tick = () => {
+    const now = new Date();
+    // Minute key prevents running twice if a tick fires late or early
+    const minuteKey = now.toISOString().slice(0, 16);
+
+    for (const job of jobs) {
+      if (job.running || job.lastRun === minuteKey || !matchesCron(job.schedule, now)) {
+        continue;
+      }
+
+      job.running = true;
+      job.lastRun = minuteKey;
+      console.log(`[Scheduler] Running job: ${job.name}`);
+
+      asSystem(job.name, job.run)
+        .catch((error) => {
+          console.error(`[Scheduler] Job failed: ${job.name}`, error);
+        })
+        .finally(() => {
+          job.running = false;
+        });
+    }
+  };
+
+  timer = setInterval(tick, CHECK_INTERVAL_MS);
+  timer.unref();
+
+  console.log(
+    '[Scheduler] Started',
+    jobs.map((job) => `${job.name} (${job.cron})`)
+  );
+}
+
+/**
+ * Stop the scheduler
+ */
+export function stopScheduler(): void {
+  if (timer) {
+    clearInterval(timer);
+    timer = null;
+  }
+}
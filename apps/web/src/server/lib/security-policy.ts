@@ -0,0 +1,279 @@
+/**
+ * Security Policy Enforcement
+ *
+ * Reads the platform SecurityPolicy (saved by setup wizard step 5) and applies it:
+ * - Password strength (minimum length, character classes) on create/reset/change
+ * - Password expiry (passwordExpiry days since the last change, 0/null = never)
+ * - Idle session timeout (sessionTimeout, minutes of inactivity)
+ * - Concurrent session limit (oldest sessions are evicted at login)
+ * - IP allowlist (ipWhitelist, IPv4/IPv6 addresses and CIDR ranges, empty = allow all)
+ * - Mandatory MFA enrolment (mfaRequired)
+ *
+ * Sessions that violate the policy are not rejected outright but restricted
+ * (see getSessionRestriction) so the user can still fix the problem.
+ */
+
+import { BlockList, isIP } from 'net';
+import type { Prisma, PrismaClient } from '@shop-rewards/db';
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+/**
+ * SecurityPolicy row ID written by the setup wizard
+ */
+const POLICY_ID = 'system';
+
+/**
+ * How long a loaded policy is reused (read on every request)
+ */
+const POLICY_CACHE_TTL_MS = 30 * 1000;
+
+/**
+ * Upper bound independent of policy (same as the shared passwordSchema)
+ */
+const MAX_PASSWORD_LENGTH = 128;
+
+export interface SecurityPolicySettings {
+  minPasswordLength: number;
+  /** Days until a password expires (null or 0 = never) */
+  passwordExpiry: number | null;
+  requireUppercase: boolean;
+  requireNumbers: boolean;
+  requireSpecialChars: boolean;
+  /** Minutes of inactivity before a session ends */
+  sessionTimeout: number;
+  maxConcurrentSessions: number;
+  ipWhitelist: string[];
+  mfaRequired: boolean;
+}
+
+/**
+ * Policy used until the wizard has saved one (mirrors the schema defaults)
+ */
+export const DEFAULT_SECURITY_POLICY: SecurityPolicySettings = {
+  minPasswordLength: 12,
+  passwordExpiry: 90,
+  requireUppercase: true,
+  requireNumbers: true,
+  requireSpecialChars: true,
+  sessionTimeout: 60,
+  maxConcurrentSessions: 5,
+  ipWhitelist: [],
+  mfaRequired: false,
+};
+
+/**
+ * Why a session may only call a limited set of procedures
+ */
+export type SessionRestriction =
+  | 'PASSWORD_CHANGE_REQUIRED'
+  | 'MFA_ENROLLMENT_REQUIRED'
+  | 'IP_NOT_ALLOWED';
+
+let cachedPolicy: {
+  policy: SecurityPolicySettings;
+  allowList: BlockList | null;
+  loadedAt: number;
+} | null = null;
+
+/**
+ * Build a BlockList (used as an allowlist) from IP/CIDR entries
+ * Invalid entries are skipped with a warning rather than locking everyone out.
+ *
+ * @returns null if no valid entries (all IPs allowed)
+ */
+function buildAllowList(entries: string[]): BlockList | null {
+  const allowList = new BlockList();
+  let count = 0;
+
+  for (const raw of entries) {
+    const entry = raw.trim();
+    if (!entry) continue;
+
+    const [address = '', prefix] = entry.split('/');
+    const version = isIP(address);
+
+    try {
+      if (version === 0) {
+        throw new Error('not an IP address');
+      }
+
+      const type = version === 6 ? 'ipv6' : 'ipv4';
+
+      if (prefix === undefined) {
+        allowList.addAddress(address, type);
+      } else {
+        const bits = Number(prefix);
+        if (!/^\d+$/.test(prefix) || bits > (version === 6 ? 128 : 32)) {
+          throw new Error('invalid prefix length');
+        }
+        allowList.addSubnet(address, bits, type);
+      }
+
+      count++;
+    } catch (error) {
+      console.warn('[SecurityPolicy] Ignoring invalid ipWhitelist entry:', {
+        entry,
+        error: error instanceof Error ? error.message : error,
+      });
+    }
+  }
+
+  return count > 0 ? allowList : null;
+}
+
+/**
+ * Load the security policy (cached for POLICY_CACHE_TTL_MS)
+ *
+ * @param db - Prisma client
+ * @returns Stored policy, or DEFAULT_SECURITY_POLICY if none was saved
+ */
+export async function getSecurityPolicy(db: DbClient): Promise<SecurityPolicySettings> {
+  return (await loadPolicy(db)).policy;
+}
+
+async function loadPolicy(db: DbClient) {
+  if (cachedPolicy && Date.now() - cachedPolicy.loadedAt < POLICY_CACHE_TTL_MS) {
+    return cachedPolicy;
+  }
+
+  const row = await db.securityPolicy.findUnique({ where: { id: POLICY_ID } });
+
+  const policy: SecurityPolicySettings = row
+    ? {
+        minPasswordLength: row.minPasswordLength,
+        passwordExpiry: row.passwordExpiry,
+        requireUppercase: row.requireUppercase,
+        requireNumbers: row.requireNumbers,
+        requireSpecialChars: row.requireSpecialChars,
+        sessionTimeout: row.sessionTimeout,
+        maxConcurrentSessions: row.maxConcurrentSessions,
+        ipWhitelist: row.ipWhitelist,
+        mfaRequired: row.mfaRequired,
+      }
+    : DEFAULT_SECURITY_POLICY;
+
+  cachedPolicy = { policy, allowList: buildAllowList(policy.ipWhitelist), loadedAt: Date.now() };
+
+  return cachedPolicy;
+}
+
+/**
+ * Drop the cached policy (call after the policy is saved)
+ */
+export function invalidateSecurityPolicyCache(): void {
+  cachedPolicy = null;
+}
+
+/**
+ * Validate a password against the policy
+ *
+ * @returns Validation result with one message per failed rule
+ */
+export function validatePasswordPolicy(
+  password: string,
+  policy: SecurityPolicySettings
+): { valid: boolean; errors: string[] } {
+  const errors: string[] = [];
+
+  if (password.length < policy.minPasswordLength) {
+    errors.push(`Password must be at least ${policy.minPasswordLength} characters`);
+  }
+
+  if (password.length > MAX_PASSWORD_LENGTH) {
+    errors.push(`Password must be less than ${MAX_PASSWORD_LENGTH} characters`);
+  }
+
+  if (policy.requireUppercase && !/[A-Z]/.test(password)) {
+    errors.push('Password must contain at least one uppercase letter');
+  }
+
+  if (policy.requireNumbers && !/[0-9]/.test(password)) {
+    errors.push('Password must contain at least one number');
+  }
+
+  if (policy.requireSpecialChars && !/[^A-Za-z0-9]/.test(password)) {
+    errors.push('Password must contain at least one special character');
+  }
+
+  return { valid: errors.length === 0, errors };
+}
+
+/**
+ * Whether a user's password is older than the policy allows
+ * Passwords never changed since account creation age from createdAt.
+ */
+export function isPasswordExpired(
+  user: { passwordChangedAt: Date | null; createdAt: Date },
+  policy: SecurityPolicySettings,
+  now: Date = new Date()
+): boolean {
+  if (!policy.passwordExpiry) {
+    return false;
+  }
+
+  const changedAt = user.passwordChangedAt ?? user.createdAt;
+  return now.getTime() - changedAt.getTime() > policy.passwordExpiry * 24 * 60 * 60 * 1000;
+}
+
+/**
+ * Whether an IP address is allowed by the policy allowlist
+ * With an allowlist configured, unknown or unparseable addresses are denied.
+ *
+ * @param db - Prisma client
+ * @param ipAddress - Client IP (IPv4-mapped IPv6 addresses are matched as IPv4)
+ */
+export async function isIpAllowed(db: DbClient, ipAddress: string): Promise<boolean> {
+  const { allowList } = await loadPolicy(db);
+
+  if (!allowList) {
+    return true;
+  }
+
+  const address = ipAddress.startsWith('::ffff:') && isIP(ipAddress.slice(7)) === 4
+    ? ipAddress.slice(7)
+    : ipAddress;
+  const version = isIP(address);
+
+  if (version === 0) {
+    return false;
+  }
+
+  return allowList.check(address, version === 6 ? 'ipv6' : 'ipv4');
+}
+
+/**
+ * Determine whether a session must be restricted under the policy
+ * Checked in order of severity: network, password, MFA.
+ *
+ * @param db - Prisma client
+ * @param user - Security fields of the session's user
+ * @param ipAddress - Client IP of the current request
+ * @returns Restriction, or null if the session is unrestricted
+ */
+export async function getSessionRestriction(
+  db: DbClient,
+  user: {
+    mfaEnabled: boolean;
+    forcePasswordChange: boolean;
+    passwordChangedAt: Date | null;
+    createdAt: Date;
+  },
+  ipAddress: string
+): Promise<SessionRestriction | null> {
+  const policy = await getSecurityPolicy(db);
+
+  if (!(await isIpAllowed(db, ipAddress))) {
+    return 'IP_NOT_ALLOWED';
+  }
+
+  if (user.forcePasswordChange || isPasswordExpired(user, policy)) {
+    return 'PASSWORD_CHANGE_REQUIRED';
+  }
+
+  if (policy.mfaRequired && !user.mfaEnabled) {
+    return 'MFA_ENROLLMENT_REQUIRED';
+  }
+
+  return null;
+}
@@ -0,0 +1,32 @@
+/**
+ * Step-Up Re-Authentication
+ *
+ * Sensitive operations (removing a second factor) require a step-up token
+ * from auth.stepUp: proof that the user re-entered their password and an MFA
+ * factor in the current session within the last few minutes.
+ */
+
+import { TRPCError } from '@trpc/server';
+import { verifyStepUpToken } from '@/lib/auth/jwt.service';
+import type { Session } from '../trpc';
+
+/**
+ * Reject the request unless the step-up token belongs to the caller's session
+ * The error message starts with STEP_UP_REQUIRED so the client can prompt again.
+ */
+export async function assertStepUp(session: Session, stepUpToken: string): Promise<void> {
+  let userId: string | null = null;
+
+  try {
+    userId = await verifyStepUpToken(stepUpToken, session.sessionId);
+  } catch (error) {
+    console.warn('[StepUp] Invalid step-up token:', error);
+  }
+
+  if (userId !== session.userId) {
+    throw new TRPCError({
+      code: 'FORBIDDEN',
+      message: 'STEP_UP_REQUIRED: Please confirm your password and second factor again',
+    });
+  }
+}
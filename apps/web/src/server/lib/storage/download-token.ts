@@ -0,0 +1,100 @@
+/**
+ * Storage Download Tokens
+ *
+ * Short-lived signed tokens that grant read access to a single stored object,
+ * similar to S3 pre-signed URLs but independent of the storage backend.
+ * Served by /api/files/[token].
+ */
+
+import 'server-only';
+import * as jose from 'jose';
+
+const DOWNLOAD_TOKEN_TTL_SECONDS = 5 * 60; // 5 minutes
+const ALGORITHM = 'HS256';
+
+/**
+ * Download token payload
+ */
+export interface DownloadTokenPayload {
+  /** Object path ("bucket/key") */
+  path: string;
+  /** Expected SHA-256 hash of the object (checked before serving) */
+  sha256: string | null;
+  contentType: string;
+  fileName: string;
+}
+
+/**
+ * Get the signing secret (STORAGE_SIGNING_SECRET, falls back to JWT_SECRET)
+ */
+function getSigningSecret(): Uint8Array {
+  const secret = process.env.STORAGE_SIGNING_SECRET || process.env.JWT_SECRET;
+
+  if (!secret || secret.length < 32) {
+    throw new Error('STORAGE_SIGNING_SECRET or JWT_SECRET (32+ characters) is required');
+  }
+
+  return new TextEncoder().encode(secret);
+}
+
+/**
+ * Create a signed download URL for a stored object
+ *
+ * @param payload - Object to grant access to
+ * @param ttlSeconds - Token lifetime (default: 5 minutes)
+ * @returns Relative download URL and expiration
+ *
+ * @example
+ * const { url } = await createDownloadUrl({
+ *   path: receipt.minioPath,
+ *   sha256: receipt.fileHash,
+ *   contentType: receipt.mimeType,
+ *   fileName: receipt.fileName,
+ * });
+ */
+export async function createDownloadUrl(
+  payload: DownloadTokenPayload,
+  ttlSeconds: number = DOWNLOAD_TOKEN_TTL_SECONDS
+): Promise<{ url: string; expiresAt: Date }> {
+  const token = await new jose.SignJWT({ ...payload, type: 'download' })
+    .setProtectedHeader({ alg: ALGORITHM })
+    .setIssuedAt()
+    .setExpirationTime(`${ttlSeconds}s`)
+    .setIssuer('shoprewards-hub')
+    .setAudience('shoprewards-files')
+    .sign(getSigningSecret());
+
+  return {
+    url: `/api/files/${token}`,
+    expiresAt: new Date(Date.now() + ttlSeconds * 1000),
+  };
+}
+
+/**
+ * Verify a download token
+ *
+ * @param token - Token from the download URL
+ * @returns Decoded payload
+ * @throws Error('TOKEN_EXPIRED' | 'TOKEN_INVALID') if the token cannot be used
+ */
+export async function verifyDownloadToken(token: string): Promise<DownloadTokenPayload> {
+  try {
+    const { payload } = await jose.jwtVerify(token, getSigningSecret(), {
+      issuer: 'shoprewards-hub',
+      audience: 'shoprewards-files',
+      algorithms: [ALGORITHM],
+    });
+
+    if (payload.type !== 'download' || typeof payload.path !== 'string') {
+      throw new Error('TOKEN_INVALID');
+    }
+
+    return payload as unknown as DownloadTokenPayload;
+  } catch (error) {
+    if (error instanceof jose.errors.JWTExpired) {
+      throw new Error('TOKEN_EXPIRED');
+    }
+
+    throw new Error('TOKEN_INVALID');
+  }
+}
@@ -0,0 +1,221 @@
+/**
+ * Object Storage
+ *
+ * Backend-agnostic access to stored files (receipts, ads, logos).
+ *
+ * Provider selection (STORAGE_PROVIDER):
+ * - 'local' (default): filesystem under STORAGE_LOCAL_PATH
+ * - 's3' / 'minio': S3-compatible object storage
+ *
+ * Bucket naming follows STORAGE_CONFIG: tenant-{shopId}-{receipts|ads|logos|exports},
+ * plus tenant-platform-logos for assets that do not belong to a shop
+ * (company logo, global login template). Objects are referenced by a single
+ * "bucket/key" path which is what the database stores.
+ */
+
+import { STORAGE_CONFIG } from '@shop-rewards/shared/constants';
+import {
+  extractBase64FromDataUrl,
+  sha256Buffer,
+  verifyFileIntegrity,
+} from '@shop-rewards/shared/utils';
+import { LocalStorageProvider } from './local-provider';
+import { S3StorageProvider } from './s3-provider';
+import type { StorageProvider } from './types';
+
+export type { StorageProvider, StoredObject } from './types';
+export { createDownloadUrl, verifyDownloadToken } from './download-token';
+
+type BucketSuffix =
+  | typeof STORAGE_CONFIG.RECEIPT_SUFFIX
+  | typeof STORAGE_CONFIG.AD_SUFFIX
+  | typeof STORAGE_CONFIG.LOGO_SUFFIX
+  | typeof STORAGE_CONFIG.EXPORT_SUFFIX;
+
+/**
+ * Bucket for platform-wide logos and login template images
+ */
+export const PLATFORM_LOGO_BUCKET = `${STORAGE_CONFIG.BUCKET_PREFIX}-platform-${STORAGE_CONFIG.LOGO_SUFFIX}`;
+
+/**
+ * File extension by MIME type (used for object keys)
+ */
+const FILE_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/jpg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/svg+xml': 'svg',
+  'application/pdf': 'pdf',
+};
+
+/**
+ * Image types accepted for logos and login template images
+ */
+export const ALLOWED_IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/jpg', 'image/webp', 'image/svg+xml'];
+
+let provider: StorageProvider | null = null;
+
+/**
+ * Get the configured storage provider (singleton)
+ */
+export function getStorageProvider(): StorageProvider {
+  if (!provider) {
+    const name = (process.env.STORAGE_PROVIDER || 'local').toLowerCase();
+
+    provider =
+      name === 's3' || name === 'minio' ? new S3StorageProvider() : new LocalStorageProvider();
+
+    console.log('[Storage] Using provider:', provider.name);
+  }
+
+  return provider;
+}
+
+/**
+ * Get the bucket name for a tenant
+ *
+ * @example
+ * getTenantBucket('shop_123', STORAGE_CONFIG.RECEIPT_SUFFIX) // 'tenant-shop_123-receipts'
+ */
+export function getTenantBucket(shopId: string, suffix: BucketSuffix): string {
+  return `${STORAGE_CONFIG.BUCKET_PREFIX}-${shopId}-${suffix}`;
+}
+
+/**
+ * Get the file extension for a MIME type
+ */
+export function getFileExtension(mimeType: string): string {
+  return FILE_EXTENSIONS[mimeType] || 'bin';
+}
+
+/**
+ * Split an object path into bucket and key
+ *
+ * @throws Error if the path has no key or contains relative segments
+ */
+export function parseObjectPath(objectPath: string): { bucket: string; key: string } {
+  const separator = objectPath.indexOf('/');
+  const segments = objectPath.split('/');
+
+  if (
+    separator <= 0 ||
+    segments.some((segment) => segment === '' || segment === '.' || segment === '..')
+  ) {
+    throw new Error(`STORAGE_INVALID_PATH: ${objectPath}`);
+  }
+
+  return {
+    bucket: objectPath.slice(0, separator),
+    key: objectPath.slice(separator + 1),
+  };
+}
+
+/**
+ * Store an object by path
+ */
+export async function putObject(objectPath: string, body: Buffer, contentType: string) {
+  const { bucket, key } = parseObjectPath(objectPath);
+  return getStorageProvider().putObject(bucket, key, body, contentType);
+}
+
+/**
+ * Read an object by path
+ */
+export async function getObject(objectPath: string): Promise<Buffer> {
+  const { bucket, key } = parseObjectPath(objectPath);
+  return getStorageProvider().getObject(bucket, key);
+}
+
+/**
+ * Delete an object by path
+ */
+export async function deleteObject(objectPath: string): Promise<void> {
+  const { bucket, key } = parseObjectPath(objectPath);
+  return getStorageProvider().deleteObject(bucket, key);
+}
+
+/**
+ * Verify that a stored object still matches its recorded SHA-256 hash
+ *
+ * @param objectPath - Object path ("bucket/key")
+ * @param expectedHash - Hash recorded at upload time (e.g. Receipt.fileHash)
+ * @returns False if the object is missing or its content changed
+ */
+export async function verifyStoredFileIntegrity(
+  objectPath: string,
+  expectedHash: string
+): Promise<boolean> {
+  try {
+    return verifyFileIntegrity(await getObject(objectPath), expectedHash);
+  } catch (error) {
+    console.error('[Storage] Integrity check failed:', { objectPath, error });
+    return false;
+  }
+}
+
+/**
+ * Whether an object may be served without a download token
+ * Only logos and ads are public; receipts always require a signed token.
+ */
+export function isPublicObjectPath(objectPath: string): boolean {
+  const { bucket } = parseObjectPath(objectPath);
+
+  return (
+    bucket.startsWith(`${STORAGE_CONFIG.BUCKET_PREFIX}-`) &&
+    (bucket.endsWith(`-${STORAGE_CONFIG.LOGO_SUFFIX}`) ||
+      bucket.endsWith(`-${STORAGE_CONFIG.AD_SUFFIX}`))
+  );
+}
+
+/**
+ * Get the public URL of a logo or ad
+ */
+export function getPublicFileUrl(objectPath: string): string {
+  return `/api/files/public/${objectPath}`;
+}
+
+/**
+ * Store a base64 data URL image in a bucket
+ * Objects are content-addressed, so storing the same image twice is a no-op.
+ *
+ * @param dataUrl - data:image/...;base64,... string
+ * @param bucket - Target bucket
+ * @param maxSize - Maximum decoded size in bytes
+ * @returns Object path, public URL and content hash
+ * @throws Error prefixed with STORAGE_INVALID_IMAGE if the data URL is not an accepted image
+ */
+export async function storeImageDataUrl(
+  dataUrl: string,
+  bucket: string,
+  maxSize?: number
+): Promise<{ path: string; url: string; sha256: string; size: number; mimeType: string }> {
+  const parsed = extractBase64FromDataUrl(dataUrl);
+
+  if (!parsed || !ALLOWED_IMAGE_TYPES.includes(parsed.mimeType)) {
+    throw new Error('STORAGE_INVALID_IMAGE: Expected a PNG, JPG, WebP or SVG data URL');
+  }
+
+  const buffer = Buffer.from(parsed.base64Data, 'base64');
+
+  if (buffer.length === 0) {
+    throw new Error('STORAGE_INVALID_IMAGE: Image data is empty');
+  }
+
+  if (maxSize !== undefined && buffer.length > maxSize) {
+    throw new Error(`STORAGE_INVALID_IMAGE: Image must be smaller than ${maxSize} bytes`);
+  }
+
+  const hash = sha256Buffer(buffer);
+  const objectPath = `${bucket}/${hash}.${getFileExtension(parsed.mimeType)}`;
+
+  await putObject(objectPath, buffer, parsed.mimeType);
+
+  return {
+    path: objectPath,
+    url: getPublicFileUrl(objectPath),
+    sha256: hash,
+    size: buffer.length,
+    mimeType: parsed.mimeType,
+  };
+}
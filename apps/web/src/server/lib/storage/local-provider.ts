@@ -0,0 +1,69 @@
+/**
+ * Local Filesystem Storage Provider
+ *
+ * Stores objects under STORAGE_LOCAL_PATH (default: ./.storage) using
+ * {root}/{bucket}/{key}. Intended for development, tests and single-node installs.
+ */
+
+import { mkdir, readFile, rm, stat, writeFile } from 'fs/promises';
+import path from 'path';
+import type { StorageProvider, StoredObject } from './types';
+
+export class LocalStorageProvider implements StorageProvider {
+  readonly name = 'local';
+  private readonly root: string;
+
+  constructor(root: string = process.env.STORAGE_LOCAL_PATH || '.storage') {
+    this.root = path.resolve(root);
+  }
+
+  /**
+   * Resolve the file path of an object, refusing paths that escape the root
+   */
+  private resolve(bucket: string, key: string): string {
+    const filePath = path.resolve(this.root, bucket, key);
+
+    if (!filePath.startsWith(this.root + path.sep)) {
+      throw new Error(`STORAGE_INVALID_KEY: ${bucket}/${key}`);
+    }
+
+    return filePath;
+  }
+
+  async putObject(
+    bucket: string,
+    key: string,
+    body: Buffer,
+    contentType: string
+  ): Promise<StoredObject> {
+    const filePath = this.resolve(bucket, key);
+
+    await mkdir(path.dirname(filePath), { recursive: true });
+    await writeFile(filePath, body);
+
+    return { bucket, key, size: body.length, contentType };
+  }
+
+  async getObject(bucket: string, key: string): Promise<Buffer> {
+    try {
+      return await readFile(this.resolve(bucket, key));
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') {
+        throw new Error(`STORAGE_NOT_FOUND: ${bucket}/${key}`);
+      }
+      throw error;
+    }
+  }
+
+  async deleteObject(bucket: string, key: string): Promise<void> {
+    await rm(this.resolve(bucket, key), { force: true });
+  }
+
+  async exists(bucket: string, key: string): Promise<boolean> {
+    try {
+      return (await stat(this.resolve(bucket, key))).isFile();
+    } catch {
+      return false;
+    }
+  }
+}
@@ -0,0 +1,244 @@
+/**
+ * Base64 Image Migration
+ *
+ * Moves base64 data URL images that were stored directly in the database
+ * into object storage and replaces them with public file URLs:
+ * - Company.logo (platform logos bucket, also sets Company.logoUrl)
+ * - Shop.logo (tenant logos bucket)
+ * - Global login template (SystemConfig 'login_template_global')
+ * - Shop login template overrides (ShopConfig 'login_template_override')
+ *   logo.url, backgroundImage.url and testimonials[].avatar.url
+ *
+ * Idempotent: values that are not data URLs are left untouched.
+ */
+
+import type { PrismaClient } from '@shop-rewards/db';
+import { STORAGE_CONFIG } from '@shop-rewards/shared/constants';
+import { invalidateLoginTemplateCache } from '../cache/login-template-cache';
+import { PLATFORM_LOGO_BUCKET, getTenantBucket, storeImageDataUrl } from './index';
+
+const GLOBAL_TEMPLATE_KEY = 'login_template_global';
+const SHOP_TEMPLATE_KEY = 'login_template_override';
+
+/**
+ * Migration result per record
+ */
+export interface ImageMigrationEntry {
+  source: 'company' | 'shop' | 'login_template_global' | 'login_template_override';
+  id: string;
+  field: string;
+  path: string | null;
+  error?: string;
+}
+
+/**
+ * Migration report
+ */
+export interface ImageMigrationReport {
+  dryRun: boolean;
+  migrated: number;
+  failed: number;
+  entries: ImageMigrationEntry[];
+}
+
+function isDataUrl(value: unknown): value is string {
+  return typeof value === 'string' && value.startsWith('data:');
+}
+
+/**
+ * Migrate base64 images to object storage
+ *
+ * @param db - Prisma client
+ * @param options.dryRun - Only report what would be migrated
+ * @returns Report with one entry per image found
+ *
+ * @example
+ * const report = await migrateBase64Images(db, { dryRun: true });
+ * console.log(`${report.entries.length} images to migrate`);
+ */
+export async function migrateBase64Images(
+  db: PrismaClient,
+  options: { dryRun?: boolean } = {}
+): Promise<ImageMigrationReport> {
+  const dryRun = options.dryRun ?? false;
+  const report: ImageMigrationReport = { dryRun, migrated: 0, failed: 0, entries: [] };
+  const invalidatedShops = new Set<string>();
+  let globalTemplateChanged = false;
+
+  /**
+   * Store one image and record the outcome; returns the new URL or null
+   */
+  const migrate = async (
+    entry: Omit<ImageMigrationEntry, 'path'>,
+    dataUrl: string,
+    bucket: string
+  ): Promise<string | null> => {
+    if (dryRun) {
+      report.entries.push({ ...entry, path: null });
+      return null;
+    }
+
+    try {
+      const stored = await storeImageDataUrl(dataUrl, bucket);
+      report.entries.push({ ...entry, path: stored.path });
+      report.migrated++;
+      return stored.url;
+    } catch (error) {
+      report.entries.push({
+        ...entry,
+        path: null,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      report.failed++;
+      return null;
+    }
+  };
+
+  /**
+   * Migrate the images inside a login template config (mutates the config)
+   */
+  const migrateTemplate = async (
+    source: 'login_template_global' | 'login_template_override',
+    id: string,
+    config: any,
+    bucket: string
+  ): Promise<boolean> => {
+    let changed = false;
+
+    for (const field of ['logo', 'backgroundImage'] as const) {
+      if (isDataUrl(config?.[field]?.url)) {
+        const url = await migrate({ source, id, field: `${field}.url` }, config[field].url, bucket);
+        if (url) {
+          config[field].url = url;
+          changed = true;
+        }
+      }
+    }
+
+    const testimonials: any[] = Array.isArray(config?.testimonials) ? config.testimonials : [];
+
+    for (const testimonial of testimonials) {
+      if (isDataUrl(testimonial?.avatar?.url)) {
+        const url = await migrate(
+          { source, id, field: `testimonials.${testimonial.id}.avatar.url` },
+          testimonial.avatar.url,
+          bucket
+        );
+        if (url) {
+          testimonial.avatar.url = url;
+          changed = true;
+        }
+      }
+    }
+
+    return changed;
+  };
+
+  // Company logos
+  const companies = await db.company.findMany({
+    where: { logo: { startsWith: 'data:' } },
+    select: { id: true, logo: true },
+  });
+
+  for (const company of companies) {
+    const url = await migrate(
+      { source: 'company', id: company.id, field: 'logo' },
+      company.logo!,
+      PLATFORM_LOGO_BUCKET
+    );
+    if (url) {
+      await db.company.update({
+        where: { id: company.id },
+        data: { logo: url, logoUrl: url },
+      });
+    }
+  }
+
+  // Shop logos
+  const shops = await db.shop.findMany({
+    where: { logo: { startsWith: 'data:' } },
+    select: { id: true, logo: true },
+  });
+
+  for (const shop of shops) {
+    const url = await migrate(
+      { source: 'shop', id: shop.id, field: 'logo' },
+      shop.logo!,
+      getTenantBucket(shop.id, STORAGE_CONFIG.LOGO_SUFFIX)
+    );
+    if (url) {
+      await db.shop.update({ where: { id: shop.id }, data: { logo: url } });
+    }
+  }
+
+  // Global login template
+  const globalTemplate = await db.systemConfig.findUnique({
+    where: { key: GLOBAL_TEMPLATE_KEY },
+  });
+
+  if (globalTemplate?.value?.includes('data:')) {
+    try {
+      const config = JSON.parse(globalTemplate.value);
+
+      const changed = await migrateTemplate(
+        'login_template_global',
+        globalTemplate.id,
+        config,
+        PLATFORM_LOGO_BUCKET
+      );
+
+      if (changed) {
+        await db.systemConfig.update({
+          where: { id: globalTemplate.id },
+          data: { value: JSON.stringify(config) },
+        });
+        globalTemplateChanged = true;
+      }
+    } catch (error) {
+      console.error('[Storage] Failed to parse global login template:', error);
+    }
+  }
+
+  // Shop login template overrides
+  const overrides = await db.shopConfig.findMany({
+    where: { key: SHOP_TEMPLATE_KEY, value: { contains: 'data:' } },
+  });
+
+  for (const override of overrides) {
+    try {
+      const config = JSON.parse(override.value);
+      const bucket = getTenantBucket(override.shopId, STORAGE_CONFIG.LOGO_SUFFIX);
+
+      if (await migrateTemplate('login_template_override', override.id, config, bucket)) {
+        await db.shopConfig.update({
+          where: { id: override.id },
+          data: { value: JSON.stringify(config) },
+        });
+        invalidatedShops.add(override.shopId);
+      }
+    } catch (error) {
+      console.error('[Storage] Failed to parse login template override:', {
+        shopId: override.shopId,
+        error,
+      });
+    }
+  }
+
+  // Cached templates still contain the old base64 values
+  if (globalTemplateChanged) {
+    await invalidateLoginTemplateCache();
+  } else {
+    for (const shopId of invalidatedShops) {
+      await invalidateLoginTemplateCache(shopId);
+    }
+  }
+
+  console.log('[Storage] Base64 image migration finished', {
+    dryRun,
+    found: report.entries.length,
+    migrated: report.migrated,
+    failed: report.failed,
+  });
+
+  return report;
+}
@@ -0,0 +1,202 @@
+/**
+ * S3 / MinIO Storage Provider
+ *
+ * Talks to any S3-compatible endpoint with path-style requests signed with
+ * AWS Signature Version 4. Buckets are created on first write.
+ *
+ * Configuration (falls back to the MINIO_* variables):
+ * - S3_ENDPOINT (e.g. http://storage:9000)
+ * - S3_REGION (default: us-east-1)
+ * - S3_ACCESS_KEY / S3_SECRET_KEY
+ */
+
+import { createHash, createHmac } from 'crypto';
+import type { StorageProvider, StoredObject } from './types';
+
+export interface S3StorageConfig {
+  endpoint: string;
+  region: string;
+  accessKey: string;
+  secretKey: string;
+}
+
+const EMPTY_PAYLOAD_HASH = createHash('sha256').update('').digest('hex');
+
+/**
+ * Read S3 configuration from the environment
+ */
+export function getS3ConfigFromEnv(): S3StorageConfig {
+  const protocol = process.env.MINIO_USE_SSL === 'true' ? 'https' : 'http';
+  const endpoint =
+    process.env.S3_ENDPOINT ||
+    `${protocol}://${process.env.MINIO_ENDPOINT || 'localhost'}:${process.env.MINIO_PORT || '9000'}`;
+  const accessKey = process.env.S3_ACCESS_KEY || process.env.MINIO_ACCESS_KEY;
+  const secretKey = process.env.S3_SECRET_KEY || process.env.MINIO_SECRET_KEY;
+
+  if (!accessKey || !secretKey) {
+    throw new Error('S3_ACCESS_KEY/S3_SECRET_KEY (or MINIO_ACCESS_KEY/MINIO_SECRET_KEY) are required');
+  }
+
+  return {
+    endpoint: endpoint.replace(/\/+$/, ''),
+    region: process.env.S3_REGION || 'us-east-1',
+    accessKey,
+    secretKey,
+  };
+}
+
+function hmac(key: Buffer | string, value: string): Buffer {
+  return createHmac('sha256', key).update(value).digest();
+}
+
+function sha256Hex(value: Buffer | string): string {
+  return createHash('sha256').update(value).digest('hex');
+}
+
+/**
+ * URI-encode a path segment as required by SigV4
+ */
+function encodeSegment(segment: string): string {
+  return encodeURIComponent(segment).replace(
+    /[!'()*]/g,
+    (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`
+  );
+}
+
+export class S3StorageProvider implements StorageProvider {
+  readonly name = 's3';
+  private readonly knownBuckets = new Set<string>();
+
+  constructor(private readonly config: S3StorageConfig = getS3ConfigFromEnv()) {}
+
+  /**
+   * Send a signed request
+   */
+  private async request(
+    method: 'GET' | 'PUT' | 'DELETE' | 'HEAD',
+    bucket: string,
+    key: string | null,
+    body?: Buffer,
+    contentType?: string
+  ): Promise<Response> {
+    const url = new URL(this.config.endpoint);
+    const canonicalUri =
+      '/' + [bucket, ...(key ? key.split('/') : [])].map(encodeSegment).join('/');
+
+    const now = new Date();
+    const amzDate = now.toISOString().replace(/[:-]|\.\d{3}/g, '');
+    const dateStamp = amzDate.slice(0, 8);
+    const payloadHash = body ? sha256Hex(body) : EMPTY_PAYLOAD_HASH;
+
+    const headers: Record<string, string> = {
+      host: url.host,
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': amzDate,
+    };
+
+    if (contentType) {
+      headers['content-type'] = contentType;
+    }
+
+    const signedHeaders = Object.keys(headers).sort();
+    const canonicalRequest = [
+      method,
+      canonicalUri,
+      '',
+      ...signedHeaders.map((name) => `${name}:${headers[name]}`),
+      '',
+      signedHeaders.join(';'),
+      payloadHash,
+    ].join('\n');
+
+    const scope = `${dateStamp}/${this.config.region}/s3/aws4_request`;
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+
+    const signingKey = hmac(
+      hmac(hmac(hmac(`AWS4${this.config.secretKey}`, dateStamp), this.config.region), 's3'),
+      'aws4_request'
+    );
+    const signature = hmac(signingKey, stringToSign).toString('hex');
+
+    const { host: _host, ...requestHeaders } = headers;
+
+    return fetch(`${this.config.endpoint}${canonicalUri}`, {
+      method,
+      headers: {
+        ...requestHeaders,
+        authorization: `AWS4-HMAC-SHA256 Credential=${this.config.accessKey}/${scope}, SignedHeaders=${signedHeaders.join(';')}, Signature=${signature}`,
+      },
+      body: body ? new Uint8Array(body) : undefined,
+    });
+  }
+
+  /**
+   * Create the bucket if it does not exist yet
+   */
+  private async ensureBucket(bucket: string): Promise<void> {
+    if (this.knownBuckets.has(bucket)) {
+      return;
+    }
+
+    const head = await this.request('HEAD', bucket, null);
+
+    if (head.status === 404) {
+      const created = await this.request('PUT', bucket, null);
+
+      // 409: created concurrently by another request
+      if (!created.ok && created.status !== 409) {
+        throw new Error(`STORAGE_ERROR: Failed to create bucket ${bucket} (${created.status})`);
+      }
+
+      console.log('[Storage] Created bucket:', bucket);
+    } else if (!head.ok) {
+      throw new Error(`STORAGE_ERROR: Failed to access bucket ${bucket} (${head.status})`);
+    }
+
+    this.knownBuckets.add(bucket);
+  }
+
+  async putObject(
+    bucket: string,
+    key: string,
+    body: Buffer,
+    contentType: string
+  ): Promise<StoredObject> {
+    await this.ensureBucket(bucket);
+
+    const response = await this.request('PUT', bucket, key, body, contentType);
+
+    if (!response.ok) {
+      throw new Error(`STORAGE_ERROR: Failed to store ${bucket}/${key} (${response.status})`);
+    }
+
+    return { bucket, key, size: body.length, contentType };
+  }
+
+  async getObject(bucket: string, key: string): Promise<Buffer> {
+    const response = await this.request('GET', bucket, key);
+
+    if (response.status === 404) {
+      throw new Error(`STORAGE_NOT_FOUND: ${bucket}/${key}`);
+    }
+
+    if (!response.ok) {
+      throw new Error(`STORAGE_ERROR: Failed to read ${bucket}/${key} (${response.status})`);
+    }
+
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  async deleteObject(bucket: string, key: string): Promise<void> {
+    const response = await this.request('DELETE', bucket, key);
+
+    if (!response.ok && response.status !== 404) {
+      throw new Error(`STORAGE_ERROR: Failed to delete ${bucket}/${key} (${response.status})`);
+    }
+  }
+
+  async exists(bucket: string, key: string): Promise<boolean> {
+    const response = await this.request('HEAD', bucket, key);
+    return response.ok;
+  }
+}
@@ -0,0 +1,46 @@
+/**
+ * Storage Provider Types
+ *
+ * Contract shared by the object storage backends. Objects are addressed by
+ * bucket and key; the database stores them as a single "bucket/key" path
+ * (e.g. Receipt.minioPath = "tenant-{shopId}-receipts/{hash}.jpg").
+ */
+
+/**
+ * Stored object description
+ */
+export interface StoredObject {
+  bucket: string;
+  key: string;
+  size: number;
+  contentType: string;
+}
+
+/**
+ * Object storage backend
+ */
+export interface StorageProvider {
+  /** Provider identifier used in logs */
+  readonly name: string;
+
+  /**
+   * Store an object (overwrites an existing object with the same key)
+   */
+  putObject(bucket: string, key: string, body: Buffer, contentType: string): Promise<StoredObject>;
+
+  /**
+   * Read an object
+   * @throws Error prefixed with STORAGE_NOT_FOUND if the object does not exist
+   */
+  getObject(bucket: string, key: string): Promise<Buffer>;
+
+  /**
+   * Delete an object (no-op if it does not exist)
+   */
+  deleteObject(bucket: string, key: string): Promise<void>;
+
+  /**
+   * Check whether an object exists
+   */
+  exists(bucket: string, key: string): Promise<boolean>;
+}
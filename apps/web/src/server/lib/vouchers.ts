@@ -0,0 +1,120 @@
+/**
+ * Voucher Utilities
+ *
+ * Shared helpers for issuing vouchers: unique code generation and QR payloads.
+ * Used by the vouchers router and by automated voucher issuance.
+ */
+
+import QRCode from 'qrcode';
+import type { PrismaClient } from '@shop-rewards/db';
+import { VOUCHER_CONFIG } from '@shop-rewards/shared/constants';
+import { generateAlphanumericCode } from '@shop-rewards/shared/utils';
+
+/**
+ * Default length for generated voucher codes
+ */
+const GENERATED_CODE_LENGTH = 10;
+
+/**
+ * Maximum attempts before giving up on finding an unused code
+ */
+const MAX_CODE_ATTEMPTS = 5;
+
+/**
+ * Generate a voucher code that is not yet used by any voucher
+ *
+ * @param db - Prisma client instance
+ * @param length - Code length (default: 10)
+ * @returns Unique uppercase alphanumeric code
+ * @throws Error if no unique code could be generated
+ *
+ * @example
+ * const code = await generateUniqueVoucherCode(ctx.db);
+ * // Returns: "K7Q2M9X4TB"
+ */
+export async function generateUniqueVoucherCode(
+  db: Pick<PrismaClient, 'voucher'>,
+  length: number = GENERATED_CODE_LENGTH
+): Promise<string> {
+  for (let attempt = 0; attempt < MAX_CODE_ATTEMPTS; attempt++) {
+    const code = generateAlphanumericCode(length);
+
+    const existing = await db.voucher.findUnique({
+      where: { code },
+      select: { id: true },
+    });
+
+    if (!existing) {
+      return code;
+    }
+  }
+
+  throw new Error('VOUCHER_CODE_GENERATION_FAILED: Could not generate a unique voucher code');
+}
+
+/**
+ * Build the payload encoded in a voucher QR code
+ * Scanners decode this JSON and call vouchers.redeem with the code
+ *
+ * @param shopId - Shop that issued the voucher
+ * @param code - Voucher code
+ * @returns JSON string payload
+ */
+export function buildVoucherQrPayload(shopId: string, code: string): string {
+  return JSON.stringify({
+    type: 'voucher',
+    version: 1,
+    shopId,
+    code,
+  });
+}
+
+/**
+ * Generate a QR code image (data URL) for a voucher
+ *
+ * @param shopId - Shop that issued the voucher
+ * @param code - Voucher code
+ * @returns PNG data URL suitable for Voucher.qrCodeData
+ */
+export async function generateVoucherQrCode(shopId: string, code: string): Promise<string> {
+  return QRCode.toDataURL(buildVoucherQrPayload(shopId, code), {
+    width: VOUCHER_CONFIG.QR_CODE_SIZE,
+    errorCorrectionLevel: 'M',
+  });
+}
+
+/**
+ * Calculate the monetary value of a redemption
+ *
+ * @param voucher - Voucher discount configuration
+ * @param purchaseAmount - Purchase amount the voucher is applied to
+ * @returns Discount value (never more than the purchase amount when one is given)
+ *
+ * @example
+ * calculateRedeemValue({ discountPercent: 10, discountAmount: null }, 50) // Returns: 5
+ * calculateRedeemValue({ discountPercent: null, discountAmount: 20 }, 15) // Returns: 15
+ */
+export function calculateRedeemValue(
+  voucher: {
+    discountPercent: { toNumber(): number } | number | null;
+    discountAmount: { toNumber(): number } | number | null;
+  },
+  purchaseAmount?: number
+): number {
+  const toNumber = (value: { toNumber(): number } | number) =>
+    typeof value === 'number' ? value : value.toNumber();
+
+  let value = 0;
+
+  if (voucher.discountAmount !== null) {
+    value = toNumber(voucher.discountAmount);
+  } else if (voucher.discountPercent !== null && purchaseAmount !== undefined) {
+    value = (purchaseAmount * toNumber(voucher.discountPercent)) / 100;
+  }
+
+  if (purchaseAmount !== undefined) {
+    value = Math.min(value, purchaseAmount);
+  }
+
+  return Math.round(value * 100) / 100;
+}
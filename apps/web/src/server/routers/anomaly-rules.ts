@@ -0,0 +1,96 @@
+/**
+ * Anomaly Rules tRPC Router
+ *
+ * Per-shop configuration of the anomaly rules that flag audit log entries.
+ * Shop admins can view their shop's rules; only super admins change them.
+ *
+ * Endpoints:
+ * - getSettings: Get default, override and effective config per rule for a shop
+ * - updateSettings: Set or clear a shop's override for one rule
+ */
+
+import { TRPCError } from '@trpc/server';
+import { z } from 'zod';
+import { createTRPCRouter, superAdminProcedure } from '../trpc';
+import { requirePermission } from '../lib/permissions';
+import { validateTenantAccess } from '../lib/tenant-filter';
+import { createAuditLog } from '../lib/audit';
+import {
+  anomalyRuleOverrideSchema,
+  getAnomalyRule,
+  getAnomalyRuleOverrides,
+  getAnomalyRules,
+  getEffectiveRuleConfig,
+  setAnomalyRuleOverride,
+} from '../lib/anomaly-rules';
+
+/**
+ * Update override schema (null override restores the defaults)
+ */
+const updateAnomalyRuleSchema = z.object({
+  shopId: z.string(),
+  ruleId: z.string(),
+  override: anomalyRuleOverrideSchema.nullable(),
+});
+
+export const anomalyRulesRouter = createTRPCRouter({
+  /**
+   * Get anomaly rule configs for a shop
+   * Requires 'config:read' permission
+   */
+  getSettings: requirePermission('config', 'read')
+    .input(z.object({ shopId: z.string() }))
+    .query(async ({ ctx, input }) => {
+      // Validate tenant access
+      validateTenantAccess(ctx.session, input.shopId);
+
+      const overrides = await getAnomalyRuleOverrides(ctx.db, input.shopId);
+
+      return getAnomalyRules().map((rule) => ({
+        id: rule.id,
+        description: rule.description,
+        default: rule.defaults,
+        override: overrides.get(rule.id) ?? null,
+        effective: getEffectiveRuleConfig(rule, overrides.get(rule.id)),
+      }));
+    }),
+
+  /**
+   * Set or clear a shop's override for one rule
+   * Super admin only (shops must not switch off their own monitoring)
+   */
+  updateSettings: superAdminProcedure
+    .input(updateAnomalyRuleSchema)
+    .mutation(async ({ ctx, input }) => {
+      const { shopId, ruleId, override } = input;
+      const rule = getAnomalyRule(ruleId);
+
+      if (!rule) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: `Unknown anomaly rule: ${ruleId}`,
+        });
+      }
+
+      const previous = (await getAnomalyRuleOverrides(ctx.db, shopId)).get(ruleId) ?? null;
+      await setAnomalyRuleOverride(ctx.db, shopId, ruleId, override);
+
+      // Create audit log
+      await createAuditLog(ctx.db, ctx.session, {
+        action: 'UPDATE',
+        resource: 'config',
+        resourceId: shopId,
+        changesBefore: { anomalyRule: ruleId, override: previous },
+        changesAfter: { anomalyRule: ruleId, override },
+      });
+
+      console.log('[AnomalyRules] Override updated:', { shopId, ruleId, override });
+
+      return {
+        shopId,
+        ruleId,
+        override,
+        effective: getEffectiveRuleConfig(rule, override ?? undefined),
+      };
+    }),
+});
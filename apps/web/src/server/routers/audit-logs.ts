@@ -0,0 +1,390 @@
+/**
+ * Audit Logs tRPC Router
+ *
+ * Read access to the audit trail for the audit log explorer and compliance exports.
+ * Tenant-scoped: shop admins only see their own shop's entries; super admins
+ * see all shops and may filter by shop.
+ *
+ * Endpoints:
+ * - list: List entries with filters and cursor pagination (newest first)
+ * - getById: Get one entry with its change set diff (createDiff)
+ * - getFilterOptions: Actions, resources and shops present in the visible entries
+ * - export: Export matching entries as CSV or JSONL (up to AUDIT_LOG_CONFIG.EXPORT_MAX_ROWS)
+ * - verifyChain: Verify a shop's hash chain against itself and the signed checkpoints
+ * - createCheckpoint: Sign and export the current chain heads now (super admin only)
+ */
+
+import { TRPCError } from '@trpc/server';
+import { z } from 'zod';
+import type { Prisma } from '@shop-rewards/db';
+import { AUDIT_LOG_CONFIG } from '@shop-rewards/shared/constants';
+import {
+  auditLogExportSchema,
+  auditLogListSchema,
+  type AuditLogFilters,
+} from '@shop-rewards/shared/validators';
+import { createTRPCRouter, superAdminProcedure, type Session } from '../trpc';
+import { requirePermission } from '../lib/permissions';
+import { optionalTenantFilter, validateTenantAccess } from '../lib/tenant-filter';
+import { createAuditLog, createDiff } from '../lib/audit';
+import { getChainId, verifyAuditChain } from '../lib/audit-chain';
+import { createAuditCheckpoint, readAuditCheckpoints } from '../lib/audit-checkpoint';
+import {
+  getAuditCsvHeader,
+  getAuditExportFile,
+  serializeAuditLogs,
+  type AuditLogExportRow,
+} from '../lib/audit-export';
+import { getClientInfo } from '@/lib/auth/session.service';
+
+/**
+ * Newest first; the ID breaks ties between entries written in the same millisecond
+ */
+const AUDIT_LOG_ORDER: Prisma.AuditLogOrderByWithRelationInput[] = [
+  { createdAt: 'desc' },
+  { id: 'desc' },
+];
+
+/**
+ * Build the where clause for audit log filters (tenant-scoped)
+ */
+function buildAuditLogWhere(session: Session, filters: AuditLogFilters): Prisma.AuditLogWhereInput {
+  const { shopId, userId, userEmail, action, resource, resourceId, dateFrom, dateTo, isSuspicious } =
+    filters;
+
+  const where: Prisma.AuditLogWhereInput = {
+    ...optionalTenantFilter(session, shopId),
+  };
+
+  if (userId) {
+    where.userId = userId;
+  }
+
+  // Erased users keep their email on the entry, not on the user
+  if (userEmail) {
+    where.OR = [
+      { userEmail: { contains: userEmail, mode: 'insensitive' } },
+      { user: { email: { contains: userEmail, mode: 'insensitive' } } },
+    ];
+  }
+
+  if (action) {
+    where.action = action;
+  }
+
+  if (resource) {
+    where.resource = resource;
+  }
+
+  if (resourceId) {
+    where.resourceId = resourceId;
+  }
+
+  if (dateFrom || dateTo) {
+    where.createdAt = {
+      ...(dateFrom ? { gte: new Date(dateFrom) } : {}),
+      ...(dateTo ? { lte: new Date(dateTo) } : {}),
+    };
+  }
+
+  if (isSuspicious !== undefined) {
+    where.isSuspicious = isSuspicious;
+  }
+
+  return where;
+}
+
+export const auditLogsRouter = createTRPCRouter({
+  /**
+   * List audit log entries with filters and cursor pagination
+   * Requires 'audit:read' permission
+   */
+  list: requirePermission('audit', 'read')
+    .input(auditLogListSchema)
+    .query(async ({ ctx, input }) => {
+      const { cursor, limit, ...filters } = input;
+      const where = buildAuditLogWhere(ctx.session, filters);
+
+      // One extra row tells whether there is a next page
+      const entries = await ctx.db.auditLog.findMany({
+        where,
+        orderBy: AUDIT_LOG_ORDER,
+        take: limit + 1,
+        ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+        select: {
+          id: true,
+          createdAt: true,
+          shopId: true,
+          userId: true,
+          userEmail: true,
+          action: true,
+          resource: true,
+          resourceId: true,
+          ipAddress: true,
+          userAgent: true,
+          isSuspicious: true,
+          flagReason: true,
+          user: {
+            select: {
+              id: true,
+              email: true,
+              name: true,
+            },
+          },
+          shop: {
+            select: {
+              id: true,
+              name: true,
+            },
+          },
+        },
+      });
+
+      const hasMore = entries.length > limit;
+      const items = hasMore ? entries.slice(0, limit) : entries;
+
+      return {
+        items,
+        nextCursor: hasMore ? (items[items.length - 1]?.id ?? null) : null,
+      };
+    }),
+
+  /**
+   * Get an audit log entry with its change set diff
+   * Requires 'audit:read' permission
+   */
+  getById: requirePermission('audit', 'read')
+    .input(z.object({ id: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const entry = await ctx.db.auditLog.findUnique({
+        where: { id: input.id },
+        include: {
+          user: {
+            select: {
+              id: true,
+              email: true,
+              name: true,
+            },
+          },
+          shop: {
+            select: {
+              id: true,
+              name: true,
+            },
+          },
+        },
+      });
+
+      if (!entry) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Audit log entry not found',
+        });
+      }
+
+      // Validate tenant access
+      validateTenantAccess(ctx.session, entry.shopId);
+
+      const before = (entry.changesBefore ?? {}) as Record<string, unknown>;
+      const after = (entry.changesAfter ?? {}) as Record<string, unknown>;
+
+      return {
+        ...entry,
+        diff: createDiff(before, after),
+      };
+    }),
+
+  /**
+   * Values present in the caller's visible entries, for the filter dropdowns
+   * Requires 'audit:read' permission
+   */
+  getFilterOptions: requirePermission('audit', 'read').query(async ({ ctx }) => {
+    const where = optionalTenantFilter(ctx.session);
+
+    const [actions, resources, shops] = await Promise.all([
+      ctx.db.auditLog.findMany({
+        where,
+        distinct: ['action'],
+        select: { action: true },
+        orderBy: { action: 'asc' },
+      }),
+      ctx.db.auditLog.findMany({
+        where,
+        distinct: ['resource'],
+        select: { resource: true },
+        orderBy: { resource: 'asc' },
+      }),
+      ctx.session.isSuperAdmin
+        ? ctx.db.shop.findMany({
+            select: { id: true, name: true },
+            orderBy: { name: 'asc' },
+          })
+        : Promise.resolve([]),
+    ]);
+
+    return {
+      actions: actions.map((entry) => entry.action),
+      resources: resources.map((entry) => entry.resource),
+      shops,
+    };
+  }),
+
+  /**
+   * Export matching audit log entries as CSV or JSONL
+   * Requires 'audit:export' permission. The export itself is audited.
+   */
+  export: requirePermission('audit', 'export')
+    .input(auditLogExportSchema)
+    .mutation(async ({ ctx, input }) => {
+      const { format, ...filters } = input;
+      const where = buildAuditLogWhere(ctx.session, filters);
+
+      const total = await ctx.db.auditLog.count({ where });
+      const chunks: string[] = format === 'csv' ? [getAuditCsvHeader()] : [];
+      let cursor: string | undefined;
+      let rowCount = 0;
+
+      // Read in batches to keep each query small
+      while (rowCount < Math.min(total, AUDIT_LOG_CONFIG.EXPORT_MAX_ROWS)) {
+        const batch = await ctx.db.auditLog.findMany({
+          where,
+          orderBy: AUDIT_LOG_ORDER,
+          take: Math.min(
+            AUDIT_LOG_CONFIG.EXPORT_BATCH_SIZE,
+            AUDIT_LOG_CONFIG.EXPORT_MAX_ROWS - rowCount
+          ),
+          ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+          include: {
+            user: { select: { email: true } },
+          },
+        });
+
+        if (batch.length === 0) break;
+
+        const rows: AuditLogExportRow[] = batch.map(({ user, ...entry }) => ({
+          ...entry,
+          userEmail: user?.email ?? entry.userEmail,
+        }));
+
+        chunks.push(serializeAuditLogs(rows, format));
+        rowCount += batch.length;
+        cursor = batch[batch.length - 1]?.id;
+      }
+
+      const scopeShopId = ctx.session.isSuperAdmin ? filters.shopId ?? null : ctx.session.shopId;
+      const file = getAuditExportFile(format, scopeShopId);
+      const truncated = total > rowCount;
+      const client = getClientInfo(ctx.headers);
+
+      await createAuditLog(ctx.db, ctx.session, {
+        action: 'EXPORT',
+        resource: 'audit_log',
+        resourceId: file.fileName,
+        changesAfter: { format, filters, rowCount, truncated },
+        ipAddress: client.ipAddress,
+        userAgent: client.userAgent,
+      });
+
+      console.log('[AuditLogs] Export:', {
+        userId: ctx.session.userId,
+        format,
+        rowCount,
+        truncated,
+      });
+
+      return {
+        ...file,
+        content: chunks.length > 0 ? chunks.join('\n') + '\n' : '',
+        rowCount,
+        truncated,
+      };
+    }),
+
+  /**
+   * Verify the hash chain of a shop (or the platform chain) and report the first broken link
+   * Shop admins verify their own shop; super admins pick a shop or the platform chain.
+   * Only checkpoints with a valid signature are trusted.
+   * Requires 'audit:read' permission
+   */
+  verifyChain: requirePermission('audit', 'read')
+    .input(z.object({ shopId: z.string().optional() }))
+    .mutation(async ({ ctx, input }) => {
+      const shopId = ctx.session.isSuperAdmin ? input.shopId ?? null : ctx.session.shopId;
+
+      if (!ctx.session.isSuperAdmin && !shopId) {
+        throw new TRPCError({
+          code: 'FORBIDDEN',
+          message: 'No shop selected',
+        });
+      }
+
+      const chainId = getChainId(shopId);
+      const checkpoints = await readAuditCheckpoints(chainId);
+      const trusted = checkpoints.filter((checkpoint) => checkpoint.signatureValid === true);
+      const result = await verifyAuditChain(ctx.db, chainId, trusted);
+      const client = getClientInfo(ctx.headers);
+
+      await createAuditLog(ctx.db, ctx.session, {
+        action: 'VERIFY',
+        resource: 'audit_log',
+        resourceId: chainId,
+        changesAfter: {
+          valid: result.valid,
+          entriesChecked: result.entriesChecked,
+          brokenLink: result.brokenLink,
+        },
+        ipAddress: client.ipAddress,
+        userAgent: client.userAgent,
+      });
+
+      if (!result.valid) {
+        console.error('[AuditLogs] Chain verification failed:', result.brokenLink);
+      }
+
+      return {
+        ...result,
+        untrustedCheckpoints: checkpoints.length - trusted.length,
+        lastCheckpointAt: trusted[trusted.length - 1]?.createdAt ?? null,
+      };
+    }),
+
+  /**
+   * Sign and export the current head of every chain
+   * Super admin only (the scheduler does this every AUDIT_LOG_CONFIG.CHECKPOINT_CRON)
+   */
+  createCheckpoint: superAdminProcedure.mutation(async ({ ctx }) => {
+    let result: Awaited<ReturnType<typeof createAuditCheckpoint>>;
+
+    try {
+      result = await createAuditCheckpoint(ctx.db);
+    } catch (error) {
+      if (error instanceof Error && error.message.startsWith('CHECKPOINT_KEY_MISSING')) {
+        throw new TRPCError({
+          code: 'PRECONDITION_FAILED',
+          message: 'Audit checkpoint signing key is not configured',
+        });
+      }
+      throw error;
+    }
+
+    const client = getClientInfo(ctx.headers);
+
+    await createAuditLog(ctx.db, ctx.session, {
+      action: 'EXPORT',
+      resource: 'audit_log',
+      resourceId: result.checkpoint.createdAt,
+      changesAfter: {
+        keyId: result.checkpoint.keyId,
+        chains: result.checkpoint.heads.length,
+      },
+      ipAddress: client.ipAddress,
+      userAgent: client.userAgent,
+    });
+
+    return {
+      createdAt: result.checkpoint.createdAt,
+      keyId: result.checkpoint.keyId,
+      chains: result.checkpoint.heads.length,
+    };
+  }),
+});
@@ -4,36 +4,102 @@
  * Handles user authentication, MFA setup/verification, and session management.
  *
  * Endpoints:
- * - login: Authenticate user with email/password
- * - loginWithMFA: Complete login with MFA token
- * - logout: Invalidate session
- * - refreshToken: Get new access token using refresh token
- * - setupMFA: Generate MFA secret and QR code
- * - verifyMFASetup: Verify MFA setup with token
- * - disableMFA: Disable MFA for user
- * - generateBackupCodes: Generate new backup codes
- * - verifyBackupCode: Verify and consume backup code
+ * - login: Authenticate user with email/password (returns an MFA challenge token if MFA is on)
+ * - loginWithMFA: Complete login with the MFA challenge token and a TOTP code
+ * - loginWithBackupCode: Complete login with the MFA challenge token and a backup code
+ * - passkeyLoginOptions: Start a passkey sign-in (second factor, or passwordless)
+ * - loginWithPasskey: Complete login with a passkey (second factor, or passwordless)
+ * - logout: Revoke the current session (or all sessions with `everywhere`)
+ * - refreshToken: Rotate the refresh token and get a new access token
+ * - unlockAccount: Unlock a locked account with the emailed unlock link
+ * - requestPasswordReset: Email a single-use password reset link
+ * - confirmPasswordReset: Set a new password with the emailed reset link
+ * - verifyEmail: Confirm a user's or shop's email address with the emailed link
+ * - resendVerificationEmail: Email the caller a new verification link
+ * - resendShopVerificationEmail: Email a shop's contact address a new verification link
+ * - listSessions: List the caller's active sessions (devices)
+ * - revokeSession: Revoke one of the caller's other sessions
+ * - changePassword: Change own password (checked against the security policy)
+ * - stepUp: Re-authenticate (password + MFA code or passkey) for a sensitive operation
+ * - myPermissions: The caller's current effective permissions (for UI gating)
+ * - mfaStatus: Second factors the caller has enrolled
+ * - setupMFA: Generate MFA secret, backup codes and QR code for the caller
+ * - verifyMFASetup: Verify MFA setup with the setup token and a code, and enable MFA
+ * - disableMFA: Remove the caller's authenticator app (requires a step-up token)
+ * - regenerateBackupCodes: Generate new backup codes (old ones are invalidated)
+ *
+ * MFA management acts on the signed-in user only, never on a client-supplied user ID.
+ * Passkey management lives in the passkeys router.
  */
 
 import { TRPCError } from '@trpc/server';
 import { z } from 'zod';
-import { createTRPCRouter, publicProcedure } from '../trpc';
+import { withTenantTransaction, type PrismaClient, type User } from '@shop-rewards/db';
+import { EMAIL_TOKEN_CONFIG } from '@shop-rewards/shared/constants';
+import { createTRPCRouter, protectedProcedure, publicProcedure, rateLimit } from '../trpc';
+import { getUserPermissionSet, requirePermission } from '../lib/permissions';
+import { validateTenantAccess } from '../lib/tenant-filter';
+import { createAuditLog, createSystemAuditLog } from '../lib/audit';
+import { getAppUrl, sendEmail } from '../lib/email';
+import { assertStepUp } from '../lib/step-up';
+import { emailTemplates } from '../lib/email-templates';
+import {
+  sendShopVerificationEmail,
+  sendUserVerificationEmail,
+  verifyShopEmail,
+  verifyUserEmail,
+} from '../lib/email-verification';
 import {
   hashPassword,
   verifyPassword,
 } from '@/lib/auth/hash.service';
 import {
-  generateTokenPair,
-  verifyAccessToken,
-  verifyRefreshToken,
+  generateMFAChallengeToken,
+  generateMFASetupToken,
+  generateStepUpToken,
+  verifyMFAChallengeToken,
+  verifyMFASetupToken,
+  type MFASetupClaims,
 } from '@/lib/auth/jwt.service';
+import {
+  createSession,
+  evictExcessSessions,
+  getClientInfo,
+  getSessionClaims,
+  revokeAllSessions,
+  revokeSession,
+  rotateSession,
+} from '@/lib/auth/session.service';
+import { consumeAuthToken, createAuthToken } from '@/lib/auth/auth-token.service';
+import {
+  getSecurityPolicy,
+  getSessionRestriction,
+  isIpAllowed,
+  validatePasswordPolicy,
+} from '../lib/security-policy';
+import {
+  clearLoginFailures,
+  getAccountLockout,
+  getIpLockout,
+  recordLoginFailure,
+  unlockAccount,
+  type LoginLockout,
+} from '../lib/login-lockout';
 import {
   generateMFASecret,
   verifyMFAToken,
   generateBackupCodes,
+  hashBackupCode,
   verifyBackupCode,
+  removeBackupCode,
   validateMFASetup,
 } from '@/lib/auth/mfa.service';
+import {
+  authenticationResponseSchema,
+  createAuthenticationOptions,
+  syncMFAEnabled,
+  verifyAuthentication,
+} from '@/lib/auth/webauthn.service';
 
 /**
  * Login input schema
@@ -48,7 +114,7 @@ const loginSchema = z.object({
  * MFA verification schema
  */
 const mfaVerificationSchema = z.object({
-  userId: z.string(),
+  challengeToken: z.string().min(1, 'MFA challenge token is required'),
   token: z.string().length(6, 'MFA token must be 6 digits'),
 });
 
@@ -56,10 +122,56 @@ const mfaVerificationSchema = z.object({
  * Backup code verification schema
  */
 const backupCodeSchema = z.object({
-  userId: z.string(),
+  challengeToken: z.string().min(1, 'MFA challenge token is required'),
   code: z.string().min(1, 'Backup code is required'),
 });
 
+/**
+ * Passkey assertion schema (challenge token from passkeyLoginOptions or
+ * passkeys.authenticationOptions, plus the browser's response)
+ */
+const passkeyAssertionSchema = z.object({
+  challengeToken: z.string().min(1, 'Passkey challenge token is required'),
+  response: authenticationResponseSchema,
+});
+
+/**
+ * Passkey login options schema
+ * With an MFA challenge token the passkey is the second factor; without one
+ * it is a passwordless sign-in.
+ */
+const passkeyLoginOptionsSchema = z
+  .object({
+    mfaChallengeToken: z.string().optional(),
+  })
+  .optional();
+
+/**
+ * Passkey login schema
+ */
+const passkeyLoginSchema = passkeyAssertionSchema.extend({
+  mfaChallengeToken: z.string().optional(),
+});
+
+/**
+ * Step-up schema
+ * `code` is a TOTP code or a backup code; `passkey` is an assertion from one
+ * of the user's passkeys. One of them is required when MFA is enabled.
+ */
+const stepUpSchema = z.object({
+  password: z.string().min(1, 'Password is required'),
+  code: z.string().optional(),
+  passkey: passkeyAssertionSchema.optional(),
+});
+
+/**
+ * Verify MFA setup schema
+ */
+const verifyMFASetupSchema = z.object({
+  setupToken: z.string().min(1, 'Setup token is required'),
+  token: z.string(),
+});
+
 /**
  * Refresh token schema
  */
@@ -67,36 +179,253 @@ const refreshTokenSchema = z.object({
   refreshToken: z.string().min(1, 'Refresh token is required'),
 });
 
+/**
+ * Change password schema
+ * Strength rules come from the security policy, not the schema.
+ */
+const changePasswordSchema = z.object({
+  currentPassword: z.string().min(1, 'Current password is required'),
+  newPassword: z.string().min(1, 'New password is required'),
+});
+
+/**
+ * Unlock account schema
+ */
+const unlockAccountSchema = z.object({
+  token: z.string().min(1, 'Unlock token is required'),
+});
+
+/**
+ * Request password reset schema
+ */
+const requestPasswordResetSchema = z.object({
+  email: z.string().email('Invalid email address'),
+  shopId: z.string().optional(), // Optional for shop-specific login
+});
+
+/**
+ * Confirm password reset schema
+ * Strength rules come from the security policy, not the schema.
+ */
+const confirmPasswordResetSchema = z.object({
+  token: z.string().min(1, 'Reset token is required'),
+  newPassword: z.string().min(1, 'New password is required'),
+});
+
+/**
+ * Verify email schema
+ */
+const verifyEmailSchema = z.object({
+  token: z.string().min(1, 'Verification token is required'),
+  type: z.enum(['user', 'shop']).default('user'),
+});
+
+/**
+ * Logout schema
+ */
+const logoutSchema = z
+  .object({
+    everywhere: z.boolean().default(false), // Revoke all of the user's sessions
+  })
+  .optional();
+
+/**
+ * Error for a sign-in attempt blocked by an account or IP lockout
+ */
+function lockoutError(lockout: LoginLockout): TRPCError {
+  const minutes = Math.ceil(lockout.retryAfterSeconds / 60);
+
+  return new TRPCError({
+    code: 'TOO_MANY_REQUESTS',
+    message: `Too many failed sign-in attempts. Try again in ${minutes} minute${minutes === 1 ? '' : 's'}.`,
+  });
+}
+
+/**
+ * Error for an email that cannot be sent because SMTP is not set up
+ */
+function emailError(error: unknown): TRPCError {
+  const notConfigured = error instanceof Error && error.message.startsWith('EMAIL_NOT_CONFIGURED');
+
+  return new TRPCError({
+    code: notConfigured ? 'PRECONDITION_FAILED' : 'INTERNAL_SERVER_ERROR',
+    message: notConfigured ? 'Email delivery is not configured' : 'Failed to send email',
+  });
+}
+
+/**
+ * Load the user of an MFA challenge token (second step of login)
+ */
+async function getMFAChallengeUser(db: PrismaClient, challengeToken: string): Promise<User> {
+  const expiredError = new TRPCError({
+    code: 'UNAUTHORIZED',
+    message: 'Your sign-in attempt has expired. Please sign in again.',
+  });
+
+  let userId: string;
+
+  try {
+    userId = await verifyMFAChallengeToken(challengeToken);
+  } catch (error) {
+    console.warn('[Auth] Invalid MFA challenge token:', error);
+    throw expiredError;
+  }
+
+  const user = await db.user.findUnique({
+    where: { id: userId },
+  });
+
+  if (!user || user.deletedAt) {
+    throw expiredError;
+  }
+
+  return user;
+}
+
+/**
+ * Second factors a user has enrolled (offered by the login form)
+ */
+async function getMFAMethods(
+  db: PrismaClient,
+  user: Pick<User, 'id' | 'mfaSecret' | 'mfaBackupCodes'>
+): Promise<Array<'totp' | 'backup_code' | 'passkey'>> {
+  const passkeys = await db.webAuthnCredential.count({ where: { userId: user.id } });
+  const methods: Array<'totp' | 'backup_code' | 'passkey'> = [];
+
+  if (user.mfaSecret) methods.push('totp');
+  if (user.mfaSecret && user.mfaBackupCodes.length > 0) methods.push('backup_code');
+  if (passkeys > 0) methods.push('passkey');
+
+  return methods;
+}
+
+/**
+ * Error for a WebAuthn ceremony that failed verification
+ */
+function webAuthnError(error: unknown): TRPCError {
+  const message = error instanceof Error ? error.message : '';
+
+  if (message.startsWith('WEBAUTHN_NOT_ENROLLED')) {
+    return new TRPCError({ code: 'BAD_REQUEST', message: 'No passkeys are registered for this account' });
+  }
+
+  return new TRPCError({ code: 'UNAUTHORIZED', message: 'Passkey could not be verified' });
+}
+
+/**
+ * Reject a sign-in attempt while the client IP or the account is locked
+ */
+async function assertNotLockedOut(
+  client: { ipAddress: string },
+  user: Pick<User, 'lockedUntil'> | null
+): Promise<void> {
+  const ipLockout = await getIpLockout(client.ipAddress);
+  if (ipLockout.locked) {
+    throw lockoutError(ipLockout);
+  }
+
+  const accountLockout = user ? getAccountLockout(user) : null;
+  if (accountLockout?.locked) {
+    throw lockoutError(accountLockout);
+  }
+}
+
+/**
+ * Create a session for an authenticated user and record the login
+ *
+ * Applies the security policy: logins from outside the IP allowlist are
+ * rejected, the oldest sessions beyond maxConcurrentSessions are evicted, and
+ * the result tells the client whether a password change or MFA enrolment is due.
+ * Failed-login tracking for the account is reset.
+ *
+ * @param method - How the user authenticated (stored in the audit log)
+ */
+async function startSession(
+  db: PrismaClient,
+  headers: Headers,
+  user: Pick<
+    User,
+    | 'id'
+    | 'mfaEnabled'
+    | 'forcePasswordChange'
+    | 'passwordChangedAt'
+    | 'createdAt'
+    | 'failedLoginAttempts'
+    | 'lockedUntil'
+  >,
+  method: 'password' | 'mfa' | 'backup_code' | 'passkey'
+) {
+  const client = getClientInfo(headers);
+
+  if (!(await isIpAllowed(db, client.ipAddress))) {
+    console.warn('[Auth] Login blocked by IP allowlist:', { userId: user.id, ip: client.ipAddress });
+    throw new TRPCError({
+      code: 'FORBIDDEN',
+      message: 'Sign-in is not allowed from this network',
+    });
+  }
+
+  const policy = await getSecurityPolicy(db);
+  const claims = await getSessionClaims(db, user.id);
+
+  await clearLoginFailures(db, user);
+
+  // Make room for the new session
+  await evictExcessSessions(db, user.id, policy.maxConcurrentSessions - 1);
+  const session = await createSession(db, claims, client);
+
+  await createAuditLog(db, claims, {
+    action: 'LOGIN',
+    resource: 'session',
+    resourceId: session.sessionId,
+    // country feeds the LOGIN_NEW_COUNTRY anomaly rule
+    changesAfter: { method, country: client.country ?? null },
+    ipAddress: client.ipAddress,
+    userAgent: client.userAgent,
+  });
+
+  const restriction = await getSessionRestriction(db, user, client.ipAddress);
+
+  return {
+    ...session,
+    requiresPasswordChange: restriction === 'PASSWORD_CHANGE_REQUIRED',
+    requiresMFASetup: restriction === 'MFA_ENROLLMENT_REQUIRED',
+  };
+}
+
 export const authRouter = createTRPCRouter({
   /**
    * Login with email and password
    *
    * Returns:
    * - If MFA disabled: JWT tokens
-   * - If MFA enabled: userId for next step (MFA verification)
+   * - If MFA enabled: MFA challenge token and the enrolled second factors for the next step
    */
   login: publicProcedure
     .input(loginSchema)
     .mutation(async ({ input, ctx }) => {
       console.log('[Auth] Login attempt:', input.email);
 
+      const client = getClientInfo(ctx.headers);
+      await assertNotLockedOut(client, null);
+
       // Find user by email (using findFirst for compound unique key)
       const user = await ctx.db.user.findFirst({
         where: {
           email: input.email,
+          deletedAt: null,
           ...(input.shopId ? { shopId: input.shopId } : {}),
         },
-        include: {
-          roles: {
-            include: {
-              role: true,
-            },
-          },
-        },
       });
 
       if (!user) {
         console.warn('[Auth] User not found:', input.email);
+
+        const lockout = await recordLoginFailure(ctx.db, input.email, null, client);
+        if (lockout.locked) {
+          throw lockoutError(lockout);
+        }
+
         // Use generic error message to prevent email enumeration
         throw new TRPCError({
           code: 'UNAUTHORIZED',
@@ -104,6 +433,11 @@ export const authRouter = createTRPCRouter({
         });
       }
 
+      const accountLockout = getAccountLockout(user);
+      if (accountLockout.locked) {
+        throw lockoutError(accountLockout);
+      }
+
       // Verify password
       const isValidPassword = await verifyPassword(
         input.password,
@@ -112,38 +446,43 @@ export const authRouter = createTRPCRouter({
 
       if (!isValidPassword) {
         console.warn('[Auth] Invalid password for:', input.email);
+
+        const lockout = await recordLoginFailure(ctx.db, input.email, user, client);
+        if (lockout.locked) {
+          throw lockoutError(lockout);
+        }
+
         throw new TRPCError({
           code: 'UNAUTHORIZED',
           message: 'Invalid email or password',
         });
       }
 
-      // Check if MFA is enabled
-      if (user.mfaSecret) {
+      // Check if MFA is enabled (authenticator app and/or passkeys)
+      const mfaMethods = await getMFAMethods(ctx.db, user);
+
+      if (mfaMethods.length > 0) {
         console.log('[Auth] MFA required for user:', user.id);
+
+        // Proof of the password step for loginWithMFA / loginWithBackupCode / loginWithPasskey
+        const challenge = await generateMFAChallengeToken(user.id);
+
         return {
-          requiresMFA: true,
-          userId: user.id,
+          requiresMFA: true as const,
+          mfaChallengeToken: challenge.token,
+          mfaChallengeExpiresAt: challenge.expiresAt,
+          mfaMethods,
           message: 'MFA verification required',
         };
       }
 
-      // Generate tokens
-      const roles = user.roles.map((ur) => ur.role.name);
-      const tokens = await generateTokenPair({
-        userId: user.id,
-        email: user.email,
-        name: user.name || `${user.firstName} ${user.lastName}`,
-        shopId: user.shopId,
-        roles,
-        isSuperAdmin: user.isSuperAdmin,
-        mfaEnabled: !!user.mfaSecret,
-      });
+      // Create session and generate tokens
+      const tokens = await startSession(ctx.db, ctx.headers, user, 'password');
 
       console.log('[Auth] Login successful:', user.email);
 
       return {
-        requiresMFA: false,
+        requiresMFA: false as const,
         user: {
           id: user.id,
           email: user.email,
@@ -153,65 +492,51 @@ export const authRouter = createTRPCRouter({
         accessToken: tokens.accessToken.token,
         refreshToken: tokens.refreshToken.token,
         expiresAt: tokens.accessToken.expiresAt,
+        requiresPasswordChange: tokens.requiresPasswordChange,
+        requiresMFASetup: tokens.requiresMFASetup,
       };
     }),
 
   /**
    * Complete login with MFA token
+   * Requires the challenge token returned by login (proof of the password step).
    */
   loginWithMFA: publicProcedure
     .input(mfaVerificationSchema)
     .mutation(async ({ input, ctx }) => {
-      console.log('[Auth] MFA login attempt:', input.userId);
-
-      // Find user
-      const user = await ctx.db.user.findUnique({
-        where: { id: input.userId },
-        include: {
-          roles: {
-            include: {
-              role: true,
-            },
-          },
-        },
-      });
+      const user = await getMFAChallengeUser(ctx.db, input.challengeToken);
 
-      if (!user) {
-        throw new TRPCError({
-          code: 'NOT_FOUND',
-          message: 'User not found',
-        });
-      }
+      console.log('[Auth] MFA login attempt:', user.id);
 
       if (!user.mfaSecret) {
         throw new TRPCError({
           code: 'BAD_REQUEST',
-          message: 'MFA is not enabled for this user',
+          message: 'Authenticator app is not set up for this user',
         });
       }
 
+      const client = getClientInfo(ctx.headers);
+      await assertNotLockedOut(client, user);
+
       // Verify MFA token
       const isValidToken = verifyMFAToken(input.token, user.mfaSecret);
 
       if (!isValidToken) {
         console.warn('[Auth] Invalid MFA token for:', user.id);
+
+        const lockout = await recordLoginFailure(ctx.db, user.email, user, client);
+        if (lockout.locked) {
+          throw lockoutError(lockout);
+        }
+
         throw new TRPCError({
           code: 'UNAUTHORIZED',
           message: 'Invalid MFA token',
         });
       }
 
-      // Generate tokens
-      const roles = user.roles.map((ur) => ur.role.name);
-      const tokens = await generateTokenPair({
-        userId: user.id,
-        email: user.email,
-        name: user.name || `${user.firstName} ${user.lastName}`,
-        shopId: user.shopId,
-        roles,
-        isSuperAdmin: user.isSuperAdmin,
-        mfaEnabled: !!user.mfaSecret,
-      });
+      // Create session and generate tokens
+      const tokens = await startSession(ctx.db, ctx.headers, user, 'mfa');
 
       console.log('[Auth] MFA login successful:', user.email);
 
@@ -225,48 +550,36 @@ export const authRouter = createTRPCRouter({
         accessToken: tokens.accessToken.token,
         refreshToken: tokens.refreshToken.token,
         expiresAt: tokens.accessToken.expiresAt,
+        requiresPasswordChange: tokens.requiresPasswordChange,
+        requiresMFASetup: tokens.requiresMFASetup,
       };
     }),
 
   /**
    * Login with backup code (alternative to MFA token)
+   * Requires the challenge token returned by login (proof of the password step).
    */
   loginWithBackupCode: publicProcedure
     .input(backupCodeSchema)
     .mutation(async ({ input, ctx }) => {
-      console.log('[Auth] Backup code login attempt:', input.userId);
-
-      // Find user
-      const user = await ctx.db.user.findUnique({
-        where: { id: input.userId },
-        include: {
-          roles: {
-            include: {
-              role: true,
-            },
-          },
-        },
-      });
+      const user = await getMFAChallengeUser(ctx.db, input.challengeToken);
 
-      if (!user) {
-        throw new TRPCError({
-          code: 'NOT_FOUND',
-          message: 'User not found',
-        });
-      }
+      console.log('[Auth] Backup code login attempt:', user.id);
 
-      if (!user.mfaSecret) {
-        throw new TRPCError({
-          code: 'BAD_REQUEST',
-          message: 'MFA is not enabled for this user',
-        });
-      }
+      const client = getClientInfo(ctx.headers);
+      await assertNotLockedOut(client, user);
 
       // Verify backup code
       const isValidCode = verifyBackupCode(input.code, user.mfaBackupCodes);
 
       if (!isValidCode) {
         console.warn('[Auth] Invalid backup code for:', user.id);
+
+        const lockout = await recordLoginFailure(ctx.db, user.email, user, client);
+        if (lockout.locked) {
+          throw lockoutError(lockout);
+        }
+
         throw new TRPCError({
           code: 'UNAUTHORIZED',
           message: 'Invalid backup code',
@@ -274,10 +587,7 @@ export const authRouter = createTRPCRouter({
       }
 
       // Remove used backup code
-      const normalizedCode = input.code.toUpperCase().replace(/[\s-]/g, '');
-      const updatedCodes = user.mfaBackupCodes.filter(
-        (code) => code.toUpperCase().replace(/[\s-]/g, '') !== normalizedCode
-      );
+      const updatedCodes = removeBackupCode(input.code, user.mfaBackupCodes);
 
       await ctx.db.user.update({
         where: { id: user.id },
@@ -286,17 +596,8 @@ export const authRouter = createTRPCRouter({
         },
       });
 
-      // Generate tokens
-      const roles = user.roles.map((ur) => ur.role.name);
-      const tokens = await generateTokenPair({
-        userId: user.id,
-        email: user.email,
-        name: user.name || `${user.firstName} ${user.lastName}`,
-        shopId: user.shopId,
-        roles,
-        isSuperAdmin: user.isSuperAdmin,
-        mfaEnabled: !!user.mfaSecret,
-      });
+      // Create session and generate tokens
+      const tokens = await startSession(ctx.db, ctx.headers, user, 'backup_code');
 
       console.log('[Auth] Backup code login successful:', user.email);
 
@@ -310,216 +611,932 @@ export const authRouter = createTRPCRouter({
         accessToken: tokens.accessToken.token,
         refreshToken: tokens.refreshToken.token,
         expiresAt: tokens.accessToken.expiresAt,
+        requiresPasswordChange: tokens.requiresPasswordChange,
+        requiresMFASetup: tokens.requiresMFASetup,
         backupCodesRemaining: updatedCodes.length,
       };
     }),
 
   /**
-   * Refresh access token using refresh token
+   * Start a passkey sign-in
+   * With the MFA challenge token from login, only that user's passkeys are
+   * offered; without one, any discoverable passkey may answer (passwordless).
    */
-  refreshToken: publicProcedure
-    .input(refreshTokenSchema)
+  passkeyLoginOptions: publicProcedure
+    .input(passkeyLoginOptionsSchema)
     .mutation(async ({ input, ctx }) => {
-      console.log('[Auth] Token refresh attempt');
+      const user = input?.mfaChallengeToken
+        ? await getMFAChallengeUser(ctx.db, input.mfaChallengeToken)
+        : null;
 
       try {
-        // Verify refresh token
-        const payload = await verifyRefreshToken(input.refreshToken);
-
-        // Find user to get updated roles
-        const user = await ctx.db.user.findUnique({
-          where: { id: payload.userId },
-          include: {
-            roles: {
-              include: {
-                role: true,
-              },
-            },
-          },
-        });
-
-        if (!user) {
-          throw new TRPCError({
-            code: 'NOT_FOUND',
-            message: 'User not found',
-          });
-        }
-
-        // Generate new token pair
-        const roles = user.roles.map((ur) => ur.role.name);
-        const tokens = await generateTokenPair({
-          userId: user.id,
-          email: user.email,
-          name: user.name || `${user.firstName} ${user.lastName}`,
-          shopId: user.shopId,
-          roles,
-          isSuperAdmin: user.isSuperAdmin,
-          mfaEnabled: !!user.mfaSecret,
-        });
-
-        console.log('[Auth] Token refresh successful');
-
-        return {
-          accessToken: tokens.accessToken.token,
-          refreshToken: tokens.refreshToken.token,
-          expiresAt: tokens.accessToken.expiresAt,
-        };
+        return await createAuthenticationOptions(ctx.db, user?.id ?? null);
       } catch (error) {
-        console.error('[Auth] Token refresh failed:', error);
-        throw new TRPCError({
-          code: 'UNAUTHORIZED',
-          message: 'Invalid or expired refresh token',
-        });
+        throw webAuthnError(error);
       }
     }),
 
   /**
-   * Setup MFA for user
-   * Generates secret and QR code
+   * Complete login with a passkey
+   * As a second factor (mfaChallengeToken from login) the passkey must belong
+   * to the user who passed the password step; as a passwordless sign-in the
+   * passkey alone identifies the user and must have verified them (PIN or biometric).
    */
-  setupMFA: publicProcedure
-    .input(z.object({ userId: z.string() }))
+  loginWithPasskey: publicProcedure
+    .input(passkeyLoginSchema)
     .mutation(async ({ input, ctx }) => {
-      console.log('[Auth] MFA setup:', input.userId);
+      const client = getClientInfo(ctx.headers);
+      const challengeUser = input.mfaChallengeToken
+        ? await getMFAChallengeUser(ctx.db, input.mfaChallengeToken)
+        : null;
 
-      // Find user
-      const user = await ctx.db.user.findUnique({
-        where: { id: input.userId },
-      });
+      await assertNotLockedOut(client, challengeUser);
 
-      if (!user) {
-        throw new TRPCError({
-          code: 'NOT_FOUND',
-          message: 'User not found',
-        });
+      let passkeyUserId: string;
+
+      try {
+        ({ userId: passkeyUserId } = await verifyAuthentication(
+          ctx.db,
+          input.challengeToken,
+          input.response
+        ));
+      } catch (error) {
+        console.warn('[Auth] Passkey verification failed:', error);
+
+        // Only a known account can accumulate failures
+        if (challengeUser) {
+          const lockout = await recordLoginFailure(ctx.db, challengeUser.email, challengeUser, client);
+          if (lockout.locked) {
+            throw lockoutError(lockout);
+          }
+        }
+
+        throw webAuthnError(error);
       }
 
-      if (user.mfaSecret) {
-        throw new TRPCError({
-          code: 'BAD_REQUEST',
-          message: 'MFA is already enabled for this user',
-        });
+      if (challengeUser && passkeyUserId !== challengeUser.id) {
+        throw webAuthnError(null);
+      }
+
+      const user =
+        challengeUser ??
+        (await ctx.db.user.findFirst({
+          where: { id: passkeyUserId, deletedAt: null },
+        }));
+
+      if (!user) {
+        throw webAuthnError(null);
       }
 
-      // Generate MFA secret and QR code
-      const mfaSetup = await generateMFASecret(user.email);
+      await assertNotLockedOut(client, user);
+
+      console.log('[Auth] Passkey login attempt:', { userId: user.id, passwordless: !challengeUser });
 
-      // Store secret temporarily (will be confirmed after verification)
-      // Note: Don't save to DB yet - wait for verification
-      console.log('[Auth] MFA secret generated for:', user.email);
+      // Create session and generate tokens
+      const tokens = await startSession(ctx.db, ctx.headers, user, 'passkey');
+
+      console.log('[Auth] Passkey login successful:', user.email);
 
       return {
-        secret: mfaSetup.secret,
-        qrCodeDataURL: mfaSetup.qrCodeDataURL,
-        backupCodes: mfaSetup.backupCodes,
+        user: {
+          id: user.id,
+          email: user.email,
+          name: user.name || `${user.firstName} ${user.lastName}`,
+          isSuperAdmin: user.isSuperAdmin,
+        },
+        accessToken: tokens.accessToken.token,
+        refreshToken: tokens.refreshToken.token,
+        expiresAt: tokens.accessToken.expiresAt,
+        requiresPasswordChange: tokens.requiresPasswordChange,
+        requiresMFASetup: tokens.requiresMFASetup,
       };
     }),
 
   /**
-   * Verify MFA setup with token
-   * Confirms that user scanned QR code correctly
+   * Refresh access token using refresh token
    */
-  verifyMFASetup: publicProcedure
-    .input(
-      z.object({
-        userId: z.string(),
-        secret: z.string(),
-        token: z.string(),
-        backupCodes: z.array(z.string()),
-      })
-    )
+  refreshToken: publicProcedure
+    .input(refreshTokenSchema)
     .mutation(async ({ input, ctx }) => {
-      console.log('[Auth] MFA setup verification:', input.userId);
+      console.log('[Auth] Token refresh attempt');
 
-      // Find user
-      const user = await ctx.db.user.findUnique({
-        where: { id: input.userId },
-      });
+      const client = getClientInfo(ctx.headers);
+      const policy = await getSecurityPolicy(ctx.db);
+      let result: Awaited<ReturnType<typeof rotateSession>>;
 
-      if (!user) {
+      if (!(await isIpAllowed(ctx.db, client.ipAddress))) {
         throw new TRPCError({
-          code: 'NOT_FOUND',
-          message: 'User not found',
+          code: 'FORBIDDEN',
+          message: 'Access is not allowed from this network',
         });
       }
 
-      // Validate MFA setup
-      const validation = validateMFASetup(input.token, input.secret);
-
-      if (!validation.valid) {
+      try {
+        result = await rotateSession(ctx.db, input.refreshToken, client, {
+          idleTimeoutSeconds: policy.sessionTimeout * 60,
+        });
+      } catch (error) {
+        console.error('[Auth] Token refresh failed:', error);
         throw new TRPCError({
-          code: 'BAD_REQUEST',
-          message: validation.message,
+          code: 'UNAUTHORIZED',
+          message: 'Invalid or expired refresh token',
         });
       }
 
-      // Save MFA secret and backup codes to database (encrypted by middleware)
-      await ctx.db.user.update({
-        where: { id: input.userId },
-        data: {
-          mfaSecret: input.secret,
-          mfaEnabled: true,
-          mfaBackupCodes: input.backupCodes,
-        },
-      });
+      if (result.reused) {
+        // A rotated-out token was presented: the session family has been revoked
+        await createAuditLog(ctx.db, result, {
+          action: 'FLAG',
+          resource: 'session',
+          resourceId: result.sessionId,
+          changesAfter: { reason: 'refresh_token_reuse', revoked: true },
+          ipAddress: client.ipAddress,
+          userAgent: client.userAgent,
+          isSuspicious: true,
+        });
 
-      console.log('[Auth] MFA enabled successfully for:', user.email);
+        throw new TRPCError({
+          code: 'UNAUTHORIZED',
+          message: 'Invalid or expired refresh token',
+        });
+      }
+
+      console.log('[Auth] Token refresh successful');
 
       return {
-        success: true,
-        message: 'MFA enabled successfully',
+        accessToken: result.accessToken.token,
+        refreshToken: result.refreshToken.token,
+        expiresAt: result.accessToken.expiresAt,
       };
     }),
 
   /**
-   * Disable MFA for user
-   * Requires password confirmation
+   * Unlock an account with the single-use link emailed at lockout
    */
-  disableMFA: publicProcedure
-    .input(
-      z.object({
-        userId: z.string(),
-        password: z.string(),
-      })
-    )
+  unlockAccount: publicProcedure
+    .input(unlockAccountSchema)
     .mutation(async ({ input, ctx }) => {
-      console.log('[Auth] MFA disable request:', input.userId);
-
-      // Find user
-      const user = await ctx.db.user.findUnique({
-        where: { id: input.userId },
-      });
+      let userId: string;
 
-      if (!user) {
+      try {
+        userId = await consumeAuthToken(ctx.db, 'account_unlock', input.token);
+      } catch (error) {
+        console.warn('[Auth] Invalid unlock token:', error);
         throw new TRPCError({
-          code: 'NOT_FOUND',
-          message: 'User not found',
+          code: 'BAD_REQUEST',
+          message: 'This unlock link is invalid or has expired',
         });
       }
 
-      // Verify password
-      const isValidPassword = await verifyPassword(
-        input.password,
-        user.passwordHash
+      await unlockAccount(ctx.db, userId);
+
+      const user = await ctx.db.user.findUniqueOrThrow({
+        where: { id: userId },
+        select: { shopId: true },
+      });
+      const client = getClientInfo(ctx.headers);
+
+      await createAuditLog(ctx.db, { userId, shopId: user.shopId }, {
+        action: 'UNLOCK',
+        resource: 'user',
+        resourceId: userId,
+        changesAfter: { method: 'email_link' },
+        ipAddress: client.ipAddress,
+        userAgent: client.userAgent,
+      });
+
+      console.log('[Auth] Account unlocked by email link:', userId);
+
+      return { success: true };
+    }),
+
+  /**
+   * Request a password reset link
+   * Responds the same whether or not the email belongs to an account, so it
+   * cannot be used to discover accounts. Rate limited per client IP.
+   */
+  requestPasswordReset: publicProcedure
+    .use(rateLimit('PASSWORD_RESET'))
+    .input(requestPasswordResetSchema)
+    .mutation(async ({ input, ctx }) => {
+      const user = await ctx.db.user.findFirst({
+        where: {
+          email: input.email,
+          deletedAt: null,
+          ...(input.shopId ? { shopId: input.shopId } : {}),
+        },
+        select: { id: true, email: true, firstName: true },
+      });
+
+      if (!user) {
+        console.warn('[Auth] Password reset requested for unknown email:', input.email);
+        return { success: true };
+      }
+
+      try {
+        const ttlSeconds = EMAIL_TOKEN_CONFIG.PASSWORD_RESET_TTL;
+        const token = await createAuthToken(ctx.db, user.id, 'password_reset', ttlSeconds);
+
+        await sendEmail(ctx.db, {
+          to: user.email,
+          ...emailTemplates.passwordReset({
+            firstName: user.firstName,
+            resetUrl: `${getAppUrl()}/reset-password?token=${token}`,
+            ttlSeconds,
+          }),
+        });
+
+        console.log('[Auth] Password reset link sent:', user.id);
+      } catch (error) {
+        console.error('[Auth] Failed to send password reset email:', {
+          userId: user.id,
+          error: error instanceof Error ? error.message : error,
+        });
+      }
+
+      return { success: true };
+    }),
+
+  /**
+   * Set a new password with the emailed reset link
+   *
+   * Validated against the security policy. The new password must differ from
+   * the current one, so a temporary password set by an administrator
+   * (forcePasswordChange) is always replaced. Clears forcePasswordChange and
+   * any lockout, marks the email as verified (the link proves ownership) and
+   * signs out every session.
+   */
+  confirmPasswordReset: publicProcedure
+    .input(confirmPasswordResetSchema)
+    .mutation(async ({ input, ctx }) => {
+      const policyCheck = validatePasswordPolicy(
+        input.newPassword,
+        await getSecurityPolicy(ctx.db)
       );
 
+      if (!policyCheck.valid) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: policyCheck.errors.join('. '),
+        });
+      }
+
+      const invalidLinkError = new TRPCError({
+        code: 'BAD_REQUEST',
+        message: 'This password reset link is invalid or has expired',
+      });
+
+      // One transaction: a rejected password leaves the token usable
+      const user = await withTenantTransaction(ctx.db, async (tx) => {
+        let userId: string;
+
+        try {
+          userId = await consumeAuthToken(tx, 'password_reset', input.token);
+        } catch (error) {
+          console.warn('[Auth] Invalid password reset token:', error);
+          throw invalidLinkError;
+        }
+
+        const user = await tx.user.findUnique({ where: { id: userId } });
+
+        if (!user || user.deletedAt) {
+          throw invalidLinkError;
+        }
+
+        if (await verifyPassword(input.newPassword, user.passwordHash)) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: 'New password must be different from the current password',
+          });
+        }
+
+        await tx.user.update({
+          where: { id: user.id },
+          data: {
+            passwordHash: await hashPassword(input.newPassword),
+            passwordChangedAt: new Date(),
+            forcePasswordChange: false,
+            emailVerifiedAt: user.emailVerifiedAt ?? new Date(),
+          },
+        });
+
+        return user;
+      });
+
+      await unlockAccount(ctx.db, user.id);
+      const revokedCount = await revokeAllSessions(ctx.db, user.id, 'password_changed');
+
+      const client = getClientInfo(ctx.headers);
+
+      await createAuditLog(ctx.db, { userId: user.id, shopId: user.shopId }, {
+        action: 'RESET_PASSWORD',
+        resource: 'user',
+        resourceId: user.id,
+        changesBefore: { forcePasswordChange: user.forcePasswordChange },
+        changesAfter: { method: 'email_link', sessionsRevoked: revokedCount },
+        ipAddress: client.ipAddress,
+        userAgent: client.userAgent,
+      });
+
+      try {
+        await sendEmail(ctx.db, {
+          to: user.email,
+          ...emailTemplates.passwordChanged({ firstName: user.firstName }),
+        });
+      } catch (error) {
+        console.error('[Auth] Failed to send password changed email:', {
+          userId: user.id,
+          error: error instanceof Error ? error.message : error,
+        });
+      }
+
+      console.log('[Auth] Password reset by email link:', user.id);
+
+      return {
+        success: true,
+        sessionsRevoked: revokedCount,
+      };
+    }),
+
+  /**
+   * Confirm a user's or shop's email address with the emailed link
+   */
+  verifyEmail: publicProcedure
+    .input(verifyEmailSchema)
+    .mutation(async ({ input, ctx }) => {
+      let verifiedId: string;
+
+      try {
+        verifiedId =
+          input.type === 'shop'
+            ? await verifyShopEmail(ctx.db, input.token)
+            : await verifyUserEmail(ctx.db, input.token);
+      } catch (error) {
+        console.warn('[Auth] Invalid email verification token:', error);
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'This verification link is invalid or has expired',
+        });
+      }
+
+      if (input.type === 'shop') {
+        await createSystemAuditLog(ctx.db, verifiedId, 'email-verification', {
+          action: 'VERIFY',
+          resource: 'shop',
+          resourceId: verifiedId,
+          changesAfter: { emailVerified: true },
+        });
+      } else {
+        const user = await ctx.db.user.findUniqueOrThrow({
+          where: { id: verifiedId },
+          select: { shopId: true },
+        });
+        const client = getClientInfo(ctx.headers);
+
+        await createAuditLog(ctx.db, { userId: verifiedId, shopId: user.shopId }, {
+          action: 'VERIFY',
+          resource: 'user',
+          resourceId: verifiedId,
+          changesAfter: { emailVerified: true },
+          ipAddress: client.ipAddress,
+          userAgent: client.userAgent,
+        });
+      }
+
+      console.log('[Auth] Email verified:', { type: input.type, id: verifiedId });
+
+      return { success: true, type: input.type };
+    }),
+
+  /**
+   * Email the caller a new verification link for their own address
+   */
+  resendVerificationEmail: protectedProcedure
+    .use(rateLimit('VERIFICATION_EMAIL'))
+    .mutation(async ({ ctx }) => {
+      const user = await ctx.db.user.findUniqueOrThrow({
+        where: { id: ctx.session.userId },
+        select: { id: true, email: true, firstName: true, emailVerifiedAt: true },
+      });
+
+      if (user.emailVerifiedAt) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'Your email address is already verified',
+        });
+      }
+
+      try {
+        await sendUserVerificationEmail(ctx.db, user);
+      } catch (error) {
+        console.error('[Auth] Failed to send verification email:', error);
+        throw emailError(error);
+      }
+
+      return { success: true };
+    }),
+
+  /**
+   * Email a shop's contact address a new verification link
+   * Requires 'shops:update' permission
+   */
+  resendShopVerificationEmail: requirePermission('shops', 'update')
+    .use(rateLimit('VERIFICATION_EMAIL'))
+    .input(z.object({ shopId: z.string() }))
+    .mutation(async ({ input, ctx }) => {
+      // Validate tenant access
+      validateTenantAccess(ctx.session, input.shopId);
+
+      const shop = await ctx.db.shop.findUnique({
+        where: { id: input.shopId },
+        select: { id: true, email: true, name: true, emailVerified: true },
+      });
+
+      if (!shop) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Shop not found',
+        });
+      }
+
+      if (shop.emailVerified) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'The shop email address is already verified',
+        });
+      }
+
+      try {
+        await sendShopVerificationEmail(ctx.db, shop);
+      } catch (error) {
+        console.error('[Auth] Failed to send shop verification email:', error);
+        throw emailError(error);
+      }
+
+      console.log('[Auth] Shop verification email sent:', shop.id);
+
+      return { success: true };
+    }),
+
+  /**
+   * Logout
+   * Revokes the current session, or every session of the user with `everywhere`
+   */
+  logout: protectedProcedure
+    .input(logoutSchema)
+    .mutation(async ({ input, ctx }) => {
+      const everywhere = input?.everywhere ?? false;
+      const client = getClientInfo(ctx.headers);
+
+      console.log('[Auth] Logout:', { userId: ctx.session.userId, everywhere });
+
+      const revokedCount = everywhere
+        ? await revokeAllSessions(ctx.db, ctx.session.userId, 'logout_everywhere')
+        : Number(await revokeSession(ctx.db, ctx.session.sessionId, 'logout'));
+
+      await createAuditLog(ctx.db, ctx.session, {
+        action: 'LOGOUT',
+        resource: 'session',
+        resourceId: ctx.session.sessionId,
+        changesAfter: { everywhere, revokedCount },
+        ipAddress: client.ipAddress,
+        userAgent: client.userAgent,
+      });
+
+      return {
+        success: true,
+        revokedCount,
+      };
+    }),
+
+  /**
+   * List the caller's active sessions (one per signed-in device)
+   */
+  listSessions: protectedProcedure.query(async ({ ctx }) => {
+    const sessions = await ctx.db.session.findMany({
+      where: {
+        userId: ctx.session.userId,
+        revokedAt: null,
+        expiresAt: { gt: new Date() },
+      },
+      select: {
+        id: true,
+        ipAddress: true,
+        userAgent: true,
+        createdAt: true,
+        lastActivityAt: true,
+        expiresAt: true,
+      },
+      orderBy: { lastActivityAt: 'desc' },
+    });
+
+    return sessions.map((session) => ({
+      ...session,
+      isCurrent: session.id === ctx.session.sessionId,
+    }));
+  }),
+
+  /**
+   * Revoke one of the caller's other sessions ("sign out this device")
+   * The current session is ended with logout instead.
+   */
+  revokeSession: protectedProcedure
+    .input(z.object({ sessionId: z.string().min(1) }))
+    .mutation(async ({ input, ctx }) => {
+      if (input.sessionId === ctx.session.sessionId) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'Use logout to end the current session',
+        });
+      }
+
+      const session = await ctx.db.session.findFirst({
+        where: { id: input.sessionId, userId: ctx.session.userId },
+        select: { id: true },
+      });
+
+      if (!session) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Session not found',
+        });
+      }
+
+      const revoked = await revokeSession(ctx.db, session.id, 'revoked_by_user');
+
+      if (revoked) {
+        const client = getClientInfo(ctx.headers);
+
+        await createAuditLog(ctx.db, ctx.session, {
+          action: 'LOGOUT',
+          resource: 'session',
+          resourceId: session.id,
+          changesAfter: { reason: 'revoked_by_user' },
+          ipAddress: client.ipAddress,
+          userAgent: client.userAgent,
+        });
+      }
+
+      console.log('[Auth] Session revoked:', { userId: ctx.session.userId, sessionId: session.id });
+
+      return {
+        success: true,
+        revoked,
+      };
+    }),
+
+  /**
+   * Change own password
+   * Validated against the security policy; clears forcePasswordChange and
+   * signs out the user's other sessions.
+   */
+  changePassword: protectedProcedure
+    .input(changePasswordSchema)
+    .mutation(async ({ input, ctx }) => {
+      const user = await ctx.db.user.findUnique({
+        where: { id: ctx.session.userId },
+      });
+
+      if (!user) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'User not found',
+        });
+      }
+
+      const isValidPassword = await verifyPassword(input.currentPassword, user.passwordHash);
+
       if (!isValidPassword) {
         throw new TRPCError({
           code: 'UNAUTHORIZED',
-          message: 'Invalid password',
+          message: 'Current password is incorrect',
+        });
+      }
+
+      if (await verifyPassword(input.newPassword, user.passwordHash)) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'New password must be different from the current password',
+        });
+      }
+
+      const policyCheck = validatePasswordPolicy(
+        input.newPassword,
+        await getSecurityPolicy(ctx.db)
+      );
+
+      if (!policyCheck.valid) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: policyCheck.errors.join('. '),
         });
       }
 
-      // Remove MFA secret and backup codes
       await ctx.db.user.update({
-        where: { id: input.userId },
+        where: { id: user.id },
+        data: {
+          passwordHash: await hashPassword(input.newPassword),
+          passwordChangedAt: new Date(),
+          forcePasswordChange: false,
+        },
+      });
+
+      const revokedCount = await revokeAllSessions(
+        ctx.db,
+        user.id,
+        'password_changed',
+        ctx.session.sessionId
+      );
+
+      const client = getClientInfo(ctx.headers);
+
+      await createAuditLog(ctx.db, ctx.session, {
+        action: 'UPDATE',
+        resource: 'user',
+        resourceId: user.id,
+        changesAfter: { passwordChanged: true, sessionsRevoked: revokedCount },
+        ipAddress: client.ipAddress,
+        userAgent: client.userAgent,
+      });
+
+      console.log('[Auth] Password changed for:', user.email);
+
+      return {
+        success: true,
+        sessionsRevoked: revokedCount,
+      };
+    }),
+
+  /**
+   * Re-authenticate for a sensitive operation (step-up)
+   *
+   * Checks the password and, when MFA is enabled, a current TOTP code or a
+   * backup code (consumed). Returns a short-lived step-up token bound to the
+   * current session. Failures count towards the login lockout.
+   */
+  stepUp: protectedProcedure
+    .input(stepUpSchema)
+    .mutation(async ({ input, ctx }) => {
+      const user = await ctx.db.user.findUniqueOrThrow({
+        where: { id: ctx.session.userId },
+      });
+
+      const client = getClientInfo(ctx.headers);
+      await assertNotLockedOut(client, user);
+
+      const rejectStepUp = async (message: string): Promise<never> => {
+        console.warn('[Auth] Step-up failed:', { userId: user.id, reason: message });
+
+        const lockout = await recordLoginFailure(ctx.db, user.email, user, client);
+        if (lockout.locked) {
+          throw lockoutError(lockout);
+        }
+
+        throw new TRPCError({ code: 'UNAUTHORIZED', message });
+      };
+
+      if (!(await verifyPassword(input.password, user.passwordHash))) {
+        await rejectStepUp('Invalid password');
+      }
+
+      const mfaMethods = await getMFAMethods(ctx.db, user);
+
+      if (input.passkey && mfaMethods.includes('passkey')) {
+        try {
+          const { userId } = await verifyAuthentication(
+            ctx.db,
+            input.passkey.challengeToken,
+            input.passkey.response
+          );
+
+          if (userId !== user.id) {
+            await rejectStepUp('Passkey could not be verified');
+          }
+        } catch (error) {
+          if (error instanceof TRPCError) throw error;
+          await rejectStepUp('Passkey could not be verified');
+        }
+      } else if (mfaMethods.length > 0) {
+        const code = input.code?.trim() ?? '';
+
+        if (/^\d{6}$/.test(code) && user.mfaSecret) {
+          if (!verifyMFAToken(code, user.mfaSecret)) {
+            await rejectStepUp('Invalid MFA code');
+          }
+        } else if (code && verifyBackupCode(code, user.mfaBackupCodes)) {
+          await ctx.db.user.update({
+            where: { id: user.id },
+            data: { mfaBackupCodes: removeBackupCode(code, user.mfaBackupCodes) },
+          });
+        } else {
+          await rejectStepUp(code ? 'Invalid MFA code' : 'MFA code or passkey is required');
+        }
+      }
+
+      const stepUp = await generateStepUpToken(user.id, ctx.session.sessionId);
+
+      console.log('[Auth] Step-up successful:', user.id);
+
+      return {
+        stepUpToken: stepUp.token,
+        expiresAt: stepUp.expiresAt,
+      };
+    }),
+
+  /**
+   * The signed-in user's effective permissions
+   * Unlike the permissions in the access token, reflects role changes made
+   * since sign-in (served from the permission cache).
+   */
+  myPermissions: protectedProcedure.query(async ({ ctx }) => {
+    const { permissions, scopes } = await getUserPermissionSet(ctx.session, ctx.db);
+
+    return {
+      isSuperAdmin: ctx.session.isSuperAdmin,
+      permissions,
+      // Grants narrower than the whole shop (see lib/permission-scope)
+      scopes,
+    };
+  }),
+
+  /**
+   * Second factors the signed-in user has enrolled
+   */
+  mfaStatus: protectedProcedure.query(async ({ ctx }) => {
+    const user = await ctx.db.user.findUniqueOrThrow({
+      where: { id: ctx.session.userId },
+      select: { mfaEnabled: true, mfaSecret: true, mfaBackupCodes: true },
+    });
+
+    const passkeys = await ctx.db.webAuthnCredential.count({
+      where: { userId: ctx.session.userId },
+    });
+
+    return {
+      mfaEnabled: user.mfaEnabled,
+      totp: !!user.mfaSecret,
+      backupCodesRemaining: user.mfaBackupCodes.length,
+      passkeys,
+    };
+  }),
+
+  /**
+   * Setup MFA for the signed-in user
+   * Generates secret, backup codes and QR code. Nothing is stored yet: the
+   * secret and backup code hashes travel in a signed setup token (10 min)
+   * that verifyMFASetup redeems.
+   */
+  setupMFA: protectedProcedure.mutation(async ({ ctx }) => {
+    console.log('[Auth] MFA setup:', ctx.session.userId);
+
+    const user = await ctx.db.user.findUniqueOrThrow({
+      where: { id: ctx.session.userId },
+    });
+
+    if (user.mfaSecret) {
+      throw new TRPCError({
+        code: 'BAD_REQUEST',
+        message: 'MFA is already enabled for this user',
+      });
+    }
+
+    // Generate MFA secret and QR code
+    const mfaSetup = await generateMFASecret(user.email);
+
+    const setupToken = await generateMFASetupToken(user.id, ctx.session.sessionId, {
+      secret: mfaSetup.secret,
+      backupCodeHashes: mfaSetup.backupCodes.map(hashBackupCode),
+    });
+
+    console.log('[Auth] MFA secret generated for:', user.email);
+
+    return {
+      secret: mfaSetup.secret,
+      qrCodeDataURL: mfaSetup.qrCodeDataURL,
+      backupCodes: mfaSetup.backupCodes,
+      setupToken: setupToken.token,
+      expiresAt: setupToken.expiresAt,
+    };
+  }),
+
+  /**
+   * Verify MFA setup with token
+   * Confirms that user scanned QR code correctly, then stores the secret and
+   * backup code hashes from the setup token. An existing MFA setup is never
+   * replaced: it has to be disabled (with step-up) first.
+   */
+  verifyMFASetup: protectedProcedure
+    .input(verifyMFASetupSchema)
+    .mutation(async ({ input, ctx }) => {
+      console.log('[Auth] MFA setup verification:', ctx.session.userId);
+
+      const user = await ctx.db.user.findUniqueOrThrow({
+        where: { id: ctx.session.userId },
+      });
+
+      if (user.mfaSecret) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'MFA is already enabled for this user',
+        });
+      }
+
+      let setup: MFASetupClaims;
+
+      try {
+        setup = await verifyMFASetupToken(input.setupToken, user.id, ctx.session.sessionId);
+      } catch (error) {
+        console.warn('[Auth] Invalid MFA setup token:', error);
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'MFA setup has expired. Please start again.',
+        });
+      }
+
+      // Validate MFA setup
+      const validation = validateMFASetup(input.token, setup.secret);
+
+      if (!validation.valid) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: validation.message,
+        });
+      }
+
+      // Save MFA secret and backup code hashes to database (encrypted by middleware)
+      await ctx.db.user.update({
+        where: { id: user.id },
+        data: {
+          mfaSecret: setup.secret,
+          mfaEnabled: true,
+          mfaBackupCodes: setup.backupCodeHashes,
+        },
+      });
+
+      const client = getClientInfo(ctx.headers);
+
+      await createAuditLog(ctx.db, ctx.session, {
+        action: 'UPDATE',
+        resource: 'user',
+        resourceId: user.id,
+        changesBefore: { mfaEnabled: false },
+        changesAfter: { mfaEnabled: true },
+        ipAddress: client.ipAddress,
+        userAgent: client.userAgent,
+      });
+
+      console.log('[Auth] MFA enabled successfully for:', user.email);
+
+      return {
+        success: true,
+        message: 'MFA enabled successfully',
+      };
+    }),
+
+  /**
+   * Disable MFA for the signed-in user
+   * Requires a step-up token from stepUp (password + MFA code) in this session
+   */
+  disableMFA: protectedProcedure
+    .input(z.object({ stepUpToken: z.string().min(1, 'Step-up token is required') }))
+    .mutation(async ({ input, ctx }) => {
+      console.log('[Auth] MFA disable request:', ctx.session.userId);
+
+      await assertStepUp(ctx.session, input.stepUpToken);
+
+      const user = await ctx.db.user.findUniqueOrThrow({
+        where: { id: ctx.session.userId },
+      });
+
+      if (!user.mfaSecret) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'MFA is not enabled for this user',
+        });
+      }
+
+      // Remove MFA secret and backup codes (passkeys stay enrolled)
+      await ctx.db.user.update({
+        where: { id: user.id },
         data: {
           mfaSecret: null,
-          mfaEnabled: false,
           mfaBackupCodes: [],
         },
       });
 
+      const mfaEnabled = await syncMFAEnabled(ctx.db, user.id);
+      const client = getClientInfo(ctx.headers);
+
+      await createAuditLog(ctx.db, ctx.session, {
+        action: 'UPDATE',
+        resource: 'user',
+        resourceId: user.id,
+        changesBefore: { mfaEnabled: true, totp: true },
+        changesAfter: { mfaEnabled, totp: false },
+        ipAddress: client.ipAddress,
+        userAgent: client.userAgent,
+      });
+
       console.log('[Auth] MFA disabled for:', user.email);
 
       return {
@@ -529,31 +1546,22 @@ export const authRouter = createTRPCRouter({
     }),
 
   /**
-   * Generate new backup codes
-   * Old codes will be invalidated
+   * Generate new backup codes for the signed-in user
+   * Requires password confirmation; old codes will be invalidated
    */
-  regenerateBackupCodes: publicProcedure
+  regenerateBackupCodes: protectedProcedure
     .input(
       z.object({
-        userId: z.string(),
         password: z.string(),
       })
     )
     .mutation(async ({ input, ctx }) => {
-      console.log('[Auth] Backup codes regeneration:', input.userId);
+      console.log('[Auth] Backup codes regeneration:', ctx.session.userId);
 
-      // Find user
-      const user = await ctx.db.user.findUnique({
-        where: { id: input.userId },
+      const user = await ctx.db.user.findUniqueOrThrow({
+        where: { id: ctx.session.userId },
       });
 
-      if (!user) {
-        throw new TRPCError({
-          code: 'NOT_FOUND',
-          message: 'User not found',
-        });
-      }
-
       if (!user.mfaSecret) {
         throw new TRPCError({
           code: 'BAD_REQUEST',
@@ -577,11 +1585,11 @@ export const authRouter = createTRPCRouter({
       // Generate new codes
       const newBackupCodes = generateBackupCodes(8);
 
-      // Save new codes
+      // Save new codes (hashed; the plain codes are only shown now)
       await ctx.db.user.update({
-        where: { id: input.userId },
+        where: { id: user.id },
         data: {
-          mfaBackupCodes: newBackupCodes,
+          mfaBackupCodes: newBackupCodes.map(hashBackupCode),
         },
       });
 
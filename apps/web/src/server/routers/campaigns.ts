@@ -0,0 +1,321 @@
+/**
+ * Campaigns tRPC Router
+ *
+ * Handles campaign creation, listing, lifecycle transitions and reward previews.
+ * Tenant-scoped: shop admins only access campaigns from their own shop.
+ *
+ * Endpoints:
+ * - create: Create a campaign in DRAFT status
+ * - list: List campaigns with filters and offset pagination
+ * - getById: Get a single campaign with receipt/voucher counts
+ * - updateStatus: Move a campaign through its lifecycle
+ * - previewRewards: Dry-run the campaign engine for a sample receipt amount
+ *
+ * Scheduled campaigns are activated at startDate and completed after endDate
+ * (see lib/campaign-lifecycle.ts).
+ */
+
+import { TRPCError } from '@trpc/server';
+import { z } from 'zod';
+import { createTRPCRouter } from '../trpc';
+import {
+  campaignFiltersSchema,
+  createCampaignSchema,
+  updateCampaignStatusSchema,
+} from '@shop-rewards/shared/validators';
+import { hasPermission, requireAnyPermission, requirePermission } from '../lib/permissions';
+import { optionalTenantFilter, validateTenantAccess } from '../lib/tenant-filter';
+import { createAuditLog } from '../lib/audit';
+import { previewCampaignRewards } from '../lib/campaign-engine';
+import {
+  applyScheduledCampaignTransitions,
+  assertCampaignTransition,
+  CAMPAIGN_TRANSITION_PERMISSIONS,
+} from '../lib/campaign-lifecycle';
+
+export const campaignsRouter = createTRPCRouter({
+  /**
+   * Create a campaign
+   * Requires 'campaigns:create' permission
+   * New campaigns start as DRAFT and must be scheduled to go live
+   */
+  create: requirePermission('campaigns', 'create')
+    .input(createCampaignSchema)
+    .mutation(async ({ ctx, input }) => {
+      const {
+        shopId,
+        name,
+        description,
+        type,
+        startDate,
+        endDate,
+        targetAudience,
+        budget,
+        maxParticipants,
+        maxRewardsPerUser,
+        rewardRules,
+        termsAndConditions,
+      } = input;
+
+      // Validate tenant access
+      validateTenantAccess(ctx.session, shopId);
+
+      if (new Date(endDate) <= new Date(startDate)) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'endDate must be after startDate',
+        });
+      }
+
+      const campaign = await ctx.db.campaign.create({
+        data: {
+          shopId,
+          name,
+          description,
+          startDate: new Date(startDate),
+          endDate: new Date(endDate),
+          status: 'DRAFT',
+          active: false,
+          // Everything the engine needs lives in the rules JSON
+          rules: {
+            type,
+            rewardRules,
+            budget,
+            maxParticipants,
+            maxRewardsPerUser,
+            targetAudience,
+            termsAndConditions,
+          },
+        },
+      });
+
+      // Create audit log
+      await createAuditLog(ctx.db, ctx.session, {
+        action: 'CREATE',
+        resource: 'campaign',
+        resourceId: campaign.id,
+        changesAfter: {
+          name: campaign.name,
+          status: campaign.status,
+          startDate: campaign.startDate,
+          endDate: campaign.endDate,
+        },
+      });
+
+      return campaign;
+    }),
+
+  /**
+   * List campaigns with filtering and pagination
+   * Tenant-scoped: Shop admins see only their shop's campaigns
+   */
+  list: requirePermission('campaigns', 'read')
+    .input(campaignFiltersSchema)
+    .query(async ({ ctx, input }) => {
+      const { shopId, type, status, activeOnly, limit, offset } = input;
+
+      // Apply tenant filtering
+      const tenantFilter = optionalTenantFilter(ctx.session, shopId);
+
+      // Bring scheduled starts/ends up to date before reading
+      await applyScheduledCampaignTransitions(ctx.db, tenantFilter.shopId);
+
+      // Build where clause
+      const where: any = {
+        ...tenantFilter,
+      };
+
+      if (type) {
+        where.rules = { path: ['type'], equals: type };
+      }
+
+      if (status) {
+        where.status = status;
+      }
+
+      if (activeOnly) {
+        where.status = 'ACTIVE';
+      }
+
+      const [campaigns, total] = await Promise.all([
+        ctx.db.campaign.findMany({
+          where,
+          skip: offset,
+          take: limit,
+          orderBy: { startDate: 'desc' },
+          include: {
+            _count: {
+              select: {
+                receipts: true,
+                vouchers: true,
+              },
+            },
+          },
+        }),
+        ctx.db.campaign.count({ where }),
+      ]);
+
+      return {
+        campaigns,
+        total,
+        limit,
+        offset,
+        hasMore: offset + campaigns.length < total,
+      };
+    }),
+
+  /**
+   * Get campaign by ID
+   * Validates tenant access
+   */
+  getById: requirePermission('campaigns', 'read')
+    .input(z.object({ id: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const existing = await ctx.db.campaign.findUnique({
+        where: { id: input.id },
+        select: { shopId: true },
+      });
+
+      if (!existing) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Campaign not found',
+        });
+      }
+
+      // Validate tenant access
+      validateTenantAccess(ctx.session, existing.shopId);
+
+      await applyScheduledCampaignTransitions(ctx.db, existing.shopId);
+
+      return ctx.db.campaign.findUniqueOrThrow({
+        where: { id: input.id },
+        include: {
+          _count: {
+            select: {
+              receipts: true,
+              vouchers: true,
+            },
+          },
+        },
+      });
+    }),
+
+  /**
+   * Change campaign status
+   * Requires 'campaigns:activate' to schedule/activate and
+   * 'campaigns:pause' to pause, complete or cancel
+   */
+  updateStatus: requireAnyPermission([
+    ['campaigns', 'activate'],
+    ['campaigns', 'pause'],
+  ])
+    .input(updateCampaignStatusSchema)
+    .mutation(async ({ ctx, input }) => {
+      const { campaignId, status } = input;
+
+      if (status === 'DRAFT') {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'Campaigns cannot be moved back to DRAFT',
+        });
+      }
+
+      const permission = CAMPAIGN_TRANSITION_PERMISSIONS[status];
+      if (!(await hasPermission(ctx.session, ctx.db, 'campaigns', permission))) {
+        throw new TRPCError({
+          code: 'FORBIDDEN',
+          message: `Missing required permission: campaigns:${permission}`,
+        });
+      }
+
+      const found = await ctx.db.campaign.findUnique({
+        where: { id: campaignId },
+        select: { shopId: true },
+      });
+
+      if (!found) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Campaign not found',
+        });
+      }
+
+      // Validate tenant access
+      validateTenantAccess(ctx.session, found.shopId);
+
+      // Transition from the up-to-date status (e.g. SCHEDULED may already be ACTIVE)
+      await applyScheduledCampaignTransitions(ctx.db, found.shopId);
+
+      const existing = await ctx.db.campaign.findUniqueOrThrow({
+        where: { id: campaignId },
+      });
+
+      const now = new Date();
+      assertCampaignTransition(existing, status, now);
+
+      // Scheduling a campaign whose start date has passed activates it right away
+      const nextStatus =
+        status === 'SCHEDULED' && existing.startDate <= now ? 'ACTIVE' : status;
+
+      // Guard against a concurrent transition
+      const { count } = await ctx.db.campaign.updateMany({
+        where: { id: campaignId, status: existing.status },
+        data: { status: nextStatus, active: nextStatus === 'ACTIVE' },
+      });
+
+      if (count === 0) {
+        throw new TRPCError({
+          code: 'CONFLICT',
+          message: 'Campaign status was changed by another request',
+        });
+      }
+
+      // Create audit log
+      await createAuditLog(ctx.db, ctx.session, {
+        action: nextStatus === 'ACTIVE' ? 'ACTIVATE' : nextStatus === 'PAUSED' ? 'SUSPEND' : 'UPDATE',
+        resource: 'campaign',
+        resourceId: campaignId,
+        changesBefore: { status: existing.status },
+        changesAfter: { status: nextStatus },
+      });
+
+      return ctx.db.campaign.findUniqueOrThrow({
+        where: { id: campaignId },
+      });
+    }),
+
+  /**
+   * Preview the rewards a receipt amount would earn (dry run)
+   * Requires 'campaigns:read' permission
+   * Evaluates tiers and limits exactly like issuance, but writes nothing
+   */
+  previewRewards: requirePermission('campaigns', 'read')
+    .input(
+      z.object({
+        shopId: z.string(),
+        amount: z.number().min(0),
+        campaignId: z.string().optional(),
+        userId: z.string().optional(),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      const { shopId, amount, campaignId, userId } = input;
+
+      // Validate tenant access
+      validateTenantAccess(ctx.session, shopId);
+
+      const evaluations = await previewCampaignRewards(ctx.db, shopId, amount, {
+        campaignId,
+        userId,
+      });
+
+      return {
+        amount,
+        evaluations,
+        totalRewardValue: evaluations
+          .filter((evaluation) => evaluation.eligible)
+          .reduce((sum, evaluation) => sum + evaluation.rewardValue, 0),
+      };
+    }),
+});
@@ -0,0 +1,471 @@
+/**
+ * GDPR tRPC Router
+ *
+ * Handles data subject requests (export, erasure) and data retention for
+ * uploaded receipts. Tenant-scoped: shop admins only see their own shop's data.
+ *
+ * Users can always file requests about their own data. Acting on another
+ * user's data requires 'users:read' plus the GDPR permission for the request
+ * type ('gdpr:export_data' / 'gdpr:delete_data').
+ *
+ * Endpoints:
+ * - createRequest: File an export or erasure request (exports are processed immediately)
+ * - listRequests: List requests with status/deadline filters and offset pagination
+ *   (own requests only without 'gdpr:delete_data')
+ * - getRequest: Get a single request
+ * - processRequest: Process a pending or failed request (erasure is irreversible)
+ * - rejectRequest: Reject a pending request with a reason
+ * - getExportDownloadUrl: Get a short-lived signed URL for a completed export
+ * - retentionReport: Dry run listing receipts the retention sweeper will
+ *   delete within the next N days (default 7)
+ * - runRetentionSweep: Run the retention sweep now (super admin only;
+ *   normally runs on GDPR_CONFIG.AUTO_DELETE_CRON)
+ */
+
+import { TRPCError } from '@trpc/server';
+import { z } from 'zod';
+import type { GdprRequest, Prisma, PrismaClient } from '@shop-rewards/db';
+import { createTRPCRouter, protectedProcedure, superAdminProcedure, type Session } from '../trpc';
+import {
+  createGdprRequestSchema,
+  gdprRequestFiltersSchema,
+  rejectGdprRequestSchema,
+  retentionReportSchema,
+  runRetentionSweepSchema,
+} from '@shop-rewards/shared/validators';
+import { GDPR_CONFIG } from '@shop-rewards/shared/constants';
+import { hasPermission, requirePermission } from '../lib/permissions';
+import { optionalTenantFilter, validateTenantAccess } from '../lib/tenant-filter';
+import { createAuditLog } from '../lib/audit';
+import { createDownloadUrl } from '../lib/storage';
+import { eraseUserData, storeUserExport } from '../lib/gdpr-requests';
+import { getRetentionReport, runRetentionSweep } from '../lib/gdpr-retention';
+
+/**
+ * Permission required to act on another user's data, per request type
+ */
+const REQUEST_PERMISSIONS = {
+  EXPORT: 'export_data',
+  ERASURE: 'delete_data',
+} as const;
+
+/**
+ * Statuses that still need action (count towards the deadline)
+ */
+const OPEN_STATUSES = ['PENDING', 'PROCESSING', 'FAILED'] as const;
+
+/**
+ * Ensure the session may act on a data subject's requests
+ * Users may always act on their own data.
+ *
+ * @throws TRPCError FORBIDDEN if the session lacks permission or tenant access
+ */
+async function assertCanActOnSubject(
+  session: Session,
+  db: PrismaClient,
+  subject: { id: string; shopId: string | null },
+  type: keyof typeof REQUEST_PERMISSIONS
+): Promise<void> {
+  if (subject.id === session.userId) {
+    return;
+  }
+
+  validateTenantAccess(session, subject.shopId);
+
+  const [canReadUsers, canActOnData] = await Promise.all([
+    hasPermission(session, db, 'users', 'read'),
+    hasPermission(session, db, 'gdpr', REQUEST_PERMISSIONS[type]),
+  ]);
+
+  if (!canReadUsers || !canActOnData) {
+    throw new TRPCError({
+      code: 'FORBIDDEN',
+      message: `Missing required permissions: users:read, gdpr:${REQUEST_PERMISSIONS[type]}`,
+    });
+  }
+}
+
+/**
+ * Add the computed overdue flag to a request
+ */
+function withDeadline<T extends Pick<GdprRequest, 'status' | 'dueAt'>>(request: T) {
+  return {
+    ...request,
+    isOverdue:
+      (OPEN_STATUSES as readonly string[]).includes(request.status) && request.dueAt < new Date(),
+  };
+}
+
+/**
+ * Process a request: build the export or erase the subject's data
+ * Claims the request with a conditional update so it runs only once.
+ */
+async function processGdprRequest(
+  db: PrismaClient,
+  session: Session,
+  request: GdprRequest
+): Promise<GdprRequest> {
+  const { count } = await db.gdprRequest.updateMany({
+    where: { id: request.id, status: { in: ['PENDING', 'FAILED'] } },
+    data: { status: 'PROCESSING', processedBy: session.userId, failureReason: null },
+  });
+
+  if (count === 0) {
+    throw new TRPCError({
+      code: 'CONFLICT',
+      message: 'Request is already being processed or has been closed',
+    });
+  }
+
+  try {
+    if (request.type === 'EXPORT') {
+      const { exportPath, exportHash, summary } = await storeUserExport(db, request);
+
+      const completed = await db.gdprRequest.update({
+        where: { id: request.id },
+        data: {
+          status: 'COMPLETED',
+          completedAt: new Date(),
+          exportPath,
+          exportHash,
+          // Plain copy: the summary interfaces lack the index signature of Prisma's Json input
+          result: { ...summary },
+        },
+      });
+
+      await createAuditLog(db, session, {
+        action: 'EXPORT',
+        resource: 'user',
+        resourceId: request.userId,
+        changesAfter: { requestId: request.id, ...summary },
+      });
+
+      return completed;
+    }
+
+    const summary = await eraseUserData(db, request.userId);
+
+    const completed = await db.gdprRequest.update({
+      where: { id: request.id },
+      data: {
+        status: 'COMPLETED',
+        completedAt: new Date(),
+        result: { ...summary },
+      },
+    });
+
+    await createAuditLog(db, session, {
+      action: 'DELETE',
+      resource: 'user',
+      resourceId: request.userId,
+      changesAfter: { requestId: request.id, erased: true, ...summary },
+    });
+
+    return completed;
+  } catch (error) {
+    console.error('[GDPR] Request processing failed:', { requestId: request.id, error });
+
+    await db.gdprRequest.update({
+      where: { id: request.id },
+      data: {
+        status: 'FAILED',
+        failureReason: error instanceof Error ? error.message : String(error),
+      },
+    });
+
+    throw new TRPCError({
+      code: 'INTERNAL_SERVER_ERROR',
+      message: 'Failed to process request; it can be retried',
+    });
+  }
+}
+
+/**
+ * Load a request and check access to its data subject
+ */
+async function getAccessibleRequest(
+  db: PrismaClient,
+  session: Session,
+  requestId: string
+): Promise<GdprRequest> {
+  const request = await db.gdprRequest.findUnique({ where: { id: requestId } });
+
+  if (!request) {
+    throw new TRPCError({
+      code: 'NOT_FOUND',
+      message: 'Request not found',
+    });
+  }
+
+  await assertCanActOnSubject(
+    session,
+    db,
+    { id: request.userId, shopId: request.shopId },
+    request.type
+  );
+
+  return request;
+}
+
+export const gdprRouter = createTRPCRouter({
+  /**
+   * File a data subject request
+   * Exports are processed immediately; erasure waits for an administrator
+   */
+  createRequest: protectedProcedure
+    .input(createGdprRequestSchema)
+    .mutation(async ({ ctx, input }) => {
+      const subjectId = input.userId ?? ctx.session.userId;
+
+      const subject = await ctx.db.user.findFirst({
+        where: { id: subjectId, deletedAt: null },
+        select: { id: true, shopId: true, isSuperAdmin: true },
+      });
+
+      if (!subject) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'User not found',
+        });
+      }
+
+      await assertCanActOnSubject(ctx.session, ctx.db, subject, input.type);
+
+      if (input.type === 'ERASURE' && subject.isSuperAdmin) {
+        throw new TRPCError({
+          code: 'FORBIDDEN',
+          message: 'Super admin accounts cannot be erased; remove super admin access first',
+        });
+      }
+
+      const open = await ctx.db.gdprRequest.findFirst({
+        where: { userId: subject.id, type: input.type, status: { in: [...OPEN_STATUSES] } },
+        select: { id: true },
+      });
+
+      if (open) {
+        throw new TRPCError({
+          code: 'CONFLICT',
+          message: 'An open request of this type already exists for this user',
+        });
+      }
+
+      const request = await ctx.db.gdprRequest.create({
+        data: {
+          type: input.type,
+          userId: subject.id,
+          shopId: subject.shopId,
+          requestedBy: ctx.session.userId,
+          reason: input.reason,
+          dueAt: new Date(Date.now() + GDPR_CONFIG.REQUEST_DEADLINE_DAYS * 24 * 60 * 60 * 1000),
+        },
+      });
+
+      await createAuditLog(ctx.db, ctx.session, {
+        action: 'CREATE',
+        resource: 'gdpr_request',
+        resourceId: request.id,
+        changesAfter: {
+          type: request.type,
+          userId: request.userId,
+          dueAt: request.dueAt.toISOString(),
+        },
+      });
+
+      if (request.type === 'EXPORT') {
+        return withDeadline(await processGdprRequest(ctx.db, ctx.session, request));
+      }
+
+      return withDeadline(request);
+    }),
+
+  /**
+   * List data subject requests
+   * With 'gdpr:delete_data': all requests in the tenant; otherwise own requests only
+   */
+  listRequests: protectedProcedure
+    .input(gdprRequestFiltersSchema)
+    .query(async ({ ctx, input }) => {
+      const { shopId, userId, type, status, overdue, limit, offset } = input;
+
+      const isAdmin = await hasPermission(ctx.session, ctx.db, 'gdpr', 'delete_data');
+
+      const where: Prisma.GdprRequestWhereInput = isAdmin
+        ? { ...optionalTenantFilter(ctx.session, shopId) }
+        : { userId: ctx.session.userId };
+
+      if (isAdmin && userId) {
+        where.userId = userId;
+      }
+
+      if (type) {
+        where.type = type;
+      }
+
+      if (status) {
+        where.status = status;
+      }
+
+      if (overdue) {
+        where.dueAt = { lt: new Date() };
+        where.status = status ?? { in: [...OPEN_STATUSES] };
+      }
+
+      const [items, total] = await Promise.all([
+        ctx.db.gdprRequest.findMany({
+          where,
+          include: {
+            user: {
+              select: {
+                id: true,
+                email: true,
+                name: true,
+              },
+            },
+          },
+          orderBy: { dueAt: 'asc' },
+          take: limit,
+          skip: offset,
+        }),
+        ctx.db.gdprRequest.count({ where }),
+      ]);
+
+      return {
+        items: items.map(withDeadline),
+        total,
+        limit,
+        offset,
+        hasMore: offset + limit < total,
+      };
+    }),
+
+  /**
+   * Get a single request
+   */
+  getRequest: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .query(async ({ ctx, input }) => {
+      return withDeadline(await getAccessibleRequest(ctx.db, ctx.session, input.id));
+    }),
+
+  /**
+   * Process a pending or failed request
+   * Requires 'gdpr:export_data' (export) or 'gdpr:delete_data' (erasure)
+   */
+  processRequest: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const request = await getAccessibleRequest(ctx.db, ctx.session, input.id);
+      const permission = REQUEST_PERMISSIONS[request.type];
+
+      if (!(await hasPermission(ctx.session, ctx.db, 'gdpr', permission))) {
+        throw new TRPCError({
+          code: 'FORBIDDEN',
+          message: `Missing required permission: gdpr:${permission}`,
+        });
+      }
+
+      // Erasure must be carried out by an administrator, not self-approved
+      if (request.type === 'ERASURE' && request.userId === ctx.session.userId) {
+        throw new TRPCError({
+          code: 'FORBIDDEN',
+          message: 'Erasure requests must be processed by another administrator',
+        });
+      }
+
+      return withDeadline(await processGdprRequest(ctx.db, ctx.session, request));
+    }),
+
+  /**
+   * Reject a pending request
+   * Requires 'gdpr:delete_data' permission
+   */
+  rejectRequest: requirePermission('gdpr', 'delete_data')
+    .input(rejectGdprRequestSchema)
+    .mutation(async ({ ctx, input }) => {
+      const request = await getAccessibleRequest(ctx.db, ctx.session, input.requestId);
+
+      const { count } = await ctx.db.gdprRequest.updateMany({
+        where: { id: request.id, status: { in: ['PENDING', 'FAILED'] } },
+        data: {
+          status: 'REJECTED',
+          processedBy: ctx.session.userId,
+          completedAt: new Date(),
+          failureReason: input.reason,
+        },
+      });
+
+      if (count === 0) {
+        throw new TRPCError({
+          code: 'CONFLICT',
+          message: 'Only pending or failed requests can be rejected',
+        });
+      }
+
+      await createAuditLog(ctx.db, ctx.session, {
+        action: 'REJECT',
+        resource: 'gdpr_request',
+        resourceId: request.id,
+        changesBefore: { status: request.status },
+        changesAfter: { status: 'REJECTED', reason: input.reason },
+      });
+
+      return withDeadline(
+        await ctx.db.gdprRequest.findUniqueOrThrow({ where: { id: request.id } })
+      );
+    }),
+
+  /**
+   * Get a signed download URL for a completed export
+   */
+  getExportDownloadUrl: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const request = await getAccessibleRequest(ctx.db, ctx.session, input.id);
+
+      if (request.type !== 'EXPORT' || request.status !== 'COMPLETED' || !request.exportPath) {
+        throw new TRPCError({
+          code: 'PRECONDITION_FAILED',
+          message: 'Export is not available',
+        });
+      }
+
+      return createDownloadUrl({
+        path: request.exportPath,
+        sha256: request.exportHash,
+        contentType: 'application/zip',
+        fileName: `gdpr-export-${request.id}.zip`,
+      });
+    }),
+
+  /**
+   * Retention dry-run report
+   * Requires 'gdpr:delete_data' permission
+   */
+  retentionReport: requirePermission('gdpr', 'delete_data')
+    .input(retentionReportSchema)
+    .query(async ({ ctx, input }) => {
+      const { shopId } = optionalTenantFilter(ctx.session, input.shopId);
+
+      return getRetentionReport(ctx.db, {
+        asOf: new Date(Date.now() + input.days * 24 * 60 * 60 * 1000),
+        shopId,
+        limit: input.limit,
+      });
+    }),
+
+  /**
+   * Run the retention sweep immediately
+   * Super admin only
+   */
+  runRetentionSweep: superAdminProcedure
+    .input(runRetentionSweepSchema)
+    .mutation(async ({ ctx, input }) => {
+      console.log('[GDPR] Manual retention sweep', {
+        userId: ctx.session.userId,
+        shopId: input.shopId ?? 'all',
+      });
+
+      return runRetentionSweep(ctx.db, { shopId: input.shopId });
+    }),
+});
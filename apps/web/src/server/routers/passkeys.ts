@@ -0,0 +1,218 @@
+/**
+ * Passkeys tRPC Router
+ *
+ * WebAuthn passkeys and security keys of the signed-in user. A registered
+ * passkey is a second factor alongside the authenticator app (TOTP) and can
+ * also be used for passwordless sign-in (see auth.passkeyLoginOptions).
+ *
+ * Endpoints:
+ * - list: List the caller's passkeys
+ * - registrationOptions: Start registering a new passkey
+ * - register: Verify the browser's response and store the passkey
+ * - authenticationOptions: Start a passkey assertion for auth.stepUp
+ * - rename: Rename one of the caller's passkeys
+ * - remove: Remove one of the caller's passkeys (requires a step-up token)
+ *
+ * Passkey management acts on the signed-in user only, never on a client-supplied user ID.
+ */
+
+import { TRPCError } from '@trpc/server';
+import { z } from 'zod';
+import { createTRPCRouter, protectedProcedure } from '../trpc';
+import { createAuditLog } from '../lib/audit';
+import { assertStepUp } from '../lib/step-up';
+import { getClientInfo } from '@/lib/auth/session.service';
+import {
+  createAuthenticationOptions,
+  createRegistrationOptions,
+  registrationResponseSchema,
+  syncMFAEnabled,
+  verifyRegistration,
+} from '@/lib/auth/webauthn.service';
+
+/**
+ * Passkey label schema
+ */
+const passkeyNameSchema = z.string().trim().min(1, 'Name is required').max(64);
+
+/**
+ * Register passkey schema
+ */
+const registerPasskeySchema = z.object({
+  challengeToken: z.string().min(1, 'Passkey challenge token is required'),
+  response: registrationResponseSchema,
+  name: passkeyNameSchema,
+});
+
+/**
+ * Rename passkey schema
+ */
+const renamePasskeySchema = z.object({
+  id: z.string(),
+  name: passkeyNameSchema,
+});
+
+/**
+ * Remove passkey schema
+ */
+const removePasskeySchema = z.object({
+  id: z.string(),
+  stepUpToken: z.string().min(1, 'Step-up token is required'),
+});
+
+export const passkeysRouter = createTRPCRouter({
+  /**
+   * List the caller's passkeys
+   */
+  list: protectedProcedure.query(async ({ ctx }) => {
+    return ctx.db.webAuthnCredential.findMany({
+      where: { userId: ctx.session.userId },
+      select: {
+        id: true,
+        name: true,
+        deviceType: true,
+        backedUp: true,
+        createdAt: true,
+        lastUsedAt: true,
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+  }),
+
+  /**
+   * Start registering a new passkey for the caller
+   */
+  registrationOptions: protectedProcedure.mutation(async ({ ctx }) => {
+    const user = await ctx.db.user.findUniqueOrThrow({
+      where: { id: ctx.session.userId },
+    });
+
+    return createRegistrationOptions(ctx.db, user);
+  }),
+
+  /**
+   * Verify a registration response and store the passkey
+   * Enables MFA for the caller if it was off.
+   */
+  register: protectedProcedure
+    .input(registerPasskeySchema)
+    .mutation(async ({ input, ctx }) => {
+      console.log('[Passkeys] Registration:', ctx.session.userId);
+
+      let credential: Awaited<ReturnType<typeof verifyRegistration>>;
+
+      try {
+        credential = await verifyRegistration(
+          ctx.db,
+          ctx.session.userId,
+          input.challengeToken,
+          input.response,
+          input.name
+        );
+      } catch (error) {
+        console.warn('[Passkeys] Registration failed:', error);
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'Passkey could not be registered. Please try again.',
+        });
+      }
+
+      const mfaEnabled = await syncMFAEnabled(ctx.db, ctx.session.userId);
+      const client = getClientInfo(ctx.headers);
+
+      await createAuditLog(ctx.db, ctx.session, {
+        action: 'UPDATE',
+        resource: 'user',
+        resourceId: ctx.session.userId,
+        changesAfter: { passkeyAdded: credential.name, mfaEnabled },
+        ipAddress: client.ipAddress,
+        userAgent: client.userAgent,
+      });
+
+      return {
+        id: credential.id,
+        name: credential.name,
+        mfaEnabled,
+      };
+    }),
+
+  /**
+   * Start a passkey assertion for auth.stepUp
+   */
+  authenticationOptions: protectedProcedure.mutation(async ({ ctx }) => {
+    try {
+      return await createAuthenticationOptions(ctx.db, ctx.session.userId);
+    } catch {
+      throw new TRPCError({
+        code: 'BAD_REQUEST',
+        message: 'No passkeys are registered for this account',
+      });
+    }
+  }),
+
+  /**
+   * Rename one of the caller's passkeys
+   */
+  rename: protectedProcedure
+    .input(renamePasskeySchema)
+    .mutation(async ({ input, ctx }) => {
+      const { count } = await ctx.db.webAuthnCredential.updateMany({
+        where: { id: input.id, userId: ctx.session.userId },
+        data: { name: input.name },
+      });
+
+      if (count === 0) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Passkey not found',
+        });
+      }
+
+      return { success: true };
+    }),
+
+  /**
+   * Remove one of the caller's passkeys
+   * Requires a step-up token. MFA is turned off when the last factor is removed.
+   */
+  remove: protectedProcedure
+    .input(removePasskeySchema)
+    .mutation(async ({ input, ctx }) => {
+      console.log('[Passkeys] Removal request:', ctx.session.userId);
+
+      await assertStepUp(ctx.session, input.stepUpToken);
+
+      const credential = await ctx.db.webAuthnCredential.findFirst({
+        where: { id: input.id, userId: ctx.session.userId },
+      });
+
+      if (!credential) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Passkey not found',
+        });
+      }
+
+      await ctx.db.webAuthnCredential.delete({
+        where: { id: credential.id },
+      });
+
+      const mfaEnabled = await syncMFAEnabled(ctx.db, ctx.session.userId);
+      const client = getClientInfo(ctx.headers);
+
+      await createAuditLog(ctx.db, ctx.session, {
+        action: 'UPDATE',
+        resource: 'user',
+        resourceId: ctx.session.userId,
+        changesBefore: { passkeyRemoved: credential.name },
+        changesAfter: { mfaEnabled },
+        ipAddress: client.ipAddress,
+        userAgent: client.userAgent,
+      });
+
+      return {
+        success: true,
+        mfaEnabled,
+      };
+    }),
+});
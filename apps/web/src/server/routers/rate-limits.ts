@@ -0,0 +1,86 @@
+/**
+ * Rate Limits tRPC Router
+ *
+ * Per-shop overrides of the RATE_LIMITS budgets enforced by rateLimit().
+ * Shop admins can view their shop's budgets; only super admins change them.
+ *
+ * Endpoints:
+ * - getSettings: Get default, override and effective budget per limit for a shop
+ * - updateSettings: Set or clear a shop's override for one limit
+ */
+
+import { z } from 'zod';
+import { RATE_LIMITS } from '@shop-rewards/shared/constants';
+import { createTRPCRouter, superAdminProcedure } from '../trpc';
+import { requirePermission } from '../lib/permissions';
+import { validateTenantAccess } from '../lib/tenant-filter';
+import { createAuditLog } from '../lib/audit';
+import {
+  getRateLimitOverride,
+  rateLimitBudgetSchema,
+  setRateLimitOverride,
+  type RateLimitName,
+} from '../lib/rate-limit';
+
+const RATE_LIMIT_NAMES = Object.keys(RATE_LIMITS) as [RateLimitName, ...RateLimitName[]];
+
+/**
+ * Update override schema (null budget restores the default)
+ */
+const updateRateLimitSchema = z.object({
+  shopId: z.string(),
+  name: z.enum(RATE_LIMIT_NAMES),
+  budget: rateLimitBudgetSchema.nullable(),
+});
+
+export const rateLimitsRouter = createTRPCRouter({
+  /**
+   * Get rate limit budgets for a shop
+   * Requires 'config:read' permission
+   */
+  getSettings: requirePermission('config', 'read')
+    .input(z.object({ shopId: z.string() }))
+    .query(async ({ ctx, input }) => {
+      // Validate tenant access
+      validateTenantAccess(ctx.session, input.shopId);
+
+      return Promise.all(
+        RATE_LIMIT_NAMES.map(async (name) => {
+          const override = await getRateLimitOverride(ctx.db, input.shopId, name);
+
+          return {
+            name,
+            default: RATE_LIMITS[name],
+            override,
+            effective: override ?? RATE_LIMITS[name],
+          };
+        })
+      );
+    }),
+
+  /**
+   * Set or clear a shop's override for one limit
+   * Super admin only (shops must not raise their own limits)
+   */
+  updateSettings: superAdminProcedure
+    .input(updateRateLimitSchema)
+    .mutation(async ({ ctx, input }) => {
+      const { shopId, name, budget } = input;
+
+      const previous = await getRateLimitOverride(ctx.db, shopId, name);
+      await setRateLimitOverride(ctx.db, shopId, name, budget);
+
+      // Create audit log
+      await createAuditLog(ctx.db, ctx.session, {
+        action: 'UPDATE',
+        resource: 'config',
+        resourceId: shopId,
+        changesBefore: { rateLimit: name, override: previous },
+        changesAfter: { rateLimit: name, override: budget },
+      });
+
+      console.log('[RateLimits] Override updated:', { shopId, name, budget });
+
+      return { shopId, name, override: budget, effective: budget ?? RATE_LIMITS[name] };
+    }),
+});
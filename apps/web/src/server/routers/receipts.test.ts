@@ -0,0 +1,386 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { asSystem, type Receipt, type Shop, type User } from '@shop-rewards/db';
+import {
+  createTestDatabase,
+  createTestReceipt,
+  createTestShop,
+  createTestUser,
+  grantTestPermissions,
+  type TestDatabase,
+  type TestDatabaseOptions,
+} from '@shop-rewards/db/testing';
+
+import { createCallerFactory, type Session } from '../trpc';
+import { receiptsRouter } from './receipts';
+
+const createCaller = createCallerFactory(receiptsRouter);
+
+// Lets a test make voucher issuing fail part-way through a review
+const qrCodeFailure = vi.hoisted(() => ({ error: null as Error | null }));
+
+vi.mock('../lib/vouchers', async (importOriginal) => {
+  const original = await importOriginal<typeof import('../lib/vouchers')>();
+
+  return {
+    ...original,
+    generateVoucherQrCode: async (...args: Parameters<typeof original.generateVoucherQrCode>) => {
+      if (qrCodeFailure.error) throw qrCodeFailure.error;
+      return original.generateVoucherQrCode(...args);
+    },
+  };
+});
+
+/**
+ * Each layer of tenant isolation must keep shops apart on its own
+ */
+const ISOLATION_LAYERS: Array<[name: string, options: TestDatabaseOptions]> = [
+  ['middleware and RLS', {}],
+  ['Prisma middleware only', { rowLevelSecurity: false }],
+  ['Postgres RLS only', { tenantIsolation: false }],
+];
+
+describe.each(ISOLATION_LAYERS)('receipts tenant isolation (%s)', (_name, options) => {
+  let testDb: TestDatabase;
+  let shopA: Shop;
+  let adminA: User;
+  let receiptA: Receipt;
+  let receiptB: Receipt;
+
+  const callerFor = (user: User) => {
+    const session: Session = {
+      userId: user.id,
+      shopId: user.shopId,
+      roles: ['shop_admin'],
+      isSuperAdmin: false,
+      sessionId: `session-${user.id}`,
+      restriction: null,
+    };
+
+    return createCaller({ headers: new Headers(), db: testDb.db, session });
+  };
+
+  beforeAll(async () => {
+    testDb = await createTestDatabase(options);
+    shopA = await createTestShop(testDb.db, 'shop-a');
+    const shopB = await createTestShop(testDb.db, 'shop-b');
+    adminA = await createTestUser(testDb.db, shopA.id);
+    const customerB = await createTestUser(testDb.db, shopB.id);
+    receiptA = await createTestReceipt(testDb.db, shopA.id, adminA.id);
+    receiptB = await createTestReceipt(testDb.db, shopB.id, customerB.id);
+
+    await grantTestPermissions(testDb.db, adminA.id, shopA.id, [['receipts', 'read']]);
+  });
+
+  afterAll(async () => {
+    await testDb?.close();
+  });
+
+  it('lists only receipts of the admin’s shop', async () => {
+    const result = await callerFor(adminA).list({});
+
+    expect(result.receipts.map((receipt) => receipt.id)).toEqual([receiptA.id]);
+    expect(result.total).toBe(1);
+  });
+
+  it('ignores a request for another shop’s receipts', async () => {
+    const result = await callerFor(adminA).list({ shopId: receiptB.shopId });
+
+    expect(result.receipts.map((receipt) => receipt.shopId)).toEqual([shopA.id]);
+  });
+
+  it('does not load another shop’s receipt by id', async () => {
+    // getById only checks the shop after loading, so FORBIDDEN would mean the row was read
+    await expect(callerFor(adminA).getById({ id: receiptB.id })).rejects.toMatchObject({
+      code: 'NOT_FOUND',
+    });
+    await expect(callerFor(adminA).getDownloadUrl({ id: receiptB.id })).rejects.toMatchObject({
+      code: 'NOT_FOUND',
+    });
+  });
+
+  it('still loads the admin’s own receipt by id', async () => {
+    const receipt = await callerFor(adminA).getById({ id: receiptA.id });
+
+    expect(receipt.id).toBe(receiptA.id);
+  });
+});
+
+describe('receipts review', () => {
+  let testDb: TestDatabase;
+  let reviewer: User;
+
+  const caller = () =>
+    createCaller({
+      headers: new Headers(),
+      db: testDb.db,
+      session: {
+        userId: reviewer.id,
+        shopId: reviewer.shopId,
+        roles: ['shop_admin'],
+        isSuperAdmin: false,
+        sessionId: `session-${reviewer.id}`,
+        restriction: null,
+      },
+    });
+
+  beforeAll(async () => {
+    testDb = await createTestDatabase();
+    const shop = await createTestShop(testDb.db, 'review-shop');
+    reviewer = await createTestUser(testDb.db, shop.id);
+
+    await grantTestPermissions(testDb.db, reviewer.id, shop.id, [
+      ['receipts', 'verify'],
+      ['receipts', 'reject'],
+      ['receipts', 'update'],
+    ]);
+  });
+
+  afterAll(async () => {
+    await testDb?.close();
+  });
+
+  it('does not let a rejected receipt be verified later', async () => {
+    const receipt = await createTestReceipt(testDb.db, reviewer.shopId!, reviewer.id, {
+      status: 'MANUAL_REVIEW',
+    });
+
+    await caller().review({ receiptId: receipt.id, status: 'REJECTED' });
+
+    await expect(
+      caller().review({ receiptId: receipt.id, status: 'VERIFIED' })
+    ).rejects.toMatchObject({ code: 'BAD_REQUEST' });
+    await expect(
+      caller().updateOcr({ receiptId: receipt.id, status: 'OCR_COMPLETED' })
+    ).rejects.toMatchObject({ code: 'BAD_REQUEST' });
+  });
+
+  it('lets only one of two concurrent reviews through', async () => {
+    const receipt = await createTestReceipt(testDb.db, reviewer.shopId!, reviewer.id, {
+      status: 'MANUAL_REVIEW',
+    });
+
+    const results = await Promise.allSettled([
+      caller().review({ receiptId: receipt.id, status: 'REJECTED' }),
+      caller().review({ receiptId: receipt.id, status: 'FRAUDULENT' }),
+    ]);
+
+    expect(results.filter((result) => result.status === 'fulfilled')).toHaveLength(1);
+  });
+
+  it('does not mark a receipt as reviewed through updateOcr', async () => {
+    const receipt = await createTestReceipt(testDb.db, reviewer.shopId!, reviewer.id, {
+      status: 'OCR_COMPLETED',
+    });
+
+    await expect(
+      caller().updateOcr({ receiptId: receipt.id, status: 'VERIFIED' })
+    ).rejects.toMatchObject({ code: 'BAD_REQUEST' });
+  });
+});
+
+describe('receipt file hash uniqueness', () => {
+  let testDb: TestDatabase;
+  let shop: Shop;
+  let customer: User;
+
+  beforeAll(async () => {
+    testDb = await createTestDatabase();
+    shop = await createTestShop(testDb.db, 'file-hash-shop');
+    customer = await createTestUser(testDb.db, shop.id);
+  });
+
+  afterAll(async () => {
+    await testDb?.close();
+  });
+
+  it('allows a file once among the shop’s live receipts', async () => {
+    await createTestReceipt(testDb.db, shop.id, customer.id, { fileHash: 'live-file' });
+
+    await expect(
+      createTestReceipt(testDb.db, shop.id, customer.id, { fileHash: 'live-file' })
+    ).rejects.toMatchObject({ code: 'P2002' });
+  });
+
+  it('lets a file be uploaded again while its receipt awaits purging', async () => {
+    const deleted = await createTestReceipt(testDb.db, shop.id, customer.id, {
+      fileHash: 'deleted-file',
+      deletedAt: new Date(),
+    });
+
+    const reuploaded = await createTestReceipt(testDb.db, shop.id, customer.id, {
+      fileHash: 'deleted-file',
+    });
+
+    expect(reuploaded.id).not.toBe(deleted.id);
+    expect(
+      await asSystem('test', () =>
+        testDb.db.receipt.count({ where: { shopId: shop.id, fileHash: 'deleted-file' } })
+      )
+    ).toBe(2);
+  });
+});
+
+describe('receipts verification rewards', () => {
+  let testDb: TestDatabase;
+  let shop: Shop;
+  let reviewer: User;
+
+  const caller = () =>
+    createCaller({
+      headers: new Headers(),
+      db: testDb.db,
+      session: {
+        userId: reviewer.id,
+        shopId: shop.id,
+        roles: ['shop_admin'],
+        isSuperAdmin: false,
+        sessionId: `session-${reviewer.id}`,
+        restriction: null,
+      },
+    });
+
+  const loadReceipt = (id: string) =>
+    asSystem('test', () =>
+      testDb.db.receipt.findUniqueOrThrow({ where: { id }, include: { vouchers: true } })
+    );
+
+  beforeAll(async () => {
+    testDb = await createTestDatabase();
+    shop = await createTestShop(testDb.db, 'rewards-shop');
+    reviewer = await createTestUser(testDb.db, shop.id);
+
+    await grantTestPermissions(testDb.db, reviewer.id, shop.id, [['receipts', 'verify']]);
+    await asSystem('test', () =>
+      testDb.db.campaign.create({
+        data: {
+          shopId: shop.id,
+          name: 'Welcome',
+          status: 'ACTIVE',
+          active: true,
+          startDate: new Date(Date.now() - 60 * 60 * 1000),
+          endDate: new Date(Date.now() + 24 * 60 * 60 * 1000),
+          rules: {
+            rewardRules: [{ minAmount: 0, discountType: 'FIXED_AMOUNT', discountValue: 5 }],
+            maxRewardsPerUser: 10,
+          },
+        },
+      })
+    );
+  });
+
+  afterEach(() => {
+    qrCodeFailure.error = null;
+  });
+
+  afterAll(async () => {
+    await testDb?.close();
+  });
+
+  it('issues the campaign voucher with the verification', async () => {
+    const receipt = await createTestReceipt(testDb.db, shop.id, reviewer.id, {
+      status: 'MANUAL_REVIEW',
+    });
+
+    const reviewed = await caller().review({
+      receiptId: receipt.id,
+      status: 'VERIFIED',
+      manualTotal: 20,
+    });
+
+    expect(reviewed.issuedVouchers).toHaveLength(1);
+    expect(await loadReceipt(receipt.id)).toMatchObject({
+      status: 'VERIFIED',
+      vouchers: [expect.objectContaining({ status: 'ACTIVE' })],
+    });
+  });
+
+  it('leaves the receipt unverified when its vouchers cannot be issued', async () => {
+    const receipt = await createTestReceipt(testDb.db, shop.id, reviewer.id, {
+      status: 'MANUAL_REVIEW',
+    });
+    qrCodeFailure.error = new Error('QR code generation failed');
+
+    await expect(
+      caller().review({ receiptId: receipt.id, status: 'VERIFIED', manualTotal: 20 })
+    ).rejects.toThrow('QR code generation failed');
+    expect(await loadReceipt(receipt.id)).toMatchObject({
+      status: 'MANUAL_REVIEW',
+      vouchers: [],
+    });
+
+    qrCodeFailure.error = null;
+    await expect(
+      caller().review({ receiptId: receipt.id, status: 'VERIFIED', manualTotal: 20 })
+    ).resolves.toMatchObject({ status: 'VERIFIED', issuedVouchers: [expect.anything()] });
+  });
+});
+
+describe('receipts write scopes', () => {
+  let testDb: TestDatabase;
+  let shop: Shop;
+  let reviewer: User;
+  let customer: User;
+
+  const caller = () =>
+    createCaller({
+      headers: new Headers(),
+      db: testDb.db,
+      session: {
+        userId: reviewer.id,
+        shopId: shop.id,
+        roles: ['user'],
+        isSuperAdmin: false,
+        sessionId: `session-${reviewer.id}`,
+        restriction: null,
+      },
+    });
+
+  beforeAll(async () => {
+    testDb = await createTestDatabase();
+    shop = await createTestShop(testDb.db, 'write-scope-shop');
+    reviewer = await createTestUser(testDb.db, shop.id);
+    customer = await createTestUser(testDb.db, shop.id);
+
+    await grantTestPermissions(testDb.db, reviewer.id, shop.id, [
+      ['receipts', 'reject', 'OWN'],
+      ['receipts', 'update', 'OWN'],
+    ]);
+  });
+
+  afterAll(async () => {
+    await testDb?.close();
+  });
+
+  it('does not let OWN grants change other users’ receipts', async () => {
+    const receipt = await createTestReceipt(testDb.db, shop.id, customer.id, {
+      status: 'MANUAL_REVIEW',
+    });
+
+    await expect(
+      caller().review({ receiptId: receipt.id, status: 'REJECTED' })
+    ).rejects.toMatchObject({ code: 'NOT_FOUND' });
+    await expect(
+      caller().updateOcr({ receiptId: receipt.id, status: 'OCR_COMPLETED' })
+    ).rejects.toMatchObject({ code: 'NOT_FOUND' });
+  });
+
+  it('lets OWN grants change the caller’s receipts', async () => {
+    const receipt = await createTestReceipt(testDb.db, shop.id, reviewer.id, {
+      status: 'MANUAL_REVIEW',
+    });
+
+    await expect(
+      caller().review({ receiptId: receipt.id, status: 'REJECTED' })
+    ).resolves.toMatchObject({ status: 'REJECTED' });
+  });
+
+  it('still requires the permission of the review outcome', async () => {
+    const receipt = await createTestReceipt(testDb.db, shop.id, reviewer.id, {
+      status: 'MANUAL_REVIEW',
+    });
+
+    await expect(
+      caller().review({ receiptId: receipt.id, status: 'VERIFIED' })
+    ).rejects.toMatchObject({ code: 'FORBIDDEN' });
+  });
+});
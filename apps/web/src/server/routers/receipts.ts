@@ -0,0 +1,654 @@
+/**
+ * Receipts tRPC Router
+ *
+ * Handles receipt uploads, OCR status updates and the manual review workflow.
+ * Tenant-scoped: shop admins only see and review receipts from their own shop.
+ * Reads are further limited to the scope of the caller's receipts:read grant
+ * (own, department, location or whole shop; see lib/permission-scope).
+ *
+ * Endpoints:
+ * - upload: Upload a receipt image/PDF as base64 (deduplicated by SHA-256 hash)
+ *   and start OCR + fraud scoring in the background
+ * - list: List receipts with filters and offset pagination
+ * - getById: Get a single receipt with uploader and vouchers
+ * - getDownloadUrl: Get a short-lived signed URL for the receipt file
+ * - updateOcr: Record OCR processing status and extracted data
+ * - review: Verify, reject or flag a receipt as fraudulent
+ *   (verifying a receipt issues vouchers from the shop's active campaigns)
+ *
+ * Status changes follow RECEIPT_STATUS_TRANSITIONS and are written only if the
+ * status is still the one checked, so concurrent reviews cannot both succeed.
+ */
+
+import { TRPCError } from '@trpc/server';
+import { z } from 'zod';
+import { Prisma, type ReceiptStatus } from '@shop-rewards/db';
+import { createTRPCRouter, rateLimit } from '../trpc';
+import {
+  uploadReceiptSchema,
+  updateReceiptOcrSchema,
+  reviewReceiptSchema,
+  receiptFiltersSchema,
+} from '@shop-rewards/shared/validators';
+import { FILE_UPLOAD_LIMITS, STORAGE_CONFIG } from '@shop-rewards/shared/constants';
+import { extractBase64FromDataUrl, sha256Buffer } from '@shop-rewards/shared/utils';
+import { requireAnyPermission, requirePermission } from '../lib/permissions';
+import { optionalTenantFilter, validateTenantAccess } from '../lib/tenant-filter';
+import { createAuditLog } from '../lib/audit';
+import { getScopeFilter } from '../lib/permission-scope';
+import { issueCampaignRewards, withRewardTransaction } from '../lib/campaign-engine';
+import { processReceiptOcr } from '../lib/ocr';
+import { scoreReceiptFraud } from '../lib/fraud-engine';
+import {
+  createDownloadUrl,
+  getFileExtension,
+  getTenantBucket,
+  putObject,
+} from '../lib/storage';
+
+/**
+ * Build the object path for a receipt file
+ * Format: tenant-{shopId}-receipts/{fileHash}.{ext}
+ */
+function buildReceiptPath(shopId: string, fileHash: string, mimeType: string): string {
+  const bucket = getTenantBucket(shopId, STORAGE_CONFIG.RECEIPT_SUFFIX);
+  return `${bucket}/${fileHash}.${getFileExtension(mimeType)}`;
+}
+
+/**
+ * Statuses a receipt may move to from each status
+ * OCR results can be corrected until the receipt is reviewed; a review
+ * (verified, rejected or fraudulent) is final.
+ */
+const RECEIPT_STATUS_TRANSITIONS: Record<ReceiptStatus, readonly ReceiptStatus[]> = {
+  PENDING_OCR: [
+    'OCR_PROCESSING',
+    'OCR_COMPLETED',
+    'OCR_FAILED',
+    'MANUAL_REVIEW',
+    'VERIFIED',
+    'REJECTED',
+    'FRAUDULENT',
+  ],
+  OCR_PROCESSING: ['OCR_COMPLETED', 'OCR_FAILED', 'MANUAL_REVIEW'],
+  OCR_COMPLETED: ['OCR_COMPLETED', 'MANUAL_REVIEW', 'VERIFIED', 'REJECTED', 'FRAUDULENT'],
+  OCR_FAILED: [
+    'OCR_PROCESSING',
+    'OCR_COMPLETED',
+    'OCR_FAILED',
+    'MANUAL_REVIEW',
+    'VERIFIED',
+    'REJECTED',
+    'FRAUDULENT',
+  ],
+  MANUAL_REVIEW: ['OCR_COMPLETED', 'MANUAL_REVIEW', 'VERIFIED', 'REJECTED', 'FRAUDULENT'],
+  VERIFIED: [],
+  REJECTED: [],
+  FRAUDULENT: [],
+};
+
+/**
+ * Reject a status change RECEIPT_STATUS_TRANSITIONS does not allow
+ */
+function assertStatusTransition(from: ReceiptStatus, to: ReceiptStatus): void {
+  if (!RECEIPT_STATUS_TRANSITIONS[from].includes(to)) {
+    throw new TRPCError({
+      code: 'BAD_REQUEST',
+      message:
+        RECEIPT_STATUS_TRANSITIONS[from].length === 0
+          ? `Receipt has already been reviewed (${from})`
+          : `Cannot change receipt status from ${from} to ${to}`,
+    });
+  }
+}
+
+/**
+ * Write a status change only if the receipt still has the status it was checked in
+ *
+ * @throws TRPCError CONFLICT if the receipt changed in the meantime
+ */
+async function updateReceiptFromStatus(
+  db: Prisma.TransactionClient,
+  receiptId: string,
+  from: ReceiptStatus,
+  data: Prisma.ReceiptUpdateManyMutationInput
+) {
+  const { count } = await db.receipt.updateMany({
+    where: { id: receiptId, status: from, deletedAt: null },
+    data,
+  });
+
+  if (count === 0) {
+    throw new TRPCError({
+      code: 'CONFLICT',
+      message: 'Receipt was changed in the meantime. Reload it and try again.',
+    });
+  }
+
+  return db.receipt.findUniqueOrThrow({ where: { id: receiptId } });
+}
+
+/**
+ * Audit action and permission required for each review outcome
+ */
+const REVIEW_OUTCOMES = {
+  VERIFIED: { action: 'VERIFY', permission: 'verify' },
+  REJECTED: { action: 'REJECT', permission: 'reject' },
+  FRAUDULENT: { action: 'FLAG', permission: 'reject' },
+} as const;
+
+export const receiptsRouter = createTRPCRouter({
+  /**
+   * Upload a receipt
+   * Requires 'receipts:create' permission
+   * Rejects files whose SHA-256 hash was already uploaded to the same shop
+   * Rate limited per user (RATE_LIMITS.RECEIPT_UPLOAD)
+   */
+  upload: requirePermission('receipts', 'create')
+    .use(rateLimit('RECEIPT_UPLOAD'))
+    .input(uploadReceiptSchema)
+    .mutation(async ({ ctx, input }) => {
+      const { shopId, campaignId, file } = input;
+
+      // Validate tenant access
+      validateTenantAccess(ctx.session, shopId);
+
+      const shop = await ctx.db.shop.findUnique({
+        where: { id: shopId },
+        select: { id: true, dataRetentionDays: true },
+      });
+
+      if (!shop) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Shop not found',
+        });
+      }
+
+      if (campaignId) {
+        const campaign = await ctx.db.campaign.findFirst({
+          where: { id: campaignId, shopId },
+          select: { id: true },
+        });
+
+        if (!campaign) {
+          throw new TRPCError({
+            code: 'NOT_FOUND',
+            message: 'Campaign not found',
+          });
+        }
+      }
+
+      // Accept both raw base64 and data URLs
+      const base64Data =
+        extractBase64FromDataUrl(file.base64Data)?.base64Data ?? file.base64Data;
+      const buffer = Buffer.from(base64Data, 'base64');
+
+      if (buffer.length === 0) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'File data is empty or not valid base64',
+        });
+      }
+
+      if (buffer.length > FILE_UPLOAD_LIMITS.MAX_FILE_SIZE) {
+        throw new TRPCError({
+          code: 'PAYLOAD_TOO_LARGE',
+          message: 'File size must be less than 10MB',
+        });
+      }
+
+      // Deduplicate by content hash among the shop's live receipts (partial
+      // unique index); checked first to skip storing the file again
+      const fileHash = sha256Buffer(buffer);
+      const duplicateError = new TRPCError({
+        code: 'CONFLICT',
+        message: 'This receipt has already been uploaded',
+      });
+
+      const duplicate = await ctx.db.receipt.findFirst({
+        where: { shopId, fileHash, deletedAt: null },
+        select: { id: true },
+      });
+
+      if (duplicate) {
+        throw duplicateError;
+      }
+
+      // GDPR: schedule automatic deletion based on shop retention policy
+      const scheduledDeleteAt = new Date(
+        Date.now() + shop.dataRetentionDays * 24 * 60 * 60 * 1000
+      );
+
+      // Persist file bytes before the record so minioPath always resolves
+      const minioPath = buildReceiptPath(shopId, fileHash, file.mimeType);
+
+      try {
+        await putObject(minioPath, buffer, file.mimeType);
+      } catch (error) {
+        console.error('[Receipts] Failed to store receipt file:', { minioPath, error });
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to store receipt file',
+        });
+      }
+
+      let receipt;
+
+      try {
+        receipt = await ctx.db.receipt.create({
+          data: {
+            shopId,
+            userId: ctx.session.userId,
+            campaignId: campaignId || null,
+            minioPath,
+            fileHash,
+            fileName: file.filename,
+            fileSize: buffer.length,
+            mimeType: file.mimeType,
+            scheduledDeleteAt,
+          },
+        });
+      } catch (error) {
+        // Same file uploaded concurrently; the stored object is identical
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+          throw duplicateError;
+        }
+
+        throw error;
+      }
+
+      // Create audit log
+      await createAuditLog(ctx.db, ctx.session, {
+        action: 'CREATE',
+        resource: 'receipt',
+        resourceId: receipt.id,
+        changesAfter: {
+          fileName: receipt.fileName,
+          fileHash: receipt.fileHash,
+          fileSize: receipt.fileSize,
+          campaignId: receipt.campaignId,
+        },
+      });
+
+      // Run OCR and fraud scoring without blocking the upload;
+      // the receipt status tracks progress
+      void processReceiptOcr(ctx.db, receipt.id, {
+        buffer,
+        mimeType: file.mimeType,
+        fileName: file.filename,
+      })
+        .then(() => scoreReceiptFraud(ctx.db, receipt.id))
+        .catch((error) => {
+          console.error('[Receipts] Background processing failed:', {
+            receiptId: receipt.id,
+            error,
+          });
+        });
+
+      return receipt;
+    }),
+
+  /**
+   * List receipts with filtering and pagination
+   * Tenant-scoped: Shop admins see only their shop's receipts
+   * Limited to the scope of the caller's receipts:read grant
+   */
+  list: requirePermission('receipts', 'read')
+    .input(receiptFiltersSchema)
+    .query(async ({ ctx, input }) => {
+      const {
+        shopId,
+        userId,
+        campaignId,
+        status,
+        minTotal,
+        maxTotal,
+        dateFrom,
+        dateTo,
+        limit,
+        offset,
+      } = input;
+
+      // Apply tenant filtering
+      const tenantFilter = optionalTenantFilter(ctx.session, shopId);
+
+      // Build where clause
+      const where: Prisma.ReceiptWhereInput = {
+        ...tenantFilter,
+        deletedAt: null,
+        AND: [await getScopeFilter(ctx, 'receipt', 'receipts', 'read')],
+      };
+
+      if (userId) {
+        where.userId = userId;
+      }
+
+      if (campaignId) {
+        where.campaignId = campaignId;
+      }
+
+      if (status) {
+        where.status = status;
+      }
+
+      if (minTotal !== undefined || maxTotal !== undefined) {
+        where.totalAmount = {
+          ...(minTotal !== undefined ? { gte: minTotal } : {}),
+          ...(maxTotal !== undefined ? { lte: maxTotal } : {}),
+        };
+      }
+
+      if (dateFrom || dateTo) {
+        where.createdAt = {
+          ...(dateFrom ? { gte: new Date(dateFrom) } : {}),
+          ...(dateTo ? { lte: new Date(dateTo) } : {}),
+        };
+      }
+
+      const [receipts, total] = await Promise.all([
+        ctx.db.receipt.findMany({
+          where,
+          skip: offset,
+          take: limit,
+          orderBy: { createdAt: 'desc' },
+          include: {
+            user: {
+              select: {
+                id: true,
+                email: true,
+                name: true,
+              },
+            },
+            campaign: {
+              select: {
+                id: true,
+                name: true,
+              },
+            },
+          },
+        }),
+        ctx.db.receipt.count({ where }),
+      ]);
+
+      return {
+        receipts,
+        total,
+        limit,
+        offset,
+        hasMore: offset + receipts.length < total,
+      };
+    }),
+
+  /**
+   * Get receipt by ID
+   * Validates tenant access; receipts outside the caller's grant scope are not found
+   */
+  getById: requirePermission('receipts', 'read')
+    .input(z.object({ id: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const receipt = await ctx.db.receipt.findFirst({
+        where: {
+          id: input.id,
+          deletedAt: null,
+          AND: [await getScopeFilter(ctx, 'receipt', 'receipts', 'read')],
+        },
+        include: {
+          user: {
+            select: {
+              id: true,
+              email: true,
+              name: true,
+            },
+          },
+          campaign: {
+            select: {
+              id: true,
+              name: true,
+            },
+          },
+          vouchers: true,
+        },
+      });
+
+      if (!receipt) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Receipt not found',
+        });
+      }
+
+      // Validate tenant access
+      validateTenantAccess(ctx.session, receipt.shopId);
+
+      return receipt;
+    }),
+
+  /**
+   * Get a signed download URL for the receipt file
+   * Requires 'receipts:read' permission
+   * The URL expires after a few minutes and is verified against the stored file hash
+   */
+  getDownloadUrl: requirePermission('receipts', 'read')
+    .input(z.object({ id: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const receipt = await ctx.db.receipt.findFirst({
+        where: {
+          id: input.id,
+          deletedAt: null,
+          AND: [await getScopeFilter(ctx, 'receipt', 'receipts', 'read')],
+        },
+        select: {
+          id: true,
+          shopId: true,
+          minioPath: true,
+          fileHash: true,
+          fileName: true,
+          mimeType: true,
+        },
+      });
+
+      if (!receipt) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Receipt not found',
+        });
+      }
+
+      // Validate tenant access
+      validateTenantAccess(ctx.session, receipt.shopId);
+
+      return createDownloadUrl({
+        path: receipt.minioPath,
+        sha256: receipt.fileHash,
+        contentType: receipt.mimeType ?? 'application/octet-stream',
+        fileName: receipt.fileName ?? receipt.minioPath.split('/').pop()!,
+      });
+    }),
+
+  /**
+   * Record OCR processing status and results
+   * Requires 'receipts:update' permission; receipts outside its grant scope are not found
+   */
+  updateOcr: requirePermission('receipts', 'update')
+    .input(updateReceiptOcrSchema)
+    .mutation(async ({ ctx, input }) => {
+      const { receiptId, status, ocrResult, fraudScore } = input;
+
+      const existing = await ctx.db.receipt.findFirst({
+        where: {
+          id: receiptId,
+          deletedAt: null,
+          AND: [await getScopeFilter(ctx, 'receipt', 'receipts', 'update')],
+        },
+      });
+
+      if (!existing) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Receipt not found',
+        });
+      }
+
+      // Validate tenant access
+      validateTenantAccess(ctx.session, existing.shopId);
+
+      // Reviews go through review (permissions, audit action, rewards)
+      if (status in REVIEW_OUTCOMES) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: `Use review to mark a receipt as ${status}`,
+        });
+      }
+
+      assertStatusTransition(existing.status, status);
+
+      const data: Prisma.ReceiptUpdateManyMutationInput = {
+        status,
+        ocrProcessed: ['OCR_COMPLETED', 'OCR_FAILED', 'MANUAL_REVIEW'].includes(status),
+      };
+
+      if (ocrResult) {
+        data.ocrData = ocrResult;
+        data.ocrConfidence = ocrResult.confidence;
+        data.receiptNumber = ocrResult.receiptNumber ?? existing.receiptNumber;
+        data.merchantName = ocrResult.merchantName ?? existing.merchantName;
+        data.totalAmount = ocrResult.total ?? existing.totalAmount;
+        data.receiptDate = ocrResult.date ? new Date(ocrResult.date) : existing.receiptDate;
+        if (ocrResult.currency) {
+          data.currency = ocrResult.currency;
+        }
+      }
+
+      if (fraudScore !== undefined) {
+        data.fraudScore = fraudScore;
+      }
+
+      let receipt = await updateReceiptFromStatus(ctx.db, receiptId, existing.status, data);
+
+      // Re-score new OCR data unless a score was supplied
+      if (ocrResult && fraudScore === undefined) {
+        await scoreReceiptFraud(ctx.db, receiptId);
+        receipt = await ctx.db.receipt.findUniqueOrThrow({ where: { id: receiptId } });
+      }
+
+      // Create audit log
+      await createAuditLog(ctx.db, ctx.session, {
+        action: 'UPDATE',
+        resource: 'receipt',
+        resourceId: receiptId,
+        changesBefore: {
+          status: existing.status,
+          ocrConfidence: existing.ocrConfidence,
+          fraudScore: existing.fraudScore,
+        },
+        changesAfter: {
+          status: receipt.status,
+          ocrConfidence: receipt.ocrConfidence,
+          fraudScore: receipt.fraudScore,
+        },
+        isSuspicious: receipt.isSuspicious && !existing.isSuspicious,
+      });
+
+      return receipt;
+    }),
+
+  /**
+   * Review a receipt: verify, reject or flag as fraud
+   * Requires 'receipts:verify' to verify and 'receipts:reject' to reject/flag;
+   * receipts outside that grant's scope are not found
+   */
+  review: requireAnyPermission([
+    ['receipts', 'verify'],
+    ['receipts', 'reject'],
+  ])
+    .input(reviewReceiptSchema)
+    .mutation(async ({ ctx, input }) => {
+      const { receiptId, status, notes, manualTotal } = input;
+      const outcome = REVIEW_OUTCOMES[status];
+
+      // Throws FORBIDDEN without the permission this outcome needs
+      const scopeFilter = await getScopeFilter(ctx, 'receipt', 'receipts', outcome.permission);
+
+      const existing = await ctx.db.receipt.findFirst({
+        where: { id: receiptId, deletedAt: null, AND: [scopeFilter] },
+      });
+
+      if (!existing) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Receipt not found',
+        });
+      }
+
+      // Validate tenant access
+      validateTenantAccess(ctx.session, existing.shopId);
+
+      assertStatusTransition(existing.status, status);
+
+      const now = new Date();
+      const data: Prisma.ReceiptUpdateManyMutationInput = {
+        status,
+        verified: status === 'VERIFIED',
+        verifiedAt: now,
+        verifiedBy: ctx.session.userId,
+      };
+
+      if (manualTotal !== undefined) {
+        data.totalAmount = manualTotal;
+      }
+
+      if (status === 'FRAUDULENT') {
+        data.isSuspicious = true;
+        data.fraudReason = notes || 'Flagged as fraudulent during manual review';
+      }
+
+      // Verifying issues the campaign rewards in the same transaction, so a
+      // verified receipt always has its vouchers
+      const { receipt, vouchers } = await withRewardTransaction(ctx.db, async (tx) => {
+        const updated = await updateReceiptFromStatus(tx, receiptId, existing.status, data);
+
+        if (status !== 'VERIFIED') {
+          return { receipt: updated, vouchers: [] };
+        }
+
+        return { receipt: updated, ...(await issueCampaignRewards(tx, updated)) };
+      });
+
+      // Create audit log
+      await createAuditLog(ctx.db, ctx.session, {
+        action: outcome.action,
+        resource: 'receipt',
+        resourceId: receiptId,
+        changesBefore: {
+          status: existing.status,
+          verified: existing.verified,
+          totalAmount: existing.totalAmount?.toString() ?? null,
+        },
+        changesAfter: {
+          status: receipt.status,
+          verified: receipt.verified,
+          totalAmount: receipt.totalAmount?.toString() ?? null,
+          notes: notes ?? null,
+        },
+        isSuspicious: status === 'FRAUDULENT',
+      });
+
+      for (const voucher of vouchers) {
+        await createAuditLog(ctx.db, ctx.session, {
+          action: 'CREATE',
+          resource: 'voucher',
+          resourceId: voucher.id,
+          changesAfter: {
+            code: voucher.code,
+            campaignId: voucher.campaignId,
+            receiptId: voucher.receiptId,
+            type: voucher.type,
+            validUntil: voucher.validUntil,
+          },
+        });
+      }
+
+      return { ...receipt, issuedVouchers: vouchers };
+    }),
+});
@@ -0,0 +1,248 @@
+/**
+ * Redemptions tRPC Router
+ *
+ * Handles the redemption history and the high-value approval queue.
+ * Tenant-scoped: shop admins only see and review redemptions from their own shop.
+ * The list is further limited to the scope of the caller's redemptions:view
+ * grant (see lib/permission-scope).
+ *
+ * Endpoints:
+ * - list: List redemptions with filters and offset pagination
+ * - getSettings: Get the shop's high-value threshold
+ * - updateSettings: Change the shop's high-value threshold
+ * - review: Bulk approve or reject pending high-value redemptions
+ *
+ * Rejecting a redemption releases the voucher use it had reserved.
+ */
+
+import { TRPCError } from '@trpc/server';
+import { z } from 'zod';
+import { withTenantTransaction, type Prisma } from '@shop-rewards/db';
+import { createTRPCRouter } from '../trpc';
+import {
+  redemptionFiltersSchema,
+  redemptionSettingsSchema,
+  reviewRedemptionsSchema,
+} from '@shop-rewards/shared/validators';
+import { requirePermission } from '../lib/permissions';
+import { optionalTenantFilter, validateTenantAccess } from '../lib/tenant-filter';
+import { createAuditLog } from '../lib/audit';
+import { getScopeFilter } from '../lib/permission-scope';
+import { getHighValueThreshold, setHighValueThreshold } from '../lib/redemptions';
+
+export const redemptionsRouter = createTRPCRouter({
+  /**
+   * List redemptions with filtering and pagination
+   * Tenant-scoped: Shop admins see only their shop's redemptions
+   * Limited to the scope of the caller's redemptions:view grant
+   */
+  list: requirePermission('redemptions', 'view')
+    .input(redemptionFiltersSchema)
+    .query(async ({ ctx, input }) => {
+      const { shopId, userId, status, highValueOnly, limit, offset } = input;
+
+      // Apply tenant filtering
+      const tenantFilter = optionalTenantFilter(ctx.session, shopId);
+
+      // Build where clause
+      const where: Prisma.RedemptionWhereInput = {
+        ...tenantFilter,
+        AND: [await getScopeFilter(ctx, 'redemption', 'redemptions', 'view')],
+      };
+
+      if (userId) {
+        where.userId = userId;
+      }
+
+      if (status) {
+        where.status = status;
+      }
+
+      if (highValueOnly) {
+        where.isHighValue = true;
+      }
+
+      const [redemptions, total] = await Promise.all([
+        ctx.db.redemption.findMany({
+          where,
+          skip: offset,
+          take: limit,
+          // Oldest first so the approval queue is worked in arrival order
+          orderBy: { createdAt: status === 'PENDING' ? 'asc' : 'desc' },
+          include: {
+            user: {
+              select: {
+                id: true,
+                email: true,
+                name: true,
+              },
+            },
+            voucher: {
+              select: {
+                id: true,
+                code: true,
+                type: true,
+                description: true,
+              },
+            },
+          },
+        }),
+        ctx.db.redemption.count({ where }),
+      ]);
+
+      return {
+        redemptions,
+        total,
+        limit,
+        offset,
+        hasMore: offset + redemptions.length < total,
+      };
+    }),
+
+  /**
+   * Get redemption settings for a shop
+   * Requires 'redemptions:view' permission
+   */
+  getSettings: requirePermission('redemptions', 'view')
+    .input(z.object({ shopId: z.string() }))
+    .query(async ({ ctx, input }) => {
+      // Validate tenant access
+      validateTenantAccess(ctx.session, input.shopId);
+
+      return {
+        shopId: input.shopId,
+        highValueThreshold: await getHighValueThreshold(ctx.db, input.shopId),
+      };
+    }),
+
+  /**
+   * Update redemption settings for a shop
+   * Requires 'config:update' permission
+   */
+  updateSettings: requirePermission('config', 'update')
+    .input(redemptionSettingsSchema)
+    .mutation(async ({ ctx, input }) => {
+      const { shopId, highValueThreshold } = input;
+
+      // Validate tenant access
+      validateTenantAccess(ctx.session, shopId);
+
+      const previous = await getHighValueThreshold(ctx.db, shopId);
+      await setHighValueThreshold(ctx.db, shopId, highValueThreshold);
+
+      // Create audit log
+      await createAuditLog(ctx.db, ctx.session, {
+        action: 'UPDATE',
+        resource: 'config',
+        resourceId: shopId,
+        changesBefore: { highValueThreshold: previous },
+        changesAfter: { highValueThreshold },
+      });
+
+      return { shopId, highValueThreshold };
+    }),
+
+  /**
+   * Approve or reject pending high-value redemptions in bulk
+   * Requires 'redemptions:approve_high_value' permission
+   *
+   * Redemptions that are no longer pending (or belong to another shop or lie
+   * outside the caller's grant scope) are skipped and returned in `skipped`.
+   */
+  review: requirePermission('redemptions', 'approve_high_value')
+    .input(reviewRedemptionsSchema)
+    .mutation(async ({ ctx, input }) => {
+      const { redemptionIds, decision, reason } = input;
+
+      // Apply tenant filtering
+      const tenantFilter = optionalTenantFilter(ctx.session);
+
+      const pending = await ctx.db.redemption.findMany({
+        where: {
+          ...tenantFilter,
+          id: { in: redemptionIds },
+          status: 'PENDING',
+          isHighValue: true,
+          AND: [await getScopeFilter(ctx, 'redemption', 'redemptions', 'approve_high_value')],
+        },
+      });
+
+      if (pending.length === 0) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'None of the selected redemptions are pending approval',
+        });
+      }
+
+      const now = new Date();
+      const processed: string[] = [];
+
+      for (const redemption of pending) {
+        const updated = await withTenantTransaction(ctx.db, async (tx) => {
+          // Guard against a concurrent review of the same redemption
+          const { count } = await tx.redemption.updateMany({
+            where: { id: redemption.id, status: 'PENDING' },
+            data:
+              decision === 'APPROVED'
+                ? {
+                    status: 'APPROVED',
+                    approvedAt: now,
+                    approvedBy: ctx.session.userId,
+                    redeemedAt: now,
+                  }
+                : {
+                    status: 'REJECTED',
+                    rejectedAt: now,
+                    rejectionReason: reason ?? null,
+                  },
+          });
+
+          if (count === 0) {
+            return false;
+          }
+
+          if (decision === 'REJECTED') {
+            // Release the voucher use reserved at redemption time
+            const voucher = await tx.voucher.update({
+              where: { id: redemption.voucherId },
+              data: { usedCount: { decrement: 1 } },
+            });
+
+            if (voucher.status === 'REDEEMED' && voucher.usedCount < voucher.maxUses) {
+              await tx.voucher.update({
+                where: { id: voucher.id },
+                data: { status: 'ACTIVE' },
+              });
+            }
+          }
+
+          return true;
+        });
+
+        if (!updated) {
+          continue;
+        }
+
+        processed.push(redemption.id);
+
+        // Create audit log
+        await createAuditLog(ctx.db, ctx.session, {
+          action: decision === 'APPROVED' ? 'APPROVE' : 'REJECT',
+          resource: 'redemption',
+          resourceId: redemption.id,
+          changesBefore: { status: 'PENDING' },
+          changesAfter: {
+            status: decision,
+            redeemValue: redemption.redeemValue.toString(),
+            voucherId: redemption.voucherId,
+            reason: reason ?? null,
+          },
+        });
+      }
+
+      return {
+        processed,
+        skipped: redemptionIds.filter((id) => !processed.includes(id)),
+      };
+    }),
+});
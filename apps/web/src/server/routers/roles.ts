@@ -0,0 +1,535 @@
+/**
+ * Roles tRPC Router
+ *
+ * Management of tenant roles and their permission sets.
+ * Tenant-scoped: shop admins manage their own shop's roles; super admins
+ * manage any shop's roles. System roles (isSystemRole) and platform roles
+ * (no shop) are read-only, but can be cloned into a shop.
+ * Callers can only grant permissions they hold themselves (in no wider a
+ * scope than their own), and wildcard permissions never go to tenant roles.
+ *
+ * Endpoints:
+ * - list: List roles with permission and user counts (plus shops for super admins)
+ * - getById: Get a role with its permission keys
+ * - listPermissions: Permission catalog (grouped by module in the UI)
+ * - previewChanges: Users who would gain or lose access if a role's permissions were replaced
+ * - create: Create a tenant role
+ * - clone: Copy a role's permissions into a new tenant role
+ * - update: Edit a tenant role's details and permissions
+ * - delete: Delete a tenant role that no user holds
+ */
+
+import { TRPCError } from '@trpc/server';
+import { z } from 'zod';
+import { withTenantTransaction, type PrismaClient, type Role } from '@shop-rewards/db';
+import {
+  cloneRoleSchema,
+  createRoleSchema,
+  listRolesSchema,
+  previewRoleChangeSchema,
+  updateRoleSchema,
+} from '@shop-rewards/shared/validators';
+import { createTRPCRouter, type Session } from '../trpc';
+import { isScopableModule, widestScope, type PermissionScope } from '@shop-rewards/shared/constants';
+import { requirePermission, getPermissionScope, getUserPermissionSet } from '../lib/permissions';
+import { optionalTenantFilter, validateTenantAccess } from '../lib/tenant-filter';
+import { createAuditLog } from '../lib/audit';
+import { invalidateRolePermissions } from '../lib/cache/permission-cache';
+import {
+  getPermissionKey,
+  getUngrantablePermissions,
+  normalizeScopes,
+  previewRolePermissionChange,
+  resolvePermissions,
+} from '../lib/roles';
+
+type Context = { db: PrismaClient; session: Session };
+
+/**
+ * Shop a new role belongs to (super admins may pick one; others use their own)
+ */
+function getTargetShopId(session: Session, requestedShopId?: string): string {
+  const shopId = session.isSuperAdmin ? requestedShopId : session.shopId;
+
+  if (!shopId) {
+    throw new TRPCError({
+      code: 'BAD_REQUEST',
+      message: 'A shop is required for tenant roles',
+    });
+  }
+
+  validateTenantAccess(session, shopId);
+  return shopId;
+}
+
+/**
+ * Load a role the caller can see
+ */
+async function getRoleOrThrow(ctx: Context, id: string): Promise<Role> {
+  const role = await ctx.db.role.findUnique({ where: { id } });
+
+  if (!role) {
+    throw new TRPCError({
+      code: 'NOT_FOUND',
+      message: 'Role not found',
+    });
+  }
+
+  // Platform roles are visible to everyone; tenant roles only to their shop
+  if (role.shopId) {
+    validateTenantAccess(ctx.session, role.shopId);
+  }
+
+  return role;
+}
+
+/**
+ * Refuse changes to system and platform roles
+ */
+function assertEditable(role: Role): asserts role is Role & { shopId: string } {
+  if (role.isSystemRole || !role.shopId) {
+    throw new TRPCError({
+      code: 'FORBIDDEN',
+      message: 'System roles cannot be changed. Clone the role to customise it.',
+    });
+  }
+}
+
+/**
+ * Resolve permission keys and scopes, refusing unknown keys, invalid scopes
+ * and grants beyond the caller's own
+ *
+ * @param granted - Keys being newly granted or widened (defaults to all keys)
+ */
+async function resolveGrantablePermissions(
+  ctx: Context,
+  keys: string[],
+  requestedScopes: Record<string, PermissionScope>,
+  granted: string[] = keys
+) {
+  // Wildcards (e.g. super_admin's *:*) would lift tenant users to platform access
+  const wildcards = keys.filter((key) => key.includes('*'));
+
+  if (wildcards.length > 0) {
+    throw new TRPCError({
+      code: 'FORBIDDEN',
+      message: `Wildcard permissions are reserved for platform roles: ${wildcards.join(', ')}`,
+    });
+  }
+
+  let scopes: Record<string, PermissionScope>;
+
+  try {
+    scopes = normalizeScopes(keys, requestedScopes);
+  } catch (error) {
+    throw new TRPCError({
+      code: 'BAD_REQUEST',
+      message: error instanceof Error ? error.message : 'Invalid permission scopes',
+    });
+  }
+
+  if (!ctx.session.isSuperAdmin) {
+    const ungrantable = getUngrantablePermissions(
+      await getUserPermissionSet(ctx.session, ctx.db),
+      granted,
+      scopes
+    );
+
+    if (ungrantable.length > 0) {
+      throw new TRPCError({
+        code: 'FORBIDDEN',
+        message: `You cannot grant permissions you do not have, or in a wider scope than your own: ${ungrantable.join(', ')}`,
+      });
+    }
+  }
+
+  try {
+    return { permissions: await resolvePermissions(ctx.db, keys), scopes };
+  } catch (error) {
+    if (error instanceof Error && error.message.startsWith('UNKNOWN_PERMISSION')) {
+      throw new TRPCError({
+        code: 'BAD_REQUEST',
+        message: error.message,
+      });
+    }
+    throw error;
+  }
+}
+
+/**
+ * Refuse a role name that is already taken in the shop
+ */
+async function assertNameAvailable(ctx: Context, shopId: string, name: string): Promise<void> {
+  const existing = await ctx.db.role.findFirst({
+    where: { shopId, name },
+  });
+
+  if (existing) {
+    throw new TRPCError({
+      code: 'CONFLICT',
+      message: `A role named "${name}" already exists in this shop`,
+    });
+  }
+}
+
+export const rolesRouter = createTRPCRouter({
+  /**
+   * List roles (tenant roles plus the platform roles they can be cloned from)
+   * Super admins also get the shops to pick from.
+   * Requires 'roles:read' permission
+   */
+  list: requirePermission('roles', 'read')
+    .input(listRolesSchema)
+    .query(async ({ ctx, input }) => {
+      const tenantFilter = optionalTenantFilter(ctx.session, input.shopId);
+
+      const [roles, shops] = await Promise.all([
+        ctx.db.role.findMany({
+          where: tenantFilter.shopId
+            ? { OR: [{ shopId: tenantFilter.shopId }, { shopId: null }] }
+            : {},
+          orderBy: [{ isSystemRole: 'desc' }, { displayName: 'asc' }],
+          include: {
+            shop: {
+              select: {
+                id: true,
+                name: true,
+              },
+            },
+            _count: {
+              select: {
+                permissions: true,
+                users: true,
+              },
+            },
+          },
+        }),
+        ctx.session.isSuperAdmin
+          ? ctx.db.shop.findMany({
+              select: { id: true, name: true },
+              orderBy: { name: 'asc' },
+            })
+          : Promise.resolve([]),
+      ]);
+
+      return {
+        roles: roles.map((role) => ({
+          ...role,
+          isEditable: !role.isSystemRole && !!role.shopId,
+        })),
+        shops,
+      };
+    }),
+
+  /**
+   * Get a role with its permission keys and the scopes of narrowed grants
+   * Requires 'roles:read' permission
+   */
+  getById: requirePermission('roles', 'read')
+    .input(z.object({ id: z.string() }))
+    .query(async ({ ctx, input }) => {
+      await getRoleOrThrow(ctx, input.id);
+
+      const role = await ctx.db.role.findUniqueOrThrow({
+        where: { id: input.id },
+        include: {
+          permissions: { include: { permission: true } },
+          _count: { select: { users: true } },
+        },
+      });
+
+      const { permissions, ...rest } = role;
+
+      return {
+        ...rest,
+        isEditable: !role.isSystemRole && !!role.shopId,
+        permissions: permissions.map((rolePermission) => getPermissionKey(rolePermission.permission)).sort(),
+        scopes: Object.fromEntries(
+          permissions
+            .filter((rolePermission) => rolePermission.scope !== 'SHOP')
+            .map((rolePermission) => [getPermissionKey(rolePermission.permission), rolePermission.scope])
+        ) as Record<string, PermissionScope>,
+      };
+    }),
+
+  /**
+   * Permission catalog, with whether (and in which scope) the caller may grant each permission
+   * Requires 'roles:read' permission
+   */
+  listPermissions: requirePermission('roles', 'read').query(async ({ ctx }) => {
+    const [permissions, caller] = await Promise.all([
+      ctx.db.permission.findMany({
+        orderBy: [{ module: 'asc' }, { action: 'asc' }],
+      }),
+      getUserPermissionSet(ctx.session, ctx.db),
+    ]);
+
+    return permissions.map((permission) => {
+      const maxScope = getPermissionScope(caller, permission.module, permission.action);
+
+      return {
+        key: getPermissionKey(permission),
+        module: permission.module,
+        action: permission.action,
+        description: permission.description,
+        isGrantable: maxScope !== null,
+        isScopable: isScopableModule(permission.module),
+        // Widest scope the caller may grant
+        maxScope,
+      };
+    });
+  }),
+
+  /**
+   * Preview who gains or loses access if a role's permissions are replaced
+   * Requires 'roles:update' permission
+   */
+  previewChanges: requirePermission('roles', 'update')
+    .input(previewRoleChangeSchema)
+    .query(async ({ ctx, input }) => {
+      await getRoleOrThrow(ctx, input.id);
+
+      return previewRolePermissionChange(ctx.db, input.id, input.permissions, input.scopes);
+    }),
+
+  /**
+   * Create a tenant role
+   * Requires 'roles:create' permission
+   */
+  create: requirePermission('roles', 'create')
+    .input(createRoleSchema)
+    .mutation(async ({ ctx, input }) => {
+      const shopId = getTargetShopId(ctx.session, input.shopId);
+
+      await assertNameAvailable(ctx, shopId, input.name);
+      const { permissions, scopes } = await resolveGrantablePermissions(
+        ctx,
+        input.permissions,
+        input.scopes
+      );
+
+      const role = await ctx.db.role.create({
+        data: {
+          shopId,
+          name: input.name,
+          displayName: input.displayName,
+          description: input.description || null,
+          isSystemRole: false,
+          permissions: {
+            create: permissions.map((permission) => ({
+              permissionId: permission.id,
+              scope: scopes[getPermissionKey(permission)] ?? 'SHOP',
+            })),
+          },
+        },
+      });
+
+      // Create audit log
+      await createAuditLog(ctx.db, ctx.session, {
+        action: 'CREATE',
+        resource: 'role',
+        resourceId: role.id,
+        changesAfter: {
+          name: role.name,
+          displayName: role.displayName,
+          permissions: permissions.map(getPermissionKey).sort(),
+          scopes,
+        },
+      });
+
+      console.log('[Roles] Created:', { roleId: role.id, shopId, name: role.name });
+
+      return role;
+    }),
+
+  /**
+   * Copy a role's permissions into a new tenant role
+   * Requires 'roles:create' permission
+   */
+  clone: requirePermission('roles', 'create')
+    .input(cloneRoleSchema)
+    .mutation(async ({ ctx, input }) => {
+      const source = await getRoleOrThrow(ctx, input.id);
+      const shopId = getTargetShopId(ctx.session, input.shopId ?? source.shopId ?? undefined);
+
+      await assertNameAvailable(ctx, shopId, input.name);
+
+      const sourcePermissions = await ctx.db.rolePermission.findMany({
+        where: { roleId: source.id },
+        include: { permission: true },
+      });
+      const keys = sourcePermissions.map((rolePermission) => getPermissionKey(rolePermission.permission));
+      const { permissions, scopes } = await resolveGrantablePermissions(
+        ctx,
+        keys,
+        Object.fromEntries(
+          sourcePermissions.map((rolePermission) => [
+            getPermissionKey(rolePermission.permission),
+            rolePermission.scope,
+          ])
+        )
+      );
+
+      const role = await ctx.db.role.create({
+        data: {
+          shopId,
+          name: input.name,
+          displayName: input.displayName,
+          description: source.description,
+          isSystemRole: false,
+          permissions: {
+            create: permissions.map((permission) => ({
+              permissionId: permission.id,
+              scope: scopes[getPermissionKey(permission)] ?? 'SHOP',
+            })),
+          },
+        },
+      });
+
+      // Create audit log
+      await createAuditLog(ctx.db, ctx.session, {
+        action: 'CREATE',
+        resource: 'role',
+        resourceId: role.id,
+        changesAfter: {
+          name: role.name,
+          displayName: role.displayName,
+          clonedFrom: source.id,
+          permissions: keys.sort(),
+          scopes,
+        },
+      });
+
+      console.log('[Roles] Cloned:', { roleId: role.id, sourceId: source.id, shopId });
+
+      return role;
+    }),
+
+  /**
+   * Edit a tenant role's details and permission set
+   * Requires 'roles:update' permission
+   */
+  update: requirePermission('roles', 'update')
+    .input(updateRoleSchema)
+    .mutation(async ({ ctx, input }) => {
+      const { id, displayName, description, permissions: nextKeys, scopes: nextScopes = {} } = input;
+      const role = await getRoleOrThrow(ctx, id);
+      assertEditable(role);
+
+      const preview = nextKeys
+        ? await previewRolePermissionChange(ctx.db, id, nextKeys, nextScopes)
+        : null;
+
+      // Only added or widened grants must be held by the caller; existing grants may stay
+      const granted = preview
+        ? [
+            ...preview.added,
+            ...preview.scopeChanges
+              .filter((change) => widestScope(change.from, change.to) === change.to)
+              .map((change) => change.key),
+          ]
+        : [];
+      const resolved =
+        nextKeys && preview
+          ? await resolveGrantablePermissions(ctx, nextKeys, nextScopes, granted)
+          : null;
+
+      const updated = await withTenantTransaction(ctx.db, async (tx) => {
+        if (resolved) {
+          await tx.rolePermission.deleteMany({ where: { roleId: id } });
+          await tx.rolePermission.createMany({
+            data: resolved.permissions.map((permission) => ({
+              roleId: id,
+              permissionId: permission.id,
+              scope: resolved.scopes[getPermissionKey(permission)] ?? 'SHOP',
+            })),
+          });
+        }
+
+        return tx.role.update({
+          where: { id },
+          data: {
+            ...(displayName !== undefined ? { displayName } : {}),
+            ...(description !== undefined ? { description: description || null } : {}),
+          },
+        });
+      });
+
+      if (resolved) {
+        await invalidateRolePermissions(role.shopId);
+      }
+
+      // Create audit log
+      await createAuditLog(ctx.db, ctx.session, {
+        action: 'UPDATE',
+        resource: 'role',
+        resourceId: id,
+        changesBefore: {
+          displayName: role.displayName,
+          description: role.description,
+          ...(preview ? { permissionsRemoved: preview.removed } : {}),
+        },
+        changesAfter: {
+          displayName: updated.displayName,
+          description: updated.description,
+          ...(preview
+            ? { permissionsAdded: preview.added, scopeChanges: preview.scopeChanges }
+            : {}),
+        },
+        metadata: {
+          affectedUsers: preview?.users.length ?? 0,
+        },
+      });
+
+      console.log('[Roles] Updated:', {
+        roleId: id,
+        added: preview?.added.length ?? 0,
+        removed: preview?.removed.length ?? 0,
+        scopeChanges: preview?.scopeChanges.length ?? 0,
+        affectedUsers: preview?.users.length ?? 0,
+      });
+
+      return {
+        ...updated,
+        preview,
+      };
+    }),
+
+  /**
+   * Delete a tenant role
+   * Roles still held by users must be unassigned first.
+   * Requires 'roles:delete' permission
+   */
+  delete: requirePermission('roles', 'delete')
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const role = await getRoleOrThrow(ctx, input.id);
+      assertEditable(role);
+
+      const holders = await ctx.db.userRole.count({ where: { roleId: role.id } });
+
+      if (holders > 0) {
+        throw new TRPCError({
+          code: 'PRECONDITION_FAILED',
+          message: `This role is assigned to ${holders} user(s). Remove it from them first.`,
+        });
+      }
+
+      await ctx.db.role.delete({ where: { id: role.id } });
+
+      // Create audit log
+      await createAuditLog(ctx.db, ctx.session, {
+        action: 'DELETE',
+        resource: 'role',
+        resourceId: role.id,
+        changesBefore: {
+          name: role.name,
+          displayName: role.displayName,
+        },
+      });
+
+      console.log('[Roles] Deleted:', { roleId: role.id, shopId: role.shopId });
+
+      return { success: true };
+    }),
+});
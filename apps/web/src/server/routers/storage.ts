@@ -0,0 +1,98 @@
+/**
+ * Storage tRPC Router
+ *
+ * Handles image uploads for branding (logos, login page images) and the
+ * migration of legacy base64 images into object storage.
+ *
+ * Endpoints:
+ * - uploadImage: Store a base64 image in the shop (or platform) logos bucket
+ *   and return its public URL
+ * - migrateBase64Images: Move base64 images out of Company.logo, Shop.logo and
+ *   the login template configs (super admin only, dry run by default)
+ */
+
+import { TRPCError } from '@trpc/server';
+import { z } from 'zod';
+import { createTRPCRouter, superAdminProcedure } from '../trpc';
+import { STORAGE_CONFIG } from '@shop-rewards/shared/constants';
+import { requireAnyPermission } from '../lib/permissions';
+import { validateTenantAccess } from '../lib/tenant-filter';
+import { PLATFORM_LOGO_BUCKET, getTenantBucket, storeImageDataUrl } from '../lib/storage';
+import { migrateBase64Images } from '../lib/storage/migrate-images';
+
+/**
+ * Maximum decoded size of branding images
+ */
+const MAX_IMAGE_SIZE = 2 * 1024 * 1024; // 2MB
+
+/**
+ * Input schema for image uploads
+ * shopId: undefined = caller's shop, null = platform bucket (super admin only)
+ */
+const uploadImageSchema = z.object({
+  dataUrl: z.string().min(1).startsWith('data:image/', 'Expected an image data URL'),
+  shopId: z.string().nullable().optional(),
+});
+
+export const storageRouter = createTRPCRouter({
+  /**
+   * Upload a branding image
+   * Requires 'config:update' or 'shops:update' permission
+   */
+  uploadImage: requireAnyPermission([
+    ['config', 'update'],
+    ['shops', 'update'],
+  ])
+    .input(uploadImageSchema)
+    .mutation(async ({ ctx, input }) => {
+      const shopId = input.shopId === undefined ? ctx.session.shopId : input.shopId;
+
+      if (shopId) {
+        validateTenantAccess(ctx.session, shopId);
+      } else if (!ctx.session.isSuperAdmin) {
+        throw new TRPCError({
+          code: 'FORBIDDEN',
+          message: 'Only super admins can upload platform images',
+        });
+      }
+
+      const bucket = shopId
+        ? getTenantBucket(shopId, STORAGE_CONFIG.LOGO_SUFFIX)
+        : PLATFORM_LOGO_BUCKET;
+
+      try {
+        const stored = await storeImageDataUrl(input.dataUrl, bucket, MAX_IMAGE_SIZE);
+
+        console.log('[Storage] Image uploaded', {
+          path: stored.path,
+          size: stored.size,
+          userId: ctx.session.userId,
+        });
+
+        return { url: stored.url, path: stored.path };
+      } catch (error) {
+        if (error instanceof Error && error.message.startsWith('STORAGE_INVALID_IMAGE')) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: error.message.replace('STORAGE_INVALID_IMAGE: ', ''),
+          });
+        }
+
+        console.error('[Storage] Image upload failed:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to store image',
+        });
+      }
+    }),
+
+  /**
+   * Migrate base64 images to object storage
+   * Super admin only. Defaults to a dry run that only reports what would move.
+   */
+  migrateBase64Images: superAdminProcedure
+    .input(z.object({ dryRun: z.boolean().default(true) }))
+    .mutation(async ({ ctx, input }) => {
+      return migrateBase64Images(ctx.db, { dryRun: input.dryRun });
+    }),
+});
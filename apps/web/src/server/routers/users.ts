@@ -8,21 +8,30 @@
 
 import { z } from 'zod';
 import { TRPCError } from '@trpc/server';
-import { createTRPCRouter, protectedProcedure, superAdminProcedure } from '../trpc';
+import { createTRPCRouter, superAdminProcedure } from '../trpc';
 import { requirePermission } from '../lib/permissions';
+import { getScopeFilter } from '../lib/permission-scope';
 import {
   applyTenantFilter,
   validateTenantAccess,
   optionalTenantFilter,
 } from '../lib/tenant-filter';
 import { createAuditLog, sanitizeForAudit } from '../lib/audit';
+import { invalidateUserPermissions } from '../lib/cache/permission-cache';
+import { getSecurityPolicy, validatePasswordPolicy } from '../lib/security-policy';
+import { unlockAccount } from '../lib/login-lockout';
+import { sendUserVerificationEmail } from '../lib/email-verification';
+import { sendEmail } from '../lib/email';
+import { emailTemplates } from '../lib/email-templates';
+import { revokeAllSessions } from '@/lib/auth/session.service';
+import type { Prisma, PrismaClient, User } from '@shop-rewards/db';
 import { hash, compare } from 'bcrypt';
 
 // Validation schemas
 const createUserSchema = z.object({
   email: z.string().email('Invalid email address'),
   name: z.string().min(1, 'Name is required'),
-  password: z.string().min(8, 'Password must be at least 8 characters'),
+  password: z.string().min(1, 'Password is required'), // Strength checked against the security policy
   roleIds: z.array(z.string()).optional(),
   shopId: z.string().optional(), // For super admins creating shop-level users
   isSuperAdmin: z.boolean().optional().default(false),
@@ -36,6 +45,24 @@ const updateUserSchema = z.object({
   lastName: z.string().min(1).optional(),
 });
 
+/**
+ * Email a verification link for a new or changed address
+ * Failures are logged only: the user can request another link later.
+ */
+async function trySendVerificationEmail(
+  db: PrismaClient,
+  user: Pick<User, 'id' | 'email' | 'firstName'>
+): Promise<void> {
+  try {
+    await sendUserVerificationEmail(db, user);
+  } catch (error) {
+    console.error('[Users] Failed to send verification email:', {
+      userId: user.id,
+      error: error instanceof Error ? error.message : error,
+    });
+  }
+}
+
 const assignRoleSchema = z.object({
   userId: z.string(),
   roleId: z.string(),
@@ -53,8 +80,9 @@ export const usersRouter = createTRPCRouter({
   /**
    * List users with pagination and filtering
    * Tenant-scoped: Shop admins see only their shop's users
+   * Limited to the scope of the caller's users:read grant
    */
-  list: protectedProcedure
+  list: requirePermission('users', 'read')
     .input(listUsersSchema)
     .query(async ({ ctx, input }) => {
       const { page, limit, search, roleId, shopId } = input;
@@ -64,9 +92,10 @@ export const usersRouter = createTRPCRouter({
       const tenantFilter = optionalTenantFilter(ctx.session, shopId);
 
       // Build where clause
-      const where: any = {
+      const where: Prisma.UserWhereInput = {
         ...tenantFilter,
         deletedAt: null, // Exclude soft-deleted users
+        AND: [await getScopeFilter(ctx, 'user', 'users', 'read')],
       };
 
       // Search filter
@@ -131,13 +160,16 @@ export const usersRouter = createTRPCRouter({
 
   /**
    * Get user by ID with full details
-   * Validates tenant access
+   * Validates tenant access; users outside the caller's grant scope are not found
    */
-  getById: protectedProcedure
+  getById: requirePermission('users', 'read')
     .input(z.object({ id: z.string() }))
     .query(async ({ ctx, input }) => {
-      const user = await ctx.db.user.findUnique({
-        where: { id: input.id },
+      const user = await ctx.db.user.findFirst({
+        where: {
+          id: input.id,
+          AND: [await getScopeFilter(ctx, 'user', 'users', 'read')],
+        },
         include: {
           shop: true,
           roles: {
@@ -233,6 +265,15 @@ export const usersRouter = createTRPCRouter({
         });
       }
 
+      // Enforce password policy
+      const policyCheck = validatePasswordPolicy(password, await getSecurityPolicy(ctx.db));
+      if (!policyCheck.valid) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: policyCheck.errors.join('. '),
+        });
+      }
+
       // Hash password
       const passwordHash = await hash(password, 10);
 
@@ -249,6 +290,7 @@ export const usersRouter = createTRPCRouter({
           firstName,
           lastName,
           passwordHash,
+          passwordChangedAt: new Date(),
           isSuperAdmin: isSuperAdmin || false,
           shopId: targetShopId,
         },
@@ -277,6 +319,8 @@ export const usersRouter = createTRPCRouter({
         }),
       });
 
+      await trySendVerificationEmail(ctx.db, user);
+
       return user;
     }),
 
@@ -290,8 +334,8 @@ export const usersRouter = createTRPCRouter({
       const { id, ...updates } = input;
 
       // Get existing user
-      const existingUser = await ctx.db.user.findUnique({
-        where: { id },
+      const existingUser = await ctx.db.user.findFirst({
+        where: { id, AND: [await getScopeFilter(ctx, 'user', 'users', 'update')] },
       });
 
       if (!existingUser) {
@@ -329,10 +373,12 @@ export const usersRouter = createTRPCRouter({
         }
       }
 
-      // Update user
+      const emailChanged = updates.email !== undefined && updates.email !== existingUser.email;
+
+      // Update user (a new address must be verified again)
       const user = await ctx.db.user.update({
         where: { id },
-        data: updates,
+        data: emailChanged ? { ...updates, emailVerifiedAt: null } : updates,
       });
 
       // Create audit log
@@ -344,6 +390,10 @@ export const usersRouter = createTRPCRouter({
         changesAfter: sanitizeForAudit(user),
       });
 
+      if (emailChanged) {
+        await trySendVerificationEmail(ctx.db, user);
+      }
+
       return user;
     }),
 
@@ -354,8 +404,8 @@ export const usersRouter = createTRPCRouter({
   delete: requirePermission('users', 'delete')
     .input(z.object({ id: z.string() }))
     .mutation(async ({ ctx, input }) => {
-      const user = await ctx.db.user.findUnique({
-        where: { id: input.id },
+      const user = await ctx.db.user.findFirst({
+        where: { id: input.id, AND: [await getScopeFilter(ctx, 'user', 'users', 'delete')] },
       });
 
       if (!user) {
@@ -423,9 +473,9 @@ export const usersRouter = createTRPCRouter({
     .mutation(async ({ ctx, input }) => {
       const { userId, roleId } = input;
 
-      // Validate user exists and tenant access
-      const user = await ctx.db.user.findUnique({
-        where: { id: userId },
+      // Validate user exists, tenant access and grant scope
+      const user = await ctx.db.user.findFirst({
+        where: { id: userId, AND: [await getScopeFilter(ctx, 'user', 'users', 'manage_roles')] },
       });
 
       if (!user) {
@@ -472,6 +522,8 @@ export const usersRouter = createTRPCRouter({
         },
       });
 
+      await invalidateUserPermissions(userId);
+
       // Create audit log
       await createAuditLog(ctx.db, ctx.session, {
         action: 'ASSIGN_ROLE',
@@ -495,9 +547,9 @@ export const usersRouter = createTRPCRouter({
     .mutation(async ({ ctx, input }) => {
       const { userId, roleId } = input;
 
-      // Validate user exists and tenant access
-      const user = await ctx.db.user.findUnique({
-        where: { id: userId },
+      // Validate user exists, tenant access and grant scope
+      const user = await ctx.db.user.findFirst({
+        where: { id: userId, AND: [await getScopeFilter(ctx, 'user', 'users', 'manage_roles')] },
       });
 
       if (!user) {
@@ -537,6 +589,8 @@ export const usersRouter = createTRPCRouter({
         },
       });
 
+      await invalidateUserPermissions(userId);
+
       // Create audit log
       await createAuditLog(ctx.db, ctx.session, {
         action: 'REMOVE_ROLE',
@@ -558,6 +612,11 @@ export const usersRouter = createTRPCRouter({
   toggleLock: superAdminProcedure
     .input(z.object({ id: z.string(), lockedUntil: z.date().nullable() }))
     .mutation(async ({ ctx, input }) => {
+      if (!input.lockedUntil) {
+        // Also resets the failed-login backoff
+        await unlockAccount(ctx.db, input.id);
+      }
+
       const user = await ctx.db.user.update({
         where: { id: input.id },
         data: { lockedUntil: input.lockedUntil },
@@ -581,10 +640,13 @@ export const usersRouter = createTRPCRouter({
    * Requires 'users:reset_password' permission
    */
   resetPassword: requirePermission('users', 'reset_password')
-    .input(z.object({ id: z.string(), newPassword: z.string().min(8) }))
+    .input(z.object({ id: z.string(), newPassword: z.string().min(1) }))
     .mutation(async ({ ctx, input }) => {
-      const user = await ctx.db.user.findUnique({
-        where: { id: input.id },
+      const user = await ctx.db.user.findFirst({
+        where: {
+          id: input.id,
+          AND: [await getScopeFilter(ctx, 'user', 'users', 'reset_password')],
+        },
       });
 
       if (!user) {
@@ -597,26 +659,55 @@ export const usersRouter = createTRPCRouter({
       // Validate tenant access
       validateTenantAccess(ctx.session, user.shopId);
 
+      // Enforce password policy
+      const policyCheck = validatePasswordPolicy(input.newPassword, await getSecurityPolicy(ctx.db));
+      if (!policyCheck.valid) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: policyCheck.errors.join('. '),
+        });
+      }
+
       // Hash new password
       const passwordHash = await hash(input.newPassword, 10);
 
-      // Update password
+      // Update password; the user must choose their own at next login
       await ctx.db.user.update({
         where: { id: input.id },
-        data: { passwordHash },
+        data: {
+          passwordHash,
+          passwordChangedAt: new Date(),
+          forcePasswordChange: true,
+        },
       });
 
+      // Sign out existing sessions (they were opened with the old password)
+      await revokeAllSessions(ctx.db, input.id, 'password_changed');
+
       // Create audit log
       await createAuditLog(ctx.db, ctx.session, {
         action: 'RESET_PASSWORD',
         resource: 'user',
         resourceId: input.id,
+        // Flagged by the SUPER_ADMIN_PASSWORD_RESET anomaly rule
         metadata: {
           targetIsSuperAdmin: user.isSuperAdmin,
         },
-        isSuspicious: user.isSuperAdmin, // Flag password resets on super admin accounts
       });
 
+      // Let the user know (they get the temporary password from the admin)
+      try {
+        await sendEmail(ctx.db, {
+          to: user.email,
+          ...emailTemplates.passwordResetByAdmin({ firstName: user.firstName }),
+        });
+      } catch (error) {
+        console.error('[Users] Failed to send password reset notice:', {
+          userId: user.id,
+          error: error instanceof Error ? error.message : error,
+        });
+      }
+
       return { success: true };
     }),
 });
@@ -0,0 +1,291 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import {
+  asSystem,
+  type PermissionScope,
+  type Shop,
+  type User,
+  type Voucher,
+} from '@shop-rewards/db';
+import {
+  createTestDatabase,
+  createTestReceipt,
+  createTestShop,
+  createTestUser,
+  createTestVoucher,
+  grantTestPermissions,
+  type TestDatabase,
+} from '@shop-rewards/db/testing';
+
+import { createCallerFactory } from '../trpc';
+import { vouchersRouter } from './vouchers';
+
+const createCaller = createCallerFactory(vouchersRouter);
+
+describe('vouchers redeem', () => {
+  let testDb: TestDatabase;
+  let shop: Shop;
+  let customer: User;
+
+  // A cashier per test, so the per-user redemption rate limit does not carry over
+  const createCashier = async () => {
+    const cashier = await createTestUser(testDb.db, shop.id);
+    await grantTestPermissions(testDb.db, cashier.id, shop.id, [['vouchers', 'redeem']]);
+    return cashier;
+  };
+
+  const callerFor = (cashier: User) =>
+    createCaller({
+      headers: new Headers(),
+      db: testDb.db,
+      session: {
+        userId: cashier.id,
+        shopId: shop.id,
+        roles: ['cashier'],
+        isSuperAdmin: false,
+        sessionId: `session-${cashier.id}`,
+        restriction: null,
+      },
+    });
+
+  const loadVoucher = (id: string) =>
+    asSystem('test', () => testDb.db.voucher.findUniqueOrThrow({ where: { id } }));
+
+  beforeAll(async () => {
+    testDb = await createTestDatabase();
+    shop = await createTestShop(testDb.db, 'redeem-shop');
+    customer = await createTestUser(testDb.db, shop.id);
+  });
+
+  afterAll(async () => {
+    await testDb?.close();
+  });
+
+  it('marks the voucher redeemed with its last use', async () => {
+    const voucher = await createTestVoucher(testDb.db, shop.id, { maxUses: 2 });
+    const caller = callerFor(await createCashier());
+    const redeem = () =>
+      caller.redeem({ code: voucher.code, shopId: shop.id, userId: customer.id });
+
+    await redeem();
+    expect(await loadVoucher(voucher.id)).toMatchObject({ usedCount: 1, status: 'ACTIVE' });
+
+    await redeem();
+    expect(await loadVoucher(voucher.id)).toMatchObject({ usedCount: 2, status: 'REDEEMED' });
+
+    await expect(redeem()).rejects.toMatchObject({ code: 'CONFLICT' });
+  });
+
+  it('lets only one of two concurrent redemptions use the last use', async () => {
+    const voucher = await createTestVoucher(testDb.db, shop.id, { maxUses: 3, usedCount: 2 });
+    const caller = callerFor(await createCashier());
+    const redeem = () =>
+      caller.redeem({ code: voucher.code, shopId: shop.id, userId: customer.id });
+
+    const results = await Promise.allSettled([redeem(), redeem()]);
+
+    expect(results.filter((result) => result.status === 'fulfilled')).toHaveLength(1);
+    expect(await loadVoucher(voucher.id)).toMatchObject({ usedCount: 3, status: 'REDEEMED' });
+  });
+
+  it('rejects redeeming for a user of another shop', async () => {
+    const otherShop = await createTestShop(testDb.db, 'other-redeem-shop');
+    const outsider = await createTestUser(testDb.db, otherShop.id);
+    const voucher = await createTestVoucher(testDb.db, shop.id);
+
+    await expect(
+      callerFor(await createCashier()).redeem({
+        code: voucher.code,
+        shopId: shop.id,
+        userId: outsider.id,
+      })
+    ).rejects.toMatchObject({ code: 'NOT_FOUND' });
+    expect(await loadVoucher(voucher.id)).toMatchObject({ usedCount: 0, status: 'ACTIVE' });
+  });
+});
+
+describe('vouchers grant scopes', () => {
+  let testDb: TestDatabase;
+  let shop: Shop;
+  let customer: User;
+  let colleague: User;
+  let stranger: User;
+  let ownVoucher: Voucher;
+  let colleagueVoucher: Voucher;
+  let strangerVoucher: Voucher;
+  let shopVoucher: Voucher;
+
+  // Voucher issued for a new receipt of the user
+  const createEarnedVoucher = async (owner: User) => {
+    const receipt = await createTestReceipt(testDb.db, shop.id, owner.id);
+    return createTestVoucher(testDb.db, shop.id, { receiptId: receipt.id });
+  };
+
+  const callerWithScope = async (user: User, scope: PermissionScope, action = 'read') => {
+    await grantTestPermissions(testDb.db, user.id, shop.id, [['vouchers', action, scope]]);
+
+    return createCaller({
+      headers: new Headers(),
+      db: testDb.db,
+      session: {
+        userId: user.id,
+        shopId: shop.id,
+        roles: ['user'],
+        isSuperAdmin: false,
+        sessionId: `session-${user.id}-${scope}`,
+        restriction: null,
+      },
+    });
+  };
+
+  const listedIds = async (caller: ReturnType<typeof createCaller>) =>
+    (await caller.list({})).vouchers.map((voucher) => voucher.id).sort();
+
+  beforeAll(async () => {
+    testDb = await createTestDatabase();
+    shop = await createTestShop(testDb.db, 'voucher-scope-shop');
+    [customer, colleague, stranger] = await Promise.all([
+      createTestUser(testDb.db, shop.id),
+      createTestUser(testDb.db, shop.id),
+      createTestUser(testDb.db, shop.id),
+    ]);
+
+    await asSystem('test', () =>
+      testDb.db.department.create({
+        data: {
+          name: 'Front desk',
+          type: 'shop',
+          shopId: shop.id,
+          users: { connect: [{ id: customer.id }, { id: colleague.id }] },
+        },
+      })
+    );
+
+    ownVoucher = await createEarnedVoucher(customer);
+    colleagueVoucher = await createEarnedVoucher(colleague);
+    strangerVoucher = await createEarnedVoucher(stranger);
+    shopVoucher = await createTestVoucher(testDb.db, shop.id);
+  });
+
+  afterAll(async () => {
+    await testDb?.close();
+  });
+
+  it("limits OWN grants to vouchers earned with the caller's receipts", async () => {
+    const caller = await callerWithScope(customer, 'OWN');
+
+    expect(await listedIds(caller)).toEqual([ownVoucher.id]);
+    await expect(caller.getById({ id: ownVoucher.id })).resolves.toMatchObject({
+      id: ownVoucher.id,
+    });
+    await expect(caller.getById({ id: strangerVoucher.id })).rejects.toMatchObject({
+      code: 'NOT_FOUND',
+    });
+  });
+
+  it('extends DEPARTMENT grants to vouchers of department colleagues', async () => {
+    const caller = await callerWithScope(colleague, 'DEPARTMENT');
+
+    expect(await listedIds(caller)).toEqual([ownVoucher.id, colleagueVoucher.id].sort());
+    await expect(caller.getById({ id: shopVoucher.id })).rejects.toMatchObject({
+      code: 'NOT_FOUND',
+    });
+  });
+
+  it('shows every voucher of the shop to SHOP grants', async () => {
+    const caller = await callerWithScope(stranger, 'SHOP');
+
+    expect(await listedIds(caller)).toEqual(
+      [ownVoucher.id, colleagueVoucher.id, strangerVoucher.id, shopVoucher.id].sort()
+    );
+  });
+
+  it("limits OWN write grants to the caller's vouchers", async () => {
+    const approver = await createTestUser(testDb.db, shop.id);
+    const approversVoucher = await createEarnedVoucher(approver);
+    const caller = await callerWithScope(approver, 'OWN', 'approve');
+
+    await expect(
+      caller.review({ voucherId: strangerVoucher.id, status: 'CANCELLED' })
+    ).rejects.toMatchObject({ code: 'NOT_FOUND' });
+    await expect(
+      caller.review({ voucherId: approversVoucher.id, status: 'CANCELLED' })
+    ).resolves.toMatchObject({ status: 'CANCELLED' });
+  });
+});
+
+describe('vouchers create', () => {
+  let testDb: TestDatabase;
+  let shop: Shop;
+  let otherShop: Shop;
+  let admin: User;
+
+  const createCampaign = (shopId: string) =>
+    asSystem('test', () =>
+      testDb.db.campaign.create({
+        data: {
+          shopId,
+          name: 'Autumn',
+          startDate: new Date(Date.now() - 60 * 60 * 1000),
+          endDate: new Date(Date.now() + 24 * 60 * 60 * 1000),
+          rules: {},
+        },
+      })
+    );
+
+  const create = (links: { campaignId?: string; receiptId?: string }) =>
+    createCaller({
+      headers: new Headers(),
+      db: testDb.db,
+      session: {
+        userId: admin.id,
+        shopId: shop.id,
+        roles: ['shop_admin'],
+        isSuperAdmin: false,
+        sessionId: `session-${admin.id}`,
+        restriction: null,
+      },
+    }).create({
+      shopId: shop.id,
+      title: 'Free coffee',
+      discountType: 'FIXED_AMOUNT',
+      discountValue: 3,
+      validFrom: new Date().toISOString(),
+      validUntil: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(),
+      ...links,
+    });
+
+  beforeAll(async () => {
+    testDb = await createTestDatabase();
+    shop = await createTestShop(testDb.db, 'voucher-create-shop');
+    otherShop = await createTestShop(testDb.db, 'other-voucher-create-shop');
+    admin = await createTestUser(testDb.db, shop.id);
+    await grantTestPermissions(testDb.db, admin.id, shop.id, [['vouchers', 'create']]);
+  });
+
+  afterAll(async () => {
+    await testDb?.close();
+  });
+
+  it('links a campaign and receipt of the shop', async () => {
+    const campaign = await createCampaign(shop.id);
+    const receipt = await createTestReceipt(testDb.db, shop.id, admin.id);
+
+    await expect(create({ campaignId: campaign.id, receiptId: receipt.id })).resolves.toMatchObject(
+      { campaignId: campaign.id, receiptId: receipt.id, status: 'PENDING' }
+    );
+  });
+
+  it('does not link a campaign or receipt of another shop', async () => {
+    const campaign = await createCampaign(otherShop.id);
+    const receipt = await createTestReceipt(
+      testDb.db,
+      otherShop.id,
+      (await createTestUser(testDb.db, otherShop.id)).id
+    );
+
+    await expect(create({ campaignId: campaign.id })).rejects.toMatchObject({
+      code: 'NOT_FOUND',
+    });
+    await expect(create({ receiptId: receipt.id })).rejects.toMatchObject({ code: 'NOT_FOUND' });
+  });
+});
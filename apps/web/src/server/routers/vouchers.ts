@@ -0,0 +1,496 @@
+/**
+ * Vouchers tRPC Router
+ *
+ * Handles voucher creation, approval, listing and redemption.
+ * Tenant-scoped: shop admins only manage vouchers from their own shop.
+ *
+ * Endpoints:
+ * - create: Create a voucher (code is generated when omitted)
+ * - list: List vouchers with filters and offset pagination
+ * - getById: Get voucher with redemption history
+ * - review: Approve or cancel a voucher
+ * - redeem: Redeem a voucher by code
+ *   (redemptions above the shop's high-value threshold stay PENDING until approved)
+ *
+ * Redemption errors use the shared ERROR_CODES as message prefix
+ * (e.g. "VOUCHER_EXPIRED: Voucher has expired") so clients can match on them.
+ */
+
+import { TRPCError } from '@trpc/server';
+import { z } from 'zod';
+import { withTenantTransaction, type Prisma } from '@shop-rewards/db';
+import { createTRPCRouter, rateLimit } from '../trpc';
+import {
+  createVoucherSchema,
+  reviewVoucherSchema,
+  redeemVoucherSchema,
+  voucherFiltersSchema,
+} from '@shop-rewards/shared/validators';
+import { ERROR_CODES } from '@shop-rewards/shared/constants';
+import { requirePermission } from '../lib/permissions';
+import { getScopeFilter } from '../lib/permission-scope';
+import { optionalTenantFilter, validateTenantAccess } from '../lib/tenant-filter';
+import { createAuditLog } from '../lib/audit';
+import {
+  calculateRedeemValue,
+  generateUniqueVoucherCode,
+  generateVoucherQrCode,
+} from '../lib/vouchers';
+import { getHighValueThreshold, isHighValueRedemption } from '../lib/redemptions';
+
+/**
+ * Create voucher input: same as the shared schema, but the code is optional
+ */
+const createVoucherInputSchema = createVoucherSchema.extend({
+  code: createVoucherSchema.shape.code.optional(),
+});
+
+/**
+ * The shared schema knows an APPROVED status, the database does not:
+ * an approved voucher is simply ACTIVE.
+ */
+function toDbVoucherStatus(status: string) {
+  return (status === 'APPROVED' ? 'ACTIVE' : status) as
+    | 'PENDING'
+    | 'ACTIVE'
+    | 'REDEEMED'
+    | 'EXPIRED'
+    | 'CANCELLED';
+}
+
+/**
+ * Throw a redemption error prefixed with a shared error code
+ */
+function voucherError(
+  code: keyof typeof ERROR_CODES,
+  message: string,
+  trpcCode: 'BAD_REQUEST' | 'NOT_FOUND' | 'CONFLICT' = 'BAD_REQUEST'
+): never {
+  throw new TRPCError({
+    code: trpcCode,
+    message: `${ERROR_CODES[code]}: ${message}`,
+  });
+}
+
+export const vouchersRouter = createTRPCRouter({
+  /**
+   * Create a voucher
+   * Requires 'vouchers:create' permission
+   * Manually created vouchers start as PENDING until approved
+   */
+  create: requirePermission('vouchers', 'create')
+    .input(createVoucherInputSchema)
+    .mutation(async ({ ctx, input }) => {
+      const {
+        shopId,
+        campaignId,
+        receiptId,
+        title,
+        description,
+        discountType,
+        discountValue,
+        maxUses,
+        validFrom,
+        validUntil,
+      } = input;
+
+      // Validate tenant access
+      validateTenantAccess(ctx.session, shopId);
+
+      if (new Date(validUntil) <= new Date(validFrom)) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'validUntil must be after validFrom',
+        });
+      }
+
+      if (discountType === 'PERCENTAGE' && discountValue > 100) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'Percentage discount cannot exceed 100',
+        });
+      }
+
+      // Linked rows must belong to the voucher's shop
+      if (campaignId) {
+        const campaign = await ctx.db.campaign.findFirst({
+          where: { id: campaignId, shopId },
+          select: { id: true },
+        });
+
+        if (!campaign) {
+          throw new TRPCError({
+            code: 'NOT_FOUND',
+            message: 'Campaign not found',
+          });
+        }
+      }
+
+      if (receiptId) {
+        const receipt = await ctx.db.receipt.findFirst({
+          where: { id: receiptId, shopId, deletedAt: null },
+          select: { id: true },
+        });
+
+        if (!receipt) {
+          throw new TRPCError({
+            code: 'NOT_FOUND',
+            message: 'Receipt not found',
+          });
+        }
+      }
+
+      // Use provided code or generate a unique one
+      let code = input.code;
+      if (code) {
+        const existing = await ctx.db.voucher.findUnique({
+          where: { code },
+          select: { id: true },
+        });
+
+        if (existing) {
+          throw new TRPCError({
+            code: 'CONFLICT',
+            message: 'A voucher with this code already exists',
+          });
+        }
+      } else {
+        code = await generateUniqueVoucherCode(ctx.db);
+      }
+
+      const voucher = await ctx.db.voucher.create({
+        data: {
+          shopId,
+          campaignId: campaignId || null,
+          receiptId: receiptId || null,
+          code,
+          type: discountType,
+          discountPercent: discountType === 'PERCENTAGE' ? discountValue : null,
+          discountAmount: discountType === 'FIXED_AMOUNT' ? discountValue : null,
+          description: description || title,
+          validFrom: new Date(validFrom),
+          validUntil: new Date(validUntil),
+          maxUses,
+          status: 'PENDING',
+          qrCodeData: await generateVoucherQrCode(shopId, code),
+        },
+      });
+
+      // Create audit log
+      await createAuditLog(ctx.db, ctx.session, {
+        action: 'CREATE',
+        resource: 'voucher',
+        resourceId: voucher.id,
+        changesAfter: {
+          code: voucher.code,
+          type: voucher.type,
+          discountValue,
+          maxUses: voucher.maxUses,
+          validFrom: voucher.validFrom,
+          validUntil: voucher.validUntil,
+        },
+      });
+
+      return voucher;
+    }),
+
+  /**
+   * List vouchers with filtering and pagination
+   * Tenant-scoped: Shop admins see only their shop's vouchers
+   * Limited to the scope of the caller's vouchers:read grant
+   */
+  list: requirePermission('vouchers', 'read')
+    .input(voucherFiltersSchema)
+    .query(async ({ ctx, input }) => {
+      const { shopId, userId, campaignId, status, discountType, validOnly, limit, offset } =
+        input;
+
+      // Apply tenant filtering
+      const tenantFilter = optionalTenantFilter(ctx.session, shopId);
+
+      // Build where clause
+      const where: Prisma.VoucherWhereInput = {
+        ...tenantFilter,
+        AND: [await getScopeFilter(ctx, 'voucher', 'vouchers', 'read')],
+      };
+
+      if (userId) {
+        // Vouchers earned by the user through their receipts
+        where.receipt = { userId };
+      }
+
+      if (campaignId) {
+        where.campaignId = campaignId;
+      }
+
+      if (status) {
+        where.status = toDbVoucherStatus(status);
+      }
+
+      if (discountType) {
+        where.type = discountType;
+      }
+
+      if (validOnly) {
+        const now = new Date();
+        where.status = 'ACTIVE';
+        where.validFrom = { lte: now };
+        where.validUntil = { gte: now };
+      }
+
+      const [vouchers, total] = await Promise.all([
+        ctx.db.voucher.findMany({
+          where,
+          skip: offset,
+          take: limit,
+          orderBy: { createdAt: 'desc' },
+          include: {
+            campaign: {
+              select: {
+                id: true,
+                name: true,
+              },
+            },
+            _count: {
+              select: {
+                redemptions: true,
+              },
+            },
+          },
+        }),
+        ctx.db.voucher.count({ where }),
+      ]);
+
+      return {
+        vouchers,
+        total,
+        limit,
+        offset,
+        hasMore: offset + vouchers.length < total,
+      };
+    }),
+
+  /**
+   * Get voucher by ID
+   * Validates tenant access; vouchers outside the caller's grant scope are not found
+   */
+  getById: requirePermission('vouchers', 'read')
+    .input(z.object({ id: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const voucher = await ctx.db.voucher.findFirst({
+        where: {
+          id: input.id,
+          AND: [await getScopeFilter(ctx, 'voucher', 'vouchers', 'read')],
+        },
+        include: {
+          campaign: {
+            select: {
+              id: true,
+              name: true,
+            },
+          },
+          receipt: {
+            select: {
+              id: true,
+              userId: true,
+              totalAmount: true,
+            },
+          },
+          redemptions: {
+            orderBy: { createdAt: 'desc' },
+            take: 20,
+          },
+        },
+      });
+
+      if (!voucher) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Voucher not found',
+        });
+      }
+
+      // Validate tenant access
+      validateTenantAccess(ctx.session, voucher.shopId);
+
+      return voucher;
+    }),
+
+  /**
+   * Approve or cancel a voucher
+   * Requires 'vouchers:approve' permission; vouchers outside its grant scope are not found
+   */
+  review: requirePermission('vouchers', 'approve')
+    .input(reviewVoucherSchema)
+    .mutation(async ({ ctx, input }) => {
+      const { voucherId, status, notes } = input;
+
+      const existing = await ctx.db.voucher.findFirst({
+        where: {
+          id: voucherId,
+          AND: [await getScopeFilter(ctx, 'voucher', 'vouchers', 'approve')],
+        },
+      });
+
+      if (!existing) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Voucher not found',
+        });
+      }
+
+      // Validate tenant access
+      validateTenantAccess(ctx.session, existing.shopId);
+
+      if (['REDEEMED', 'EXPIRED', 'CANCELLED'].includes(existing.status)) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: `Cannot change a voucher that is ${existing.status}`,
+        });
+      }
+
+      const nextStatus = toDbVoucherStatus(status);
+
+      const voucher = await ctx.db.voucher.update({
+        where: { id: voucherId },
+        data: { status: nextStatus },
+      });
+
+      // Create audit log
+      await createAuditLog(ctx.db, ctx.session, {
+        action: nextStatus === 'CANCELLED' ? 'UPDATE' : 'APPROVE',
+        resource: 'voucher',
+        resourceId: voucherId,
+        changesBefore: { status: existing.status },
+        changesAfter: { status: voucher.status, notes: notes ?? null },
+      });
+
+      return voucher;
+    }),
+
+  /**
+   * Redeem a voucher by code
+   * Requires 'vouchers:redeem' permission
+   *
+   * Usage is incremented atomically against maxUses, so concurrent
+   * redemptions of the last remaining use cannot both succeed.
+   * The redeeming user must belong to the shop, and the voucher must lie
+   * within the scope of the caller's vouchers:redeem grant.
+   * Rate limited per user (RATE_LIMITS.VOUCHER_REDEMPTION).
+   */
+  redeem: requirePermission('vouchers', 'redeem')
+    .use(rateLimit('VOUCHER_REDEMPTION'))
+    .input(redeemVoucherSchema)
+    .mutation(async ({ ctx, input }) => {
+      const { code, shopId, userId, purchaseAmount, metadata } = input;
+
+      // Validate tenant access
+      validateTenantAccess(ctx.session, shopId);
+
+      const normalizedCode = code.trim().toUpperCase();
+      const scopeFilter = await getScopeFilter(ctx, 'voucher', 'vouchers', 'redeem');
+
+      const redemption = await withTenantTransaction(ctx.db, async (tx) => {
+        const user = await tx.user.findFirst({
+          where: { id: userId, shopId, deletedAt: null },
+          select: { id: true },
+        });
+
+        if (!user) {
+          throw new TRPCError({
+            code: 'NOT_FOUND',
+            message: 'User not found',
+          });
+        }
+
+        const voucher = await tx.voucher.findFirst({
+          where: { code: normalizedCode, AND: [scopeFilter] },
+        });
+
+        if (!voucher || voucher.shopId !== shopId) {
+          voucherError('VOUCHER_INVALID', 'Voucher not found', 'NOT_FOUND');
+        }
+
+        if (voucher.status === 'REDEEMED') {
+          voucherError('VOUCHER_ALREADY_USED', 'Voucher has already been used', 'CONFLICT');
+        }
+
+        if (voucher.status !== 'ACTIVE') {
+          voucherError('VOUCHER_INVALID', `Voucher is ${voucher.status.toLowerCase()}`);
+        }
+
+        const now = new Date();
+
+        if (voucher.validFrom > now) {
+          voucherError('VOUCHER_INVALID', 'Voucher is not valid yet');
+        }
+
+        if (voucher.validUntil < now) {
+          voucherError('VOUCHER_EXPIRED', 'Voucher has expired');
+        }
+
+        // Atomic increment guarded by maxUses
+        const { count } = await tx.voucher.updateMany({
+          where: {
+            id: voucher.id,
+            status: 'ACTIVE',
+            usedCount: { lt: tx.voucher.fields.maxUses },
+          },
+          data: { usedCount: { increment: 1 } },
+        });
+
+        if (count === 0) {
+          voucherError('VOUCHER_ALREADY_USED', 'Voucher has no remaining uses', 'CONFLICT');
+        }
+
+        // Compared against the incremented count, not the one read above
+        await tx.voucher.updateMany({
+          where: {
+            id: voucher.id,
+            status: 'ACTIVE',
+            usedCount: { gte: tx.voucher.fields.maxUses },
+          },
+          data: { status: 'REDEEMED' },
+        });
+
+        // High-value redemptions reserve the use but wait for approval
+        const redeemValue = calculateRedeemValue(voucher, purchaseAmount);
+        const isHighValue = isHighValueRedemption(
+          redeemValue,
+          await getHighValueThreshold(tx, shopId)
+        );
+
+        return tx.redemption.create({
+          data: {
+            shopId,
+            userId,
+            voucherId: voucher.id,
+            redeemValue,
+            isHighValue,
+            status: isHighValue ? 'PENDING' : 'COMPLETED',
+            redeemedAt: isHighValue ? null : now,
+          },
+        });
+      });
+
+      // Create audit log
+      await createAuditLog(ctx.db, ctx.session, {
+        action: 'CREATE',
+        resource: 'redemption',
+        resourceId: redemption.id,
+        changesAfter: {
+          voucherId: redemption.voucherId,
+          code: normalizedCode,
+          userId,
+          redeemValue: redemption.redeemValue.toString(),
+          status: redemption.status,
+          isHighValue: redemption.isHighValue,
+          purchaseAmount: purchaseAmount ?? null,
+          location: metadata?.location ?? null,
+          cashierId: metadata?.cashierId ?? null,
+        },
+      });
+
+      return redemption;
+    }),
+});
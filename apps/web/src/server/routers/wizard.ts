@@ -33,6 +33,8 @@ import {
 } from '@shop-rewards/shared';
 import { TRPCError } from '@trpc/server';
 import { hash } from 'bcrypt';
+import { PLATFORM_LOGO_BUCKET, storeImageDataUrl } from '../lib/storage';
+import { invalidateSecurityPolicyCache } from '../lib/security-policy';
 
 export const wizardRouter = createTRPCRouter({
   /**
@@ -42,6 +44,11 @@ export const wizardRouter = createTRPCRouter({
     .input(companySetupSchema)
     .mutation(async ({ ctx, input }) => {
       try {
+        // Base64 logos go to object storage; only the URL is kept in the database
+        const logo = input.logo?.startsWith('data:')
+          ? (await storeImageDataUrl(input.logo, PLATFORM_LOGO_BUCKET)).url
+          : input.logo;
+
         // Create or update company information
         const company = await ctx.db.company.upsert({
           where: { id: 'system' },
@@ -51,7 +58,8 @@ export const wizardRouter = createTRPCRouter({
             country: input.country,
             timezone: input.timezone,
             currency: input.currency,
-            logo: input.logo,
+            logo,
+            logoUrl: logo,
           },
           create: {
             id: 'system',
@@ -60,7 +68,8 @@ export const wizardRouter = createTRPCRouter({
             country: input.country,
             timezone: input.timezone,
             currency: input.currency,
-            logo: input.logo,
+            logo,
+            logoUrl: logo,
           },
         });
 
@@ -282,6 +291,12 @@ export const wizardRouter = createTRPCRouter({
     .input(securitySchema)
     .mutation(async ({ ctx, input }) => {
       try {
+        // One IP/CIDR per line; blank lines and surrounding whitespace are dropped
+        const ipWhitelist = (input.ipWhitelist || '')
+          .split('\n')
+          .map((entry) => entry.trim())
+          .filter(Boolean);
+
         // Save security settings as SecurityPolicy
         await ctx.db.securityPolicy.upsert({
           where: { id: 'system' },
@@ -293,8 +308,9 @@ export const wizardRouter = createTRPCRouter({
             requireSpecialChars: input.requireSpecialChars ?? false,
             sessionTimeout: input.sessionTimeout,
             maxConcurrentSessions: input.maxConcurrentSessions,
-            ipWhitelist: input.ipWhitelist ? input.ipWhitelist.split('\n') : [],
+            ipWhitelist,
             dataRetentionDays: input.dataRetentionDays,
+            mfaRequired: input.mfaRequired ?? false,
           },
           create: {
             id: 'system',
@@ -305,11 +321,14 @@ export const wizardRouter = createTRPCRouter({
             requireSpecialChars: input.requireSpecialChars ?? false,
             sessionTimeout: input.sessionTimeout,
             maxConcurrentSessions: input.maxConcurrentSessions,
-            ipWhitelist: input.ipWhitelist ? input.ipWhitelist.split('\n') : [],
+            ipWhitelist,
             dataRetentionDays: input.dataRetentionDays,
+            mfaRequired: input.mfaRequired ?? false,
           },
         });
 
+        invalidateSecurityPolicyCache();
+
         console.log('[Wizard] Step 5: Security Settings', {
           minPasswordLength: input.minPasswordLength,
           sessionTimeout: input.sessionTimeout,
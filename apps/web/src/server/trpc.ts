@@ -5,15 +5,27 @@
  * - Type-safe context
  * - Error handling
  * - Procedure builders
+ * - Rate limiting middleware (rateLimit)
  */
 
 import { initTRPC, TRPCError } from '@trpc/server';
 import { type FetchCreateContextFnOptions } from '@trpc/server/adapters/fetch';
 import superjson from 'superjson';
 import { ZodError } from 'zod';
-import { prisma } from '@shop-rewards/db';
+import { asSystem, prisma, withTenantContext, type TenantContext } from '@shop-rewards/db';
 
 import { verifyAccessToken, extractTokenFromHeader } from '@/lib/auth/jwt.service';
+import { getClientInfo, validateSession } from '@/lib/auth/session.service';
+import {
+  getSecurityPolicy,
+  getSessionRestriction,
+  type SessionRestriction,
+} from './lib/security-policy';
+import {
+  consumeRateLimit,
+  RateLimitExceededError,
+  type RateLimitName,
+} from './lib/rate-limit';
 
 /**
  * User session from JWT token
@@ -23,6 +35,10 @@ export interface Session {
   shopId: string | null;
   roles: string[];
   isSuperAdmin: boolean;
+  /** Server-side Session row the access token belongs to */
+  sessionId: string;
+  /** Set when the security policy limits this session to a few procedures */
+  restriction: SessionRestriction | null;
 }
 
 /**
@@ -38,7 +54,9 @@ export interface Context {
 /**
  * Create context for each request
  * This runs for every tRPC procedure call
- * Attempts to extract and verify JWT token from Authorization header
+ * Attempts to extract and verify JWT token from Authorization header.
+ * The token must also belong to an active (not revoked, expired or idle) server-side
+ * session; the security policy then decides whether the session is restricted.
  */
 export const createTRPCContext = async (opts: FetchCreateContextFnOptions) => {
   // Extract Authorization header
@@ -51,14 +69,22 @@ export const createTRPCContext = async (opts: FetchCreateContextFnOptions) => {
   if (token) {
     try {
       const payload = await verifyAccessToken(token);
+      const policy = await getSecurityPolicy(prisma);
+      const user = await validateSession(prisma, payload.sessionId, token, {
+        idleTimeoutSeconds: policy.sessionTimeout * 60,
+      });
+      const { ipAddress } = getClientInfo(opts.req.headers);
+
       session = {
         userId: payload.userId,
         shopId: payload.shopId,
         roles: payload.roles,
         isSuperAdmin: payload.isSuperAdmin,
+        sessionId: payload.sessionId,
+        restriction: await getSessionRestriction(prisma, user, ipAddress),
       };
     } catch (error) {
-      // Invalid token - proceed without session
+      // Invalid token or revoked session - proceed without session
       console.warn('[tRPC] Invalid token:', error);
     }
   }
@@ -82,6 +108,9 @@ const t = initTRPC.context<Context>().create({
         ...shape.data,
         zodError:
           error.cause instanceof ZodError ? error.cause.flatten() : null,
+        // Seconds to wait before retrying (also sent as the Retry-After header)
+        retryAfter:
+          error.cause instanceof RateLimitExceededError ? error.cause.retryAfterSeconds : null,
       },
     };
   },
@@ -91,32 +120,143 @@ const t = initTRPC.context<Context>().create({
  * Export reusable router and procedure helpers
  */
 export const createTRPCRouter = t.router;
-export const publicProcedure = t.procedure;
+
+/**
+ * Call a router's procedures server-side with a given context (used by tests)
+ */
+export const createCallerFactory = t.createCallerFactory;
+
+/**
+ * Procedures callable without signing in (login, registration, setup wizard)
+ * They run before a tenant is known, so they run as the system: tenant
+ * isolation (the Prisma middleware and the Postgres RLS policies) is bypassed
+ * explicitly, and each procedure scopes its own queries.
+ */
+export const publicProcedure = t.procedure.use(({ next }) => asSystem('public', () => next()));
+
+/**
+ * Middleware enforcing a RATE_LIMITS budget (see lib/rate-limit.ts)
+ * Counts per user when signed in, otherwise per client IP. Composable with any
+ * procedure; calls over budget fail with TOO_MANY_REQUESTS and Retry-After.
+ *
+ * @example
+ * upload: requirePermission('receipts', 'create').use(rateLimit('RECEIPT_UPLOAD'))
+ */
+export const rateLimit = (name: RateLimitName) =>
+  t.middleware(async ({ ctx, next }) => {
+    const result = await consumeRateLimit(ctx.db, name, {
+      shopId: ctx.session?.shopId ?? null,
+      userId: ctx.session?.userId ?? null,
+      ipAddress: getClientInfo(ctx.headers).ipAddress,
+    });
+
+    if (!result.allowed) {
+      console.warn('[tRPC] Rate limit exceeded:', {
+        name,
+        userId: ctx.session?.userId,
+        retryAfter: result.retryAfterSeconds,
+      });
+
+      throw new TRPCError({
+        code: 'TOO_MANY_REQUESTS',
+        message: `Too many requests. Try again in ${result.retryAfterSeconds} seconds.`,
+        cause: new RateLimitExceededError(name, result.retryAfterSeconds),
+      });
+    }
+
+    return next();
+  });
+
+/**
+ * Procedures a restricted session may still call, per restriction
+ */
+const RESTRICTED_SESSION_PROCEDURES: Record<SessionRestriction, string[]> = {
+  IP_NOT_ALLOWED: ['auth.logout'],
+  PASSWORD_CHANGE_REQUIRED: [
+    'auth.logout',
+    'auth.listSessions',
+    'auth.revokeSession',
+    'auth.changePassword',
+  ],
+  MFA_ENROLLMENT_REQUIRED: [
+    'auth.logout',
+    'auth.listSessions',
+    'auth.revokeSession',
+    'auth.changePassword',
+    'auth.setupMFA',
+    'auth.verifyMFASetup',
+    'auth.mfaStatus',
+    'passkeys.list',
+    'passkeys.registrationOptions',
+    'passkeys.register',
+  ],
+};
+
+/**
+ * Reject procedures a restricted session may not call
+ * The error message starts with the restriction code so the client can redirect.
+ */
+function assertSessionAllowed(session: Session, path: string): void {
+  if (session.restriction && !RESTRICTED_SESSION_PROCEDURES[session.restriction].includes(path)) {
+    throw new TRPCError({
+      code: 'FORBIDDEN',
+      message:
+        session.restriction === 'IP_NOT_ALLOWED'
+          ? 'IP_NOT_ALLOWED: Access is not allowed from this network'
+          : session.restriction === 'PASSWORD_CHANGE_REQUIRED'
+            ? 'PASSWORD_CHANGE_REQUIRED: You must change your password to continue'
+            : 'MFA_ENROLLMENT_REQUIRED: You must set up two-factor authentication to continue',
+    });
+  }
+}
+
+/**
+ * Tenant context for a session
+ * Procedures run inside it so the Prisma tenant isolation middleware scopes
+ * every query on tenant models to the caller's shop, and each query sets
+ * app.current_shop_id for the Postgres RLS policies (see withTenantTransaction).
+ */
+function getTenantContext(session: Session): TenantContext {
+  return {
+    userId: session.userId,
+    shopId: session.shopId,
+    roles: session.roles,
+    isSuperAdmin: session.isSuperAdmin,
+  };
+}
 
 /**
  * Middleware for procedures that require authentication
- * Verifies that user is logged in via JWT token
+ * Verifies that user is logged in via JWT token and the session is not restricted.
+ * Every call counts against the caller's RATE_LIMITS.API_REQUESTS budget.
  */
-export const protectedProcedure = t.procedure.use(({ ctx, next }) => {
+export const protectedProcedure = t.procedure.use(({ ctx, path, next }) => {
   if (!ctx.session) {
     throw new TRPCError({
       code: 'UNAUTHORIZED',
       message: 'You must be logged in to access this resource',
     });
   }
-  return next({
-    ctx: {
-      ...ctx,
-      session: ctx.session, // Now guaranteed to be non-null
-    },
-  });
-});
+
+  assertSessionAllowed(ctx.session, path);
+
+  const session = ctx.session;
+
+  return withTenantContext(getTenantContext(session), () =>
+    next({
+      ctx: {
+        ...ctx,
+        session, // Now guaranteed to be non-null
+      },
+    })
+  );
+}).use(rateLimit('API_REQUESTS'));
 
 /**
  * Middleware for procedures that require super admin access
  * Verifies that user is logged in AND is a super admin
  */
-export const superAdminProcedure = t.procedure.use(({ ctx, next }) => {
+export const superAdminProcedure = t.procedure.use(({ ctx, path, next }) => {
   if (!ctx.session) {
     throw new TRPCError({
       code: 'UNAUTHORIZED',
@@ -124,6 +264,8 @@ export const superAdminProcedure = t.procedure.use(({ ctx, next }) => {
     });
   }
 
+  assertSessionAllowed(ctx.session, path);
+
   if (!ctx.session.isSuperAdmin) {
     throw new TRPCError({
       code: 'FORBIDDEN',
@@ -131,10 +273,14 @@ export const superAdminProcedure = t.procedure.use(({ ctx, next }) => {
     });
   }
 
-  return next({
-    ctx: {
-      ...ctx,
-      session: ctx.session,
-    },
-  });
+  const session = ctx.session;
+
+  return withTenantContext(getTenantContext(session), () =>
+    next({
+      ctx: {
+        ...ctx,
+        session,
+      },
+    })
+  );
 });
@@ -0,0 +1,28 @@
+import { createRequire } from 'module';
+import path from 'path';
+import { defineConfig } from 'vitest/config';
+
+const require = createRequire(import.meta.url);
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      '@': path.resolve(__dirname, 'src'),
+      // Marker package that throws outside React Server Components
+      'server-only': path.join(path.dirname(require.resolve('server-only')), 'empty.js'),
+    },
+  },
+  test: {
+    include: ['src/**/*.test.ts'],
+    pool: 'forks',
+    poolOptions: {
+      // Loader hook for Prisma's WebAssembly query engine (see @shop-rewards/db/testing)
+      forks: { execArgv: ['--import', '@shop-rewards/db/testing/register'] },
+    },
+    env: {
+      ENCRYPTION_KEY: '0'.repeat(64),
+    },
+    testTimeout: 30000,
+    hookTimeout: 60000,
+  },
+});
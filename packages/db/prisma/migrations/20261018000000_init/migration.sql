@@ -0,0 +1,669 @@
+-- CreateExtension
+CREATE EXTENSION IF NOT EXISTS "pgcrypto";
+
+-- CreateEnum
+CREATE TYPE "ShopStatus" AS ENUM ('PENDING_APPROVAL', 'ACTIVE', 'SUSPENDED', 'DELETED');
+
+-- CreateEnum
+CREATE TYPE "ConsentType" AS ENUM ('ANALYTICS', 'MARKETING', 'DATA_PROCESSING');
+
+-- CreateEnum
+CREATE TYPE "VoucherStatus" AS ENUM ('PENDING', 'ACTIVE', 'REDEEMED', 'EXPIRED', 'CANCELLED');
+
+-- CreateEnum
+CREATE TYPE "RedemptionStatus" AS ENUM ('PENDING', 'APPROVED', 'REJECTED', 'COMPLETED', 'CANCELLED');
+
+-- CreateTable
+CREATE TABLE "system_configs" (
+    "id" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "value" TEXT,
+    "description" TEXT,
+    "isEncrypted" BOOLEAN NOT NULL DEFAULT false,
+    "category" TEXT NOT NULL DEFAULT 'general',
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "updatedBy" TEXT,
+
+    CONSTRAINT "system_configs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "setup_wizard_state" (
+    "id" TEXT NOT NULL,
+    "currentStep" INTEGER NOT NULL DEFAULT 1,
+    "completedSteps" INTEGER[] DEFAULT ARRAY[]::INTEGER[],
+    "stateData" TEXT,
+    "systemConfigured" BOOLEAN NOT NULL DEFAULT false,
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "setup_wizard_state_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "companies" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "industry" TEXT,
+    "country" TEXT NOT NULL,
+    "timezone" TEXT NOT NULL DEFAULT 'UTC',
+    "currency" TEXT NOT NULL DEFAULT 'USD',
+    "logo" TEXT,
+    "logoUrl" TEXT,
+    "faviconUrl" TEXT,
+    "customDomain" TEXT,
+    "emailSender" TEXT,
+    "themeColors" TEXT,
+    "language" TEXT NOT NULL DEFAULT 'en',
+    "dateFormat" TEXT NOT NULL DEFAULT 'YYYY-MM-DD',
+    "timeFormat" TEXT NOT NULL DEFAULT 'HH:mm',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "companies_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "shops" (
+    "id" TEXT NOT NULL,
+    "slug" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "logo" TEXT,
+    "status" "ShopStatus" NOT NULL DEFAULT 'PENDING_APPROVAL',
+    "customDomain" TEXT,
+    "dnsVerificationToken" TEXT,
+    "emailVerified" BOOLEAN NOT NULL DEFAULT false,
+    "verificationToken" TEXT,
+    "email" TEXT NOT NULL,
+    "phone" TEXT,
+    "address" TEXT,
+    "city" TEXT,
+    "state" TEXT,
+    "country" TEXT NOT NULL,
+    "postalCode" TEXT,
+    "ipWhitelist" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "allowedOrigins" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "dataRetentionDays" INTEGER NOT NULL DEFAULT 30,
+    "billingProvider" TEXT,
+    "stripeCustomerId" TEXT,
+    "paypalMerchantId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "deletedAt" TIMESTAMP(3),
+
+    CONSTRAINT "shops_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "users" (
+    "id" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "passwordHash" TEXT NOT NULL,
+    "name" TEXT,
+    "firstName" TEXT NOT NULL,
+    "lastName" TEXT NOT NULL,
+    "isSuperAdmin" BOOLEAN NOT NULL DEFAULT false,
+    "shopId" TEXT,
+    "mfaEnabled" BOOLEAN NOT NULL DEFAULT false,
+    "mfaSecret" TEXT,
+    "mfaBackupCodes" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "lastLoginAt" TIMESTAMP(3),
+    "lastLoginIp" TEXT,
+    "failedLoginAttempts" INTEGER NOT NULL DEFAULT 0,
+    "lockedUntil" TIMESTAMP(3),
+    "forcePasswordChange" BOOLEAN NOT NULL DEFAULT false,
+    "passwordChangedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "deletedAt" TIMESTAMP(3),
+
+    CONSTRAINT "users_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "roles" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "displayName" TEXT NOT NULL,
+    "description" TEXT,
+    "isSystemRole" BOOLEAN NOT NULL DEFAULT false,
+    "shopId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "roles_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "permissions" (
+    "id" TEXT NOT NULL,
+    "module" TEXT NOT NULL,
+    "action" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+
+    CONSTRAINT "permissions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "user_roles" (
+    "userId" TEXT NOT NULL,
+    "roleId" TEXT NOT NULL,
+    "assignedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "assignedBy" TEXT,
+
+    CONSTRAINT "user_roles_pkey" PRIMARY KEY ("userId","roleId")
+);
+
+-- CreateTable
+CREATE TABLE "role_permissions" (
+    "roleId" TEXT NOT NULL,
+    "permissionId" TEXT NOT NULL,
+
+    CONSTRAINT "role_permissions_pkey" PRIMARY KEY ("roleId","permissionId")
+);
+
+-- CreateTable
+CREATE TABLE "sessions" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "accessTokenHash" TEXT NOT NULL,
+    "refreshTokenHash" TEXT NOT NULL,
+    "ipAddress" TEXT NOT NULL,
+    "userAgent" TEXT NOT NULL,
+    "shopId" TEXT,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "lastActivityAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "sessions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "audit_logs" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT,
+    "userEmail" TEXT,
+    "shopId" TEXT,
+    "action" TEXT NOT NULL,
+    "resource" TEXT NOT NULL,
+    "resourceId" TEXT,
+    "changesBefore" JSONB,
+    "changesAfter" JSONB,
+    "ipAddress" TEXT NOT NULL,
+    "userAgent" TEXT NOT NULL,
+    "isSuspicious" BOOLEAN NOT NULL DEFAULT false,
+    "flagReason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "audit_logs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "gdpr_consents" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "shopId" TEXT NOT NULL,
+    "consentType" "ConsentType" NOT NULL,
+    "granted" BOOLEAN NOT NULL,
+    "ipAddress" TEXT NOT NULL,
+    "userAgent" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "revokedAt" TIMESTAMP(3),
+
+    CONSTRAINT "gdpr_consents_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "shop_configs" (
+    "id" TEXT NOT NULL,
+    "shopId" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "value" TEXT NOT NULL,
+    "isEncrypted" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "shop_configs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "integrations" (
+    "id" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "config" TEXT NOT NULL,
+    "isActive" BOOLEAN NOT NULL DEFAULT false,
+    "testResult" TEXT,
+    "testedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "integrations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "billing_configs" (
+    "id" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "apiKey" TEXT NOT NULL,
+    "webhookSecret" TEXT,
+    "planTiers" TEXT NOT NULL,
+    "usageMetrics" TEXT NOT NULL,
+    "isActive" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "billing_configs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "departments" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "shopId" TEXT NOT NULL,
+    "locationId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "departments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "locations" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "address" TEXT NOT NULL,
+    "city" TEXT NOT NULL,
+    "country" TEXT NOT NULL,
+    "postalCode" TEXT,
+    "coordinates" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "locations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "security_policies" (
+    "id" TEXT NOT NULL,
+    "minPasswordLength" INTEGER NOT NULL DEFAULT 12,
+    "passwordExpiry" INTEGER DEFAULT 90,
+    "requireUppercase" BOOLEAN NOT NULL DEFAULT true,
+    "requireNumbers" BOOLEAN NOT NULL DEFAULT true,
+    "requireSpecialChars" BOOLEAN NOT NULL DEFAULT true,
+    "sessionTimeout" INTEGER NOT NULL DEFAULT 3600,
+    "maxConcurrentSessions" INTEGER NOT NULL DEFAULT 5,
+    "ipWhitelist" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "dataRetentionDays" INTEGER NOT NULL DEFAULT 365,
+    "mfaRequired" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "security_policies_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "receipts" (
+    "id" TEXT NOT NULL,
+    "shopId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "minioPath" TEXT NOT NULL,
+    "fileHash" TEXT NOT NULL,
+    "fileName" TEXT,
+    "fileSize" INTEGER,
+    "mimeType" TEXT,
+    "receiptNumber" TEXT,
+    "receiptDate" TIMESTAMP(3),
+    "totalAmount" DECIMAL(10,2),
+    "currency" TEXT NOT NULL DEFAULT 'USD',
+    "merchantName" TEXT,
+    "ocrProcessed" BOOLEAN NOT NULL DEFAULT false,
+    "ocrData" JSONB,
+    "ocrConfidence" DOUBLE PRECISION,
+    "isSuspicious" BOOLEAN NOT NULL DEFAULT false,
+    "fraudScore" DOUBLE PRECISION,
+    "fraudReason" TEXT,
+    "verified" BOOLEAN NOT NULL DEFAULT false,
+    "verifiedAt" TIMESTAMP(3),
+    "verifiedBy" TEXT,
+    "scheduledDeleteAt" TIMESTAMP(3) NOT NULL,
+    "deletedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "receipts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "vouchers" (
+    "id" TEXT NOT NULL,
+    "shopId" TEXT NOT NULL,
+    "receiptId" TEXT,
+    "campaignId" TEXT,
+    "code" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "discountPercent" DECIMAL(5,2),
+    "discountAmount" DECIMAL(10,2),
+    "description" TEXT NOT NULL,
+    "validFrom" TIMESTAMP(3) NOT NULL,
+    "validUntil" TIMESTAMP(3) NOT NULL,
+    "maxUses" INTEGER NOT NULL DEFAULT 1,
+    "usedCount" INTEGER NOT NULL DEFAULT 0,
+    "status" "VoucherStatus" NOT NULL DEFAULT 'ACTIVE',
+    "qrCodeData" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "vouchers_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "campaigns" (
+    "id" TEXT NOT NULL,
+    "shopId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "startDate" TIMESTAMP(3) NOT NULL,
+    "endDate" TIMESTAMP(3) NOT NULL,
+    "rules" JSONB NOT NULL,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "campaigns_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "redemptions" (
+    "id" TEXT NOT NULL,
+    "shopId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "voucherId" TEXT NOT NULL,
+    "redeemValue" DECIMAL(10,2) NOT NULL,
+    "status" "RedemptionStatus" NOT NULL DEFAULT 'PENDING',
+    "isHighValue" BOOLEAN NOT NULL DEFAULT false,
+    "redeemedAt" TIMESTAMP(3),
+    "approvedAt" TIMESTAMP(3),
+    "approvedBy" TEXT,
+    "rejectedAt" TIMESTAMP(3),
+    "rejectionReason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "redemptions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ads" (
+    "id" TEXT NOT NULL,
+    "shopId" TEXT NOT NULL,
+    "campaignId" TEXT,
+    "title" TEXT NOT NULL,
+    "description" TEXT,
+    "minioPath" TEXT NOT NULL,
+    "fileHash" TEXT NOT NULL,
+    "displayOrder" INTEGER NOT NULL DEFAULT 0,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "impressions" INTEGER NOT NULL DEFAULT 0,
+    "clicks" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ads_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "import_logs" (
+    "id" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "fileName" TEXT NOT NULL,
+    "totalRows" INTEGER NOT NULL,
+    "successCount" INTEGER NOT NULL,
+    "errorCount" INTEGER NOT NULL,
+    "errors" TEXT,
+    "importedBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "import_logs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "_DepartmentToUser" (
+    "A" TEXT NOT NULL,
+    "B" TEXT NOT NULL
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "system_configs_key_key" ON "system_configs"("key");
+
+-- CreateIndex
+CREATE INDEX "system_configs_category_idx" ON "system_configs"("category");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "companies_customDomain_key" ON "companies"("customDomain");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "shops_slug_key" ON "shops"("slug");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "shops_customDomain_key" ON "shops"("customDomain");
+
+-- CreateIndex
+CREATE INDEX "shops_slug_idx" ON "shops"("slug");
+
+-- CreateIndex
+CREATE INDEX "shops_status_idx" ON "shops"("status");
+
+-- CreateIndex
+CREATE INDEX "shops_email_idx" ON "shops"("email");
+
+-- CreateIndex
+CREATE INDEX "users_shopId_idx" ON "users"("shopId");
+
+-- CreateIndex
+CREATE INDEX "users_email_idx" ON "users"("email");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "users_email_shopId_key" ON "users"("email", "shopId");
+
+-- CreateIndex
+CREATE INDEX "roles_name_idx" ON "roles"("name");
+
+-- CreateIndex
+CREATE INDEX "roles_shopId_idx" ON "roles"("shopId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "roles_name_shopId_key" ON "roles"("name", "shopId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "permissions_module_action_key" ON "permissions"("module", "action");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "sessions_accessTokenHash_key" ON "sessions"("accessTokenHash");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "sessions_refreshTokenHash_key" ON "sessions"("refreshTokenHash");
+
+-- CreateIndex
+CREATE INDEX "sessions_userId_idx" ON "sessions"("userId");
+
+-- CreateIndex
+CREATE INDEX "sessions_accessTokenHash_idx" ON "sessions"("accessTokenHash");
+
+-- CreateIndex
+CREATE INDEX "sessions_refreshTokenHash_idx" ON "sessions"("refreshTokenHash");
+
+-- CreateIndex
+CREATE INDEX "sessions_expiresAt_idx" ON "sessions"("expiresAt");
+
+-- CreateIndex
+CREATE INDEX "audit_logs_userId_idx" ON "audit_logs"("userId");
+
+-- CreateIndex
+CREATE INDEX "audit_logs_shopId_idx" ON "audit_logs"("shopId");
+
+-- CreateIndex
+CREATE INDEX "audit_logs_action_idx" ON "audit_logs"("action");
+
+-- CreateIndex
+CREATE INDEX "audit_logs_resource_idx" ON "audit_logs"("resource");
+
+-- CreateIndex
+CREATE INDEX "audit_logs_createdAt_idx" ON "audit_logs"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "audit_logs_isSuspicious_idx" ON "audit_logs"("isSuspicious");
+
+-- CreateIndex
+CREATE INDEX "gdpr_consents_userId_idx" ON "gdpr_consents"("userId");
+
+-- CreateIndex
+CREATE INDEX "gdpr_consents_shopId_idx" ON "gdpr_consents"("shopId");
+
+-- CreateIndex
+CREATE INDEX "gdpr_consents_consentType_idx" ON "gdpr_consents"("consentType");
+
+-- CreateIndex
+CREATE INDEX "shop_configs_shopId_idx" ON "shop_configs"("shopId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "shop_configs_shopId_key_key" ON "shop_configs"("shopId", "key");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "integrations_type_provider_key" ON "integrations"("type", "provider");
+
+-- CreateIndex
+CREATE INDEX "receipts_shopId_idx" ON "receipts"("shopId");
+
+-- CreateIndex
+CREATE INDEX "receipts_userId_idx" ON "receipts"("userId");
+
+-- CreateIndex
+CREATE INDEX "receipts_scheduledDeleteAt_idx" ON "receipts"("scheduledDeleteAt");
+
+-- CreateIndex
+CREATE INDEX "receipts_isSuspicious_idx" ON "receipts"("isSuspicious");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "vouchers_code_key" ON "vouchers"("code");
+
+-- CreateIndex
+CREATE INDEX "vouchers_shopId_idx" ON "vouchers"("shopId");
+
+-- CreateIndex
+CREATE INDEX "vouchers_code_idx" ON "vouchers"("code");
+
+-- CreateIndex
+CREATE INDEX "vouchers_status_idx" ON "vouchers"("status");
+
+-- CreateIndex
+CREATE INDEX "vouchers_validFrom_validUntil_idx" ON "vouchers"("validFrom", "validUntil");
+
+-- CreateIndex
+CREATE INDEX "redemptions_shopId_idx" ON "redemptions"("shopId");
+
+-- CreateIndex
+CREATE INDEX "redemptions_userId_idx" ON "redemptions"("userId");
+
+-- CreateIndex
+CREATE INDEX "redemptions_voucherId_idx" ON "redemptions"("voucherId");
+
+-- CreateIndex
+CREATE INDEX "redemptions_status_idx" ON "redemptions"("status");
+
+-- CreateIndex
+CREATE INDEX "redemptions_isHighValue_idx" ON "redemptions"("isHighValue");
+
+-- CreateIndex
+CREATE INDEX "ads_shopId_idx" ON "ads"("shopId");
+
+-- CreateIndex
+CREATE INDEX "ads_active_idx" ON "ads"("active");
+
+-- CreateIndex
+CREATE INDEX "ads_displayOrder_idx" ON "ads"("displayOrder");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "_DepartmentToUser_AB_unique" ON "_DepartmentToUser"("A", "B");
+
+-- CreateIndex
+CREATE INDEX "_DepartmentToUser_B_index" ON "_DepartmentToUser"("B");
+
+-- AddForeignKey
+ALTER TABLE "users" ADD CONSTRAINT "users_shopId_fkey" FOREIGN KEY ("shopId") REFERENCES "shops"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "roles" ADD CONSTRAINT "roles_shopId_fkey" FOREIGN KEY ("shopId") REFERENCES "shops"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "user_roles" ADD CONSTRAINT "user_roles_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "user_roles" ADD CONSTRAINT "user_roles_roleId_fkey" FOREIGN KEY ("roleId") REFERENCES "roles"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "role_permissions" ADD CONSTRAINT "role_permissions_roleId_fkey" FOREIGN KEY ("roleId") REFERENCES "roles"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "role_permissions" ADD CONSTRAINT "role_permissions_permissionId_fkey" FOREIGN KEY ("permissionId") REFERENCES "permissions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "sessions" ADD CONSTRAINT "sessions_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "audit_logs" ADD CONSTRAINT "audit_logs_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "audit_logs" ADD CONSTRAINT "audit_logs_shopId_fkey" FOREIGN KEY ("shopId") REFERENCES "shops"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "gdpr_consents" ADD CONSTRAINT "gdpr_consents_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "gdpr_consents" ADD CONSTRAINT "gdpr_consents_shopId_fkey" FOREIGN KEY ("shopId") REFERENCES "shops"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "shop_configs" ADD CONSTRAINT "shop_configs_shopId_fkey" FOREIGN KEY ("shopId") REFERENCES "shops"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "departments" ADD CONSTRAINT "departments_shopId_fkey" FOREIGN KEY ("shopId") REFERENCES "shops"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "departments" ADD CONSTRAINT "departments_locationId_fkey" FOREIGN KEY ("locationId") REFERENCES "locations"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "receipts" ADD CONSTRAINT "receipts_shopId_fkey" FOREIGN KEY ("shopId") REFERENCES "shops"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "receipts" ADD CONSTRAINT "receipts_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "vouchers" ADD CONSTRAINT "vouchers_shopId_fkey" FOREIGN KEY ("shopId") REFERENCES "shops"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "vouchers" ADD CONSTRAINT "vouchers_receiptId_fkey" FOREIGN KEY ("receiptId") REFERENCES "receipts"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "vouchers" ADD CONSTRAINT "vouchers_campaignId_fkey" FOREIGN KEY ("campaignId") REFERENCES "campaigns"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "redemptions" ADD CONSTRAINT "redemptions_shopId_fkey" FOREIGN KEY ("shopId") REFERENCES "shops"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "redemptions" ADD CONSTRAINT "redemptions_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "redemptions" ADD CONSTRAINT "redemptions_voucherId_fkey" FOREIGN KEY ("voucherId") REFERENCES "vouchers"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ads" ADD CONSTRAINT "ads_shopId_fkey" FOREIGN KEY ("shopId") REFERENCES "shops"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ads" ADD CONSTRAINT "ads_campaignId_fkey" FOREIGN KEY ("campaignId") REFERENCES "campaigns"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_DepartmentToUser" ADD CONSTRAINT "_DepartmentToUser_A_fkey" FOREIGN KEY ("A") REFERENCES "departments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_DepartmentToUser" ADD CONSTRAINT "_DepartmentToUser_B_fkey" FOREIGN KEY ("B") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,22 @@
+-- CreateEnum
+CREATE TYPE "ReceiptStatus" AS ENUM ('PENDING_OCR', 'OCR_PROCESSING', 'OCR_COMPLETED', 'OCR_FAILED', 'VERIFIED', 'REJECTED', 'FRAUDULENT');
+
+-- AlterTable
+ALTER TABLE "receipts" ADD COLUMN     "campaignId" TEXT,
+ADD COLUMN     "status" "ReceiptStatus" NOT NULL DEFAULT 'PENDING_OCR';
+
+-- CreateIndex
+CREATE INDEX "receipts_campaignId_idx" ON "receipts"("campaignId");
+
+-- CreateIndex
+CREATE INDEX "receipts_fileHash_idx" ON "receipts"("fileHash");
+
+-- CreateIndex
+CREATE INDEX "receipts_status_idx" ON "receipts"("status");
+
+-- AddForeignKey
+ALTER TABLE "receipts" ADD CONSTRAINT "receipts_campaignId_fkey" FOREIGN KEY ("campaignId") REFERENCES "campaigns"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Backfill status of existing receipts
+UPDATE "receipts" SET "status" = 'VERIFIED' WHERE "verified" = true;
+UPDATE "receipts" SET "status" = 'OCR_COMPLETED' WHERE "verified" = false AND "ocrProcessed" = true;
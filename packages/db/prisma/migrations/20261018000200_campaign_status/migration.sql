@@ -0,0 +1,18 @@
+-- CreateEnum
+CREATE TYPE "CampaignStatus" AS ENUM ('DRAFT', 'SCHEDULED', 'ACTIVE', 'PAUSED', 'COMPLETED', 'CANCELLED');
+
+-- AlterTable
+ALTER TABLE "campaigns" ADD COLUMN     "status" "CampaignStatus" NOT NULL DEFAULT 'DRAFT',
+ALTER COLUMN "active" SET DEFAULT false;
+
+-- CreateIndex
+CREATE INDEX "campaigns_shopId_status_idx" ON "campaigns"("shopId", "status");
+
+-- Backfill status of existing campaigns (active keeps mirroring status = ACTIVE)
+UPDATE "campaigns" SET "status" = CASE
+  WHEN "endDate" < CURRENT_TIMESTAMP THEN 'COMPLETED'
+  WHEN "active" AND "startDate" > CURRENT_TIMESTAMP THEN 'SCHEDULED'
+  WHEN "active" THEN 'ACTIVE'
+  ELSE 'PAUSED'
+END::"CampaignStatus";
+UPDATE "campaigns" SET "active" = ("status" = 'ACTIVE');
@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "ReceiptStatus" ADD VALUE 'MANUAL_REVIEW';
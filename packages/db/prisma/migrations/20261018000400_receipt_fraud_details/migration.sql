@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "receipts" ADD COLUMN     "fraudDetails" JSONB;
+
+-- CreateIndex
+CREATE INDEX "receipts_receiptNumber_idx" ON "receipts"("receiptNumber");
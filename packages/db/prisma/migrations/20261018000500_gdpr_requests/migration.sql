@@ -0,0 +1,45 @@
+-- CreateEnum
+CREATE TYPE "GdprRequestType" AS ENUM ('EXPORT', 'ERASURE');
+
+-- CreateEnum
+CREATE TYPE "GdprRequestStatus" AS ENUM ('PENDING', 'PROCESSING', 'COMPLETED', 'REJECTED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "gdpr_requests" (
+    "id" TEXT NOT NULL,
+    "type" "GdprRequestType" NOT NULL,
+    "status" "GdprRequestStatus" NOT NULL DEFAULT 'PENDING',
+    "userId" TEXT NOT NULL,
+    "shopId" TEXT,
+    "requestedBy" TEXT NOT NULL,
+    "reason" TEXT,
+    "dueAt" TIMESTAMP(3) NOT NULL,
+    "processedBy" TEXT,
+    "completedAt" TIMESTAMP(3),
+    "exportPath" TEXT,
+    "exportHash" TEXT,
+    "result" JSONB,
+    "failureReason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "gdpr_requests_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "gdpr_requests_userId_idx" ON "gdpr_requests"("userId");
+
+-- CreateIndex
+CREATE INDEX "gdpr_requests_shopId_idx" ON "gdpr_requests"("shopId");
+
+-- CreateIndex
+CREATE INDEX "gdpr_requests_status_idx" ON "gdpr_requests"("status");
+
+-- CreateIndex
+CREATE INDEX "gdpr_requests_dueAt_idx" ON "gdpr_requests"("dueAt");
+
+-- AddForeignKey
+ALTER TABLE "gdpr_requests" ADD CONSTRAINT "gdpr_requests_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "gdpr_requests" ADD CONSTRAINT "gdpr_requests_shopId_fkey" FOREIGN KEY ("shopId") REFERENCES "shops"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "sessions" ADD COLUMN     "revokedAt" TIMESTAMP(3),
+ADD COLUMN     "revokedReason" TEXT;
+
+-- CreateIndex
+CREATE INDEX "sessions_userId_revokedAt_idx" ON "sessions"("userId", "revokedAt");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "security_policies" ALTER COLUMN "sessionTimeout" SET DEFAULT 60;
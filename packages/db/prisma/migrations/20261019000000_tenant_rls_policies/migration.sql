@@ -0,0 +1,92 @@
+-- Tenant row-level security policies
+--
+-- Second line of defence behind the Prisma tenant isolation middleware: rows of
+-- tenant tables are only visible and writable for the shop in the
+-- `app.current_shop_id` setting. The application sets it per transaction with
+-- SET LOCAL (set_config(..., true)) for every query made in a tenant context
+-- (see packages/db/src/middleware/postgres-rls.ts).
+--
+-- The policies fail closed: a connection without the setting sees no tenant
+-- rows. Super admins and system jobs (asSystem, seeding) bypass them explicitly
+-- by setting `app.bypass_rls` to 'on' for the transaction. FORCE makes the
+-- policies apply to the table owner, which is the role the application
+-- connects as.
+
+-- Current tenant, or NULL if the setting is missing or empty
+CREATE OR REPLACE FUNCTION app_current_shop_id() RETURNS TEXT
+  LANGUAGE sql STABLE
+  AS $$ SELECT NULLIF(current_setting('app.current_shop_id', true), '') $$;
+
+-- Whether the transaction explicitly bypasses tenant isolation
+CREATE OR REPLACE FUNCTION app_bypass_rls() RETURNS BOOLEAN
+  LANGUAGE sql STABLE
+  AS $$ SELECT COALESCE(current_setting('app.bypass_rls', true), '') = 'on' $$;
+
+-- receipts
+ALTER TABLE "receipts" ENABLE ROW LEVEL SECURITY;
+ALTER TABLE "receipts" FORCE ROW LEVEL SECURITY;
+
+CREATE POLICY "tenant_isolation" ON "receipts"
+  USING (app_bypass_rls() OR "shopId" = app_current_shop_id())
+  WITH CHECK (app_bypass_rls() OR "shopId" = app_current_shop_id());
+
+-- vouchers
+ALTER TABLE "vouchers" ENABLE ROW LEVEL SECURITY;
+ALTER TABLE "vouchers" FORCE ROW LEVEL SECURITY;
+
+CREATE POLICY "tenant_isolation" ON "vouchers"
+  USING (app_bypass_rls() OR "shopId" = app_current_shop_id())
+  WITH CHECK (app_bypass_rls() OR "shopId" = app_current_shop_id());
+
+-- redemptions
+ALTER TABLE "redemptions" ENABLE ROW LEVEL SECURITY;
+ALTER TABLE "redemptions" FORCE ROW LEVEL SECURITY;
+
+CREATE POLICY "tenant_isolation" ON "redemptions"
+  USING (app_bypass_rls() OR "shopId" = app_current_shop_id())
+  WITH CHECK (app_bypass_rls() OR "shopId" = app_current_shop_id());
+
+-- ads
+ALTER TABLE "ads" ENABLE ROW LEVEL SECURITY;
+ALTER TABLE "ads" FORCE ROW LEVEL SECURITY;
+
+CREATE POLICY "tenant_isolation" ON "ads"
+  USING (app_bypass_rls() OR "shopId" = app_current_shop_id())
+  WITH CHECK (app_bypass_rls() OR "shopId" = app_current_shop_id());
+
+-- audit_logs
+ALTER TABLE "audit_logs" ENABLE ROW LEVEL SECURITY;
+ALTER TABLE "audit_logs" FORCE ROW LEVEL SECURITY;
+
+CREATE POLICY "tenant_isolation" ON "audit_logs"
+  USING (app_bypass_rls() OR "shopId" = app_current_shop_id())
+  WITH CHECK (app_bypass_rls() OR "shopId" = app_current_shop_id());
+
+-- shop_configs
+ALTER TABLE "shop_configs" ENABLE ROW LEVEL SECURITY;
+ALTER TABLE "shop_configs" FORCE ROW LEVEL SECURITY;
+
+CREATE POLICY "tenant_isolation" ON "shop_configs"
+  USING (app_bypass_rls() OR "shopId" = app_current_shop_id())
+  WITH CHECK (app_bypass_rls() OR "shopId" = app_current_shop_id());
+
+-- departments
+ALTER TABLE "departments" ENABLE ROW LEVEL SECURITY;
+ALTER TABLE "departments" FORCE ROW LEVEL SECURITY;
+
+CREATE POLICY "tenant_isolation" ON "departments"
+  USING (app_bypass_rls() OR "shopId" = app_current_shop_id())
+  WITH CHECK (app_bypass_rls() OR "shopId" = app_current_shop_id());
+
+-- roles: global roles (shopId NULL) are readable inside every tenant, but only
+-- the tenant's own roles can be written
+ALTER TABLE "roles" ENABLE ROW LEVEL SECURITY;
+ALTER TABLE "roles" FORCE ROW LEVEL SECURITY;
+
+CREATE POLICY "tenant_isolation" ON "roles"
+  USING (app_bypass_rls() OR "shopId" = app_current_shop_id())
+  WITH CHECK (app_bypass_rls() OR "shopId" = app_current_shop_id());
+
+CREATE POLICY "tenant_read_global_roles" ON "roles"
+  FOR SELECT
+  USING ("shopId" IS NULL AND app_current_shop_id() IS NOT NULL);
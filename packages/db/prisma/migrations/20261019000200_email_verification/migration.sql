@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "shops" ADD COLUMN     "verificationSentAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "emailVerifiedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "shops_verificationToken_key" ON "shops"("verificationToken");
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "audit_logs" ADD COLUMN     "chainId" TEXT,
+ADD COLUMN     "chainSeq" INTEGER,
+ADD COLUMN     "hash" TEXT,
+ADD COLUMN     "prevHash" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "audit_logs_chainId_chainSeq_key" ON "audit_logs"("chainId", "chainSeq");
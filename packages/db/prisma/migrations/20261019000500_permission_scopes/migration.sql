@@ -0,0 +1,5 @@
+-- CreateEnum
+CREATE TYPE "PermissionScope" AS ENUM ('OWN', 'DEPARTMENT', 'LOCATION', 'SHOP');
+
+-- AlterTable
+ALTER TABLE "role_permissions" ADD COLUMN     "scope" "PermissionScope" NOT NULL DEFAULT 'SHOP';
@@ -0,0 +1,5 @@
+-- CreateIndex
+-- Partial index (not expressible in schema.prisma): a file is unique per shop
+-- among live receipts, so a soft-deleted receipt does not block re-upload
+-- during its grace period
+CREATE UNIQUE INDEX "receipts_shopId_fileHash_key" ON "receipts"("shopId", "fileHash") WHERE "deletedAt" IS NULL;
@@ -3,10 +3,10 @@
  * Seeds initial roles, permissions, and super admin user
  */
 
-import { PrismaClient } from '@prisma/client';
 import { hash } from 'bcrypt';
+import { createSeedClient } from './seeds/client';
 
-const prisma = new PrismaClient();
+const prisma = createSeedClient();
 
 const PERMISSIONS = [
   // Shop management
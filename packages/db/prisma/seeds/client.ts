@@ -0,0 +1,28 @@
+/**
+ * Seed Prisma Client
+ *
+ * Seeding runs outside any tenant, so the tenant row-level security policies
+ * (migration tenant_rls_policies) would hide and reject tenant rows. Every
+ * query runs in a batch transaction that bypasses them explicitly, like
+ * asSystem does for the application (src/middleware/postgres-rls.ts).
+ */
+
+import { PrismaClient } from '@prisma/client';
+
+export function createSeedClient() {
+  const client = new PrismaClient();
+
+  return client.$extends({
+    name: 'seed-bypass-rls',
+    query: {
+      async $allOperations({ args, query }) {
+        const [, result] = await client.$transaction([
+          client.$executeRaw`SELECT set_config('app.bypass_rls', 'on', true)`,
+          query(args),
+        ]);
+
+        return result;
+      },
+    },
+  });
+}
@@ -5,15 +5,15 @@
  * This should be run after migrations to set up RBAC system.
  */
 
-import { PrismaClient } from '@prisma/client';
 import {
   PERMISSIONS,
   DEFAULT_ROLES,
   type Permission as PermissionDefinition,
   type RoleDefinition,
 } from '@shop-rewards/shared/constants/roles';
+import { createSeedClient } from './client';
 
-const prisma = new PrismaClient();
+const prisma = createSeedClient();
 
 /**
  * Seed all system permissions
@@ -1,11 +1,12 @@
 /**
  * Prisma Client Factory
- * Applies RLS and encryption middleware
+ * Applies RLS and encryption middleware, and the Postgres RLS session extension
  */
 
 import { PrismaClient } from '@prisma/client';
 
 import { createEncryptionMiddleware } from './middleware/encryption';
+import { createPostgresRlsExtension } from './middleware/postgres-rls';
 import { createTenantIsolationMiddleware } from './middleware/tenant-rls';
 
 // Singleton instance
@@ -19,20 +20,33 @@ export function getPrismaClient(): PrismaClient {
     return prisma;
   }
 
-  prisma = new PrismaClient({
-    log:
-      process.env.NODE_ENV === 'development'
-        ? ['query', 'error', 'warn']
-        : ['error'],
-  });
+  prisma = applyMiddleware(
+    new PrismaClient({
+      log:
+        process.env.NODE_ENV === 'development'
+          ? ['query', 'error', 'warn']
+          : ['error'],
+    })
+  );
 
+  return prisma;
+}
+
+/**
+ * Apply the tenant isolation and encryption middleware and the Postgres RLS
+ * extension to a client (also used by the test harness in src/testing)
+ */
+export function applyMiddleware(client: PrismaClient): PrismaClient {
   // Apply middleware in order:
   // 1. Tenant isolation (RLS) - must be first to enforce multi-tenancy
   // 2. Encryption - encrypts/decrypts sensitive fields
-  prisma.$use(createTenantIsolationMiddleware());
-  prisma.$use(createEncryptionMiddleware());
+  client.$use(createTenantIsolationMiddleware());
+  client.$use(createEncryptionMiddleware());
 
-  return prisma;
+  // Postgres RLS session setting (database-level tenant isolation).
+  // A query-only extension leaves the client API unchanged, so the
+  // PrismaClient type is kept for callers.
+  return client.$extends(createPostgresRlsExtension()) as unknown as PrismaClient;
 }
 
 /**
@@ -47,5 +61,13 @@ export async function disconnectPrisma(): Promise<void> {
 
 /**
  * Default export for convenience
+ * Resolves to getPrismaClient() on first use, so importing the package does not
+ * load the query engine (tests bring their own client, see src/testing).
  */
-export default getPrismaClient();
+export default new Proxy({} as PrismaClient, {
+  get(_target, property) {
+    const client = getPrismaClient();
+    const value = Reflect.get(client, property);
+    return typeof value === 'function' ? value.bind(client) : value;
+  },
+});
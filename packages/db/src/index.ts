@@ -14,11 +14,17 @@ export {
   createTenantIsolationMiddleware,
   tenantContext,
   withTenantContext,
+  asSystem,
   getCurrentTenantContext,
   getTenantContextOrNull,
   type TenantContext,
 } from './middleware/tenant-rls';
 
+export {
+  createPostgresRlsExtension,
+  withTenantTransaction,
+} from './middleware/postgres-rls';
+
 export {
   createEncryptionMiddleware,
   encrypt,
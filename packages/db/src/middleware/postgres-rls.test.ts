@@ -0,0 +1,154 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import type { Receipt, Shop } from '@prisma/client';
+
+import {
+  createTestDatabase,
+  createTestReceipt,
+  createTestShop,
+  createTestUser,
+  type TestDatabase,
+} from '../testing';
+import { withTenantTransaction } from './postgres-rls';
+import { asSystem, withTenantContext, type TenantContext } from './tenant-rls';
+
+describe('tenant RLS policies', () => {
+  let testDb: TestDatabase;
+  let shopA: Shop;
+  let shopB: Shop;
+  let receiptA: Receipt;
+  let receiptB: Receipt;
+
+  const tenant = (shop: Shop): TenantContext => ({
+    userId: `admin-of-${shop.slug}`,
+    shopId: shop.id,
+    roles: ['admin'],
+    isSuperAdmin: false,
+  });
+
+  /**
+   * Receipt ids visible to a raw connection with the given settings
+   */
+  async function visibleReceipts(settings: Record<string, string> = {}): Promise<string[]> {
+    return testDb.pglite.transaction(async (tx) => {
+      for (const [name, value] of Object.entries(settings)) {
+        await tx.query('SELECT set_config($1, $2, true)', [name, value]);
+      }
+
+      const { rows } = await tx.query<{ id: string }>('SELECT id FROM receipts ORDER BY id');
+      return rows.map((row) => row.id);
+    });
+  }
+
+  function insertReceipt(shopId: string, userId: string, settings: Record<string, string> = {}) {
+    return testDb.pglite.transaction(async (tx) => {
+      for (const [name, value] of Object.entries(settings)) {
+        await tx.query('SELECT set_config($1, $2, true)', [name, value]);
+      }
+
+      await tx.query(
+        `INSERT INTO receipts (id, "shopId", "userId", "minioPath", "fileHash", "scheduledDeleteAt", "updatedAt")
+         VALUES (gen_random_uuid()::text, $1, $2, 'receipts/raw.jpg', 'raw', now(), now())`,
+        [shopId, userId]
+      );
+    });
+  }
+
+  beforeAll(async () => {
+    testDb = await createTestDatabase();
+    shopA = await createTestShop(testDb.db, 'shop-a');
+    shopB = await createTestShop(testDb.db, 'shop-b');
+    const userA = await createTestUser(testDb.db, shopA.id);
+    const userB = await createTestUser(testDb.db, shopB.id);
+    receiptA = await createTestReceipt(testDb.db, shopA.id, userA.id);
+    receiptB = await createTestReceipt(testDb.db, shopB.id, userB.id);
+
+    await asSystem('test', () =>
+      testDb.db.role.createMany({
+        data: [
+          { name: 'platform_role', displayName: 'Platform role', shopId: null },
+          { name: 'shop_a_role', displayName: 'Shop A role', shopId: shopA.id },
+          { name: 'shop_b_role', displayName: 'Shop B role', shopId: shopB.id },
+        ],
+      })
+    );
+  });
+
+  afterAll(async () => {
+    await testDb?.close();
+  });
+
+  describe('raw connections', () => {
+    it('hide every tenant row when no setting is applied', async () => {
+      expect(await visibleReceipts()).toEqual([]);
+
+      const { rows } = await testDb.pglite.query('SELECT id FROM roles');
+      expect(rows).toEqual([]);
+    });
+
+    it('reject writes when no setting is applied', async () => {
+      await expect(insertReceipt(shopA.id, receiptA.userId)).rejects.toThrow(/row-level security/);
+    });
+
+    it('only see and write the shop in app.current_shop_id', async () => {
+      expect(await visibleReceipts({ 'app.current_shop_id': shopA.id })).toEqual([receiptA.id]);
+
+      await expect(
+        insertReceipt(shopB.id, receiptB.userId, { 'app.current_shop_id': shopA.id })
+      ).rejects.toThrow(/row-level security/);
+    });
+
+    it('read global roles only inside a tenant', async () => {
+      const names = await testDb.pglite.transaction(async (tx) => {
+        await tx.query("SELECT set_config('app.current_shop_id', $1, true)", [shopA.id]);
+        const { rows } = await tx.query<{ name: string }>('SELECT name FROM roles ORDER BY name');
+        return rows.map((row) => row.name);
+      });
+
+      expect(names).toEqual(['platform_role', 'shop_a_role']);
+    });
+
+    it('bypass the policies only when app.bypass_rls is on', async () => {
+      expect(await visibleReceipts({ 'app.bypass_rls': 'on' })).toEqual(
+        [receiptA.id, receiptB.id].sort()
+      );
+      expect(await visibleReceipts({ 'app.bypass_rls': 'off' })).toEqual([]);
+    });
+  });
+
+  describe('Prisma client', () => {
+    const rawShopIds = () =>
+      testDb.db.$queryRaw<Array<{ shopId: string }>>`SELECT "shopId" FROM receipts ORDER BY "shopId"`;
+
+    it('applies the tenant setting to queries the middleware cannot see', async () => {
+      const rows = await withTenantContext(tenant(shopA), rawShopIds);
+
+      expect(rows).toEqual([{ shopId: shopA.id }]);
+    });
+
+    it('applies the tenant setting inside withTenantTransaction', async () => {
+      const rows = await withTenantContext(tenant(shopB), () =>
+        withTenantTransaction(testDb.db, (tx) =>
+          tx.$queryRaw<Array<{ shopId: string }>>`SELECT "shopId" FROM receipts`
+        )
+      );
+
+      expect(rows).toEqual([{ shopId: shopB.id }]);
+    });
+
+    it('bypasses the policies for system jobs and super admins', async () => {
+      const expected = [shopA.id, shopB.id].sort().map((shopId) => ({ shopId }));
+
+      expect(await asSystem('test', rawShopIds)).toEqual(expected);
+      expect(
+        await withTenantContext(
+          { userId: 'super', shopId: null, roles: ['super_admin'], isSuperAdmin: true },
+          rawShopIds
+        )
+      ).toEqual(expected);
+    });
+
+    it('sees no tenant rows outside any context', async () => {
+      expect(await rawShopIds()).toEqual([]);
+    });
+  });
+});
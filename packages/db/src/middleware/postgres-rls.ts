@@ -0,0 +1,109 @@
+/**
+ * Postgres Row-Level Security Session Settings
+ * Second line of defence behind the tenant isolation middleware
+ *
+ * The RLS policies (migration tenant_rls_policies) restrict tenant tables to
+ * the shop in the `app.current_shop_id` setting. This extension issues
+ * `SET LOCAL app.current_shop_id` (via set_config) in the same transaction as
+ * every query made inside a tenant context, so raw queries and nested writes
+ * that the Prisma middleware cannot see are still filtered by Postgres.
+ *
+ * The policies fail closed: queries without the setting see no tenant rows.
+ * Super admins and system jobs (asSystem) bypass them explicitly with the
+ * `app.bypass_rls` setting; code running without any context gets neither.
+ */
+
+import 'server-only';
+import { Prisma, type PrismaClient } from '@prisma/client';
+import { AsyncLocalStorage } from 'async_hooks';
+
+import { tenantContext } from './tenant-rls';
+
+// Set while a withTenantTransaction callback runs (the setting is already applied)
+const tenantTransaction = new AsyncLocalStorage<true>();
+
+/**
+ * RLS setting for the current context
+ * - { shopId }: tenant context, rows of that shop only
+ * - { bypass: true }: super admins and system jobs, unrestricted
+ * - null: no context (or a tenant context without a shop), no tenant rows
+ */
+type RlsSetting = { shopId: string } | { bypass: true };
+
+function getRlsSetting(): RlsSetting | null {
+  const context = tenantContext.getStore();
+
+  if (!context) {
+    return null;
+  }
+
+  if (context.isSuperAdmin || context.isSystem) {
+    return { bypass: true };
+  }
+
+  return context.shopId ? { shopId: context.shopId } : null;
+}
+
+function applySettingQuery(client: Prisma.TransactionClient | PrismaClient, setting: RlsSetting) {
+  // set_config(..., true) is the function form of SET LOCAL (accepts bind parameters)
+  return 'bypass' in setting
+    ? client.$executeRaw`SELECT set_config('app.bypass_rls', 'on', true)`
+    : client.$executeRaw`SELECT set_config('app.current_shop_id', ${setting.shopId}, true)`;
+}
+
+/**
+ * Create the Prisma client extension that applies the RLS session setting
+ * Each query in a tenant or system context runs as a two-statement batch
+ * transaction.
+ */
+export function createPostgresRlsExtension() {
+  return Prisma.defineExtension((client) =>
+    client.$extends({
+      name: 'postgres-rls',
+      query: {
+        async $allOperations({ args, query }) {
+          const setting = getRlsSetting();
+
+          if (!setting || tenantTransaction.getStore()) {
+            return query(args);
+          }
+
+          const [, result] = await client.$transaction([
+            applySettingQuery(client as unknown as PrismaClient, setting),
+            query(args),
+          ]);
+
+          return result;
+        },
+      },
+    })
+  );
+}
+
+/**
+ * Run an interactive transaction with the RLS session setting applied
+ * Use instead of db.$transaction(async (tx) => ...) in code that touches tenant
+ * tables; per-query batch transactions cannot nest inside it.
+ *
+ * @example
+ * await withTenantTransaction(ctx.db, async (tx) => {
+ *   await tx.voucher.update({ ... });
+ * });
+ */
+export async function withTenantTransaction<T>(
+  db: PrismaClient,
+  fn: (tx: Prisma.TransactionClient) => Promise<T>,
+  options?: { maxWait?: number; timeout?: number; isolationLevel?: Prisma.TransactionIsolationLevel }
+): Promise<T> {
+  const setting = getRlsSetting();
+
+  return tenantTransaction.run(true, () =>
+    db.$transaction(async (tx) => {
+      if (setting) {
+        await applySettingQuery(tx, setting);
+      }
+
+      return fn(tx);
+    }, options)
+  );
+}
@@ -13,11 +13,37 @@ export interface TenantContext {
   shopId: string | null;
   roles: string[];
   isSuperAdmin: boolean;
+  /** Background job or infrastructure code running outside any tenant (see asSystem) */
+  isSystem?: boolean;
 }
 
 // AsyncLocalStorage for tenant context
 export const tenantContext = new AsyncLocalStorage<TenantContext>();
 
+// Read actions (shopId is added to the where clause)
+const READ_ACTIONS: string[] = [
+  'findUnique',
+  'findFirst',
+  'findMany',
+  'findFirstOrThrow',
+  'findUniqueOrThrow',
+  'count',
+  'aggregate',
+  'groupBy',
+];
+
+/**
+ * Add a condition to a where clause without replacing existing filters
+ * Top-level keys are kept so findUnique still receives its unique selector.
+ */
+function addCondition(
+  where: Record<string, any> | undefined,
+  condition: Record<string, unknown>
+): Record<string, any> {
+  const existing = where?.AND === undefined ? [] : Array.isArray(where.AND) ? where.AND : [where.AND];
+  return { ...where, AND: [...existing, condition] };
+}
+
 // Models that require tenant isolation
 const TENANT_SCOPED_MODELS = [
   'Shop',
@@ -39,23 +65,23 @@ const TENANT_SCOPED_MODELS = [
  */
 export function createTenantIsolationMiddleware(): Prisma.Middleware {
   return async (params, next) => {
+    // Only apply to tenant-scoped models
+    if (!TENANT_SCOPED_MODELS.includes(params.model as any)) {
+      return next(params);
+    }
+
     const context = tenantContext.getStore();
 
-    // Skip middleware if no context (e.g., seeding, migrations, system operations)
+    // Skip middleware if no context (e.g., seeding, migrations, public procedures)
     if (!context) {
       console.warn(
-        '[RLS] No tenant context found. Running without isolation. This should only happen during migrations/seeding.'
+        `[RLS] No tenant context found for ${params.action} ${params.model}. Running without isolation. Use withTenantContext() or asSystem().`
       );
       return next(params);
     }
 
-    // Super admins bypass RLS for cross-tenant operations
-    if (context.isSuperAdmin) {
-      return next(params);
-    }
-
-    // Only apply to tenant-scoped models
-    if (!TENANT_SCOPED_MODELS.includes(params.model as any)) {
+    // Super admins and system jobs bypass RLS for cross-tenant operations
+    if (context.isSuperAdmin || context.isSystem) {
       return next(params);
     }
 
@@ -71,12 +97,34 @@ export function createTenantIsolationMiddleware(): Prisma.Middleware {
     }
 
     // For non-super-admin users, ensure shopId exists
-    if (!context.shopId && params.model !== 'Shop') {
+    if (!context.shopId) {
       throw new Error(
         `TENANT_REQUIRED: User ${context.userId} has no shopId. Cannot access ${params.model}.`
       );
     }
 
+    // Calls without arguments (e.g. count()) still get a where clause
+    params.args = params.args || {};
+
+    // Shop is the tenant itself: scope by primary key instead of shopId
+    if (params.model === 'Shop') {
+      if (params.action === 'create' || params.action === 'createMany') {
+        throw new Error('TENANT_FORBIDDEN: Only super admins can create shops.');
+      }
+
+      params.args.where = addCondition(params.args.where, { id: context.shopId });
+      return next(params);
+    }
+
+    // Roles: system roles (shopId null) are readable by every tenant, but only
+    // the tenant's own roles can be written
+    if (params.model === 'Role' && READ_ACTIONS.includes(params.action)) {
+      params.args.where = addCondition(params.args.where, {
+        OR: [{ shopId: context.shopId }, { shopId: null }],
+      });
+      return next(params);
+    }
+
     // Inject shopId filter based on action
     switch (params.action) {
       case 'findUnique':
@@ -158,12 +206,36 @@ export function createTenantIsolationMiddleware(): Prisma.Middleware {
 
 /**
  * Helper to run code within a tenant context
+ * fn's result is awaited inside the context: Prisma queries are lazy, so a
+ * query returned without await would otherwise run outside it.
  */
 export async function withTenantContext<T>(
   context: TenantContext,
   fn: () => Promise<T>
 ): Promise<T> {
-  return tenantContext.run(context, fn);
+  return tenantContext.run(context, async () => fn());
+}
+
+/**
+ * Run code as the system, outside any tenant (scheduled jobs, workers)
+ * Tenant isolation is bypassed explicitly instead of silently.
+ *
+ * @param actor - Name of the job, used as the context userId
+ *
+ * @example
+ * await asSystem('gdpr-retention', () => runRetentionSweep(prisma));
+ */
+export async function asSystem<T>(actor: string, fn: () => Promise<T>): Promise<T> {
+  return withTenantContext(
+    {
+      userId: `system:${actor}`,
+      shopId: null,
+      roles: [],
+      isSuperAdmin: false,
+      isSystem: true,
+    },
+    fn
+  );
 }
 
 /**
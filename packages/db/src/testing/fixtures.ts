@@ -0,0 +1,114 @@
+/**
+ * Test Fixtures
+ * Minimal valid rows, created as the system (outside any tenant)
+ */
+
+import { createHash, randomUUID } from 'crypto';
+import type { PermissionScope, PrismaClient, Receipt, Shop, User, Voucher } from '@prisma/client';
+
+import { asSystem } from '../middleware/tenant-rls';
+
+export function createTestShop(db: PrismaClient, slug: string): Promise<Shop> {
+  return asSystem('test-fixtures', () =>
+    db.shop.create({
+      data: {
+        slug,
+        name: `Shop ${slug}`,
+        email: `owner@${slug}.test`,
+        country: 'DE',
+      },
+    })
+  );
+}
+
+export function createTestUser(
+  db: PrismaClient,
+  shopId: string | null,
+  email = `${randomUUID()}@example.test`
+): Promise<User> {
+  return asSystem('test-fixtures', () =>
+    db.user.create({
+      data: {
+        shopId,
+        email,
+        passwordHash: 'not-a-real-hash',
+        firstName: 'Test',
+        lastName: 'User',
+      },
+    })
+  );
+}
+
+export function createTestReceipt(
+  db: PrismaClient,
+  shopId: string,
+  userId: string,
+  data: Partial<Pick<Receipt, 'status' | 'merchantName' | 'fileHash' | 'deletedAt'>> = {}
+): Promise<Receipt> {
+  const id = randomUUID();
+
+  return asSystem('test-fixtures', () =>
+    db.receipt.create({
+      data: {
+        shopId,
+        userId,
+        minioPath: `receipts/${id}.jpg`,
+        fileHash: createHash('sha256').update(id).digest('hex'),
+        scheduledDeleteAt: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000),
+        ...data,
+      },
+    })
+  );
+}
+
+/**
+ * Give a user a new shop role holding the given permissions
+ * (grants cover the whole shop unless a scope is given)
+ */
+export async function grantTestPermissions(
+  db: PrismaClient,
+  userId: string,
+  shopId: string | null,
+  permissions: Array<[module: string, action: string, scope?: PermissionScope]>
+): Promise<void> {
+  await asSystem('test-fixtures', async () => {
+    const role = await db.role.create({
+      data: { shopId, name: `role-${randomUUID()}`, displayName: 'Test role' },
+    });
+
+    for (const [module, action, scope] of permissions) {
+      const permission = await db.permission.upsert({
+        where: { module_action: { module, action } },
+        create: { module, action, description: `${module}:${action}` },
+        update: {},
+      });
+
+      await db.rolePermission.create({
+        data: { roleId: role.id, permissionId: permission.id, scope },
+      });
+    }
+
+    await db.userRole.create({ data: { userId, roleId: role.id } });
+  });
+}
+
+export function createTestVoucher(
+  db: PrismaClient,
+  shopId: string,
+  data: Partial<Pick<Voucher, 'maxUses' | 'usedCount' | 'status' | 'receiptId'>> = {}
+): Promise<Voucher> {
+  return asSystem('test-fixtures', () =>
+    db.voucher.create({
+      data: {
+        shopId,
+        code: `TEST-${randomUUID().slice(0, 8).toUpperCase()}`,
+        type: 'DISCOUNT',
+        discountAmount: 5,
+        description: 'Test voucher',
+        validFrom: new Date(Date.now() - 60 * 60 * 1000),
+        validUntil: new Date(Date.now() + 24 * 60 * 60 * 1000),
+        ...data,
+      },
+    })
+  );
+}
@@ -0,0 +1,120 @@
+/**
+ * Test Database Harness
+ *
+ * Throwaway Postgres for integration tests: an in-memory PGlite database with
+ * every migration in prisma/migrations applied, and a Prisma client with the
+ * same middleware as the application client (tenant isolation, encryption and
+ * the Postgres RLS session settings).
+ *
+ * The client runs on Prisma's WebAssembly query engine through the PGlite
+ * driver adapter, so tests need neither a Postgres server nor native engines.
+ * Test processes must preload the loader hook for the engine:
+ * node --import @shop-rewards/db/testing/register (see vitest.config.ts).
+ *
+ * Migrations run as a non-superuser role that owns the tables, like the
+ * application role in production, so the RLS policies apply (superusers
+ * always bypass them). Either layer of tenant isolation can be switched off
+ * to test the other on its own (see TestDatabaseOptions).
+ *
+ * @example
+ * const testDb = await createTestDatabase();
+ * const shop = await createTestShop(testDb.db, 'shop-a');
+ * await testDb.close();
+ */
+
+import { readdirSync, readFileSync } from 'fs';
+import path from 'path';
+import { PGlite } from '@electric-sql/pglite';
+import { pgcrypto } from '@electric-sql/pglite/contrib/pgcrypto';
+import { PrismaClient as WasmPrismaClient } from '@prisma/client/wasm';
+import type { PrismaClient } from '@prisma/client';
+import { PrismaPGlite } from 'pglite-prisma-adapter';
+
+import { applyMiddleware } from '../client';
+import { createEncryptionMiddleware } from '../middleware/encryption';
+import { createPostgresRlsExtension } from '../middleware/postgres-rls';
+
+export {
+  createTestReceipt,
+  createTestShop,
+  createTestUser,
+  createTestVoucher,
+  grantTestPermissions,
+} from './fixtures';
+
+const MIGRATIONS_DIR = path.resolve(__dirname, '../../prisma/migrations');
+
+/**
+ * Role the tests connect as (owns the tables, not a superuser)
+ */
+const APP_ROLE = 'shop_rewards_app';
+
+export interface TestDatabaseOptions {
+  /** Apply the Prisma tenant isolation middleware (default true) */
+  tenantIsolation?: boolean;
+  /** Connect as the application role so the RLS policies apply (default true) */
+  rowLevelSecurity?: boolean;
+}
+
+export interface TestDatabase {
+  /** Application client (middleware and RLS extension applied) */
+  db: PrismaClient;
+  /** Raw connection, as the application role (a superuser without rowLevelSecurity) */
+  pglite: PGlite;
+  close(): Promise<void>;
+}
+
+/**
+ * Migration directories in the order `prisma migrate deploy` applies them
+ */
+export function listMigrations(): string[] {
+  return readdirSync(MIGRATIONS_DIR, { withFileTypes: true })
+    .filter((entry) => entry.isDirectory())
+    .map((entry) => entry.name)
+    .sort();
+}
+
+/**
+ * Create an empty database with all migrations applied
+ */
+export async function createTestDatabase(options: TestDatabaseOptions = {}): Promise<TestDatabase> {
+  const { tenantIsolation = true, rowLevelSecurity = true } = options;
+  const pglite = new PGlite({ extensions: { pgcrypto } });
+
+  // Extensions need a superuser; the migration's CREATE EXTENSION IF NOT EXISTS is then a no-op
+  await pglite.exec(`
+    CREATE EXTENSION IF NOT EXISTS "pgcrypto";
+    CREATE ROLE ${APP_ROLE};
+    GRANT ALL ON SCHEMA public TO ${APP_ROLE};
+    SET ROLE ${APP_ROLE};
+  `);
+
+  for (const migration of listMigrations()) {
+    await pglite.exec(readFileSync(path.join(MIGRATIONS_DIR, migration, 'migration.sql'), 'utf8'));
+  }
+
+  // Back to the superuser, which bypasses the policies
+  if (!rowLevelSecurity) {
+    await pglite.exec('RESET ROLE');
+  }
+
+  const client = new WasmPrismaClient({ adapter: new PrismaPGlite(pglite) }) as unknown as PrismaClient;
+  let db: PrismaClient;
+
+  if (tenantIsolation) {
+    db = applyMiddleware(client);
+  } else {
+    // applyMiddleware without the tenant isolation middleware
+    client.$use(createEncryptionMiddleware());
+    db = client.$extends(createPostgresRlsExtension()) as unknown as PrismaClient;
+  }
+
+  return {
+    db,
+    pglite,
+    close: async () => {
+      await client.$disconnect();
+      await pglite.close();
+    },
+  };
+}
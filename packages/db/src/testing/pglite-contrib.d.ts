@@ -0,0 +1,5 @@
+// The package only exposes contrib extensions through "exports", which the
+// repo's moduleResolution ("node") does not read; point at the bundled types
+declare module '@electric-sql/pglite/contrib/pgcrypto' {
+  export { pgcrypto } from '@electric-sql/pglite/dist/contrib/pgcrypto';
+}
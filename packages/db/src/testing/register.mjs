@@ -0,0 +1,8 @@
+/**
+ * Registers the WebAssembly loader hook (see wasm-loader.mjs)
+ * Preload in test processes: node --import @shop-rewards/db/testing/register
+ */
+
+import { register } from 'node:module';
+
+register('./wasm-loader.mjs', import.meta.url);
@@ -0,0 +1,22 @@
+/**
+ * Module loader hook for Prisma's WebAssembly query engine
+ *
+ * The generated wasm client imports query_engine_bg.wasm and expects a
+ * compiled WebAssembly.Module, as edge runtimes provide. Node cannot import
+ * .wasm files that way, so the hook serves a module exporting one.
+ */
+
+export async function load(url, context, nextLoad) {
+  if (url.endsWith('/query_engine_bg.wasm')) {
+    return {
+      format: 'module',
+      shortCircuit: true,
+      source: [
+        "import { readFileSync } from 'node:fs';",
+        `export default new WebAssembly.Module(readFileSync(new URL(${JSON.stringify(url)})));`,
+      ].join('\n'),
+    };
+  }
+
+  return nextLoad(url, context);
+}
@@ -0,0 +1,27 @@
+import { createRequire } from 'module';
+import path from 'path';
+import { defineConfig } from 'vitest/config';
+
+const require = createRequire(import.meta.url);
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      // Marker package that throws outside React Server Components
+      'server-only': path.join(path.dirname(require.resolve('server-only')), 'empty.js'),
+    },
+  },
+  test: {
+    include: ['src/**/*.test.ts'],
+    pool: 'forks',
+    poolOptions: {
+      // Loader hook for Prisma's WebAssembly query engine (see src/testing)
+      forks: { execArgv: ['--import', './src/testing/register.mjs'] },
+    },
+    env: {
+      ENCRYPTION_KEY: '0'.repeat(64),
+    },
+    testTimeout: 30000,
+    hookTimeout: 60000,
+  },
+});
@@ -21,6 +21,9 @@ export const SESSION_CONFIG = {
   ACCESS_TOKEN_TTL: 15 * 60, // 15 minutes in seconds
   REFRESH_TOKEN_TTL: 7 * 24 * 60 * 60, // 7 days in seconds
   MFA_TOKEN_LENGTH: 6,
+  ACTIVITY_UPDATE_INTERVAL: 60, // Seconds between Session.lastActivityAt writes
+  REVOKED_RETENTION_DAYS: 30, // Revoked/expired sessions are kept this long for reuse detection and history
+  CLEANUP_CRON: '30 3 * * *', // Daily at 3:30 AM
 } as const;
 
 // Rate limiting
@@ -29,6 +32,10 @@ export const RATE_LIMITS = {
     maxRequests: 5,
     windowSeconds: 10 * 60, // 10 minutes
   },
+  LOGIN_ATTEMPTS_PER_IP: {
+    maxRequests: 20,
+    windowSeconds: 10 * 60, // 10 minutes
+  },
   API_REQUESTS: {
     maxRequests: 100,
     windowSeconds: 60, // 1 minute
@@ -41,6 +48,28 @@ export const RATE_LIMITS = {
     maxRequests: 3,
     windowSeconds: 60, // 1 minute
   },
+  PASSWORD_RESET: {
+    maxRequests: 5,
+    windowSeconds: 60 * 60, // 1 hour
+  },
+  VERIFICATION_EMAIL: {
+    maxRequests: 3,
+    windowSeconds: 60 * 60, // 1 hour
+  },
+} as const;
+
+// Login lockout (thresholds are RATE_LIMITS.LOGIN_ATTEMPTS / LOGIN_ATTEMPTS_PER_IP)
+export const LOCKOUT_CONFIG = {
+  BASE_LOCK_SECONDS: 5 * 60, // First lockout; doubles with every further lockout
+  MAX_LOCK_SECONDS: 24 * 60 * 60,
+  IP_LOCKOUT_MEMORY_SECONDS: 24 * 60 * 60, // How long an IP's previous lockouts raise its backoff
+  UNLOCK_TOKEN_TTL: 60 * 60, // 1 hour
+} as const;
+
+// Emailed password reset and email verification links
+export const EMAIL_TOKEN_CONFIG = {
+  PASSWORD_RESET_TTL: 60 * 60, // 1 hour
+  EMAIL_VERIFICATION_TTL: 48 * 60 * 60, // 48 hours
 } as const;
 
 // GDPR configuration
@@ -49,6 +78,24 @@ export const GDPR_CONFIG = {
   MIN_RETENTION_DAYS: 1,
   MAX_RETENTION_DAYS: 365,
   AUTO_DELETE_CRON: '0 2 * * *', // Daily at 2 AM
+  HARD_DELETE_GRACE_DAYS: 7, // Soft-deleted receipts are purged after this many days
+  SWEEP_BATCH_SIZE: 200,
+  REPORT_HORIZON_DAYS: 7, // Default look-ahead of the dry-run report
+  REQUEST_DEADLINE_DAYS: 30, // Art. 12(3): respond to data subject requests within one month
+} as const;
+
+// Audit log explorer
+export const AUDIT_LOG_CONFIG = {
+  EXPORT_MAX_ROWS: 10000, // Larger exports must be narrowed with filters
+  EXPORT_BATCH_SIZE: 1000,
+  PLATFORM_CHAIN_ID: 'platform', // Hash chain of entries without a shop
+  VERIFY_BATCH_SIZE: 1000,
+  CHECKPOINT_CRON: '0 * * * *', // Hourly signed checkpoint of every chain head
+} as const;
+
+// Campaign lifecycle
+export const CAMPAIGN_CONFIG = {
+  TRANSITIONS_CRON: '* * * * *', // Every minute: start and end campaigns on their dates
 } as const;
 
 // OCR configuration
@@ -67,6 +114,12 @@ export const VOUCHER_CONFIG = {
   QR_CODE_SIZE: 256, // pixels
 } as const;
 
+// Redemption configuration
+export const REDEMPTION_CONFIG = {
+  DEFAULT_HIGH_VALUE_THRESHOLD: 100, // Redemptions above this value need approval
+  MAX_BULK_REVIEW: 100,
+} as const;
+
 // Pagination defaults
 export const PAGINATION = {
   DEFAULT_LIMIT: 20,
@@ -80,6 +133,7 @@ export const STORAGE_CONFIG = {
   RECEIPT_SUFFIX: 'receipts',
   AD_SUFFIX: 'ads',
   LOGO_SUFFIX: 'logos',
+  EXPORT_SUFFIX: 'exports',
   LIFECYCLE_DAYS: 30,
 } as const;
 
@@ -89,8 +143,25 @@ export const CACHE_KEYS = {
     shopId ? `tenant:${shopId}:session:${sessionId}` : `session:${sessionId}`,
   RATE_LIMIT: (shopId: string, userId: string, endpoint: string) =>
     `tenant:${shopId}:ratelimit:user:${userId}:${endpoint}`,
+  // Callers without a shop: super admins (user:<id>) and anonymous clients (ip:<address>)
+  RATE_LIMIT_GLOBAL: (subject: string, endpoint: string) =>
+    `ratelimit:${subject}:${endpoint}`,
   VOUCHER: (shopId: string, code: string) =>
     `tenant:${shopId}:voucher:${code}`,
+  // Pub/sub channel of WebSocketEvents (platform-wide events have no shop)
+  EVENTS: (shopId: string | null) =>
+    shopId ? `tenant:${shopId}:events` : 'platform:events',
+  // Effective permission set (keys and grant scopes), keyed by the permission versions it was built from
+  USER_PERMISSIONS: (shopId: string | null, userId: string, version: string) =>
+    shopId
+      ? `tenant:${shopId}:permissions:set:user:${userId}:v${version}`
+      : `permissions:set:user:${userId}:v${version}`,
+  // Bumped when a role's permissions change (platform roles have no shop)
+  PERMISSIONS_VERSION: (shopId: string | null) =>
+    shopId ? `tenant:${shopId}:permissions:version` : 'permissions:version',
+  // Bumped when a user's role assignments change
+  USER_PERMISSIONS_VERSION: (userId: string) =>
+    `permissions:version:user:${userId}`,
 } as const;
 
 // RabbitMQ routing keys
@@ -49,6 +49,10 @@ export const PERMISSIONS: Permission[] = [
   { module: 'vouchers', action: 'approve', description: 'Approve voucher' },
   { module: 'vouchers', action: 'redeem', description: 'Redeem voucher' },
 
+  // Redemption management
+  { module: 'redemptions', action: 'view', description: 'View redemptions' },
+  { module: 'redemptions', action: 'approve_high_value', description: 'Approve or reject high-value redemptions' },
+
   // Campaign management
   { module: 'campaigns', action: 'create', description: 'Create campaign' },
   { module: 'campaigns', action: 'read', description: 'View campaigns' },
@@ -97,6 +101,39 @@ export const PERMISSIONS: Permission[] = [
   { module: 'billing', action: 'view_all', description: 'View all tenants billing' },
 ];
 
+/**
+ * Which records a permission grant covers, narrowest first
+ * (mirrors the PermissionScope enum in the database schema)
+ */
+export const PERMISSION_SCOPES = ['OWN', 'DEPARTMENT', 'LOCATION', 'SHOP'] as const;
+
+export type PermissionScope = (typeof PERMISSION_SCOPES)[number];
+
+/**
+ * Modules whose endpoints enforce grant scopes on the records they read and change
+ * (grants in other modules always cover the whole shop)
+ */
+export const SCOPABLE_PERMISSION_MODULES = ['receipts', 'redemptions', 'vouchers', 'users'];
+
+/**
+ * Legacy ownership actions: 'receipts:read_own' grants 'receipts:read' with OWN scope
+ */
+export const OWN_ACTION_SUFFIX = '_own';
+
+/**
+ * Whether grants in a module can be narrowed below SHOP
+ */
+export function isScopableModule(module: string): boolean {
+  return SCOPABLE_PERMISSION_MODULES.includes(module);
+}
+
+/**
+ * The wider of two scopes
+ */
+export function widestScope(a: PermissionScope, b: PermissionScope): PermissionScope {
+  return PERMISSION_SCOPES.indexOf(a) >= PERMISSION_SCOPES.indexOf(b) ? a : b;
+}
+
 /**
  * Role definition
  */
@@ -138,6 +175,8 @@ export const DEFAULT_ROLES: RoleDefinition[] = [
       'vouchers:update',
       'vouchers:delete',
       'vouchers:approve',
+      'redemptions:view',
+      'redemptions:approve_high_value',
       'campaigns:create',
       'campaigns:read',
       'campaigns:update',
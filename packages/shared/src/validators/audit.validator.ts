@@ -0,0 +1,46 @@
+import { z } from 'zod';
+
+/**
+ * Audit log filters (shared by the explorer list and the export)
+ * shopId is honoured for super admins only; shop admins always see their own shop.
+ */
+export const auditLogFiltersSchema = z.object({
+  shopId: z.string().cuid().optional(),
+  userId: z.string().cuid().optional(),
+  userEmail: z.string().trim().max(255).optional(), // Partial match, also on erased users
+  action: z.string().max(50).optional(),
+  resource: z.string().max(50).optional(),
+  resourceId: z.string().max(100).optional(),
+  dateFrom: z.string().datetime().optional(),
+  dateTo: z.string().datetime().optional(),
+  isSuspicious: z.boolean().optional(),
+});
+
+export type AuditLogFilters = z.infer<typeof auditLogFiltersSchema>;
+
+/**
+ * Audit log list (cursor pagination, newest first)
+ * `cursor` is the ID of the last entry of the previous page.
+ */
+export const auditLogListSchema = auditLogFiltersSchema.extend({
+  cursor: z.string().cuid().optional(),
+  limit: z.number().int().min(1).max(100).default(50),
+});
+
+export type AuditLogListInput = z.infer<typeof auditLogListSchema>;
+
+/**
+ * Audit log export format
+ */
+export const auditLogExportFormatSchema = z.enum(['csv', 'jsonl']);
+
+export type AuditLogExportFormat = z.infer<typeof auditLogExportFormatSchema>;
+
+/**
+ * Audit log export
+ */
+export const auditLogExportSchema = auditLogFiltersSchema.extend({
+  format: auditLogExportFormatSchema,
+});
+
+export type AuditLogExportInput = z.infer<typeof auditLogExportSchema>;
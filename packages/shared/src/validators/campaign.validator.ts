@@ -40,6 +40,18 @@ export const rewardRuleSchema = z.object({
 
 export type RewardRule = z.infer<typeof rewardRuleSchema>;
 
+/**
+ * Campaign rules schema (persisted in Campaign.rules JSON column)
+ */
+export const campaignRulesSchema = z.object({
+  rewardRules: z.array(rewardRuleSchema).min(1, 'At least one reward rule is required'),
+  budget: z.number().min(0).optional(),
+  maxParticipants: z.number().int().min(1).optional(),
+  maxRewardsPerUser: z.number().int().min(1).default(1),
+});
+
+export type CampaignRules = z.infer<typeof campaignRulesSchema>;
+
 /**
  * Create campaign schema
  */
@@ -0,0 +1,79 @@
+import { z } from 'zod';
+
+/**
+ * Retention dry-run report filters
+ * Lists receipts the retention sweeper will delete within the next `days` days
+ */
+export const retentionReportSchema = z.object({
+  shopId: z.string().cuid().optional(),
+  days: z.number().int().min(0).max(365).default(7),
+  limit: z.number().int().min(1).max(200).default(100),
+});
+
+export type RetentionReportInput = z.infer<typeof retentionReportSchema>;
+
+/**
+ * Manual retention sweep
+ */
+export const runRetentionSweepSchema = z.object({
+  shopId: z.string().cuid().optional(),
+});
+
+export type RunRetentionSweepInput = z.infer<typeof runRetentionSweepSchema>;
+
+/**
+ * Data subject request type
+ */
+export const gdprRequestTypeSchema = z.enum(['EXPORT', 'ERASURE']);
+
+export type GdprRequestType = z.infer<typeof gdprRequestTypeSchema>;
+
+/**
+ * Data subject request status
+ */
+export const gdprRequestStatusSchema = z.enum([
+  'PENDING',
+  'PROCESSING',
+  'COMPLETED',
+  'REJECTED',
+  'FAILED',
+]);
+
+export type GdprRequestStatus = z.infer<typeof gdprRequestStatusSchema>;
+
+/**
+ * Create a data subject request
+ * userId defaults to the requesting user
+ */
+export const createGdprRequestSchema = z.object({
+  type: gdprRequestTypeSchema,
+  userId: z.string().cuid().optional(),
+  reason: z.string().max(1000).optional(),
+});
+
+export type CreateGdprRequest = z.infer<typeof createGdprRequestSchema>;
+
+/**
+ * Reject a data subject request
+ */
+export const rejectGdprRequestSchema = z.object({
+  requestId: z.string().cuid(),
+  reason: z.string().min(1, 'Reason is required').max(1000),
+});
+
+export type RejectGdprRequest = z.infer<typeof rejectGdprRequestSchema>;
+
+/**
+ * Data subject request filters
+ */
+export const gdprRequestFiltersSchema = z.object({
+  shopId: z.string().cuid().optional(),
+  userId: z.string().cuid().optional(),
+  type: gdprRequestTypeSchema.optional(),
+  status: gdprRequestStatusSchema.optional(),
+  overdue: z.boolean().optional(),
+  limit: z.number().int().min(1).max(100).default(20),
+  offset: z.number().int().min(0).default(0),
+});
+
+export type GdprRequestFilters = z.infer<typeof gdprRequestFiltersSchema>;
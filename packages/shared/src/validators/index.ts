@@ -21,5 +21,14 @@ export * from './campaign.validator';
 // Ad validators
 export * from './ad.validator';
 
+// GDPR validators
+export * from './gdpr.validator';
+
+// Audit log validators
+export * from './audit.validator';
+
+// Role validators
+export * from './role.validator';
+
 // Wizard validators
 export * from './wizard.validator';
@@ -8,6 +8,7 @@ export const receiptStatusSchema = z.enum([
   'OCR_PROCESSING',
   'OCR_COMPLETED',
   'OCR_FAILED',
+  'MANUAL_REVIEW', // OCR confidence below OCR_CONFIG.MIN_CONFIDENCE_SCORE
   'VERIFIED',
   'REJECTED',
   'FRAUDULENT',
@@ -54,6 +55,7 @@ export type UploadReceiptInput = z.infer<typeof uploadReceiptSchema>;
  * OCR result schema
  */
 export const ocrResultSchema = z.object({
+  receiptNumber: z.string().optional(),
   merchantName: z.string().optional(),
   merchantAddress: z.string().optional(),
   date: z.string().datetime().optional(),
@@ -74,6 +76,18 @@ export const ocrResultSchema = z.object({
 
 export type OcrResult = z.infer<typeof ocrResultSchema>;
 
+/**
+ * Fraud rule result (one entry per rule in Receipt.fraudDetails)
+ */
+export const fraudRuleResultSchema = z.object({
+  rule: z.string(),
+  weight: z.number().min(0).max(100),
+  triggered: z.boolean(),
+  reason: z.string().nullable(),
+});
+
+export type FraudRuleResult = z.infer<typeof fraudRuleResultSchema>;
+
 /**
  * Update receipt with OCR results
  */
@@ -0,0 +1,92 @@
+import { z } from 'zod';
+
+/**
+ * Role name (unique per shop, used in code and seeds)
+ */
+export const roleNameSchema = z
+  .string()
+  .min(2, 'Name must be at least 2 characters')
+  .max(50)
+  .regex(/^[a-z][a-z0-9_]*$/, 'Name may only contain lowercase letters, digits and underscores');
+
+/**
+ * Permission key (module:action)
+ */
+export const permissionKeySchema = z
+  .string()
+  .regex(/^[a-z_]+:[a-z_]+$/, 'Permission must be in the form module:action');
+
+const permissionKeysSchema = z.array(permissionKeySchema).max(200);
+
+/**
+ * Records a permission grant covers, narrowest first
+ */
+export const permissionScopeSchema = z.enum(['OWN', 'DEPARTMENT', 'LOCATION', 'SHOP']);
+
+/**
+ * Narrowed grants by permission key (keys not listed cover the whole shop)
+ */
+const permissionScopesSchema = z.record(permissionKeySchema, permissionScopeSchema);
+
+/**
+ * List roles
+ * shopId is honoured for super admins only; shop admins always see their own shop.
+ */
+export const listRolesSchema = z.object({
+  shopId: z.string().cuid().optional(),
+});
+
+export type ListRolesInput = z.infer<typeof listRolesSchema>;
+
+/**
+ * Create a tenant role
+ */
+export const createRoleSchema = z.object({
+  shopId: z.string().cuid().optional(), // Super admins only; defaults to the caller's shop
+  name: roleNameSchema,
+  displayName: z.string().trim().min(1).max(100),
+  description: z.string().trim().max(500).optional(),
+  permissions: permissionKeysSchema,
+  scopes: permissionScopesSchema.default({}),
+});
+
+export type CreateRoleInput = z.infer<typeof createRoleSchema>;
+
+/**
+ * Clone a role (system roles included) into a new tenant role
+ */
+export const cloneRoleSchema = z.object({
+  id: z.string().cuid(),
+  shopId: z.string().cuid().optional(), // Super admins only; defaults to the source role's shop
+  name: roleNameSchema,
+  displayName: z.string().trim().min(1).max(100),
+});
+
+export type CloneRoleInput = z.infer<typeof cloneRoleSchema>;
+
+/**
+ * Edit a tenant role (omitted fields are left unchanged)
+ */
+export const updateRoleSchema = z.object({
+  id: z.string().cuid(),
+  displayName: z.string().trim().min(1).max(100).optional(),
+  description: z.string().trim().max(500).nullable().optional(),
+  permissions: permissionKeysSchema.optional(),
+  scopes: permissionScopesSchema.optional(), // Replaces all scopes, so only sent with permissions
+}).refine(
+  (data) => !data.scopes || !!data.permissions,
+  { message: 'Scopes must be sent together with permissions', path: ['scopes'] }
+);
+
+export type UpdateRoleInput = z.infer<typeof updateRoleSchema>;
+
+/**
+ * Preview who gains or loses access if a role's permissions are replaced
+ */
+export const previewRoleChangeSchema = z.object({
+  id: z.string().cuid(),
+  permissions: permissionKeysSchema,
+  scopes: permissionScopesSchema.default({}),
+});
+
+export type PreviewRoleChangeInput = z.infer<typeof previewRoleChangeSchema>;
@@ -117,3 +117,54 @@ export const voucherFiltersSchema = z.object({
 });
 
 export type VoucherFilters = z.infer<typeof voucherFiltersSchema>;
+
+/**
+ * Redemption status enum
+ */
+export const redemptionStatusSchema = z.enum([
+  'PENDING',
+  'APPROVED',
+  'REJECTED',
+  'COMPLETED',
+  'CANCELLED',
+]);
+
+export type RedemptionStatus = z.infer<typeof redemptionStatusSchema>;
+
+/**
+ * Bulk approve/reject high-value redemptions schema
+ */
+export const reviewRedemptionsSchema = z.object({
+  redemptionIds: z.array(z.string().cuid()).min(1, 'Select at least one redemption').max(100),
+  decision: z.enum(['APPROVED', 'REJECTED']),
+  reason: z.string().max(500).optional(),
+}).refine(
+  (data) => data.decision !== 'REJECTED' || !!data.reason?.trim(),
+  { message: 'A reason is required when rejecting', path: ['reason'] }
+);
+
+export type ReviewRedemptionsInput = z.infer<typeof reviewRedemptionsSchema>;
+
+/**
+ * Per-shop redemption settings schema
+ */
+export const redemptionSettingsSchema = z.object({
+  shopId: z.string().cuid(),
+  highValueThreshold: z.number().min(0),
+});
+
+export type RedemptionSettingsInput = z.infer<typeof redemptionSettingsSchema>;
+
+/**
+ * Redemption query filters
+ */
+export const redemptionFiltersSchema = z.object({
+  shopId: z.string().cuid().optional(),
+  userId: z.string().cuid().optional(),
+  status: redemptionStatusSchema.optional(),
+  highValueOnly: z.boolean().default(false),
+  limit: z.number().int().min(1).max(100).default(20),
+  offset: z.number().int().min(0).default(0),
+});
+
+export type RedemptionFilters = z.infer<typeof redemptionFiltersSchema>;
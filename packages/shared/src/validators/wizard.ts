@@ -62,6 +62,7 @@ export const securitySchema = z.object({
   maxConcurrentSessions: z.number().min(1).max(10),
   ipWhitelist: z.string().optional(),
   dataRetentionDays: z.number().min(1).max(3650),
+  mfaRequired: z.boolean().optional(),
 });
 
 export type Security = z.infer<typeof securitySchema>;